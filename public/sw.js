@@ -0,0 +1,49 @@
+// Service worker for referral web push notifications.
+// Payloads are sent by the push-notifications edge function: { title, message, type, referralId, url }.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    payload = { title: 'Referral update', message: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.message,
+      icon: '/favicon.ico',
+      badge: '/favicon.ico',
+      tag: payload.referralId ? `referral-${payload.referralId}` : undefined,
+      renotify: Boolean(payload.referralId),
+      // Emergencies stay on screen until someone acts on them
+      requireInteraction: payload.type === 'emergency',
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -5,11 +5,15 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { NotificationContextProvider } from "@/contexts/NotificationContext";
+import { ReferralRealtimeProvider } from "@/contexts/ReferralRealtimeContext";
 import EmergencyAlertOverlay from "@/components/EmergencyAlertOverlay";
 import AIChatWidget from "@/components/AIChatWidget";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import { ADMIN_DASHBOARD_PERMISSIONS } from "@/lib/permissions";
 import Landing from "./pages/Landing";
 import Login from "./pages/Login";
+import SetPassword from "./pages/SetPassword";
+import MfaRequired from "./pages/MfaRequired";
 import Dashboard from "./pages/Dashboard";
 import CreateReferral from "./pages/CreateReferral";
 import SentReferrals from "./pages/SentReferrals";
@@ -30,6 +34,7 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
+      <ReferralRealtimeProvider>
       <NotificationContextProvider>
         <TooltipProvider>
           <Toaster />
@@ -40,6 +45,8 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Landing />} />
             <Route path="/login" element={<Login />} />
+            <Route path="/set-password" element={<SetPassword />} />
+            <Route path="/mfa-required" element={<MfaRequired />} />
             <Route
               path="/dashboard"
               element={
@@ -51,7 +58,7 @@ const App = () => (
             <Route
               path="/create-referral"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute permission="referrals.create">
                   <CreateReferral />
                 </ProtectedRoute>
               }
@@ -91,7 +98,7 @@ const App = () => (
             <Route
               path="/admin"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute permission={ADMIN_DASHBOARD_PERMISSIONS}>
                   <AdminDashboard />
                 </ProtectedRoute>
               }
@@ -115,7 +122,7 @@ const App = () => (
             <Route
               path="/templates"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute permission="referrals.create">
                   <ReferralTemplates />
                 </ProtectedRoute>
               }
@@ -123,7 +130,7 @@ const App = () => (
             <Route
               path="/followups"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute permission="referrals.collaborate">
                   <PatientFollowups />
                 </ProtectedRoute>
               }
@@ -149,6 +156,7 @@ const App = () => (
           </BrowserRouter>
         </TooltipProvider>
       </NotificationContextProvider>
+      </ReferralRealtimeProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { ArrowRight, Check, Loader2, MessageSquare, RefreshCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { StatusBadge } from '@/components/StatusBadge';
+import { useAuth } from '@/contexts/AuthContext';
+import { useReferrals } from '@/hooks/useReferrals';
+import { ChatAction, ChatActionState } from '@/hooks/useAIChat';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+interface AIChatActionCardProps {
+  action: ChatAction;
+  onResolve: (state: ChatActionState) => void;
+}
+
+// A change the assistant proposed; it only runs once the doctor confirms it here
+const AIChatActionCard = ({ action, onResolve }: AIChatActionCardProps) => {
+  const { currentUser } = useAuth();
+  const { updateReferralStatus } = useReferrals();
+  const [draft, setDraft] = useState(action.type === 'message' ? action.content : '');
+  const [working, setWorking] = useState(false);
+
+  const handleConfirm = async () => {
+    if (!currentUser) return;
+    setWorking(true);
+
+    if (action.type === 'status_change') {
+      const { error } = await updateReferralStatus(action.referralId, action.toStatus, action.reason ?? undefined);
+      setWorking(false);
+      if (!error) onResolve('confirmed');
+      return;
+    }
+
+    const { error } = await supabase.from('referral_messages').insert({
+      referral_id: action.referralId,
+      sender_id: currentUser.id,
+      message: draft.trim(),
+    });
+    setWorking(false);
+
+    if (error) {
+      console.error('Error sending message:', error);
+      toast.error('Failed to send message');
+      return;
+    }
+    toast.success('Message sent');
+    onResolve('confirmed');
+  };
+
+  const resolved = !!action.state;
+
+  return (
+    <div className={cn('rounded-lg border border-border bg-card p-3 text-sm space-y-2', resolved && 'opacity-70')}>
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        {action.type === 'status_change'
+          ? <RefreshCw className="w-3.5 h-3.5" />
+          : <MessageSquare className="w-3.5 h-3.5" />}
+        <span className="font-medium text-foreground truncate">{action.patientName}</span>
+      </div>
+
+      {action.type === 'status_change' ? (
+        <>
+          <div className="flex items-center gap-2 flex-wrap">
+            <StatusBadge status={action.fromStatus} />
+            <ArrowRight className="w-3.5 h-3.5 text-muted-foreground" />
+            <StatusBadge status={action.toStatus} />
+          </div>
+          {action.reason && <p className="text-xs text-muted-foreground whitespace-pre-wrap">{action.reason}</p>}
+        </>
+      ) : resolved ? (
+        <p className="text-xs whitespace-pre-wrap">{draft}</p>
+      ) : (
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={2000}
+          rows={4}
+          className="text-xs"
+        />
+      )}
+
+      {resolved ? (
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          {action.state === 'confirmed' ? <Check className="w-3.5 h-3.5" /> : <X className="w-3.5 h-3.5" />}
+          {action.state === 'confirmed'
+            ? (action.type === 'status_change' ? 'Status updated' : 'Message sent')
+            : 'Dismissed'}
+        </p>
+      ) : (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            onClick={handleConfirm}
+            disabled={working || (action.type === 'message' && !draft.trim())}
+          >
+            {working && <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />}
+            {action.type === 'status_change' ? 'Confirm change' : 'Send message'}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={() => onResolve('dismissed')}
+            disabled={working}
+          >
+            Dismiss
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIChatActionCard;
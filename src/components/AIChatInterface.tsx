@@ -1,18 +1,23 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, ReactNode } from 'react';
 import { Send, Bot, User, Loader2, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
-import { ChatMessage } from '@/hooks/useAIChat';
+import { ChatActionState, ChatMessage } from '@/hooks/useAIChat';
+import AIChatActionCard from '@/components/AIChatActionCard';
 
 interface AIChatInterfaceProps {
   messages: ChatMessage[];
   isLoading: boolean;
   onSendMessage: (message: string) => void;
-  onClear: () => void;
+  onClear?: () => void;
   placeholder?: string;
   quickActions?: { label: string; message: string }[];
+  // Extra buttons beside the clear button, e.g. conversation history
+  headerActions?: ReactNode;
+  // Doctor mode: the assistant's proposals are confirmed or dismissed through this
+  onResolveAction?: (messageId: string, actionId: string, state: ChatActionState) => void;
 }
 
 const AIChatInterface = ({
@@ -22,6 +27,8 @@ const AIChatInterface = ({
   onClear,
   placeholder = 'Type your message...',
   quickActions = [],
+  headerActions,
+  onResolveAction,
 }: AIChatInterfaceProps) => {
   const [input, setInput] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -48,7 +55,7 @@ const AIChatInterface = ({
   return (
     <div className="flex flex-col h-full">
       {/* Header */}
-      <div className="flex items-center justify-between p-3 border-b border-border bg-muted/30">
+      <div className="flex items-center justify-between p-3 pr-12 border-b border-border bg-muted/30">
         <div className="flex items-center gap-2">
           <div className="w-8 h-8 rounded-full bg-primary flex items-center justify-center">
             <Bot className="w-4 h-4 text-primary-foreground" />
@@ -59,7 +66,8 @@ const AIChatInterface = ({
           </div>
         </div>
         <div className="flex items-center gap-1">
-          {messages.length > 0 && (
+          {headerActions}
+          {onClear && messages.length > 0 && (
             <Button variant="ghost" size="sm" onClick={onClear}>
               <Trash2 className="w-4 h-4" />
             </Button>
@@ -109,17 +117,26 @@ const AIChatInterface = ({
                     <Bot className="w-4 h-4 text-primary-foreground" />
                   </div>
                 )}
-                <div
-                  className={cn(
-                    'max-w-[80%] rounded-lg px-3 py-2 text-sm',
-                    message.role === 'user'
-                      ? 'bg-primary text-primary-foreground'
-                      : 'bg-muted'
-                  )}
-                >
-                  {message.content || (
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                  )}
+                <div className="max-w-[80%] space-y-2">
+                  <div
+                    className={cn(
+                      'rounded-lg px-3 py-2 text-sm',
+                      message.role === 'user'
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-muted'
+                    )}
+                  >
+                    {message.content || (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    )}
+                  </div>
+                  {onResolveAction && message.actions?.map(action => (
+                    <AIChatActionCard
+                      key={action.id}
+                      action={action}
+                      onResolve={(state) => onResolveAction(message.id, action.id, state)}
+                    />
+                  ))}
                 </div>
                 {message.role === 'user' && (
                   <div className="w-7 h-7 rounded-full bg-secondary flex items-center justify-center flex-shrink-0">
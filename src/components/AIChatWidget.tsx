@@ -1,11 +1,12 @@
 import { useState } from 'react';
-import { MessageCircle, X, KeyRound } from 'lucide-react';
+import { MessageCircle, X, KeyRound, History, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/contexts/AuthContext';
 import { useAIChat } from '@/hooks/useAIChat';
 import AIChatInterface from '@/components/AIChatInterface';
+import ChatConversationList from '@/components/ChatConversationList';
 import { cn } from '@/lib/utils';
 
 const AIChatWidget = () => {
@@ -13,6 +14,7 @@ const AIChatWidget = () => {
   const [activeTab, setActiveTab] = useState<'patient' | 'doctor'>('patient');
   const [patientCode, setPatientCode] = useState('');
   const [isCodeVerified, setIsCodeVerified] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const { currentUser } = useAuth();
 
   // Patient chat without code
@@ -21,9 +23,20 @@ const AIChatWidget = () => {
   // Patient chat with code
   const patientChat = useAIChat({ mode: 'patient', patientCode });
 
-  // Doctor chat (authenticated)
+  // Doctor chat (authenticated), saved so it can be resumed later
   const doctorChat = useAIChat({ mode: 'doctor' });
 
+  const handleSelectConversation = async (id: string) => {
+    if (await doctorChat.loadConversation(id)) {
+      setShowHistory(false);
+    }
+  };
+
+  const handleNewConversation = () => {
+    doctorChat.clearMessages();
+    setShowHistory(false);
+  };
+
   const handleVerifyCode = () => {
     if (patientCode.trim()) {
       setIsCodeVerified(true);
@@ -89,15 +102,41 @@ const AIChatWidget = () => {
           <X className="w-4 h-4" />
         </Button>
 
-        {currentUser ? (
+        {currentUser && showHistory ? (
+          <ChatConversationList
+            activeId={doctorChat.conversationId}
+            onSelect={handleSelectConversation}
+            onNew={handleNewConversation}
+            onBack={() => setShowHistory(false)}
+            onDeletedActive={doctorChat.clearMessages}
+          />
+        ) : currentUser ? (
           // Authenticated user - show doctor interface
           <AIChatInterface
             messages={doctorChat.messages}
             isLoading={doctorChat.isLoading}
             onSendMessage={doctorChat.sendMessage}
-            onClear={doctorChat.clearMessages}
+            onResolveAction={doctorChat.resolveAction}
             placeholder="Ask about referrals, patients..."
             quickActions={doctorQuickActions}
+            headerActions={
+              <>
+                <Button variant="ghost" size="sm" onClick={() => setShowHistory(true)} title="Conversations">
+                  <History className="w-4 h-4" />
+                </Button>
+                {doctorChat.messages.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleNewConversation}
+                    disabled={doctorChat.isLoading}
+                    title="New conversation"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                )}
+              </>
+            }
           />
         ) : (
           // Unauthenticated - show patient interface with tabs
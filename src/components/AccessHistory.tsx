@@ -0,0 +1,123 @@
+import { usePhiAccessHistory } from '@/hooks/usePhiAccessLog';
+import { PhiAccessAction } from '@/lib/phiAccess';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+import {
+  Eye,
+  FileDown,
+  Printer,
+  Paperclip,
+  Search,
+  ShieldCheck,
+  ShieldAlert,
+  Loader2,
+  Clock,
+  Building2,
+  LucideIcon,
+} from 'lucide-react';
+
+const actionConfig: Record<PhiAccessAction, { label: string; icon: LucideIcon }> = {
+  view: { label: 'Viewed referral', icon: Eye },
+  pdf_export: { label: 'Downloaded PDF', icon: FileDown },
+  print: { label: 'Printed referral', icon: Printer },
+  attachment_download: { label: 'Opened attachment', icon: Paperclip },
+  code_lookup: { label: 'Looked up patient code', icon: Search },
+};
+
+interface AccessHistoryProps {
+  referralId: string;
+}
+
+const AccessHistory = ({ referralId }: AccessHistoryProps) => {
+  const { entries, loading, verification, verifying, verifyChain } = usePhiAccessHistory(referralId);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Every view, export and download of this patient's data
+        </p>
+        <div className="flex items-center gap-2">
+          {verification && (
+            verification.isValid ? (
+              <Badge variant="outline" className="gap-1 text-success border-success/30">
+                <ShieldCheck className="w-3 h-3" />
+                {verification.checkedCount} records intact
+              </Badge>
+            ) : (
+              <Badge variant="destructive" className="gap-1">
+                <ShieldAlert className="w-3 h-3" />
+                Tampering detected
+              </Badge>
+            )
+          )}
+          <Button variant="outline" size="sm" onClick={verifyChain} disabled={verifying}>
+            {verifying ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <ShieldCheck className="w-4 h-4 mr-2" />
+            )}
+            Verify integrity
+          </Button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">No access recorded yet</p>
+      ) : (
+        <div className="space-y-2 max-h-[400px] overflow-y-auto">
+          {entries.map(entry => {
+            const config = actionConfig[entry.action] || { label: entry.action, icon: Eye };
+            const Icon = config.icon;
+            const isBroken = verification?.firstInvalidId === entry.id;
+            const fileName = typeof entry.details.file_name === 'string' ? entry.details.file_name : undefined;
+
+            return (
+              <div
+                key={entry.id}
+                className={`flex items-start gap-3 p-3 rounded-lg border text-sm ${
+                  isBroken ? 'border-destructive bg-destructive/5' : 'border-border'
+                }`}
+              >
+                <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center shrink-0">
+                  <Icon className="w-4 h-4 text-muted-foreground" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-foreground">
+                    {entry.userName}
+                    <span className="font-normal text-muted-foreground"> · {config.label}</span>
+                  </p>
+                  {fileName && <p className="text-muted-foreground truncate">{fileName}</p>}
+                  <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {format(entry.accessedAt, 'MMM d, yyyy h:mm:ss a')}
+                    </span>
+                    {entry.hospitalName && (
+                      <span className="flex items-center gap-1">
+                        <Building2 className="w-3 h-3" />
+                        {entry.hospitalName}
+                      </span>
+                    )}
+                    {isBroken && <span className="text-destructive font-medium">Chain broken here</span>}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccessHistory;
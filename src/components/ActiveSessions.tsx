@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { useSessions, UserSession } from '@/hooks/useSessions';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Laptop, Loader2, LogOut, MonitorSmartphone, Smartphone } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+// Enough of the user agent to recognise a device; the raw string is in the title attribute
+const describeUserAgent = (userAgent?: string) => {
+  if (!userAgent) return { label: 'Unknown device', mobile: false };
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+
+  return { label: `${browser} on ${os}`, mobile: /Mobi|iPhone|Android/.test(userAgent) };
+};
+
+const ActiveSessions = () => {
+  const { sessions, loading, revokingId, revokeSession, signOutOtherSessions, signOutEverywhere } = useSessions();
+  const [confirmEverywhere, setConfirmEverywhere] = useState(false);
+  const [signingOut, setSigningOut] = useState(false);
+
+  const otherSessions = sessions.filter(session => !session.isCurrent);
+
+  const handleSignOutOthers = async () => {
+    setSigningOut(true);
+    await signOutOtherSessions();
+    setSigningOut(false);
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setSigningOut(true);
+    await signOutEverywhere();
+    setSigningOut(false);
+  };
+
+  const renderSession = (session: UserSession) => {
+    const device = describeUserAgent(session.userAgent);
+    const Icon = device.mobile ? Smartphone : Laptop;
+
+    return (
+      <div key={session.id} className="flex items-center justify-between gap-3 p-4 border rounded-lg">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center shrink-0">
+            <Icon className="w-5 h-5 text-muted-foreground" />
+          </div>
+          <div className="min-w-0">
+            <p className="font-medium text-foreground flex items-center gap-2" title={session.userAgent}>
+              {device.label}
+              {session.isCurrent && <Badge variant="secondary">This device</Badge>}
+              {session.aal === 'aal2' && <Badge variant="outline">2FA</Badge>}
+            </p>
+            <p className="text-sm text-muted-foreground truncate">
+              {session.ipAddress || 'Unknown network'} · Signed in {format(session.createdAt, 'MMM d, yyyy')} · Active{' '}
+              {formatDistanceToNow(session.lastActiveAt, { addSuffix: true })}
+            </p>
+          </div>
+        </div>
+        {!session.isCurrent && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => revokeSession(session)}
+            disabled={revokingId === session.id}
+          >
+            {revokingId === session.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Sign out'}
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="card-elevated">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="w-5 h-5" />
+          Devices & Sessions
+        </CardTitle>
+        <CardDescription>
+          Places your account is signed in. Sign out any you don't recognise and change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          sessions.map(renderSession)
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2 pt-2">
+          <Button
+            variant="outline"
+            onClick={handleSignOutOthers}
+            disabled={signingOut || otherSessions.length === 0}
+          >
+            Sign out other devices
+          </Button>
+          <Button
+            variant="outline"
+            className="text-destructive hover:text-destructive"
+            onClick={() => setConfirmEverywhere(true)}
+            disabled={signingOut}
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign out everywhere
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={confirmEverywhere} onOpenChange={setConfirmEverywhere}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out everywhere?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every device, including this one, will need to sign in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleSignOutEverywhere}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Sign out everywhere
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default ActiveSessions;
@@ -1,46 +1,145 @@
-import { ActivityLog } from '@/types/referral';
+import { Link } from 'react-router-dom';
+import { ActivityLog, ReferralChainLink } from '@/types/referral';
+import { StatusBadge } from '@/components/StatusBadge';
+import { useActivityLogIntegrity, ActivityLogIssue } from '@/hooks/useActivityLogIntegrity';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { format } from 'date-fns';
-import { Clock, User } from 'lucide-react';
+import { Clock, User, ArrowRight, GitBranch, ShieldCheck, ShieldAlert, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const issueLabels: Record<ActivityLogIssue, string> = {
+  gap: 'Entry missing before this one',
+  mismatch: 'Entry altered after it was written',
+};
 
 interface ActivityTimelineProps {
   activities: ActivityLog[];
+  chain?: ReferralChainLink[];
+  currentReferralId?: string;
 }
 
-const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ activities }) => {
+const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ activities, chain = [], currentReferralId }) => {
+  const { verification, verifying, verifyChain } = useActivityLogIntegrity(currentReferralId);
   const sortedActivities = [...activities].sort(
     (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
   );
 
   return (
     <div className="space-y-4">
-      <h4 className="font-semibold text-foreground">Activity Log</h4>
+      {chain.length > 1 && (
+        <div className="space-y-3 pb-4 border-b border-border">
+          <h4 className="font-semibold text-foreground flex items-center gap-2">
+            <GitBranch className="w-4 h-4" />
+            Referral Chain
+          </h4>
+          <ol className="space-y-2">
+            {chain.map((link, index) => {
+              const isCurrent = link.id === currentReferralId;
+              return (
+                <li
+                  key={link.id}
+                  className={cn(
+                    'p-3 rounded-lg border text-sm',
+                    isCurrent ? 'border-primary bg-primary/5' : 'border-border'
+                  )}
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="flex items-center gap-1 font-medium text-foreground">
+                      {index + 1}. {link.fromHospitalName}
+                      <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                      {link.toHospitalName}
+                    </span>
+                    <StatusBadge status={link.status} />
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {format(link.createdAt, 'MMM d, yyyy h:mm a')}
+                    </span>
+                    {isCurrent ? (
+                      <span className="text-primary font-medium">This referral</span>
+                    ) : (
+                      <Link to={`/referral/${link.id}`} className="text-primary hover:underline">
+                        View referral
+                      </Link>
+                    )}
+                  </div>
+                  {link.depth > 0 && (
+                    <p className="text-muted-foreground mt-1 line-clamp-2">{link.reason}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="font-semibold text-foreground">Activity Log</h4>
+        {currentReferralId && (
+          <div className="flex items-center gap-2">
+            {verification && (
+              verification.isValid ? (
+                <Badge variant="outline" className="gap-1 text-success border-success/30">
+                  <ShieldCheck className="w-3 h-3" />
+                  Log intact
+                </Badge>
+              ) : (
+                <Badge variant="destructive" className="gap-1">
+                  <ShieldAlert className="w-3 h-3" />
+                  Tampering detected
+                </Badge>
+              )
+            )}
+            <Button variant="outline" size="sm" onClick={verifyChain} disabled={verifying}>
+              {verifying ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <ShieldCheck className="w-4 h-4 mr-2" />
+              )}
+              Verify integrity
+            </Button>
+          </div>
+        )}
+      </div>
       <div className="space-y-3">
-        {sortedActivities.map((activity, index) => (
-          <div
-            key={activity.id}
-            className="relative pl-6 pb-3 border-l-2 border-border last:border-l-transparent last:pb-0"
-          >
-            <div className="absolute left-0 top-0 w-3 h-3 -translate-x-[7px] rounded-full bg-primary ring-4 ring-background" />
-            <div className="space-y-1">
-              <p className="text-sm font-medium text-foreground">{activity.action}</p>
-              <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
-                <span className="flex items-center gap-1">
-                  <User className="w-3 h-3" />
-                  {activity.performedBy}
-                </span>
-                <span className="flex items-center gap-1">
-                  <Clock className="w-3 h-3" />
-                  {format(new Date(activity.timestamp), 'MMM d, yyyy h:mm a')}
-                </span>
+        {sortedActivities.map((activity) => {
+          const issues = verification?.issues.get(activity.id) || [];
+          return (
+            <div
+              key={activity.id}
+              className="relative pl-6 pb-3 border-l-2 border-border last:border-l-transparent last:pb-0"
+            >
+              <div
+                className={cn(
+                  'absolute left-0 top-0 w-3 h-3 -translate-x-[7px] rounded-full ring-4 ring-background',
+                  issues.length > 0 ? 'bg-destructive' : 'bg-primary'
+                )}
+              />
+              <div className={cn('space-y-1', issues.length > 0 && 'rounded border border-destructive bg-destructive/5 p-2')}>
+                <p className="text-sm font-medium text-foreground">{activity.action}</p>
+                <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <User className="w-3 h-3" />
+                    {activity.performedBy}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {format(new Date(activity.timestamp), 'MMM d, yyyy h:mm a')}
+                  </span>
+                  {issues.map(issue => (
+                    <span key={issue} className="text-destructive font-medium">{issueLabels[issue] || issue}</span>
+                  ))}
+                </div>
+                {activity.details && (
+                  <p className="text-sm text-muted-foreground mt-1 bg-muted/50 p-2 rounded">
+                    {activity.details}
+                  </p>
+                )}
               </div>
-              {activity.details && (
-                <p className="text-sm text-muted-foreground mt-1 bg-muted/50 p-2 rounded">
-                  {activity.details}
-                </p>
-              )}
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
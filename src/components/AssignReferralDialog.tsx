@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { useDoctorDirectory } from '@/hooks/useDoctorDirectory';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, UserCheck } from 'lucide-react';
+import { Referral } from '@/types/referral';
+import { cn } from '@/lib/utils';
+
+const availabilityLabels: Record<string, string> = {
+  available: 'Available',
+  busy: 'Busy',
+  away: 'Away',
+};
+
+interface AssignReferralDialogProps {
+  referral: Referral;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAssign: (assigneeId: string, reason: string) => Promise<boolean>;
+}
+
+export const AssignReferralDialog = ({ referral, open, onOpenChange, onAssign }: AssignReferralDialogProps) => {
+  const { doctors, allDoctors, loading, filters, updateFilters, specialties } = useDoctorDirectory();
+  const [assigneeId, setAssigneeId] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isReassignment = !!referral.assignedDoctorId;
+  const hospitalSpecialties = specialties.filter(specialty =>
+    allDoctors.some(d => d.hospital_id === referral.toHospitalId && d.specialty === specialty)
+  );
+
+  // Start from colleagues at the receiving hospital in the referral's specialty
+  useEffect(() => {
+    if (!open) return;
+    setAssigneeId('');
+    setReason('');
+    updateFilters({
+      search: '',
+      hospital: referral.toHospitalId,
+      specialty: hospitalSpecialties.includes(referral.specialty) ? referral.specialty : '',
+      availability: '',
+    });
+  }, [open, referral.toHospitalId, loading]);
+
+  const candidates = doctors.filter(d => d.id !== referral.assignedDoctorId);
+
+  const handleAssign = async () => {
+    setSaving(true);
+    const succeeded = await onAssign(assigneeId, reason);
+    setSaving(false);
+    if (succeeded) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isReassignment ? 'Reassign Referral' : 'Assign Referral'}</DialogTitle>
+          <DialogDescription>
+            {isReassignment
+              ? `Currently assigned to ${referral.assignedDoctorName}. The new assignee will be notified.`
+              : 'The assigned doctor will be notified and becomes responsible for this referral.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Select
+            value={filters.specialty || 'all'}
+            onValueChange={(value) => updateFilters({ specialty: value === 'all' ? '' : value })}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Specialty" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Specialties</SelectItem>
+              {hospitalSpecialties.map(specialty => (
+                <SelectItem key={specialty} value={specialty}>
+                  {specialty}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.availability || 'all'}
+            onValueChange={(value) => updateFilters({ availability: value === 'all' ? '' : value })}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue placeholder="Availability" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any Status</SelectItem>
+              <SelectItem value="available">Available</SelectItem>
+              <SelectItem value="busy">Busy</SelectItem>
+              <SelectItem value="away">Away</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <ScrollArea className="h-56 rounded-md border">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            </div>
+          ) : candidates.length === 0 ? (
+            <p className="text-center py-8 text-sm text-muted-foreground">No matching doctors</p>
+          ) : (
+            <div className="p-1">
+              {candidates.map(doctor => (
+                <button
+                  key={doctor.id}
+                  type="button"
+                  onClick={() => setAssigneeId(doctor.id)}
+                  className={cn(
+                    'w-full flex items-center justify-between gap-2 rounded-md px-3 py-2 text-left hover:bg-muted',
+                    assigneeId === doctor.id && 'bg-primary/10'
+                  )}
+                >
+                  <div>
+                    <p className="text-sm font-medium text-foreground">{doctor.full_name}</p>
+                    <p className="text-xs text-muted-foreground">{doctor.specialty || 'General'}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">
+                      {availabilityLabels[doctor.availability_status || 'available'] || doctor.availability_status}
+                    </Badge>
+                    {assigneeId === doctor.id && <UserCheck className="w-4 h-4 text-primary" />}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="space-y-2">
+          <Label>{isReassignment ? 'Reason for reassignment' : 'Note (optional)'}</Label>
+          <Textarea
+            placeholder={isReassignment ? 'Why this referral is changing hands...' : 'Anything the assignee should know...'}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+          />
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleAssign}
+            disabled={saving || !assigneeId || (isReassignment && !reason.trim())}
+          >
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+            {isReassignment ? 'Reassign' : 'Assign'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,425 @@
+import { useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { provisionUser } from '@/hooks/useUserAdministration';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportKind,
+  ImportRow,
+  buildErrorReport,
+  downloadCsv,
+  guessMapping,
+  readSpreadsheet,
+  toDoctorValues,
+  toHospitalValues,
+  validateDoctorRows,
+  validateHospitalRows,
+} from '@/lib/bulkImport';
+import { AppRole } from '@/lib/permissions';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CheckCircle, Download, FileSpreadsheet, Loader2, Upload, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+
+interface ImportOutcome {
+  rowNumber: number;
+  status: 'created' | 'would_create' | 'skipped' | 'failed';
+  errors: string[];
+}
+
+interface BulkImportWizardProps {
+  kind: ImportKind;
+  // Existing hospitals: duplicates when importing hospitals, the lookup for doctors' hospital column
+  hospitals: { id: string; name: string }[];
+  existingEmails?: string[];
+  allowedRoles?: AppRole[];
+  defaultHospitalId?: string;
+  onImported: () => void;
+}
+
+const KIND_LABELS: Record<ImportKind, string> = {
+  hospitals: 'Hospitals',
+  doctors: 'Doctors',
+};
+
+const UNMAPPED = 'none';
+
+const BulkImportWizard = ({
+  kind,
+  hospitals,
+  existingEmails = [],
+  allowedRoles = ['doctor'],
+  defaultHospitalId,
+  onImported,
+}: BulkImportWizardProps) => {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [reading, setReading] = useState(false);
+  const [dryRun, setDryRun] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [outcomes, setOutcomes] = useState<ImportOutcome[]>([]);
+
+  const fields = IMPORT_FIELDS[kind].map(field =>
+    field.key === 'hospital' && defaultHospitalId ? { ...field, required: false } : field
+  );
+
+  const validated: ImportRow[] = useMemo(() => {
+    if (step !== 'preview' && step !== 'done') return [];
+    return kind === 'hospitals'
+      ? validateHospitalRows(dataRows, mapping, hospitals.map(h => h.name))
+      : validateDoctorRows(dataRows, mapping, { hospitals, existingEmails, allowedRoles, defaultHospitalId });
+  }, [step, kind, dataRows, mapping, hospitals, existingEmails, allowedRoles, defaultHospitalId]);
+
+  const validCount = validated.filter(row => row.errors.length === 0).length;
+  const invalidCount = validated.length - validCount;
+  const missingRequired = fields.filter(field => field.required && (mapping[field.key] ?? -1) < 0);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setDryRun(true);
+    setProgress(0);
+    setOutcomes([]);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (importing) return;
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setReading(true);
+    try {
+      const rows = await readSpreadsheet(file);
+      if (rows.length < 2) {
+        toast.error('The file needs a header row and at least one data row');
+        return;
+      }
+
+      const [headerRow, ...rest] = rows;
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setDataRows(rest);
+      setMapping(guessMapping(headerRow, fields));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error('Could not read the file. Upload a .csv or .xlsx spreadsheet.');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const importRow = async (row: ImportRow): Promise<string | null> => {
+    if (kind === 'hospitals') {
+      const { error } = await supabase.from('hospitals').insert(toHospitalValues(row));
+      return error ? error.message : null;
+    }
+
+    const { error } = await provisionUser(toDoctorValues(row));
+    return error ?? null;
+  };
+
+  // Rows are written one at a time so a single bad row is reported rather than sinking the batch
+  const runImport = async () => {
+    setImporting(true);
+    setProgress(0);
+    const results: ImportOutcome[] = [];
+
+    for (const [index, row] of validated.entries()) {
+      if (row.errors.length > 0) {
+        results.push({ rowNumber: row.rowNumber, status: 'skipped', errors: row.errors });
+      } else if (dryRun) {
+        results.push({ rowNumber: row.rowNumber, status: 'would_create', errors: [] });
+      } else {
+        const error = await importRow(row);
+        results.push({ rowNumber: row.rowNumber, status: error ? 'failed' : 'created', errors: error ? [error] : [] });
+      }
+      setProgress(Math.round(((index + 1) / validated.length) * 100));
+    }
+
+    setOutcomes(results);
+    setImporting(false);
+    setStep('done');
+
+    const created = results.filter(r => r.status === 'created').length;
+    if (created > 0) {
+      toast.success(`Imported ${created} ${KIND_LABELS[kind].toLowerCase()}`);
+      onImported();
+    }
+  };
+
+  const downloadReport = (results: { rowNumber: number; errors: string[] }[]) => {
+    const stem = fileName.replace(/\.[^.]+$/, '') || kind;
+    downloadCsv(`${stem}-errors.csv`, buildErrorReport(headers, dataRows, results));
+  };
+
+  const summaryColumns = fields.slice(0, 3);
+  const countBy = (status: ImportOutcome['status']) => outcomes.filter(o => o.status === status).length;
+  const lastRunWasDry = outcomes.some(o => o.status === 'would_create');
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import {KIND_LABELS[kind]}</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel spreadsheet with one record per row and a header row.'}
+            {step === 'map' && `Match the columns in ${fileName} to the fields below.`}
+            {step === 'preview' && `${dataRows.length} rows read from ${fileName}. Rows with errors are skipped.`}
+            {step === 'done' && (lastRunWasDry ? 'Dry run finished. Nothing was saved.' : 'Import finished.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4 py-2">
+            <Label
+              htmlFor="import-file"
+              className="flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-8 cursor-pointer hover:bg-muted/50"
+            >
+              {reading ? (
+                <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+              ) : (
+                <FileSpreadsheet className="w-8 h-8 text-muted-foreground" />
+              )}
+              <span className="text-sm font-medium">Choose a .csv or .xlsx file</span>
+            </Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={reading}
+            />
+            <p className="text-xs text-muted-foreground">
+              Expected columns: {fields.map(field => `${field.label}${field.required ? ' *' : ''}`).join(', ')}
+            </p>
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="grid gap-3 py-2 sm:grid-cols-2">
+            {fields.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label>
+                  {field.label}
+                  {field.required && ' *'}
+                </Label>
+                <Select
+                  value={(mapping[field.key] ?? -1) >= 0 ? String(mapping[field.key]) : UNMAPPED}
+                  onValueChange={(value) =>
+                    setMapping({ ...mapping, [field.key]: value === UNMAPPED ? -1 : parseInt(value) })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4 py-2">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex gap-2">
+                <Badge variant="secondary">{validCount} ready</Badge>
+                {invalidCount > 0 && <Badge variant="destructive">{invalidCount} with errors</Badge>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="import-dry-run" checked={dryRun} onCheckedChange={setDryRun} disabled={importing} />
+                <Label htmlFor="import-dry-run">Dry run (check only, save nothing)</Label>
+              </div>
+            </div>
+            <ScrollArea className="h-72 rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Row</TableHead>
+                    {summaryColumns.map(field => (
+                      <TableHead key={field.key}>{field.label}</TableHead>
+                    ))}
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {validated.map((row) => (
+                    <TableRow key={row.rowNumber} className={row.errors.length > 0 ? 'bg-destructive/5' : undefined}>
+                      <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                      {summaryColumns.map(field => (
+                        <TableCell key={field.key}>{row.values[field.key] || '—'}</TableCell>
+                      ))}
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <CheckCircle className="w-4 h-4 text-success" />
+                        ) : (
+                          <ul className="text-xs text-destructive space-y-0.5">
+                            {row.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+            {importing && <Progress value={progress} />}
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-4 py-2">
+            <div className="flex flex-wrap gap-2">
+              {lastRunWasDry ? (
+                <Badge variant="secondary">{countBy('would_create')} would be created</Badge>
+              ) : (
+                <Badge variant="secondary">{countBy('created')} created</Badge>
+              )}
+              {countBy('skipped') > 0 && <Badge variant="outline">{countBy('skipped')} skipped</Badge>}
+              {countBy('failed') > 0 && <Badge variant="destructive">{countBy('failed')} failed</Badge>}
+            </div>
+            {outcomes.some(o => o.errors.length > 0) ? (
+              <ScrollArea className="h-56 rounded-lg border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-14">Row</TableHead>
+                      <TableHead>Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {outcomes.filter(o => o.errors.length > 0).map((outcome) => (
+                      <TableRow key={outcome.rowNumber}>
+                        <TableCell className="text-muted-foreground">{outcome.rowNumber}</TableCell>
+                        <TableCell className="text-sm">
+                          <span className="flex items-start gap-2">
+                            <XCircle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+                            {outcome.errors.join('; ')}
+                          </span>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            ) : (
+              <p className="text-sm text-muted-foreground">Every row went through without errors.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={() => setStep('preview')} disabled={missingRequired.length > 0}>
+                Preview
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')} disabled={importing}>
+                Back
+              </Button>
+              {invalidCount > 0 && (
+                <Button variant="outline" onClick={() => downloadReport(validated)} disabled={importing}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Error report
+                </Button>
+              )}
+              <Button onClick={runImport} disabled={importing || validCount === 0}>
+                {importing && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                {dryRun ? 'Run dry run' : `Import ${validCount} rows`}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <>
+              {outcomes.some(o => o.errors.length > 0) && (
+                <Button variant="outline" onClick={() => downloadReport(outcomes)}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Error report
+                </Button>
+              )}
+              {lastRunWasDry ? (
+                <Button
+                  onClick={() => {
+                    setDryRun(false);
+                    setStep('preview');
+                  }}
+                >
+                  Continue to import
+                </Button>
+              ) : (
+                <Button onClick={() => handleOpenChange(false)}>Close</Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkImportWizard;
@@ -0,0 +1,25 @@
+import { CapacityLevel } from '@/hooks/useHospitalCapacity';
+import { cn } from '@/lib/utils';
+
+interface CapacityBadgeProps {
+  level: CapacityLevel;
+  label: string;
+  className?: string;
+}
+
+const levelStyles: Record<CapacityLevel, string> = {
+  available: 'bg-success/10 text-success border-success/30',
+  limited: 'bg-warning/10 text-warning border-warning/30',
+  full: 'bg-destructive/10 text-destructive border-destructive/30',
+  unknown: 'bg-muted text-muted-foreground border-border',
+};
+
+export const CapacityBadge = ({ level, label, className }: CapacityBadgeProps) => (
+  <span className={cn(
+    'inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border',
+    levelStyles[level],
+    className
+  )}>
+    {label}
+  </span>
+);
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { ArrowLeft, Check, MessageSquare, Pencil, Plus, Search, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useChatConversations, ChatConversationSummary } from '@/hooks/useChatConversations';
+import { cn } from '@/lib/utils';
+import { formatDistanceToNow } from 'date-fns';
+
+interface ChatConversationListProps {
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onBack: () => void;
+  // The open conversation was deleted
+  onDeletedActive: () => void;
+}
+
+const ChatConversationList = ({ activeId, onSelect, onNew, onBack, onDeletedActive }: ChatConversationListProps) => {
+  const [search, setSearch] = useState('');
+  const { conversations, loading, renameConversation, deleteConversation } = useChatConversations(search);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<ChatConversationSummary | null>(null);
+
+  const startRename = (conversation: ChatConversationSummary) => {
+    setEditingId(conversation.id);
+    setEditTitle(conversation.title);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId && await renameConversation(editingId, editTitle)) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    if (await deleteConversation(deleteTarget.id) && deleteTarget.id === activeId) {
+      onDeletedActive();
+    }
+    setDeleteTarget(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="flex items-center gap-2 p-3 pr-12 border-b border-border bg-muted/30">
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <p className="text-sm font-medium flex-1">Conversations</p>
+        <Button variant="outline" size="sm" onClick={onNew}>
+          <Plus className="w-4 h-4 mr-1" />
+          New
+        </Button>
+      </div>
+
+      <div className="p-3 border-b border-border">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search conversations..."
+            className="pl-9 text-sm"
+          />
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {conversations.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center p-6">
+            {loading ? 'Loading...' : search.trim() ? 'No conversations match your search' : 'No saved conversations yet'}
+          </p>
+        ) : (
+          <div className="p-2 space-y-1">
+            {conversations.map(conversation => (
+              <div
+                key={conversation.id}
+                className={cn(
+                  'group rounded-lg px-3 py-2 hover:bg-muted transition-colors',
+                  conversation.id === activeId && 'bg-muted'
+                )}
+              >
+                {editingId === conversation.id ? (
+                  <form onSubmit={handleRename} className="flex items-center gap-1">
+                    <Input
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      maxLength={100}
+                      className="h-8 text-sm"
+                      autoFocus
+                    />
+                    <Button type="submit" variant="ghost" size="icon" className="h-8 w-8 shrink-0">
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => setEditingId(null)}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <div className="flex items-start gap-2">
+                    <button
+                      type="button"
+                      onClick={() => onSelect(conversation.id)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="text-sm font-medium truncate flex items-center gap-2">
+                        <MessageSquare className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+                        {conversation.title}
+                      </p>
+                      {conversation.snippet && (
+                        <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">{conversation.snippet}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {formatDistanceToNow(conversation.updatedAt, { addSuffix: true })}
+                      </p>
+                    </button>
+                    <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startRename(conversation)}>
+                        <Pencil className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setDeleteTarget(conversation)}>
+                        <Trash2 className="w-3.5 h-3.5 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={() => setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteTarget?.title}" will be removed permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ChatConversationList;
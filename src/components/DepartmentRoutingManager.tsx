@@ -0,0 +1,355 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useHospitals } from '@/hooks/useHospitals';
+import { useDepartments, useRoutingRules, RoutingRule, RoutingRuleInput } from '@/hooks/useDepartments';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GitBranch, Loader2, Plus, Star, Trash2, Users, X } from 'lucide-react';
+import { UrgencyLevel } from '@/types/referral';
+import { SPECIALTIES, DEFAULT_REFERRAL_SPECIALTY } from '@/lib/specialties';
+
+const ANY = 'any';
+const ruleSpecialties = [DEFAULT_REFERRAL_SPECIALTY, ...SPECIALTIES];
+const urgencies: UrgencyLevel[] = ['emergency', 'urgent', 'routine'];
+
+const newRuleDraft = (): RoutingRuleInput => ({
+  departmentId: '',
+  specialty: null,
+  urgency: null,
+  startTime: null,
+  endTime: null,
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  priority: 100,
+  isActive: true,
+});
+
+const describeHours = (rule: Pick<RoutingRule, 'startTime' | 'endTime' | 'timeZone'>) =>
+  rule.startTime && rule.endTime ? `${rule.startTime}–${rule.endTime} (${rule.timeZone})` : 'Any time';
+
+const DepartmentRoutingManager = () => {
+  const { hospitals } = useHospitals();
+  const [hospitalId, setHospitalId] = useState('');
+  const { departments, loading: departmentsLoading, addMember, removeMember, setMemberLead } =
+    useDepartments(hospitalId || null);
+  const { rules, loading: rulesLoading, addRule, updateRule, deleteRule } = useRoutingRules(hospitalId || null);
+  const [doctors, setDoctors] = useState<{ id: string; fullName: string }[]>([]);
+  const [newRule, setNewRule] = useState<RoutingRuleInput>(newRuleDraft());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setNewRule(newRuleDraft());
+    if (!hospitalId) {
+      setDoctors([]);
+      return;
+    }
+
+    supabase
+      .from('profiles')
+      .select('id, full_name')
+      .eq('hospital_id', hospitalId)
+      .order('full_name')
+      .then(({ data }) => setDoctors(data?.map(p => ({ id: p.id, fullName: p.full_name })) || []));
+  }, [hospitalId]);
+
+  const doctorName = (id: string) => doctors.find(d => d.id === id)?.fullName || 'Unknown';
+  const departmentName = (id: string) => departments.find(d => d.id === id)?.name || 'Unknown';
+
+  const run = async (action: () => Promise<boolean>) => {
+    setSaving(true);
+    const succeeded = await action();
+    setSaving(false);
+    return succeeded;
+  };
+
+  const handleAddRule = async () => {
+    const hasHours = !!newRule.startTime && !!newRule.endTime;
+    const added = await run(() => addRule({
+      ...newRule,
+      startTime: hasHours ? newRule.startTime : null,
+      endTime: hasHours ? newRule.endTime : null,
+    }));
+    if (added) setNewRule(newRuleDraft());
+  };
+
+  const toggleRule = ({ id, hospitalId: _hospitalId, ...rule }: RoutingRule, isActive: boolean) =>
+    run(() => updateRule(id, { ...rule, isActive }));
+
+  const loading = departmentsLoading || rulesLoading;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <GitBranch className="w-5 h-5" />
+                Referral Routing
+              </CardTitle>
+              <CardDescription>
+                Incoming referrals go to the first active rule that matches, by priority
+              </CardDescription>
+            </div>
+            <Select value={hospitalId} onValueChange={setHospitalId}>
+              <SelectTrigger className="w-full md:w-64">
+                <SelectValue placeholder="Select a hospital" />
+              </SelectTrigger>
+              <SelectContent>
+                {hospitals.map(hospital => (
+                  <SelectItem key={hospital.id} value={hospital.id}>
+                    {hospital.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!hospitalId ? (
+            <p className="text-center py-8 text-muted-foreground">Select a hospital to manage its routing</p>
+          ) : loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : departments.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">
+              Add departments under Capacity before creating routing rules
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Priority</TableHead>
+                  <TableHead>Specialty</TableHead>
+                  <TableHead>Urgency</TableHead>
+                  <TableHead>Hours</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="w-16" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id}>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell>{rule.specialty || 'Any'}</TableCell>
+                    <TableCell className="capitalize">{rule.urgency || 'Any'}</TableCell>
+                    <TableCell className="text-sm">{describeHours(rule)}</TableCell>
+                    <TableCell>{departmentName(rule.departmentId)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.isActive}
+                        onCheckedChange={(checked) => toggleRule(rule, checked)}
+                        disabled={saving}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => run(() => deleteRule(rule.id))}
+                        disabled={saving}
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={newRule.priority}
+                      onChange={(e) => setNewRule(prev => ({ ...prev, priority: Math.max(0, parseInt(e.target.value) || 0) }))}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={newRule.specialty || ANY}
+                      onValueChange={(value) => setNewRule(prev => ({ ...prev, specialty: value === ANY ? null : value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any</SelectItem>
+                        {ruleSpecialties.map(specialty => (
+                          <SelectItem key={specialty} value={specialty}>
+                            {specialty}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={newRule.urgency || ANY}
+                      onValueChange={(value) =>
+                        setNewRule(prev => ({ ...prev, urgency: value === ANY ? null : value as UrgencyLevel }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any</SelectItem>
+                        {urgencies.map(urgency => (
+                          <SelectItem key={urgency} value={urgency} className="capitalize">
+                            {urgency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="time"
+                        value={newRule.startTime || ''}
+                        onChange={(e) => setNewRule(prev => ({ ...prev, startTime: e.target.value || null }))}
+                      />
+                      <Input
+                        type="time"
+                        value={newRule.endTime || ''}
+                        onChange={(e) => setNewRule(prev => ({ ...prev, endTime: e.target.value || null }))}
+                      />
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={newRule.departmentId}
+                      onValueChange={(value) => setNewRule(prev => ({ ...prev, departmentId: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Department" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {departments.map(department => (
+                          <SelectItem key={department.id} value={department.id}>
+                            {department.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell />
+                  <TableCell>
+                    <Button size="sm" onClick={handleAddRule} disabled={saving || !newRule.departmentId}>
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {hospitalId && departments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Users className="w-5 h-5" />
+              Department Doctors
+            </CardTitle>
+            <CardDescription>
+              Only these doctors are notified about referrals routed to their department. Leads (starred) can assign them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Doctors</TableHead>
+                  <TableHead className="w-56" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {departments.map(department => {
+                  const candidates = doctors.filter(d => !department.memberIds.includes(d.id));
+
+                  return (
+                    <TableRow key={department.id}>
+                      <TableCell className="font-medium">{department.name}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {department.memberIds.length === 0 && (
+                            <span className="text-sm text-muted-foreground">No doctors yet</span>
+                          )}
+                          {department.memberIds.map(userId => {
+                            const isLead = department.leadIds.includes(userId);
+                            return (
+                              <Badge key={userId} variant={isLead ? 'default' : 'secondary'} className="gap-1">
+                                <button
+                                  type="button"
+                                  onClick={() => run(() => setMemberLead(department.id, userId, !isLead))}
+                                  disabled={saving}
+                                  aria-label={isLead ? `Remove ${doctorName(userId)} as lead` : `Make ${doctorName(userId)} a lead`}
+                                >
+                                  <Star className={`w-3 h-3 ${isLead ? 'fill-current' : ''}`} />
+                                </button>
+                                {doctorName(userId)}
+                                <button
+                                  type="button"
+                                  onClick={() => run(() => removeMember(department.id, userId))}
+                                  disabled={saving}
+                                  aria-label={`Remove ${doctorName(userId)}`}
+                                >
+                                  <X className="w-3 h-3" />
+                                </button>
+                              </Badge>
+                            );
+                          })}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value=""
+                          onValueChange={(userId) => run(() => addMember(department.id, userId))}
+                          disabled={saving || candidates.length === 0}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Add doctor" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {candidates.map(doctor => (
+                              <SelectItem key={doctor.id} value={doctor.id}>
+                                {doctor.fullName}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default DepartmentRoutingManager;
@@ -41,10 +41,10 @@ const EmergencyAlertOverlay = () => {
             </div>
             <div className="flex-1">
               <h2 className="text-lg font-bold text-destructive-foreground">
-                EMERGENCY REFERRAL
+                {emergencyAlert.escalated ? 'EMERGENCY REFERRAL OVERDUE' : 'EMERGENCY REFERRAL'}
               </h2>
               <p className="text-sm text-destructive-foreground/80">
-                Immediate attention required
+                {emergencyAlert.escalated ? 'Still not accepted — escalated' : 'Immediate attention required'}
               </p>
             </div>
             <Button
@@ -0,0 +1,334 @@
+import { useEffect, useState } from 'react';
+import { useHospitals } from '@/hooks/useHospitals';
+import {
+  useHospitalCapacity,
+  useCapacityHistory,
+  HospitalDepartment,
+} from '@/hooks/useHospitalCapacity';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { BedDouble, History, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { SPECIALTIES, DEFAULT_REFERRAL_SPECIALTY } from '@/lib/specialties';
+
+const NO_SPECIALTY = 'none';
+const departmentSpecialties = [DEFAULT_REFERRAL_SPECIALTY, ...SPECIALTIES];
+
+type DepartmentDraft = Omit<HospitalDepartment, 'updatedAt'>;
+
+const newDepartmentDraft = (hospitalId: string): DepartmentDraft => ({
+  id: '',
+  hospitalId,
+  name: '',
+  specialty: null,
+  bedsTotal: 0,
+  bedsAvailable: 0,
+  acceptingReferrals: true,
+});
+
+const toCount = (value: string) => Math.max(0, parseInt(value) || 0);
+
+const HospitalCapacityManager = () => {
+  const { hospitals } = useHospitals();
+  const { capacityByHospital, loading, updateHospitalCapacity, saveDepartment, deleteDepartment } = useHospitalCapacity();
+  const [hospitalId, setHospitalId] = useState('');
+  const { snapshots, loading: historyLoading, refetch: refetchHistory } = useCapacityHistory(hospitalId || undefined);
+
+  const [icuTotal, setIcuTotal] = useState(0);
+  const [icuAvailable, setIcuAvailable] = useState(0);
+  const [accepting, setAccepting] = useState(true);
+  const [drafts, setDrafts] = useState<DepartmentDraft[]>([]);
+  const [newDepartment, setNewDepartment] = useState<DepartmentDraft>(newDepartmentDraft(''));
+  const [saving, setSaving] = useState(false);
+
+  const capacity = hospitalId ? capacityByHospital.get(hospitalId) : undefined;
+
+  // Reset the form whenever another hospital is picked or its capacity changes underneath us
+  useEffect(() => {
+    setIcuTotal(capacity?.icuBedsTotal ?? 0);
+    setIcuAvailable(capacity?.icuBedsAvailable ?? 0);
+    setAccepting(capacity?.acceptingReferrals ?? true);
+    setDrafts(capacity?.departments.map(({ updatedAt, ...department }) => department) ?? []);
+    setNewDepartment(newDepartmentDraft(hospitalId));
+  }, [hospitalId, capacity]);
+
+  const updateDraft = (id: string, changes: Partial<DepartmentDraft>) => {
+    setDrafts(prev => prev.map(d => (d.id === id ? { ...d, ...changes } : d)));
+  };
+
+  const run = async (action: () => Promise<boolean>) => {
+    setSaving(true);
+    const succeeded = await action();
+    setSaving(false);
+    if (succeeded) refetchHistory();
+    return succeeded;
+  };
+
+  const handleSaveHospital = () =>
+    run(() => updateHospitalCapacity(hospitalId, {
+      icuBedsTotal: icuTotal,
+      icuBedsAvailable: Math.min(icuAvailable, icuTotal),
+      acceptingReferrals: accepting,
+    }));
+
+  const handleSaveDepartment = (draft: DepartmentDraft) =>
+    run(() => saveDepartment({
+      ...draft,
+      id: draft.id || undefined,
+      bedsAvailable: Math.min(draft.bedsAvailable, draft.bedsTotal),
+    }));
+
+  const handleAddDepartment = async () => {
+    const added = await handleSaveDepartment(newDepartment);
+    if (added) setNewDepartment(newDepartmentDraft(hospitalId));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <BedDouble className="w-5 h-5" />
+                Hospital Capacity
+              </CardTitle>
+              <CardDescription>Bed availability shown to doctors when they create referrals</CardDescription>
+            </div>
+            <Select value={hospitalId} onValueChange={setHospitalId}>
+              <SelectTrigger className="w-full md:w-64">
+                <SelectValue placeholder="Select a hospital" />
+              </SelectTrigger>
+              <SelectContent>
+                {hospitals.map(hospital => (
+                  <SelectItem key={hospital.id} value={hospital.id}>
+                    {hospital.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : !hospitalId ? (
+            <p className="text-center py-8 text-muted-foreground">Select a hospital to manage its capacity</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="icu-total">ICU beds</Label>
+                  <Input
+                    id="icu-total"
+                    type="number"
+                    min="0"
+                    value={icuTotal}
+                    onChange={(e) => setIcuTotal(toCount(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="icu-available">ICU beds available</Label>
+                  <Input
+                    id="icu-available"
+                    type="number"
+                    min="0"
+                    max={icuTotal}
+                    value={icuAvailable}
+                    onChange={(e) => setIcuAvailable(toCount(e.target.value))}
+                  />
+                </div>
+                <div className="flex items-center gap-2 h-10">
+                  <Switch id="accepting" checked={accepting} onCheckedChange={setAccepting} />
+                  <Label htmlFor="accepting">Accepting referrals</Label>
+                </div>
+                <Button onClick={handleSaveHospital} disabled={saving}>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save
+                </Button>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Department</TableHead>
+                    <TableHead>Specialty</TableHead>
+                    <TableHead className="w-24">Beds</TableHead>
+                    <TableHead className="w-24">Available</TableHead>
+                    <TableHead>Accepting</TableHead>
+                    <TableHead className="w-28" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...drafts, newDepartment].map(draft => {
+                    const isNew = !draft.id;
+                    const update = (changes: Partial<DepartmentDraft>) =>
+                      isNew ? setNewDepartment(prev => ({ ...prev, ...changes })) : updateDraft(draft.id, changes);
+
+                    return (
+                      <TableRow key={draft.id || 'new'}>
+                        <TableCell>
+                          <Input
+                            placeholder={isNew ? 'New department' : undefined}
+                            value={draft.name}
+                            onChange={(e) => update({ name: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={draft.specialty || NO_SPECIALTY}
+                            onValueChange={(value) => update({ specialty: value === NO_SPECIALTY ? null : value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_SPECIALTY}>None</SelectItem>
+                              {departmentSpecialties.map(specialty => (
+                                <SelectItem key={specialty} value={specialty}>
+                                  {specialty}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            value={draft.bedsTotal}
+                            onChange={(e) => update({ bedsTotal: toCount(e.target.value) })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            max={draft.bedsTotal}
+                            value={draft.bedsAvailable}
+                            onChange={(e) => update({ bedsAvailable: toCount(e.target.value) })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={draft.acceptingReferrals}
+                            onCheckedChange={(checked) => update({ acceptingReferrals: checked })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1 justify-end">
+                            {isNew ? (
+                              <Button
+                                size="sm"
+                                onClick={handleAddDepartment}
+                                disabled={saving || !draft.name.trim()}
+                              >
+                                <Plus className="w-4 h-4" />
+                              </Button>
+                            ) : (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleSaveDepartment(draft)}
+                                  disabled={saving || !draft.name.trim()}
+                                >
+                                  <Save className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => run(() => deleteDepartment(draft.id))}
+                                  disabled={saving}
+                                >
+                                  <Trash2 className="w-4 h-4 text-destructive" />
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {hospitalId && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <History className="w-5 h-5" />
+              Capacity History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {historyLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : snapshots.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No capacity changes recorded yet</p>
+            ) : (
+              <ScrollArea className="h-[320px]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Recorded</TableHead>
+                      <TableHead>Unit</TableHead>
+                      <TableHead>Available</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>By</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {snapshots.map(snapshot => (
+                      <TableRow key={snapshot.id}>
+                        <TableCell className="text-sm">{format(snapshot.recordedAt, 'MMM d, yyyy h:mm a')}</TableCell>
+                        <TableCell>{snapshot.departmentName || 'ICU'}</TableCell>
+                        <TableCell>{snapshot.bedsAvailable} / {snapshot.bedsTotal}</TableCell>
+                        <TableCell>
+                          <Badge variant={snapshot.acceptingReferrals ? 'secondary' : 'destructive'}>
+                            {snapshot.acceptingReferrals ? 'Accepting' : 'Closed'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{snapshot.recordedByName || 'System'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default HospitalCapacityManager;
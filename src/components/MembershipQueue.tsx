@@ -0,0 +1,300 @@
+import { useState } from 'react';
+import {
+  useMembershipQueue,
+  isInviteUsable,
+  MembershipRequest,
+} from '@/hooks/useHospitalMembership';
+import { useHospitals } from '@/hooks/useHospitals';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Check, Copy, KeyRound, Loader2, Plus, UserCheck, X } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+
+const MembershipQueue = () => {
+  const { requests, invites, loading, reviewRequest, createInvite, revokeInvite } = useMembershipQueue();
+  const { hospitals } = useHospitals();
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<MembershipRequest | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+  const [inviteHospitalId, setInviteHospitalId] = useState('');
+  const [inviteMaxUses, setInviteMaxUses] = useState('1');
+  const [inviteDays, setInviteDays] = useState('7');
+  const [creatingInvite, setCreatingInvite] = useState(false);
+
+  const handleApprove = async (request: MembershipRequest) => {
+    setReviewingId(request.id);
+    await reviewRequest(request, true);
+    setReviewingId(null);
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    setReviewingId(rejecting.id);
+    const ok = await reviewRequest(rejecting, false, rejectNote);
+    setReviewingId(null);
+    if (ok) {
+      setRejecting(null);
+      setRejectNote('');
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    setCreatingInvite(true);
+    await createInvite(
+      inviteHospitalId,
+      Math.max(1, parseInt(inviteMaxUses) || 1),
+      parseInt(inviteDays)
+    );
+    setCreatingInvite(false);
+  };
+
+  const copyCode = async (code: string) => {
+    await navigator.clipboard.writeText(code);
+    toast.success('Invite code copied');
+  };
+
+  const activeInvites = invites.filter(isInviteUsable);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2">
+            <UserCheck className="w-5 h-5" />
+            Membership Requests
+            {requests.length > 0 && <Badge variant="secondary">{requests.length}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            New accounts see no referrals until they are confirmed as staff of a hospital
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Hospital</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead>Requested</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                    {loading ? 'Loading...' : 'No requests waiting for review'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                requests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell>
+                      <p className="font-medium">{request.userName || 'Unknown User'}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {request.userEmail}
+                        {request.userSpecialty && ` · ${request.userSpecialty}`}
+                      </p>
+                    </TableCell>
+                    <TableCell>{request.hospitalName || 'Unknown'}</TableCell>
+                    <TableCell className="max-w-[240px] text-sm text-muted-foreground">
+                      {request.message || '—'}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {formatDistanceToNow(request.createdAt, { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleApprove(request)}
+                          disabled={reviewingId === request.id}
+                        >
+                          {reviewingId === request.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Check className="w-4 h-4 mr-1" />
+                          )}
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRejecting(request)}
+                          disabled={reviewingId === request.id}
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5" />
+            Invite Codes
+          </CardTitle>
+          <CardDescription>Staff who sign up with a code join its hospital without review</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-[1fr_120px_140px_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label>Hospital</Label>
+              <Select value={inviteHospitalId} onValueChange={setInviteHospitalId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select hospital" />
+                </SelectTrigger>
+                <SelectContent>
+                  {hospitals.map((hospital) => (
+                    <SelectItem key={hospital.id} value={hospital.id}>
+                      {hospital.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-max-uses">Uses</Label>
+              <Input
+                id="invite-max-uses"
+                type="number"
+                min={1}
+                value={inviteMaxUses}
+                onChange={(e) => setInviteMaxUses(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Expires after</Label>
+              <Select value={inviteDays} onValueChange={setInviteDays}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">1 day</SelectItem>
+                  <SelectItem value="7">7 days</SelectItem>
+                  <SelectItem value="30">30 days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleCreateInvite} disabled={!inviteHospitalId || creatingInvite} className="gap-2">
+              {creatingInvite ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Create code
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Hospital</TableHead>
+                <TableHead className="text-right">Used</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {activeInvites.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                    {loading ? 'Loading...' : 'No active invite codes'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                activeInvites.map((invite) => (
+                  <TableRow key={invite.id}>
+                    <TableCell className="font-mono">{invite.code}</TableCell>
+                    <TableCell>{invite.hospitalName || 'Unknown'}</TableCell>
+                    <TableCell className="text-right">
+                      {invite.useCount} / {invite.maxUses}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {format(invite.expiresAt, 'MMM d, yyyy HH:mm')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => copyCode(invite.code)}>
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => revokeInvite(invite)}>
+                          Revoke
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject membership request</DialogTitle>
+            <DialogDescription>
+              {rejecting?.userName || 'This user'} will be told their request to join{' '}
+              {rejecting?.hospitalName || 'the hospital'} was declined.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-note">Reason (shown to the user, optional)</Label>
+            <Textarea
+              id="reject-note"
+              value={rejectNote}
+              onChange={(e) => setRejectNote(e.target.value)}
+              rows={3}
+              maxLength={500}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReject} disabled={reviewingId === rejecting?.id}>
+              Reject request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MembershipQueue;
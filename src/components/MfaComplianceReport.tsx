@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useMfaCompliance, MfaComplianceEntry } from '@/hooks/useMfaPolicies';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { KeyRound, RefreshCw } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+const statusConfig: Record<MfaComplianceEntry['status'], { label: string; color: string }> = {
+  overdue: { label: 'Overdue', color: 'bg-red-500' },
+  pending: { label: 'In grace period', color: 'bg-yellow-500' },
+  optional: { label: 'Not required', color: 'bg-gray-500' },
+  enrolled: { label: 'Enrolled', color: 'bg-green-600' },
+};
+
+const MfaComplianceReport = () => {
+  const { entries, loading, refetch } = useMfaCompliance();
+  const [filter, setFilter] = useState<'missing' | 'all'>('missing');
+
+  const missing = entries.filter(e => e.status === 'overdue' || e.status === 'pending');
+  const shown = filter === 'missing' ? missing : entries;
+  const required = entries.filter(e => e.status !== 'optional');
+  const enrolledCount = required.filter(e => e.enrolled).length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5" />
+              Two-Factor Compliance
+            </CardTitle>
+            <CardDescription>
+              {required.length > 0
+                ? `${enrolledCount} of ${required.length} users who need two-factor authentication have enrolled`
+                : 'No policy requires two-factor authentication yet'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={filter} onValueChange={(value) => setFilter(value as 'missing' | 'all')}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="missing">Not enrolled</SelectItem>
+                <SelectItem value="all">Everyone</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={refetch} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Hospital</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Deadline</TableHead>
+              <TableHead>Last sign-in</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shown.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                  {loading ? 'Loading...' : 'Everyone who needs two-factor authentication has enrolled'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              shown.map(entry => {
+                const config = statusConfig[entry.status];
+                return (
+                  <TableRow key={entry.userId}>
+                    <TableCell>
+                      <p className="font-medium">{entry.fullName}</p>
+                      <p className="text-xs text-muted-foreground">{entry.email}</p>
+                    </TableCell>
+                    <TableCell>{entry.hospitalName || '-'}</TableCell>
+                    <TableCell>{entry.role ? ROLE_LABELS[entry.role] : '-'}</TableCell>
+                    <TableCell>
+                      <Badge className={`${config.color} text-white`}>{config.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {entry.deadline && !entry.enrolled ? format(entry.deadline, 'MMM d, yyyy') : '-'}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {entry.lastSignInAt ? formatDistanceToNow(entry.lastSignInAt, { addSuffix: true }) : 'Never'}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MfaComplianceReport;
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMfaPolicies } from '@/hooks/useMfaPolicies';
+import { useHospitals } from '@/hooks/useHospitals';
+import { AppRole, ROLE_LABELS, ROLE_PRIORITY, hasPermission } from '@/lib/permissions';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+const ALL = 'all';
+
+const MfaPolicySettings = () => {
+  const { currentUser } = useAuth();
+  const { policies, loading, addPolicy, removePolicy } = useMfaPolicies();
+  const { hospitals } = useHospitals();
+  const isSystemAdmin = hasPermission(currentUser, 'system.manage');
+  const [role, setRole] = useState(ALL);
+  const [hospitalId, setHospitalId] = useState(isSystemAdmin ? ALL : currentUser?.hospital_id || '');
+  const [graceDays, setGraceDays] = useState('7');
+  const [saving, setSaving] = useState(false);
+
+  const hospitalName = (id?: string) =>
+    id ? hospitals.find(h => h.id === id)?.name || 'Unknown hospital' : 'All hospitals';
+
+  // Hospital admins can only add policies for their own hospital, but still see network-wide ones
+  const canRemove = (policyHospitalId?: string) =>
+    isSystemAdmin || (!!policyHospitalId && policyHospitalId === currentUser?.hospital_id);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    await addPolicy({
+      role: role === ALL ? undefined : role as AppRole,
+      hospitalId: hospitalId === ALL ? undefined : hospitalId,
+      gracePeriodDays: Math.min(90, Math.max(0, parseInt(graceDays) || 0)),
+    });
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Two-Factor Authentication Policy
+        </CardTitle>
+        <CardDescription>
+          Users a policy applies to must enrol an authenticator app within the grace period. After that, and as soon
+          as they enrol, referrals are only available in a two-factor session.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+          <div className="space-y-2">
+            <Label>Hospital</Label>
+            <Select value={hospitalId} onValueChange={setHospitalId} disabled={!isSystemAdmin}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select hospital" />
+              </SelectTrigger>
+              <SelectContent>
+                {isSystemAdmin && <SelectItem value={ALL}>All hospitals</SelectItem>}
+                {hospitals
+                  .filter(h => isSystemAdmin || h.id === currentUser?.hospital_id)
+                  .map(h => (
+                    <SelectItem key={h.id} value={h.id}>{h.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All roles</SelectItem>
+                {ROLE_PRIORITY.map(r => (
+                  <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mfa-grace-days">Grace period (days)</Label>
+            <Input
+              id="mfa-grace-days"
+              type="number"
+              min="0"
+              max="90"
+              value={graceDays}
+              onChange={(e) => setGraceDays(e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={saving || !hospitalId}>
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Require 2FA
+          </Button>
+        </form>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Hospital</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Grace period</TableHead>
+                <TableHead>Since</TableHead>
+                <TableHead className="w-16" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                    Two-factor authentication is optional for everyone
+                  </TableCell>
+                </TableRow>
+              ) : (
+                policies.map(policy => (
+                  <TableRow key={policy.id}>
+                    <TableCell>{hospitalName(policy.hospitalId)}</TableCell>
+                    <TableCell>{policy.role ? ROLE_LABELS[policy.role] : 'All roles'}</TableCell>
+                    <TableCell>{policy.gracePeriodDays} {policy.gracePeriodDays === 1 ? 'day' : 'days'}</TableCell>
+                    <TableCell className="text-sm">{format(policy.createdAt, 'MMM d, yyyy')}</TableCell>
+                    <TableCell>
+                      {canRemove(policy.hospitalId) && (
+                        <Button size="sm" variant="ghost" onClick={() => removePolicy(policy.id)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MfaPolicySettings;
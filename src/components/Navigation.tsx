@@ -16,10 +16,12 @@ import {
   BookTemplate,
   ClipboardList,
   MessageSquare,
-  Settings
+  Settings,
+  Shield
 } from 'lucide-react';
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
+import { Permission, hasPermission, homePath, ADMIN_DASHBOARD_PERMISSIONS } from '@/lib/permissions';
 import NotificationCenter from '@/components/NotificationCenter';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
@@ -36,16 +38,18 @@ const Navigation = () => {
 
   const isAdmin = currentUser?.role === 'admin';
 
-  const doctorNavItems = [
+  // Same permissions as the routes in App.tsx
+  const doctorNavItems: { path: string; label: string; icon: typeof Activity; permission?: Permission | Permission[] }[] = [
     { path: '/dashboard', label: 'Dashboard', icon: Activity },
-    { path: '/create-referral', label: 'New Referral', icon: Send },
+    { path: '/create-referral', label: 'New Referral', icon: Send, permission: 'referrals.create' },
     { path: '/sent-referrals', label: 'Sent', icon: FileText },
     { path: '/incoming-referrals', label: 'Incoming', icon: Inbox },
     { path: '/messages', label: 'Messages', icon: MessageSquare },
-    { path: '/templates', label: 'Templates', icon: BookTemplate },
-    { path: '/followups', label: 'Follow-ups', icon: ClipboardList },
+    { path: '/templates', label: 'Templates', icon: BookTemplate, permission: 'referrals.create' },
+    { path: '/followups', label: 'Follow-ups', icon: ClipboardList, permission: 'referrals.collaborate' },
     { path: '/analytics', label: 'Analytics', icon: BarChart3 },
     { path: '/doctors', label: 'Directory', icon: Users },
+    { path: '/admin', label: 'Hospital Admin', icon: Shield, permission: ADMIN_DASHBOARD_PERMISSIONS },
   ];
 
   const adminNavItems = [
@@ -53,10 +57,12 @@ const Navigation = () => {
     { path: '/code-lookup', label: 'Code Lookup', icon: Search },
   ];
 
-  const navItems = isAdmin ? adminNavItems : doctorNavItems;
+  const navItems = isAdmin
+    ? adminNavItems
+    : doctorNavItems.filter(item => !item.permission || hasPermission(currentUser, item.permission));
 
   const isActive = (path: string) => location.pathname === path;
-  const defaultPath = isAdmin ? '/admin' : '/dashboard';
+  const defaultPath = homePath(currentUser);
 
   return (
     <TooltipProvider delayDuration={100}>
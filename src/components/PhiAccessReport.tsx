@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { usePhiAccessAnomalies, PhiAccessAnomaly } from '@/hooks/usePhiAccessLog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Eye, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+
+const patternConfig: Record<PhiAccessAnomaly['pattern'], { label: string; description: string; color: string }> = {
+  high_volume: {
+    label: 'High volume',
+    description: 'Opened 25+ referrals within an hour',
+    color: 'bg-orange-500',
+  },
+  bulk_export: {
+    label: 'Bulk export',
+    description: '15+ downloads, PDFs or prints within an hour',
+    color: 'bg-red-500',
+  },
+  code_lookups: {
+    label: 'Code lookups',
+    description: '20+ patient code lookups in a day',
+    color: 'bg-yellow-500',
+  },
+};
+
+const PhiAccessReport = () => {
+  const [days, setDays] = useState('7');
+  const { anomalies, loading, refetch } = usePhiAccessAnomalies(parseInt(days));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Eye className="w-5 h-5" />
+              Unusual Patient Data Access
+            </CardTitle>
+            <CardDescription>
+              Access patterns from the PHI audit trail that deserve a second look
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Last 24 hours</SelectItem>
+                <SelectItem value="7">Last 7 days</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={refetch} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Pattern</TableHead>
+              <TableHead className="text-right">Accesses</TableHead>
+              <TableHead className="text-right">Referrals</TableHead>
+              <TableHead>When</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {anomalies.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                  {loading ? 'Loading...' : 'Nothing unusual in this period'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              anomalies.map((anomaly, index) => {
+                const config = patternConfig[anomaly.pattern];
+                return (
+                  <TableRow key={`${anomaly.userId}-${anomaly.pattern}-${index}`}>
+                    <TableCell className="font-medium">{anomaly.userName}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <Badge className={`${config?.color || 'bg-gray-500'} text-white`}>
+                          {config?.label || anomaly.pattern}
+                        </Badge>
+                        {config && <p className="text-xs text-muted-foreground">{config.description}</p>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{anomaly.accessCount}</TableCell>
+                    <TableCell className="text-right">{anomaly.referralCount}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {format(anomaly.firstAt, 'MMM d, HH:mm')} – {format(anomaly.lastAt, 'MMM d, HH:mm')}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PhiAccessReport;
@@ -1,19 +1,55 @@
 import { ReactNode } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { Permission, hasPermission, homePath, mfaStatus } from '@/lib/permissions';
+import { ShieldAlert } from 'lucide-react';
+import { format } from 'date-fns';
+import PendingVerification from '@/pages/PendingVerification';
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  // Any one of these is enough; the server enforces the same matrix
+  permission?: Permission | Permission[];
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
+  const { isAuthenticated, currentUser } = useAuth();
 
   if (!isAuthenticated) {
     return <Navigate to="/login" replace />;
   }
 
-  return <>{children}</>;
+  // Accounts that have not joined a hospital yet can only ask to join one
+  if (currentUser && currentUser.role !== 'admin' && currentUser.verification_status !== 'verified') {
+    return <PendingVerification />;
+  }
+
+  // Referral data is refused without a two-factor session once an MFA policy is enforced
+  const mfa = mfaStatus(currentUser);
+  if (mfa === 'required') {
+    return <Navigate to="/mfa-required" replace />;
+  }
+
+  if (currentUser && permission && !hasPermission(currentUser, permission)) {
+    return <Navigate to={homePath(currentUser)} replace />;
+  }
+
+  return (
+    <>
+      {mfa === 'grace' && (
+        <div className="flex items-center justify-center gap-2 px-4 py-2 text-sm bg-warning/10 border-b border-warning/30 text-foreground">
+          <ShieldAlert className="w-4 h-4 text-warning shrink-0" />
+          <span>
+            Two-factor authentication is required from {format(new Date(currentUser!.mfa_required_by!), 'MMM d, yyyy')}.{' '}
+            <Link to="/mfa-required" className="font-medium underline underline-offset-2">
+              Set it up now
+            </Link>
+          </span>
+        </div>
+      )}
+      {children}
+    </>
+  );
 };
 
 export default ProtectedRoute;
@@ -31,6 +31,7 @@ const ReferralCard: React.FC<ReferralCardProps> = ({ referral, showFromHospital
               <h3 className="font-semibold text-foreground">{referral.patient.name}</h3>
               <p className="text-sm text-muted-foreground">
                 {referral.patient.age} years • {referral.specialty}
+                {referral.departmentName && ` • ${referral.departmentName}`}
               </p>
             </div>
 
@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useVoice } from '@/hooks/useVoice';
+import { useReferralDraft, ReferralDraft, ReferralDraftInput } from '@/hooks/useReferralDraft';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowLeft, Loader2, Mic, MicOff, Sparkles } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const draftSections: { key: keyof ReferralDraft; label: string; rows: number }[] = [
+  { key: 'history', label: 'History', rows: 4 },
+  { key: 'findings', label: 'Findings', rows: 3 },
+  { key: 'medications', label: 'Medications', rows: 2 },
+  { key: 'question', label: 'Question for the specialist', rows: 2 },
+];
+
+interface ReferralDraftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Everything but the notes comes from the referral form
+  context: Omit<ReferralDraftInput, 'notes'> & { templateName?: string };
+  // The log id goes on the referral so the letter can be traced to its prompt
+  onApply: (draft: ReferralDraft, logId: string) => void;
+}
+
+// Brief notes in, an editable structured draft out; nothing reaches the form until the doctor applies it
+export const ReferralDraftDialog = ({ open, onOpenChange, context, onApply }: ReferralDraftDialogProps) => {
+  const { draftReferral, drafting } = useReferralDraft();
+  const [notes, setNotes] = useState('');
+  const [draft, setDraft] = useState<ReferralDraft | null>(null);
+  const [logId, setLogId] = useState<string | null>(null);
+
+  const handleTranscript = useCallback((text: string) => {
+    setNotes(prev => (prev.trim() ? `${prev.trim()} ${text}` : text));
+  }, []);
+  const { canListen, isListening, startListening, stopListening } = useVoice({ onTranscript: handleTranscript });
+
+  useEffect(() => {
+    if (!open) {
+      stopListening();
+    }
+  }, [open, stopListening]);
+
+  const handleGenerate = async () => {
+    stopListening();
+    const result = await draftReferral({ ...context, notes: notes.trim() });
+    if (result) {
+      setDraft(result.draft);
+      setLogId(result.logId);
+    }
+  };
+
+  const handleApply = () => {
+    if (!draft || !logId) return;
+    onApply(draft, logId);
+    onOpenChange(false);
+    setDraft(null);
+    setLogId(null);
+    setNotes('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5 text-primary" />
+            Draft with AI
+          </DialogTitle>
+          <DialogDescription>
+            {draft
+              ? 'Review and edit the draft. It fills the medical summary and reason, which you can still change before sending.'
+              : 'Jot down or dictate brief notes. The draft uses only what you provide.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline">{context.specialty || 'No specialty chosen'}</Badge>
+          {context.templateName && <Badge variant="outline">Template: {context.templateName}</Badge>}
+          {context.medicalSummary?.trim() && <Badge variant="outline">Includes current summary</Badge>}
+        </div>
+
+        {draft ? (
+          <div className="space-y-4">
+            {draftSections.map(section => (
+              <div key={section.key} className="space-y-2">
+                <Label htmlFor={`draft-${section.key}`}>{section.label}</Label>
+                <Textarea
+                  id={`draft-${section.key}`}
+                  rows={section.rows}
+                  value={draft[section.key]}
+                  onChange={(e) => setDraft(prev => prev && { ...prev, [section.key]: e.target.value })}
+                />
+              </div>
+            ))}
+
+            <div className="flex gap-2 justify-between">
+              <Button variant="ghost" onClick={() => setDraft(null)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to notes
+              </Button>
+              <Button onClick={handleApply}>Use draft</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="draft-notes">Notes</Label>
+                {canListen && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={isListening ? stopListening : startListening}
+                    className={cn(isListening && 'text-destructive')}
+                  >
+                    {isListening ? <MicOff className="w-4 h-4 mr-1" /> : <Mic className="w-4 h-4 mr-1" />}
+                    {isListening ? 'Stop' : 'Dictate'}
+                  </Button>
+                )}
+              </div>
+              <Textarea
+                id="draft-notes"
+                placeholder="e.g. 58M, 3 wks exertional chest pain, ECG ST depression V4-6, on aspirin 75mg, ?angiography"
+                rows={6}
+                maxLength={4000}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={drafting}>
+                Cancel
+              </Button>
+              <Button onClick={handleGenerate} disabled={drafting || !notes.trim()}>
+                {drafting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+                Generate draft
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
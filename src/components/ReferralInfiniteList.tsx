@@ -0,0 +1,70 @@
+import { useEffect, useRef, ReactNode } from 'react';
+import ReferralCard from '@/components/ReferralCard';
+import { Referral } from '@/types/referral';
+import { Loader2 } from 'lucide-react';
+
+interface ReferralInfiniteListProps {
+  referrals: Referral[];
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  onLoadMore: () => void;
+  showFromHospital: boolean;
+  emptyState: ReactNode;
+}
+
+export const ReferralInfiniteList = ({
+  referrals,
+  loading,
+  loadingMore,
+  hasMore,
+  onLoadMore,
+  showFromHospital,
+  emptyState,
+}: ReferralInfiniteListProps) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Fetch the next page once the sentinel below the last card scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !loadingMore) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, onLoadMore]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (referrals.length === 0) {
+    return <>{emptyState}</>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {referrals.map(referral => (
+        <ReferralCard key={referral.id} referral={referral} showFromHospital={showFromHospital} />
+      ))}
+      <div ref={sentinelRef} />
+      {loadingMore && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+    </div>
+  );
+};
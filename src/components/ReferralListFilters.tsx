@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SpecialtyFilter } from '@/components/SpecialtyFilter';
+import { ReferralListFilters as Filters } from '@/hooks/useReferralList';
+import { UrgencyLevel } from '@/types/referral';
+import { DEFAULT_REFERRAL_SPECIALTY, SPECIALTIES } from '@/lib/specialties';
+import { Search, X } from 'lucide-react';
+
+interface ReferralListFiltersProps {
+  filters: Filters;
+  onChange: (changes: Partial<Filters>) => void;
+  onClear: () => void;
+  hospitals: { id: string; name: string }[];
+  hospitalLabel: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const specialtyOptions = [DEFAULT_REFERRAL_SPECIALTY, ...SPECIALTIES];
+
+export const ReferralListFilters = ({
+  filters,
+  onChange,
+  onClear,
+  hospitals,
+  hospitalLabel,
+}: ReferralListFiltersProps) => {
+  const [searchInput, setSearchInput] = useState(filters.search);
+
+  // Every keystroke would otherwise be a server round-trip
+  useEffect(() => {
+    if (searchInput === filters.search) return;
+    const timer = setTimeout(() => onChange({ search: searchInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    setSearchInput(filters.search);
+  }, [filters.search]);
+
+  const hasActiveFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by patient name or medical ID..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select
+          value={filters.urgency || 'all'}
+          onValueChange={(value) => onChange({ urgency: value === 'all' ? '' : value as UrgencyLevel })}
+        >
+          <SelectTrigger className="w-full md:w-40">
+            <SelectValue placeholder="Urgency" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Urgencies</SelectItem>
+            <SelectItem value="emergency">Emergency</SelectItem>
+            <SelectItem value="urgent">Urgent</SelectItem>
+            <SelectItem value="routine">Routine</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.hospitalId || 'all'}
+          onValueChange={(value) => onChange({ hospitalId: value === 'all' ? '' : value })}
+        >
+          <SelectTrigger className="w-full md:w-48">
+            <SelectValue placeholder={hospitalLabel} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{hospitalLabel}: All</SelectItem>
+            {hospitals.map((hospital) => (
+              <SelectItem key={hospital.id} value={hospital.id}>
+                {hospital.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <SpecialtyFilter
+          value={filters.specialty || 'all'}
+          onChange={(value) => onChange({ specialty: value === 'all' ? '' : value })}
+          specialties={specialtyOptions}
+          className="md:w-44"
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+        <span>Created</span>
+        <Input
+          type="date"
+          value={filters.dateFrom}
+          max={filters.dateTo || undefined}
+          onChange={(e) => onChange({ dateFrom: e.target.value })}
+          className="w-auto"
+          aria-label="Created from"
+        />
+        <span>to</span>
+        <Input
+          type="date"
+          value={filters.dateTo}
+          min={filters.dateFrom || undefined}
+          onChange={(e) => onChange({ dateTo: e.target.value })}
+          className="w-auto"
+          aria-label="Created to"
+        />
+        {hasActiveFilters && (
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            <X className="w-4 h-4 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
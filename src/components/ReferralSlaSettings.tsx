@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { useReferralSlas, ReferralSla } from '@/hooks/useReferralSlas';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { UrgencyBadge } from '@/components/StatusBadge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, Save, Timer } from 'lucide-react';
+
+const toMinutes = (value: string) => Math.max(1, parseInt(value) || 1);
+
+const ReferralSlaSettings = () => {
+  const { slas, loading, updateSla } = useReferralSlas();
+  const [drafts, setDrafts] = useState<ReferralSla[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDrafts(slas);
+  }, [slas]);
+
+  const updateDraft = (urgency: ReferralSla['urgency'], changes: Partial<ReferralSla>) => {
+    setDrafts(prev => prev.map(d => (d.urgency === urgency ? { ...d, ...changes } : d)));
+  };
+
+  const handleSave = async (sla: ReferralSla) => {
+    setSaving(true);
+    await updateSla(sla);
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="w-5 h-5" />
+          Acceptance SLAs
+        </CardTitle>
+        <CardDescription>
+          Pending referrals past their deadline are escalated to the receiving hospital's admins, then again at
+          the repeat interval until accepted
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Urgency</TableHead>
+                <TableHead>Accept within (min)</TableHead>
+                <TableHead>Repeat every (min)</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-16" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drafts.map(sla => (
+                <TableRow key={sla.urgency}>
+                  <TableCell>
+                    <UrgencyBadge urgency={sla.urgency} />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={sla.acceptWithinMinutes}
+                      onChange={(e) => updateDraft(sla.urgency, { acceptWithinMinutes: toMinutes(e.target.value) })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={sla.repeatEveryMinutes}
+                      onChange={(e) => updateDraft(sla.urgency, { repeatEveryMinutes: toMinutes(e.target.value) })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={sla.isActive}
+                      onCheckedChange={(checked) => updateDraft(sla.urgency, { isActive: checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button size="sm" variant="outline" onClick={() => handleSave(sla)} disabled={saving}>
+                      <Save className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReferralSlaSettings;
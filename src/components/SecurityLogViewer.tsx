@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useSecurityLogs, SecurityLog } from '@/hooks/useSecurityLogs';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useBlockedIps, isBlockInForce, BlockedIp } from '@/hooks/useBlockedIps';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -31,8 +32,14 @@ import {
   LogOut,
   XCircle,
   CheckCircle,
+  KeyRound,
+  Unlock,
+  UserPlus,
+  UserX,
+  UserCheck,
+  ShieldOff,
 } from 'lucide-react';
-import { format } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
 
 const eventTypeConfig: Record<string, { label: string; icon: React.ReactNode; color: string }> = {
   login_success: { label: 'Login Success', icon: <CheckCircle className="w-4 h-4" />, color: 'bg-green-500' },
@@ -43,11 +50,192 @@ const eventTypeConfig: Record<string, { label: string; icon: React.ReactNode; co
   auto_block: { label: 'Auto Block', icon: <Shield className="w-4 h-4" />, color: 'bg-orange-500' },
   rate_limit_exceeded: { label: 'Rate Limit', icon: <AlertTriangle className="w-4 h-4" />, color: 'bg-yellow-500' },
   suspicious_activity: { label: 'Suspicious', icon: <AlertTriangle className="w-4 h-4" />, color: 'bg-orange-600' },
+  code_lookup_failure: { label: 'Code Lookup Failed', icon: <KeyRound className="w-4 h-4" />, color: 'bg-red-400' },
+  user_provisioned: { label: 'User Created', icon: <UserPlus className="w-4 h-4" />, color: 'bg-blue-600' },
+  user_deactivated: { label: 'User Deactivated', icon: <UserX className="w-4 h-4" />, color: 'bg-red-600' },
+  user_reactivated: { label: 'User Reactivated', icon: <UserCheck className="w-4 h-4" />, color: 'bg-green-600' },
+  session_revoked: { label: 'Session Revoked', icon: <LogOut className="w-4 h-4" />, color: 'bg-gray-600' },
+  sessions_revoked: { label: 'Sessions Revoked', icon: <LogOut className="w-4 h-4" />, color: 'bg-gray-700' },
+  forced_sign_out: { label: 'Forced Sign-out', icon: <Ban className="w-4 h-4" />, color: 'bg-red-600' },
+  mfa_recovery_codes_generated: { label: 'Recovery Codes Created', icon: <KeyRound className="w-4 h-4" />, color: 'bg-blue-500' },
+  mfa_recovery_used: { label: 'Recovery Code Used', icon: <KeyRound className="w-4 h-4" />, color: 'bg-orange-500' },
+  mfa_recovery_failed: { label: 'Recovery Code Failed', icon: <XCircle className="w-4 h-4" />, color: 'bg-red-500' },
+  mfa_reset: { label: '2FA Reset', icon: <ShieldOff className="w-4 h-4" />, color: 'bg-red-600' },
+};
+
+// Minutes; null blocks until an admin lifts it
+const BLOCK_DURATIONS: { value: string; label: string; minutes: number | null }[] = [
+  { value: '60', label: '1 hour', minutes: 60 },
+  { value: '1440', label: '24 hours', minutes: 1440 },
+  { value: '10080', label: '7 days', minutes: 10080 },
+  { value: 'permanent', label: 'Permanent', minutes: null },
+];
+
+const durationMinutes = (value: string) =>
+  BLOCK_DURATIONS.find(d => d.value === value)?.minutes ?? null;
+
+const blockStatus = (block: BlockedIp) => {
+  if (isBlockInForce(block)) return { label: 'Active', className: 'bg-red-500 text-white' };
+  if (block.liftedAt) return { label: 'Lifted', className: 'bg-gray-500 text-white' };
+  return { label: 'Expired', className: 'bg-muted text-muted-foreground' };
+};
+
+interface BlockedIpsCardProps {
+  draftIp: string;
+  onDraftIpChange: (ip: string) => void;
+}
+
+const BlockedIpsCard = ({ draftIp, onDraftIpChange }: BlockedIpsCardProps) => {
+  const { blockedIps, loading, blockIp, extendBlock, liftBlock } = useBlockedIps();
+  const [showInactive, setShowInactive] = useState(false);
+  const [reason, setReason] = useState('');
+  const [duration, setDuration] = useState('1440');
+  const [saving, setSaving] = useState(false);
+
+  const visibleBlocks = showInactive ? blockedIps : blockedIps.filter(isBlockInForce);
+
+  const handleBlock = async () => {
+    if (!draftIp.trim() || !reason.trim()) return;
+    setSaving(true);
+    const ok = await blockIp(draftIp, reason, durationMinutes(duration));
+    setSaving(false);
+    if (ok) {
+      onDraftIpChange('');
+      setReason('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Ban className="w-5 h-5" />
+              Blocked IPs
+            </CardTitle>
+            <CardDescription>
+              Repeated failed logins or patient code lookups through this app block a network automatically
+            </CardDescription>
+          </div>
+          <Select value={showInactive ? 'all' : 'active'} onValueChange={(v) => setShowInactive(v === 'all')}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active blocks</SelectItem>
+              <SelectItem value="all">All blocks</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col sm:flex-row gap-2 mb-4">
+          <Input
+            placeholder="IP address"
+            value={draftIp}
+            onChange={(e) => onDraftIpChange(e.target.value)}
+            className="sm:w-[180px] font-mono"
+          />
+          <Input
+            placeholder="Reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="flex-1"
+          />
+          <Select value={duration} onValueChange={setDuration}>
+            <SelectTrigger className="w-full sm:w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BLOCK_DURATIONS.map(d => (
+                <SelectItem key={d.value} value={d.value}>{d.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleBlock} disabled={saving || !draftIp.trim() || !reason.trim()}>
+            <Ban className="w-4 h-4 mr-2" />
+            Block
+          </Button>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>IP Address</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleBlocks.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                  {loading ? 'Loading...' : 'No blocked IPs'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              visibleBlocks.map((block) => {
+                const status = blockStatus(block);
+                const inForce = isBlockInForce(block);
+                return (
+                  <TableRow key={block.id}>
+                    <TableCell className="font-mono text-sm">{block.ipAddress}</TableCell>
+                    <TableCell className="max-w-[220px] truncate text-sm">{block.reason}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                      {block.autoBlocked ? 'Automatic' : 'Manual'}
+                      {block.blockCount > 1 && ` (×${block.blockCount})`}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {!block.expiresAt
+                        ? 'Never'
+                        : inForce
+                        ? `in ${formatDistanceToNow(block.expiresAt)}`
+                        : format(block.expiresAt, 'MMM d, HH:mm')}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={status.className}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-2">
+                        <Select value="" onValueChange={(v) => extendBlock(block, durationMinutes(v))}>
+                          <SelectTrigger className="h-8 w-[120px]">
+                            <SelectValue placeholder={inForce ? 'Extend' : 'Re-block'} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {BLOCK_DURATIONS.map(d => (
+                              <SelectItem key={d.value} value={d.value}>
+                                {d.minutes === null ? d.label : `+ ${d.label}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {inForce && (
+                          <Button variant="outline" size="sm" onClick={() => liftBlock(block)}>
+                            <Unlock className="w-4 h-4 mr-1" />
+                            Lift
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
 };
 
 const SecurityLogViewer = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [eventFilter, setEventFilter] = useState<string>('all');
+  const [draftIp, setDraftIp] = useState('');
   const { logs, loading, refetch, exportLogsAsCSV } = useSecurityLogs({ limit: 200 });
 
   const filteredLogs = logs.filter((log) => {
@@ -76,103 +264,127 @@ const SecurityLogViewer = () => {
   };
 
   return (
-    <Card>
-      <CardHeader className="pb-3">
-        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-          <CardTitle className="flex items-center gap-2">
-            <Shield className="w-5 h-5" />
-            Security Logs
-          </CardTitle>
-          <div className="flex items-center gap-2">
-            <Button variant="outline" size="sm" onClick={refetch} disabled={loading}>
-              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
-              Refresh
-            </Button>
-            <Button variant="outline" size="sm" onClick={exportLogsAsCSV}>
-              <Download className="w-4 h-4 mr-2" />
-              Export CSV
-            </Button>
+    <div className="space-y-6">
+      <BlockedIpsCard draftIp={draftIp} onDraftIpChange={setDraftIp} />
+
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <Shield className="w-5 h-5" />
+              Security Logs
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={refetch} disabled={loading}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button variant="outline" size="sm" onClick={exportLogsAsCSV}>
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
           </div>
-        </div>
-      </CardHeader>
-      <CardContent>
-        <div className="flex flex-col sm:flex-row gap-4 mb-4">
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-            <Input
-              placeholder="Search by IP, email, or event type..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-9"
-            />
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-4 mb-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by IP, email, or event type..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Select value={eventFilter} onValueChange={setEventFilter}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue placeholder="Filter by event" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Events</SelectItem>
+                {Object.entries(eventTypeConfig).map(([key, { label }]) => (
+                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
-          <Select value={eventFilter} onValueChange={setEventFilter}>
-            <SelectTrigger className="w-full sm:w-[180px]">
-              <SelectValue placeholder="Filter by event" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Events</SelectItem>
-              {Object.entries(eventTypeConfig).map(([key, { label }]) => (
-                <SelectItem key={key} value={key}>{label}</SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
 
-        <ScrollArea className="h-[500px]">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Date</TableHead>
-                <TableHead>Event</TableHead>
-                <TableHead>IP Address</TableHead>
-                <TableHead>Email</TableHead>
-                <TableHead>Details</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredLogs.length === 0 ? (
+          <ScrollArea className="h-[500px]">
+            <Table>
+              <TableHeader>
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
-                    {loading ? 'Loading...' : 'No security logs found'}
-                  </TableCell>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="w-12" />
                 </TableRow>
-              ) : (
-                filteredLogs.map((log) => {
-                  const config = getEventConfig(log.event_type);
-                  return (
-                    <TableRow key={log.id}>
-                      <TableCell className="whitespace-nowrap">
-                        {format(new Date(log.created_at), 'MMM d, yyyy HH:mm')}
-                      </TableCell>
-                      <TableCell>
-                        <Badge className={`${config.color} text-white flex items-center gap-1 w-fit`}>
-                          {config.icon}
-                          {config.label}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="font-mono text-sm">
-                        {log.ip_address || '-'}
-                      </TableCell>
-                      <TableCell className="max-w-[150px] truncate">
-                        {log.email || '-'}
-                      </TableCell>
-                      <TableCell className="max-w-[200px] truncate text-sm text-muted-foreground">
-                        {formatDetails(log.details)}
-                      </TableCell>
-                    </TableRow>
-                  );
-                })
-              )}
-            </TableBody>
-          </Table>
-        </ScrollArea>
-
-        <div className="mt-4 text-sm text-muted-foreground">
-          Showing {filteredLogs.length} of {logs.length} logs
-        </div>
-      </CardContent>
-    </Card>
+              </TableHeader>
+              <TableBody>
+                {filteredLogs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                      {loading ? 'Loading...' : 'No security logs found'}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredLogs.map((log) => {
+                    const config = getEventConfig(log.event_type);
+                    return (
+                      <TableRow key={log.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(log.created_at), 'MMM d, yyyy HH:mm')}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={`${config.color} text-white flex items-center gap-1 w-fit`}>
+                            {config.icon}
+                            {config.label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">
+                          {log.ip_address || '-'}
+                        </TableCell>
+                        <TableCell
+                          className="max-w-[150px] truncate"
+                          title={log.email && !log.user_id ? 'Reported by the client before sign-in; not verified' : undefined}
+                        >
+                          {log.email || '-'}
+                          {log.email && !log.user_id && (
+                            <span className="ml-1 text-xs text-muted-foreground">(unverified)</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-[200px] truncate text-sm text-muted-foreground">
+                          {formatDetails(log.details)}
+                        </TableCell>
+                        <TableCell>
+                          {log.ip_address && log.ip_address !== 'unknown' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              title="Block this IP"
+                              onClick={() => setDraftIp(log.ip_address!)}
+                            >
+                              <Ban className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+
+          <div className="mt-4 text-sm text-muted-foreground">
+            Showing {filteredLogs.length} of {logs.length} logs
+          </div>
+        </CardContent>
+      </Card>
+    </div>
   );
 };
 
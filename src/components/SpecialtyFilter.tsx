@@ -0,0 +1,26 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+interface SpecialtyFilterProps {
+  value: string;
+  onChange: (value: string) => void;
+  specialties: string[];
+  className?: string;
+}
+
+// 'all' means no specialty filter
+export const SpecialtyFilter = ({ value, onChange, specialties, className }: SpecialtyFilterProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className={cn('w-full sm:w-48', className)}>
+      <SelectValue placeholder="Filter by specialty" />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value="all">All Specialties</SelectItem>
+      {specialties.map((specialty) => (
+        <SelectItem key={specialty} value={specialty}>
+          {specialty}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
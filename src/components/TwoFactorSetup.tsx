@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { generateRecoveryCodes, redeemRecoveryCode } from '@/hooks/useMFA';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -11,17 +13,132 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Card, CardContent } from '@/components/ui/card';
-import { Loader2, Shield, ShieldCheck, ShieldOff, Copy, Check } from 'lucide-react';
+import { Loader2, Shield, ShieldCheck, ShieldOff, Copy, Check, Download, KeyRound } from 'lucide-react';
 import { toast } from 'sonner';
 
+// Shown once, right after the codes are generated; only their hashes are kept
+export const RecoveryCodesList = ({ codes }: { codes: string[] }) => {
+  const [copied, setCopied] = useState(false);
+  const text = codes.join('\n');
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+    toast.success('Recovery codes copied to clipboard');
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob([`MedRefer recovery codes\n\n${text}\n`], { type: 'text/plain;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'medrefer-recovery-codes.txt';
+    link.click();
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Each code signs you in once if you lose your authenticator. Keep them somewhere safe; they will not be
+        shown again.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 bg-muted p-3 rounded-lg">
+        {codes.map(code => (
+          <code key={code} className="text-sm font-mono text-center">{code}</code>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={copyCodes} className="flex-1">
+          {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+          Copy
+        </Button>
+        <Button variant="outline" onClick={downloadCodes} className="flex-1">
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface RecoveryCodesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onGenerated?: () => void;
+}
+
+export const RecoveryCodesDialog = ({ open, onOpenChange, onGenerated }: RecoveryCodesDialogProps) => {
+  const [codes, setCodes] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setCodes(null);
+    }
+  }, [open]);
+
+  const handleGenerate = async () => {
+    setLoading(true);
+    const { codes: generated, error } = await generateRecoveryCodes();
+    setLoading(false);
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setCodes(generated || []);
+    onGenerated?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5 text-primary" />
+            Recovery Codes
+          </DialogTitle>
+          <DialogDescription>
+            {codes ? 'Your new recovery codes' : 'New codes replace any you created before'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {codes ? (
+          <div className="space-y-4">
+            <RecoveryCodesList codes={codes} />
+            <Button onClick={() => onOpenChange(false)} className="w-full">
+              I've saved these codes
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={handleGenerate} disabled={loading} className="flex-1">
+              {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <KeyRound className="w-4 h-4 mr-2" />}
+              Create new codes
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
 interface TwoFactorSetupProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onComplete?: () => void;
+  // A second authenticator for a user who already has one; recovery codes are left alone
+  backup?: boolean;
 }
 
-export const TwoFactorSetup = ({ open, onOpenChange, onComplete }: TwoFactorSetupProps) => {
-  const [step, setStep] = useState<'intro' | 'qr' | 'verify'>('intro');
+export const TwoFactorSetup = ({ open, onOpenChange, onComplete, backup = false }: TwoFactorSetupProps) => {
+  const [step, setStep] = useState<'intro' | 'qr' | 'verify' | 'codes'>('intro');
+  const [deviceName, setDeviceName] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [qrCode, setQrCode] = useState<string | null>(null);
   const [secret, setSecret] = useState<string | null>(null);
@@ -36,15 +153,23 @@ export const TwoFactorSetup = ({ open, onOpenChange, onComplete }: TwoFactorSetu
       setSecret(null);
       setFactorId(null);
       setVerifyCode('');
+      setDeviceName(backup ? 'Backup device' : 'MedRefer Authenticator');
+      setRecoveryCodes([]);
     }
-  }, [open]);
+  }, [open, backup]);
 
   const handleEnroll = async () => {
     setLoading(true);
     try {
+      // An abandoned setup leaves an unverified factor behind, which would clash on the device name
+      const { data: existing } = await supabase.auth.mfa.listFactors();
+      for (const factor of existing?.all.filter(f => f.status === 'unverified') || []) {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      }
+
       const { data, error } = await supabase.auth.mfa.enroll({
         factorType: 'totp',
-        friendlyName: 'MedRefer Authenticator',
+        friendlyName: deviceName.trim() || 'MedRefer Authenticator',
       });
 
       if (error) throw error;
@@ -85,9 +210,24 @@ export const TwoFactorSetup = ({ open, onOpenChange, onComplete }: TwoFactorSetu
 
       if (verifyError) throw verifyError;
 
+      if (backup) {
+        toast.success('Backup device added');
+        onComplete?.();
+        onOpenChange(false);
+        return;
+      }
+
+      // The session is two-factor now, which recovery codes require
       toast.success('Two-factor authentication enabled successfully!');
-      onComplete?.();
-      onOpenChange(false);
+      const { codes, error: codesError } = await generateRecoveryCodes();
+      if (codesError || !codes) {
+        toast.error('Recovery codes could not be created; create them from your profile');
+        onComplete?.();
+        onOpenChange(false);
+        return;
+      }
+      setRecoveryCodes(codes);
+      setStep('codes');
     } catch (error: any) {
       console.error('Error verifying 2FA:', error);
       toast.error(error.message || 'Invalid verification code');
@@ -96,6 +236,14 @@ export const TwoFactorSetup = ({ open, onOpenChange, onComplete }: TwoFactorSetu
     }
   };
 
+  // Closing from the codes step still finishes setup; the factor is already enabled
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen && step === 'codes') {
+      onComplete?.();
+    }
+    onOpenChange(isOpen);
+  };
+
   const copySecret = async () => {
     if (secret) {
       await navigator.clipboard.writeText(secret);
@@ -106,15 +254,17 @@ export const TwoFactorSetup = ({ open, onOpenChange, onComplete }: TwoFactorSetu
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Shield className="w-5 h-5 text-primary" />
-            Set Up Two-Factor Authentication
+            {backup ? 'Add a Backup Device' : 'Set Up Two-Factor Authentication'}
           </DialogTitle>
           <DialogDescription>
-            Add an extra layer of security to your account
+            {backup
+              ? 'A second authenticator you can sign in with if you lose your phone'
+              : 'Add an extra layer of security to your account'}
           </DialogDescription>
         </DialogHeader>
 
@@ -138,6 +288,15 @@ export const TwoFactorSetup = ({ open, onOpenChange, onComplete }: TwoFactorSetu
                 </div>
               </CardContent>
             </Card>
+            <div className="space-y-2">
+              <Label htmlFor="device-name">Device name</Label>
+              <Input
+                id="device-name"
+                value={deviceName}
+                onChange={(e) => setDeviceName(e.target.value)}
+                maxLength={60}
+              />
+            </div>
             <Button onClick={handleEnroll} disabled={loading} className="w-full">
               {loading ? (
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -218,6 +377,15 @@ export const TwoFactorSetup = ({ open, onOpenChange, onComplete }: TwoFactorSetu
             </div>
           </div>
         )}
+
+        {step === 'codes' && (
+          <div className="space-y-4">
+            <RecoveryCodesList codes={recoveryCodes} />
+            <Button onClick={() => handleOpenChange(false)} className="w-full">
+              I've saved these codes
+            </Button>
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -228,17 +396,48 @@ interface TwoFactorVerifyProps {
   factorId: string;
   onVerified: () => void;
   onCancel: () => void;
+  // Offer a recovery code instead; on success the user's factors are removed and onVerified is called
+  allowRecovery?: boolean;
 }
 
-export const TwoFactorVerify = ({ open, factorId, onVerified, onCancel }: TwoFactorVerifyProps) => {
+export const TwoFactorVerify = ({ open, factorId, onVerified, onCancel, allowRecovery = false }: TwoFactorVerifyProps) => {
   const [code, setCode] = useState('');
   const [loading, setLoading] = useState(false);
+  const [devices, setDevices] = useState<{ id: string; name: string }[]>([]);
+  const [selectedFactorId, setSelectedFactorId] = useState(factorId);
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
 
   useEffect(() => {
     if (!open) {
       setCode('');
+      setRecoveryCode('');
+      setUseRecovery(false);
+      return;
     }
-  }, [open]);
+
+    // Users with a backup device pick which one they have to hand
+    setSelectedFactorId(factorId);
+    supabase.auth.mfa.listFactors().then(({ data }) => {
+      setDevices((data?.totp || [])
+        .filter(f => f.status === 'verified')
+        .map(f => ({ id: f.id, name: f.friendly_name || 'Authenticator' })));
+    });
+  }, [open, factorId]);
+
+  const handleRecover = async () => {
+    setLoading(true);
+    const { error } = await redeemRecoveryCode(recoveryCode);
+    setLoading(false);
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    toast.warning('Two-factor authentication was removed from your account. Set it up again on a new device.');
+    onVerified();
+  };
 
   const handleVerify = async () => {
     if (code.length !== 6) {
@@ -249,13 +448,13 @@ export const TwoFactorVerify = ({ open, factorId, onVerified, onCancel }: TwoFac
     setLoading(true);
     try {
       const { data: challengeData, error: challengeError } = await supabase.auth.mfa.challenge({
-        factorId,
+        factorId: selectedFactorId,
       });
 
       if (challengeError) throw challengeError;
 
       const { error: verifyError } = await supabase.auth.mfa.verify({
-        factorId,
+        factorId: selectedFactorId,
         challengeId: challengeData.id,
         code,
       });
@@ -280,45 +479,101 @@ export const TwoFactorVerify = ({ open, factorId, onVerified, onCancel }: TwoFac
             Two-Factor Authentication
           </DialogTitle>
           <DialogDescription>
-            Enter the code from your authenticator app to continue
+            {useRecovery
+              ? 'Enter one of the recovery codes you saved when you set up two-factor authentication'
+              : 'Enter the code from your authenticator app to continue'}
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="mfa-code">Verification Code</Label>
-            <Input
-              id="mfa-code"
-              type="text"
-              inputMode="numeric"
-              pattern="[0-9]*"
-              maxLength={6}
-              value={code}
-              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
-              placeholder="000000"
-              className="text-center text-2xl tracking-widest font-mono"
-              autoComplete="one-time-code"
-              autoFocus
-            />
+        {useRecovery ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="mfa-recovery-code">Recovery Code</Label>
+              <Input
+                id="mfa-recovery-code"
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value.toUpperCase())}
+                placeholder="XXXXX-XXXXX-XXXXX-XXXXX"
+                className="text-center tracking-wider font-mono"
+                autoComplete="off"
+                autoFocus
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setUseRecovery(false)} className="flex-1">
+                Back
+              </Button>
+              <Button
+                onClick={handleRecover}
+                disabled={loading || recoveryCode.trim().length === 0}
+                className="flex-1"
+              >
+                {loading ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <KeyRound className="w-4 h-4 mr-2" />
+                )}
+                Use code
+              </Button>
+            </div>
           </div>
-          <div className="flex gap-2">
-            <Button variant="outline" onClick={onCancel} className="flex-1">
-              Cancel
-            </Button>
-            <Button
-              onClick={handleVerify}
-              disabled={loading || code.length !== 6}
-              className="flex-1"
-            >
-              {loading ? (
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              ) : (
-                <ShieldCheck className="w-4 h-4 mr-2" />
-              )}
-              Verify
-            </Button>
+        ) : (
+          <div className="space-y-4">
+            {devices.length > 1 && (
+              <div className="space-y-2">
+                <Label>Device</Label>
+                <Select value={selectedFactorId} onValueChange={setSelectedFactorId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {devices.map(device => (
+                      <SelectItem key={device.id} value={device.id}>{device.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="mfa-code">Verification Code</Label>
+              <Input
+                id="mfa-code"
+                type="text"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                placeholder="000000"
+                className="text-center text-2xl tracking-widest font-mono"
+                autoComplete="one-time-code"
+                autoFocus
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={onCancel} className="flex-1">
+                Cancel
+              </Button>
+              <Button
+                onClick={handleVerify}
+                disabled={loading || code.length !== 6}
+                className="flex-1"
+              >
+                {loading ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                )}
+                Verify
+              </Button>
+            </div>
+            {allowRecovery && (
+              <Button variant="link" onClick={() => setUseRecovery(true)} className="w-full">
+                Lost your device? Use a recovery code
+              </Button>
+            )}
           </div>
-        </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -329,9 +584,11 @@ interface TwoFactorDisableProps {
   onOpenChange: (open: boolean) => void;
   factorId: string;
   onDisabled: () => void;
+  // Set when other devices remain, so only this one is removed and 2FA stays on
+  deviceName?: string;
 }
 
-export const TwoFactorDisable = ({ open, onOpenChange, factorId, onDisabled }: TwoFactorDisableProps) => {
+export const TwoFactorDisable = ({ open, onOpenChange, factorId, onDisabled, deviceName }: TwoFactorDisableProps) => {
   const [loading, setLoading] = useState(false);
 
   const handleDisable = async () => {
@@ -341,7 +598,7 @@ export const TwoFactorDisable = ({ open, onOpenChange, factorId, onDisabled }: T
 
       if (error) throw error;
 
-      toast.success('Two-factor authentication disabled');
+      toast.success(deviceName ? `${deviceName} removed` : 'Two-factor authentication disabled');
       onDisabled();
       onOpenChange(false);
     } catch (error: any) {
@@ -358,10 +615,12 @@ export const TwoFactorDisable = ({ open, onOpenChange, factorId, onDisabled }: T
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <ShieldOff className="w-5 h-5 text-destructive" />
-            Disable Two-Factor Authentication
+            {deviceName ? `Remove ${deviceName}` : 'Disable Two-Factor Authentication'}
           </DialogTitle>
           <DialogDescription>
-            Are you sure you want to disable 2FA? Your account will be less secure.
+            {deviceName
+              ? 'Codes from this device will no longer sign you in. Your other devices keep working.'
+              : 'Are you sure you want to disable 2FA? Your account will be less secure.'}
           </DialogDescription>
         </DialogHeader>
 
@@ -375,7 +634,7 @@ export const TwoFactorDisable = ({ open, onOpenChange, factorId, onDisabled }: T
             ) : (
               <ShieldOff className="w-4 h-4 mr-2" />
             )}
-            Disable 2FA
+            {deviceName ? 'Remove device' : 'Disable 2FA'}
           </Button>
         </div>
       </DialogContent>
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { logSecurityEvent, readFunctionFailure } from '@/lib/securityEvents';
+import { AppRole, Permission, primaryRole } from '@/lib/permissions';
 
 export interface UserProfile {
   id: string;
@@ -9,7 +11,15 @@ export interface UserProfile {
   hospital_id: string | null;
   hospital_name?: string;
   specialty: string | null;
-  role: 'doctor' | 'admin';
+  role: AppRole; // Highest of roles
+  roles: AppRole[];
+  permissions: Permission[];
+  // Only verified members are given a hospital and see its referrals
+  verification_status: 'pending' | 'verified' | 'rejected';
+  // Set when an MFA policy applies: after this, referral data needs a two-factor session
+  mfa_required_by: string | null;
+  mfa_enrolled: boolean;
+  aal: 'aal1' | 'aal2';
 }
 
 export interface MFAChallenge {
@@ -24,8 +34,9 @@ interface AuthContextType {
   currentUser: UserProfile | null;
   isLoading: boolean;
   login: (email: string, password: string) => Promise<{ error: string | null; mfaRequired?: boolean; factorId?: string }>;
-  signup: (email: string, password: string, fullName: string, hospitalId?: string, specialty?: string) => Promise<{ error: string | null }>;
+  signup: (email: string, password: string, fullName: string, inviteCode?: string, specialty?: string) => Promise<{ error: string | null; inviteError?: string }>;
   logout: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
   isAuthenticated: boolean;
   mfaChallenge: MFAChallenge | null;
   setMfaChallenge: (challenge: MFAChallenge | null) => void;
@@ -66,9 +77,25 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         console.error('Error fetching role:', roleError);
       }
 
-      // Prioritize admin role if user has multiple roles
-      const isAdmin = rolesData?.some(r => r.role === 'admin');
-      const userRole = isAdmin ? 'admin' : (rolesData?.[0]?.role as 'doctor' | 'admin') || 'doctor';
+      const roles = (rolesData || []).map(r => r.role);
+
+      // What those roles allow, from the same matrix the RLS policies use
+      const { data: permissionsData, error: permissionsError } = roles.length > 0
+        ? await supabase.from('role_permissions').select('permission').in('role', roles)
+        : { data: [] as { permission: string }[], error: null };
+
+      if (permissionsError) {
+        console.error('Error fetching permissions:', permissionsError);
+      }
+
+      const [{ data: mfaDeadline, error: mfaError }, { data: aalData }] = await Promise.all([
+        supabase.rpc('mfa_deadline', { _user_id: userId }),
+        supabase.auth.mfa.getAuthenticatorAssuranceLevel(),
+      ]);
+
+      if (mfaError) {
+        console.error('Error fetching MFA deadline:', mfaError);
+      }
 
       const userProfile: UserProfile = {
         id: profile.id,
@@ -77,7 +104,13 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         hospital_id: profile.hospital_id,
         hospital_name: (profile.hospitals as any)?.name || undefined,
         specialty: profile.specialty,
-        role: userRole,
+        role: primaryRole(roles),
+        roles,
+        permissions: [...new Set((permissionsData || []).map(p => p.permission as Permission))],
+        verification_status: profile.verification_status as UserProfile['verification_status'],
+        mfa_required_by: mfaDeadline || null,
+        mfa_enrolled: aalData?.nextLevel === 'aal2',
+        aal: aalData?.currentLevel === 'aal2' ? 'aal2' : 'aal1',
       };
 
       return userProfile;
@@ -123,36 +156,19 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return () => subscription.unsubscribe();
   }, []);
 
-  const logSecurityEvent = async (eventType: string, email?: string, details?: Record<string, unknown>) => {
-    try {
-      await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/security-logger`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-          body: JSON.stringify({
-            event_type: eventType,
-            email,
-            details,
-          }),
-        }
-      );
-    } catch (err) {
-      console.error('Failed to log security event:', err);
-    }
-  };
-
   const login = async (email: string, password: string): Promise<{ error: string | null; mfaRequired?: boolean; factorId?: string }> => {
-    // Log login attempt
-    await logSecurityEvent('login_attempt', email);
+    // The sign-in function checks the password, so blocked networks and failed attempts are
+    // handled server-side
+    const { data: tokens, error: signInError } = await supabase.functions.invoke('sign-in', {
+      body: { email, password },
+    });
+    if (signInError) {
+      const { message } = await readFunctionFailure(signInError, 'Sign in failed');
+      return { error: message };
+    }
 
-    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    const { data, error } = await supabase.auth.setSession(tokens);
     if (error) {
-      // Log failed login
-      await logSecurityEvent('login_failure', email, { reason: error.message });
       return { error: error.message };
     }
 
@@ -172,7 +188,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
 
     // Log successful login
-    await logSecurityEvent('login_success', email);
+    await logSecurityEvent('login_success');
 
     return { error: null };
   };
@@ -181,9 +197,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     email: string, 
     password: string, 
     fullName: string,
-    hospitalId?: string,
+    inviteCode?: string,
     specialty?: string
-  ): Promise<{ error: string | null }> => {
+  ): Promise<{ error: string | null; inviteError?: string }> => {
     const redirectUrl = `${window.location.origin}/`;
     
     const { data, error } = await supabase.auth.signUp({
@@ -199,12 +215,12 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
 
     if (data.user) {
-      // Create profile - role is assigned by database trigger
+      // Create profile - role is assigned by database trigger, and the profile
+      // stays pending until it joins a hospital
       const { error: profileError } = await supabase.from('profiles').insert({
         id: data.user.id,
         email,
         full_name: fullName,
-        hospital_id: hospitalId || null,
         specialty: specialty || null,
       });
 
@@ -212,14 +228,27 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         console.error('Profile creation error:', profileError);
         return { error: 'Account created but profile setup failed. Please contact support.' };
       }
+
+      if (inviteCode?.trim()) {
+        const { error: inviteError } = await supabase.rpc('redeem_hospital_invite', { _code: inviteCode });
+        if (inviteError) {
+          return { error: null, inviteError: inviteError.message };
+        }
+        setCurrentUser(await fetchUserProfile(data.user.id));
+      }
     }
 
     return { error: null };
   };
 
+  const refreshProfile = async () => {
+    if (!user) return;
+    setCurrentUser(await fetchUserProfile(user.id));
+  };
+
   const logout = async () => {
     if (currentUser) {
-      await logSecurityEvent('logout', currentUser.email);
+      await logSecurityEvent('logout');
     }
     await supabase.auth.signOut();
     setCurrentUser(null);
@@ -234,6 +263,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       login, 
       signup,
       logout, 
+      refreshProfile,
       isAuthenticated: !!user,
       mfaChallenge,
       setMfaChallenge,
@@ -0,0 +1,111 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Referral, ReferralStatus } from '@/types/referral';
+import {
+  ReferralRow,
+  ActivityLogRow,
+  getCachedReferral,
+  upsertReferralRow,
+  removeReferral,
+  appendActivityLog,
+  patchReferralLists,
+} from '@/lib/referralCache';
+
+export interface ReferralChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  row: ReferralRow;
+  previousStatus?: ReferralStatus;
+  previousAssignedDoctorId?: string | null;
+  referral?: Referral; // With joined names resolved; absent for deletes
+}
+
+type ReferralChangeListener = (change: ReferralChange) => void;
+
+interface ReferralRealtimeContextType {
+  subscribe: (listener: ReferralChangeListener) => () => void;
+}
+
+const ReferralRealtimeContext = createContext<ReferralRealtimeContextType | undefined>(undefined);
+
+// Owns the single realtime channel on referrals. Changes are applied to the React Query cache
+// as patches, then handed to subscribers such as the notification center.
+export const ReferralRealtimeProvider = ({ children }: { children: React.ReactNode }) => {
+  const { currentUser } = useAuth();
+  const queryClient = useQueryClient();
+  const listenersRef = useRef(new Set<ReferralChangeListener>());
+  const userId = currentUser?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    // Handle events one at a time so a log entry never overtakes the referral it belongs to
+    let queue = Promise.resolve();
+    const enqueue = (task: () => Promise<void>) => {
+      queue = queue.then(task).catch(error => {
+        console.error('Error applying referral change:', error);
+      });
+    };
+
+    const channel = supabase
+      .channel('referrals-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'referrals' },
+        (payload) => enqueue(async () => {
+          let change: ReferralChange;
+
+          if (payload.eventType === 'DELETE') {
+            const row = payload.old as ReferralRow;
+            removeReferral(queryClient, userId, row.id);
+            change = { eventType: 'DELETE', row, previousStatus: row.status };
+          } else {
+            const row = payload.new as ReferralRow;
+            const old = payload.old as Partial<ReferralRow> | undefined;
+            const cached = getCachedReferral(queryClient, userId, row.id);
+            const previousStatus = old?.status ?? cached?.status;
+            const previousAssignedDoctorId = old?.assigned_doctor_id !== undefined
+              ? old.assigned_doctor_id
+              : cached?.assignedDoctorId ?? null;
+            const referral = await upsertReferralRow(queryClient, userId, row);
+            change = { eventType: payload.eventType, row, previousStatus, previousAssignedDoctorId, referral };
+          }
+
+          patchReferralLists(queryClient, change.eventType, change.row, change.previousStatus, change.referral);
+          listenersRef.current.forEach(listener => listener(change));
+        })
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'referral_activity_logs' },
+        (payload) => enqueue(() => appendActivityLog(queryClient, userId, payload.new as ActivityLogRow))
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  const subscribe = useCallback((listener: ReferralChangeListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <ReferralRealtimeContext.Provider value={{ subscribe }}>
+      {children}
+    </ReferralRealtimeContext.Provider>
+  );
+};
+
+export const useReferralRealtime = () => {
+  const context = useContext(ReferralRealtimeContext);
+  if (!context) {
+    throw new Error('useReferralRealtime must be used within ReferralRealtimeProvider');
+  }
+  return context;
+};
@@ -1,6 +1,29 @@
 import { useState, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { ReferralStatus } from '@/types/referral';
+
+// Proposed by the doctor-mode assistant's tools; nothing happens until the doctor confirms it
+export type ChatAction = (
+  | {
+    type: 'status_change';
+    fromStatus: ReferralStatus;
+    toStatus: ReferralStatus;
+    reason: string | null;
+  }
+  | {
+    type: 'message';
+    content: string;
+  }
+) & {
+  id: string;
+  referralId: string;
+  patientName: string;
+  state?: ChatActionState;
+};
+
+export type ChatActionState = 'confirmed' | 'dismissed';
 
 export interface ChatMessage {
   id: string;
@@ -8,6 +31,7 @@ export interface ChatMessage {
   content: string;
   timestamp: Date;
   status?: 'sending' | 'sent' | 'error';
+  actions?: ChatAction[];
 }
 
 type ChatMode = 'patient' | 'doctor' | 'general';
@@ -15,13 +39,51 @@ type ChatMode = 'patient' | 'doctor' | 'general';
 interface UseAIChatOptions {
   mode?: ChatMode;
   patientCode?: string;
+  // Doctor mode only: called once a reply has been saved to the conversation
+  onConversationSaved?: (conversationId: string) => void;
 }
 
+// As kept in chat_conversations.messages by the ai-assistant edge function
+interface StoredChatAction {
+  id: string;
+  type: 'status_change' | 'message';
+  referral_id: string;
+  patient_name: string;
+  from_status?: ReferralStatus;
+  to_status?: ReferralStatus;
+  reason?: string | null;
+  content?: string;
+  state?: ChatActionState;
+}
+
+interface StoredChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+  actions?: StoredChatAction[];
+}
+
+const toChatAction = (action: StoredChatAction): ChatAction => {
+  const base = {
+    id: action.id,
+    referralId: action.referral_id,
+    patientName: action.patient_name,
+    state: action.state,
+  };
+  return action.type === 'status_change'
+    ? { ...base, type: 'status_change', fromStatus: action.from_status!, toStatus: action.to_status!, reason: action.reason ?? null }
+    : { ...base, type: 'message', content: action.content ?? '' };
+};
+
+// Doctor-mode chats are saved server-side and resumed by id; patient and general chats live only here
 export const useAIChat = (options: UseAIChatOptions = {}) => {
-  const { mode = 'general', patientCode } = options;
+  const { mode = 'general', patientCode, onConversationSaved } = options;
   const { session } = useAuth();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const persisted = mode === 'doctor';
 
   const sendMessage = useCallback(async (content: string) => {
     const userMessage: ChatMessage = {
@@ -63,17 +125,20 @@ export const useAIChat = (options: UseAIChatOptions = {}) => {
         headers['Authorization'] = `Bearer ${session.access_token}`;
       }
 
+      // The server holds a saved conversation's history, so only the new message is sent for those
       const response = await fetch(chatUrl, {
         method: 'POST',
         headers,
-        body: JSON.stringify({
-          messages: [...messages, userMessage].map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
-          mode,
-          patientCode: mode === 'patient' ? patientCode : undefined,
-        }),
+        body: JSON.stringify(persisted
+          ? { mode, conversationId, message: content }
+          : {
+            messages: [...messages, userMessage].map(m => ({
+              role: m.role,
+              content: m.content,
+            })),
+            mode,
+            patientCode: mode === 'patient' ? patientCode : undefined,
+          }),
       });
 
       if (!response.ok) {
@@ -81,6 +146,11 @@ export const useAIChat = (options: UseAIChatOptions = {}) => {
         throw new Error(errorData.error || 'Failed to get response');
       }
 
+      const savedConversationId = response.headers.get('X-Conversation-Id');
+      if (savedConversationId) {
+        setConversationId(savedConversationId);
+      }
+
       if (!response.body) {
         throw new Error('No response body');
       }
@@ -109,6 +179,17 @@ export const useAIChat = (options: UseAIChatOptions = {}) => {
 
           try {
             const parsed = JSON.parse(jsonStr);
+            if (parsed.action) {
+              const action = toChatAction(parsed.action);
+              setMessages(prev =>
+                prev.map(m =>
+                  m.id === assistantMessageId
+                    ? { ...m, actions: [...(m.actions ?? []), action] }
+                    : m
+                )
+              );
+              continue;
+            }
             const deltaContent = parsed.choices?.[0]?.delta?.content;
             if (deltaContent) {
               assistantContent += deltaContent;
@@ -136,6 +217,10 @@ export const useAIChat = (options: UseAIChatOptions = {}) => {
             : m
         )
       );
+
+      if (savedConversationId) {
+        onConversationSaved?.(savedConversationId);
+      }
     } catch (error) {
       console.error('Chat error:', error);
       const errorMessage = error instanceof Error ? error.message : 'An error occurred';
@@ -151,16 +236,65 @@ export const useAIChat = (options: UseAIChatOptions = {}) => {
     } finally {
       setIsLoading(false);
     }
-  }, [messages, mode, patientCode, session?.access_token]);
+  }, [messages, mode, patientCode, session?.access_token, persisted, conversationId, onConversationSaved]);
 
+  // For saved conversations this starts a new one; the old one stays in the history
   const clearMessages = useCallback(() => {
     setMessages([]);
+    setConversationId(null);
   }, []);
 
+  const loadConversation = useCallback(async (id: string) => {
+    const { data, error } = await supabase
+      .from('chat_conversations')
+      .select('id, messages')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) {
+      console.error('Error loading conversation:', error);
+      toast.error('Failed to open conversation');
+      return false;
+    }
+
+    setConversationId(data.id);
+    setMessages(((data.messages as unknown as StoredChatMessage[]) || []).map(m => ({
+      id: m.id,
+      role: m.role,
+      content: m.content,
+      timestamp: new Date(m.created_at),
+      status: 'sent',
+      actions: m.actions?.map(toChatAction),
+    })));
+    return true;
+  }, []);
+
+  // Records that the doctor confirmed or dismissed a proposal, so a reopened conversation won't offer it again
+  const resolveAction = useCallback(async (messageId: string, actionId: string, state: ChatActionState) => {
+    setMessages(prev =>
+      prev.map(m =>
+        m.id === messageId
+          ? { ...m, actions: m.actions?.map(a => (a.id === actionId ? { ...a, state } : a)) }
+          : m
+      )
+    );
+
+    if (!conversationId) return;
+    const { error } = await supabase.rpc('resolve_chat_action', {
+      _conversation_id: conversationId,
+      _action_id: actionId,
+      _state: state,
+    });
+    if (error) console.error('Error saving action state:', error);
+  }, [conversationId]);
+
   return {
     messages,
     isLoading,
     sendMessage,
     clearMessages,
+    conversationId,
+    loadConversation,
+    resolveAction,
   };
 };
@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export type ActivityLogIssue = 'gap' | 'mismatch';
+
+export interface ActivityLogVerification {
+  isValid: boolean;
+  issues: Map<string, ActivityLogIssue[]>;
+  checkedAt: Date;
+}
+
+// Checks a referral's activity log against its hash chain via verify_activity_log_chain
+export const useActivityLogIntegrity = (referralId: string | undefined) => {
+  const [verification, setVerification] = useState<ActivityLogVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const verifyChain = async () => {
+    if (!referralId) return null;
+
+    setVerifying(true);
+    const { data, error } = await supabase.rpc('verify_activity_log_chain', {
+      _referral_id: referralId,
+    });
+    setVerifying(false);
+
+    if (error) {
+      console.error('Error verifying activity log chain:', error);
+      return null;
+    }
+
+    const issues = new Map<string, ActivityLogIssue[]>();
+    for (const row of data || []) {
+      issues.set(row.log_id, [...(issues.get(row.log_id) || []), row.issue as ActivityLogIssue]);
+    }
+
+    const result: ActivityLogVerification = {
+      isValid: issues.size === 0,
+      issues,
+      checkedAt: new Date(),
+    };
+    setVerification(result);
+    return result;
+  };
+
+  useEffect(() => {
+    setVerification(null);
+  }, [referralId]);
+
+  return {
+    verification,
+    verifying,
+    verifyChain,
+  };
+};
@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
 import { Referral } from '@/types/referral';
+import { SlaBreach } from '@/hooks/useReferralSlas';
 import { differenceInHours, differenceInDays, startOfMonth, endOfMonth, eachDayOfInterval, format, subMonths } from 'date-fns';
 
 interface AnalyticsData {
@@ -22,8 +23,21 @@ interface AnalyticsData {
     avgResponseTime: number;
   }[];
   
+  // Specialty breakdown
+  referralsBySpecialty: {
+    specialty: string;
+    count: number;
+    completed: number;
+    avgResponseTime: number;
+  }[];
+  
   // Top referral reasons
   topReasons: { reason: string; count: number }[];
+
+  // SLA compliance: share of referrals that were not accepted in time
+  slaBreachRate: number;
+  slaByUrgency: { urgency: string; total: number; breached: number; rate: number; fill: string }[];
+  slaByHospital: { hospital: string; received: number; breached: number; rate: number }[];
   
   // Personal metrics
   personalMetrics: {
@@ -49,7 +63,11 @@ const URGENCY_COLORS: Record<string, string> = {
   routine: 'hsl(142, 76%, 36%)',
 };
 
-export const useAnalytics = (referrals: Referral[], userId?: string): AnalyticsData => {
+// Entries written by the hospital in reply; creation and SLA escalations are not responses
+const isResponseAction = (action: string) =>
+  action !== 'Referral Created' && action !== 'created' && !action.startsWith('SLA ');
+
+export const useAnalytics = (referrals: Referral[], userId?: string, slaBreaches: SlaBreach[] = []): AnalyticsData => {
   return useMemo(() => {
     if (!referrals.length) {
       return {
@@ -61,7 +79,11 @@ export const useAnalytics = (referrals: Referral[], userId?: string): AnalyticsD
         referralsByStatus: [],
         referralsByUrgency: [],
         hospitalPerformance: [],
+        referralsBySpecialty: [],
         topReasons: [],
+        slaBreachRate: 0,
+        slaByUrgency: [],
+        slaByHospital: [],
         personalMetrics: {
           referralsCreated: 0,
           referralsCompleted: 0,
@@ -81,9 +103,7 @@ export const useAnalytics = (referrals: Referral[], userId?: string): AnalyticsD
     const responseTimes = referrals
       .filter(r => r.activityLog && r.activityLog.length > 1)
       .map(r => {
-        const firstAction = r.activityLog.find(log => 
-          log.action !== 'Referral Created' && log.action !== 'created'
-        );
+        const firstAction = r.activityLog.find(log => isResponseAction(log.action));
         if (firstAction) {
           return differenceInHours(new Date(firstAction.timestamp), new Date(r.createdAt));
         }
@@ -148,9 +168,7 @@ export const useAnalytics = (referrals: Referral[], userId?: string): AnalyticsD
 
       // Track response times for receiving hospital
       if (r.activityLog && r.activityLog.length > 1) {
-        const firstAction = r.activityLog.find(log => 
-          log.action !== 'Referral Created' && log.action !== 'created'
-        );
+        const firstAction = r.activityLog.find(log => isResponseAction(log.action));
         if (firstAction) {
           const responseTime = differenceInHours(new Date(firstAction.timestamp), new Date(r.createdAt));
           hospitalStats[r.toHospitalName].responseTimes.push(responseTime);
@@ -170,6 +188,37 @@ export const useAnalytics = (referrals: Referral[], userId?: string): AnalyticsD
       .sort((a, b) => (b.sent + b.received) - (a.sent + a.received))
       .slice(0, 5);
 
+    // Referrals by specialty
+    const specialtyStats: Record<string, { count: number; completed: number; responseTimes: number[] }> = {};
+
+    referrals.forEach(r => {
+      if (!specialtyStats[r.specialty]) {
+        specialtyStats[r.specialty] = { count: 0, completed: 0, responseTimes: [] };
+      }
+      specialtyStats[r.specialty].count++;
+      if (r.status === 'completed') {
+        specialtyStats[r.specialty].completed++;
+      }
+
+      const firstAction = r.activityLog?.find(log => isResponseAction(log.action));
+      if (firstAction) {
+        specialtyStats[r.specialty].responseTimes.push(
+          differenceInHours(new Date(firstAction.timestamp), new Date(r.createdAt))
+        );
+      }
+    });
+
+    const referralsBySpecialty = Object.entries(specialtyStats)
+      .map(([specialty, stats]) => ({
+        specialty,
+        count: stats.count,
+        completed: stats.completed,
+        avgResponseTime: stats.responseTimes.length > 0
+          ? Math.round(stats.responseTimes.reduce((a, b) => a + b, 0) / stats.responseTimes.length)
+          : 0,
+      }))
+      .sort((a, b) => b.count - a.count);
+
     // Top referral reasons
     const reasonCounts: Record<string, number> = {};
     referrals.forEach(r => {
@@ -181,6 +230,42 @@ export const useAnalytics = (referrals: Referral[], userId?: string): AnalyticsD
       .sort((a, b) => b.count - a.count)
       .slice(0, 5);
 
+    // SLA breaches, counted once per referral however often it was escalated
+    const breachedIds = new Set(slaBreaches.map(b => b.referralId));
+    const breachedReferrals = referrals.filter(r => breachedIds.has(r.id));
+    const toRate = (breached: number, total: number) =>
+      total > 0 ? Math.round((breached / total) * 1000) / 10 : 0;
+
+    const slaByUrgency = (['emergency', 'urgent', 'routine'] as const)
+      .map(urgency => {
+        const total = referrals.filter(r => r.urgency === urgency).length;
+        const breached = breachedReferrals.filter(r => r.urgency === urgency).length;
+        return { urgency, total, breached, rate: toRate(breached, total), fill: URGENCY_COLORS[urgency] };
+      })
+      .filter(row => row.total > 0);
+
+    const slaHospitalStats: Record<string, { received: number; breached: number }> = {};
+    referrals.forEach(r => {
+      if (!slaHospitalStats[r.toHospitalName]) {
+        slaHospitalStats[r.toHospitalName] = { received: 0, breached: 0 };
+      }
+      slaHospitalStats[r.toHospitalName].received++;
+      if (breachedIds.has(r.id)) {
+        slaHospitalStats[r.toHospitalName].breached++;
+      }
+    });
+
+    const slaByHospital = Object.entries(slaHospitalStats)
+      .map(([hospital, stats]) => ({
+        hospital: hospital.length > 20 ? hospital.substring(0, 20) + '...' : hospital,
+        received: stats.received,
+        breached: stats.breached,
+        rate: toRate(stats.breached, stats.received),
+      }))
+      .filter(row => row.breached > 0)
+      .sort((a, b) => b.rate - a.rate)
+      .slice(0, 5);
+
     // Personal metrics
     const userReferrals = userId 
       ? referrals.filter(r => r.fromDoctorId === userId)
@@ -209,8 +294,12 @@ export const useAnalytics = (referrals: Referral[], userId?: string): AnalyticsD
       referralsByStatus,
       referralsByUrgency,
       hospitalPerformance,
+      referralsBySpecialty,
       topReasons,
+      slaBreachRate: toRate(breachedReferrals.length, referrals.length),
+      slaByUrgency,
+      slaByHospital,
       personalMetrics,
     };
-  }, [referrals, userId]);
+  }, [referrals, userId, slaBreaches]);
 };
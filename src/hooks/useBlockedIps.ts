@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Database } from '@/integrations/supabase/types';
+
+type BlockedIpRow = Database['public']['Tables']['blocked_ips']['Row'];
+
+export interface BlockedIp {
+  id: string;
+  ipAddress: string;
+  reason: string;
+  blockedBy?: string;
+  blockedAt: Date;
+  expiresAt?: Date; // Unset for permanent blocks
+  isActive: boolean;
+  autoBlocked: boolean;
+  blockCount: number;
+  liftedAt?: Date;
+}
+
+const transformBlockedIp = (row: BlockedIpRow): BlockedIp => ({
+  id: row.id,
+  ipAddress: row.ip_address,
+  reason: row.reason,
+  blockedBy: row.blocked_by || undefined,
+  blockedAt: new Date(row.blocked_at),
+  expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+  isActive: row.is_active,
+  autoBlocked: row.auto_blocked,
+  blockCount: row.block_count,
+  liftedAt: row.lifted_at ? new Date(row.lifted_at) : undefined,
+});
+
+// Mirrors the check in the edge functions' ip guard
+export const isBlockInForce = (block: BlockedIp) =>
+  block.isActive && (!block.expiresAt || block.expiresAt > new Date());
+
+const expiryFrom = (start: Date, durationMinutes: number | null) =>
+  durationMinutes === null ? null : new Date(start.getTime() + durationMinutes * 60 * 1000).toISOString();
+
+// Blocked networks, filled by admins and by the failure lockout on security_logs
+export const useBlockedIps = () => {
+  const { currentUser } = useAuth();
+  const [blockedIps, setBlockedIps] = useState<BlockedIp[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchBlockedIps = async () => {
+    const { data, error } = await supabase
+      .from('blocked_ips')
+      .select('*')
+      .order('blocked_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching blocked IPs:', error);
+    }
+    setBlockedIps((data || []).map(transformBlockedIp));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchBlockedIps();
+
+    const channel = supabase
+      .channel('blocked-ips-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'blocked_ips' }, () => {
+        fetchBlockedIps();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const blockIp = async (ipAddress: string, reason: string, durationMinutes: number | null) => {
+    const { error } = await supabase
+      .from('blocked_ips')
+      .upsert(
+        {
+          ip_address: ipAddress.trim(),
+          reason: reason.trim(),
+          blocked_by: currentUser?.id,
+          blocked_at: new Date().toISOString(),
+          expires_at: expiryFrom(new Date(), durationMinutes),
+          is_active: true,
+          auto_blocked: false,
+          lifted_at: null,
+          lifted_by: null,
+        },
+        { onConflict: 'ip_address' }
+      );
+
+    if (error) {
+      console.error('Error blocking IP:', error);
+      toast.error('Failed to block IP');
+      return false;
+    }
+
+    toast.success(`${ipAddress} blocked`);
+    await fetchBlockedIps();
+    return true;
+  };
+
+  // Extends from the current expiry when the block is still running, otherwise from now
+  const extendBlock = async (block: BlockedIp, durationMinutes: number | null) => {
+    const now = new Date();
+    const start = isBlockInForce(block) && block.expiresAt ? block.expiresAt : now;
+
+    const { error } = await supabase
+      .from('blocked_ips')
+      .update({
+        expires_at: expiryFrom(start, durationMinutes),
+        is_active: true,
+        lifted_at: null,
+        lifted_by: null,
+      })
+      .eq('id', block.id);
+
+    if (error) {
+      console.error('Error extending IP block:', error);
+      toast.error('Failed to extend block');
+      return false;
+    }
+
+    toast.success(durationMinutes === null ? `${block.ipAddress} blocked permanently` : 'Block extended');
+    await fetchBlockedIps();
+    return true;
+  };
+
+  const liftBlock = async (block: BlockedIp) => {
+    const { error } = await supabase
+      .from('blocked_ips')
+      .update({
+        is_active: false,
+        lifted_at: new Date().toISOString(),
+        lifted_by: currentUser?.id,
+      })
+      .eq('id', block.id);
+
+    if (error) {
+      console.error('Error lifting IP block:', error);
+      toast.error('Failed to lift block');
+      return false;
+    }
+
+    toast.success(`${block.ipAddress} unblocked`);
+    await fetchBlockedIps();
+    return true;
+  };
+
+  return {
+    blockedIps,
+    loading,
+    blockIp,
+    extendBlock,
+    liftBlock,
+    refetch: fetchBlockedIps,
+  };
+};
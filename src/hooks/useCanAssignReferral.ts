@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ReferralStatus } from '@/types/referral';
+
+// Whether the current user may assign the referral, as decided by the server.
+// `status` is only used to refetch when the referral moves on.
+export const useCanAssignReferral = (referralId: string | undefined, status: ReferralStatus | undefined) => {
+  const { currentUser } = useAuth();
+  const [canAssign, setCanAssign] = useState(false);
+
+  useEffect(() => {
+    if (!referralId || !currentUser) {
+      setCanAssign(false);
+      return;
+    }
+
+    supabase
+      .rpc('can_assign_referral', { _user_id: currentUser.id, _referral_id: referralId })
+      .then(({ data, error }) => {
+        if (error) console.error('Error checking assignment permission:', error);
+        setCanAssign(!!data);
+      });
+  }, [referralId, status, currentUser?.id]);
+
+  return canAssign;
+};
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export interface ChatConversationSummary {
+  id: string;
+  title: string;
+  updatedAt: Date;
+  // The first message matching the current search
+  snippet?: string;
+}
+
+// The signed-in user's saved assistant conversations, newest first, optionally filtered by a search
+export const useChatConversations = (search = '') => {
+  const { user } = useAuth();
+  const [conversations, setConversations] = useState<ChatConversationSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const query = search.trim();
+
+  const fetchConversations = useCallback(async () => {
+    if (!user) return;
+
+    if (query) {
+      const { data, error } = await supabase.rpc('search_chat_conversations', { _query: query });
+      if (error) {
+        console.error('Error searching conversations:', error);
+      }
+      setConversations((data || []).map(row => ({
+        id: row.id,
+        title: row.title || 'Untitled conversation',
+        updatedAt: new Date(row.updated_at),
+        snippet: row.snippet || undefined,
+      })));
+    } else {
+      const { data, error } = await supabase
+        .from('chat_conversations')
+        .select('id, title, updated_at')
+        .order('updated_at', { ascending: false })
+        .limit(50);
+      if (error) {
+        console.error('Error fetching conversations:', error);
+      }
+      setConversations((data || []).map(row => ({
+        id: row.id,
+        title: row.title || 'Untitled conversation',
+        updatedAt: new Date(row.updated_at),
+      })));
+    }
+    setLoading(false);
+  }, [user, query]);
+
+  useEffect(() => {
+    // Searching waits for a pause in typing
+    const timer = setTimeout(fetchConversations, query ? 300 : 0);
+    return () => clearTimeout(timer);
+  }, [fetchConversations, query]);
+
+  const renameConversation = async (id: string, title: string) => {
+    const { error } = await supabase
+      .from('chat_conversations')
+      .update({ title: title.trim() || null })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error renaming conversation:', error);
+      toast.error('Failed to rename conversation');
+      return false;
+    }
+
+    await fetchConversations();
+    return true;
+  };
+
+  const deleteConversation = async (id: string) => {
+    const { error } = await supabase.from('chat_conversations').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting conversation:', error);
+      toast.error('Failed to delete conversation');
+      return false;
+    }
+
+    toast.success('Conversation deleted');
+    await fetchConversations();
+    return true;
+  };
+
+  return {
+    conversations,
+    loading,
+    renameConversation,
+    deleteConversation,
+    refetch: fetchConversations,
+  };
+};
@@ -0,0 +1,305 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { UrgencyLevel } from '@/types/referral';
+import { toast } from 'sonner';
+import type { Database } from '@/integrations/supabase/types';
+
+type RoutingRuleRow = Database['public']['Tables']['referral_routing_rules']['Row'];
+
+export interface Department {
+  id: string;
+  hospitalId: string;
+  name: string;
+  specialty: string | null;
+  memberIds: string[];
+  leadIds: string[]; // Members who may assign the department's referrals
+}
+
+export interface RoutingRule {
+  id: string;
+  hospitalId: string;
+  departmentId: string;
+  specialty: string | null;
+  urgency: UrgencyLevel | null;
+  startTime: string | null; // HH:mm
+  endTime: string | null;
+  timeZone: string;
+  priority: number;
+  isActive: boolean;
+}
+
+export type RoutingRuleInput = Omit<RoutingRule, 'id' | 'hospitalId'>;
+
+const transformRule = (row: RoutingRuleRow): RoutingRule => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  departmentId: row.department_id,
+  specialty: row.specialty,
+  urgency: row.urgency,
+  startTime: row.start_time?.slice(0, 5) || null,
+  endTime: row.end_time?.slice(0, 5) || null,
+  timeZone: row.time_zone,
+  priority: row.priority,
+  isActive: row.is_active,
+});
+
+// Departments of one hospital together with their members
+export const useDepartments = (hospitalId: string | null | undefined) => {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchDepartments = async () => {
+    if (!hospitalId) {
+      setDepartments([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('hospital_departments')
+        .select('id, hospital_id, name, specialty')
+        .eq('hospital_id', hospitalId)
+        .order('name');
+
+      if (error) throw error;
+
+      const departmentIds = data?.map(d => d.id) || [];
+      const { data: members } = await supabase
+        .from('department_members')
+        .select('department_id, user_id, is_lead')
+        .in('department_id', departmentIds);
+
+      setDepartments((data || []).map(d => {
+        const departmentMembers = members?.filter(m => m.department_id === d.id) || [];
+        return {
+          id: d.id,
+          hospitalId: d.hospital_id,
+          name: d.name,
+          specialty: d.specialty,
+          memberIds: departmentMembers.map(m => m.user_id),
+          leadIds: departmentMembers.filter(m => m.is_lead).map(m => m.user_id),
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching departments:', error);
+      setDepartments([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDepartments();
+  }, [hospitalId]);
+
+  const addMember = async (departmentId: string, userId: string) => {
+    const { error } = await supabase
+      .from('department_members')
+      .insert({ department_id: departmentId, user_id: userId });
+
+    if (error) {
+      console.error('Error adding department member:', error);
+      toast.error('Failed to add doctor to department');
+      return false;
+    }
+
+    await fetchDepartments();
+    return true;
+  };
+
+  const removeMember = async (departmentId: string, userId: string) => {
+    const { error } = await supabase
+      .from('department_members')
+      .delete()
+      .eq('department_id', departmentId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error removing department member:', error);
+      toast.error('Failed to remove doctor from department');
+      return false;
+    }
+
+    await fetchDepartments();
+    return true;
+  };
+
+  const setMemberLead = async (departmentId: string, userId: string, isLead: boolean) => {
+    const { error } = await supabase
+      .from('department_members')
+      .update({ is_lead: isLead })
+      .eq('department_id', departmentId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error updating department lead:', error);
+      toast.error('Failed to update department lead');
+      return false;
+    }
+
+    await fetchDepartments();
+    return true;
+  };
+
+  return {
+    departments,
+    loading,
+    addMember,
+    removeMember,
+    setMemberLead,
+    refetch: fetchDepartments,
+  };
+};
+
+// Departments the signed-in doctor belongs to; their queue and notifications follow these
+export const useMyDepartmentIds = () => {
+  const { currentUser } = useAuth();
+  const [departmentIds, setDepartmentIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setDepartmentIds([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchMemberships = async () => {
+      const { data, error } = await supabase
+        .from('department_members')
+        .select('department_id')
+        .eq('user_id', currentUser.id);
+
+      if (error) {
+        console.error('Error fetching department memberships:', error);
+      }
+      setDepartmentIds(data?.map(m => m.department_id) || []);
+      setLoading(false);
+    };
+
+    fetchMemberships();
+
+    const channel = supabase
+      .channel(`department-members-${currentUser.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'department_members', filter: `user_id=eq.${currentUser.id}` },
+        () => fetchMemberships()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentUser?.id]);
+
+  return { departmentIds, loading };
+};
+
+export const useRoutingRules = (hospitalId: string | null | undefined) => {
+  const { currentUser } = useAuth();
+  const [rules, setRules] = useState<RoutingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRules = async () => {
+    if (!hospitalId) {
+      setRules([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('referral_routing_rules')
+        .select('*')
+        .eq('hospital_id', hospitalId)
+        .order('priority')
+        .order('created_at');
+
+      if (error) throw error;
+      setRules((data || []).map(transformRule));
+    } catch (error) {
+      console.error('Error fetching routing rules:', error);
+      setRules([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, [hospitalId]);
+
+  const toRow = (rule: RoutingRuleInput) => ({
+    department_id: rule.departmentId,
+    specialty: rule.specialty,
+    urgency: rule.urgency,
+    start_time: rule.startTime,
+    end_time: rule.endTime,
+    time_zone: rule.timeZone,
+    priority: rule.priority,
+    is_active: rule.isActive,
+  });
+
+  const addRule = async (rule: RoutingRuleInput) => {
+    if (!hospitalId) return false;
+
+    const { error } = await supabase
+      .from('referral_routing_rules')
+      .insert({ ...toRow(rule), hospital_id: hospitalId, created_by: currentUser?.id });
+
+    if (error) {
+      console.error('Error adding routing rule:', error);
+      toast.error('Failed to add routing rule');
+      return false;
+    }
+
+    toast.success('Routing rule added');
+    await fetchRules();
+    return true;
+  };
+
+  const updateRule = async (id: string, rule: RoutingRuleInput) => {
+    const { error } = await supabase
+      .from('referral_routing_rules')
+      .update(toRow(rule))
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating routing rule:', error);
+      toast.error('Failed to update routing rule');
+      return false;
+    }
+
+    await fetchRules();
+    return true;
+  };
+
+  const deleteRule = async (id: string) => {
+    const { error } = await supabase
+      .from('referral_routing_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting routing rule:', error);
+      toast.error('Failed to delete routing rule');
+      return false;
+    }
+
+    toast.success('Routing rule deleted');
+    await fetchRules();
+    return true;
+  };
+
+  return {
+    rules,
+    loading,
+    addRule,
+    updateRule,
+    deleteRule,
+    refetch: fetchRules,
+  };
+};
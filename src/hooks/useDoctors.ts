@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { AppRole } from '@/lib/permissions';
 
 export interface Doctor {
   id: string;
@@ -9,7 +10,7 @@ export interface Doctor {
   specialty: string | null;
   hospital_id: string | null;
   hospital_name?: string;
-  role: 'doctor' | 'admin';
+  role: AppRole;
 }
 
 export const useDoctors = () => {
@@ -66,67 +67,9 @@ export const useDoctors = () => {
     fetchDoctors();
   }, []);
 
-  const addDoctor = async (doctorData: {
-    email: string;
-    password: string;
-    fullName: string;
-    specialty?: string;
-    hospitalId: string;
-    role: 'doctor' | 'admin';
-  }) => {
-    try {
-      // Create auth user
-      const { data: authData, error: authError } = await supabase.auth.signUp({
-        email: doctorData.email,
-        password: doctorData.password,
-        options: {
-          emailRedirectTo: `${window.location.origin}/`,
-          data: {
-            full_name: doctorData.fullName,
-          },
-        },
-      });
-
-      if (authError) throw authError;
-      if (!authData.user) throw new Error('Failed to create user');
-
-      // Create profile
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .insert({
-          id: authData.user.id,
-          email: doctorData.email,
-          full_name: doctorData.fullName,
-          specialty: doctorData.specialty || null,
-          hospital_id: doctorData.hospitalId,
-        });
-
-      if (profileError) throw profileError;
-
-      // Assign role
-      const { error: roleError } = await supabase
-        .from('user_roles')
-        .insert({
-          user_id: authData.user.id,
-          role: doctorData.role,
-        });
-
-      if (roleError) throw roleError;
-
-      toast.success('Doctor added successfully!');
-      await fetchDoctors();
-      return authData.user;
-    } catch (error: any) {
-      console.error('Error adding doctor:', error);
-      toast.error(error.message || 'Failed to add doctor');
-      return null;
-    }
-  };
-
   return {
     doctors,
     loading,
-    addDoctor,
     refetch: fetchDoctors,
   };
 };
@@ -0,0 +1,303 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Database } from '@/integrations/supabase/types';
+
+type CapacityRow = Database['public']['Tables']['hospital_capacity']['Row'];
+type DepartmentRow = Database['public']['Tables']['hospital_departments']['Row'];
+type SnapshotRow = Database['public']['Tables']['hospital_capacity_snapshots']['Row'];
+
+export interface HospitalDepartment {
+  id: string;
+  hospitalId: string;
+  name: string;
+  specialty: string | null;
+  bedsTotal: number;
+  bedsAvailable: number;
+  acceptingReferrals: boolean;
+  updatedAt: Date;
+}
+
+export interface HospitalCapacity {
+  hospitalId: string;
+  icuBedsTotal: number;
+  icuBedsAvailable: number;
+  acceptingReferrals: boolean;
+  updatedAt?: Date;
+  departments: HospitalDepartment[];
+}
+
+export interface CapacitySnapshot {
+  id: string;
+  hospitalId: string;
+  departmentId: string | null;
+  departmentName: string | null;
+  bedsTotal: number;
+  bedsAvailable: number;
+  acceptingReferrals: boolean;
+  recordedAt: Date;
+  recordedByName?: string;
+}
+
+export type CapacityLevel = 'available' | 'limited' | 'full' | 'unknown';
+
+export interface SpecialtyCapacity {
+  level: CapacityLevel;
+  bedsAvailable?: number;
+  message: string;
+}
+
+// Fewer free beds than this share of the total counts as limited
+const LIMITED_CAPACITY_RATIO = 0.1;
+
+const transformDepartment = (row: DepartmentRow): HospitalDepartment => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  name: row.name,
+  specialty: row.specialty,
+  bedsTotal: row.beds_total,
+  bedsAvailable: row.beds_available,
+  acceptingReferrals: row.accepting_referrals,
+  updatedAt: new Date(row.updated_at),
+});
+
+const emptyCapacity = (hospitalId: string): HospitalCapacity => ({
+  hospitalId,
+  icuBedsTotal: 0,
+  icuBedsAvailable: 0,
+  acceptingReferrals: true,
+  departments: [],
+});
+
+// Mirrors check_emergency_referral_capacity: a hospital that is not accepting, or whose
+// departments for the specialty are all closed or out of beds, is full.
+export const getSpecialtyCapacity = (
+  capacity: HospitalCapacity | undefined,
+  specialty: string
+): SpecialtyCapacity => {
+  if (!capacity) {
+    return { level: 'unknown', message: 'No capacity information' };
+  }
+
+  if (!capacity.acceptingReferrals) {
+    return { level: 'full', bedsAvailable: 0, message: 'Not accepting referrals' };
+  }
+
+  const departments = capacity.departments.filter(d => d.specialty === specialty);
+  if (departments.length === 0) {
+    return { level: 'unknown', message: specialty ? `No ${specialty} department listed` : 'No capacity information' };
+  }
+
+  const open = departments.filter(d => d.acceptingReferrals);
+  const bedsAvailable = open.reduce((sum, d) => sum + d.bedsAvailable, 0);
+  const bedsTotal = open.reduce((sum, d) => sum + d.bedsTotal, 0);
+
+  if (bedsAvailable === 0) {
+    return { level: 'full', bedsAvailable: 0, message: `No ${specialty} beds available` };
+  }
+
+  return {
+    level: bedsAvailable <= Math.max(1, bedsTotal * LIMITED_CAPACITY_RATIO) ? 'limited' : 'available',
+    bedsAvailable,
+    message: `${bedsAvailable} of ${bedsTotal} ${specialty} beds available`,
+  };
+};
+
+export const useHospitalCapacity = () => {
+  const { currentUser } = useAuth();
+  const [capacityByHospital, setCapacityByHospital] = useState<Map<string, HospitalCapacity>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  const fetchCapacity = async () => {
+    try {
+      const [{ data: capacityData, error: capacityError }, { data: departmentData, error: departmentError }] =
+        await Promise.all([
+          supabase.from('hospital_capacity').select('*'),
+          supabase.from('hospital_departments').select('*').order('name'),
+        ]);
+
+      if (capacityError) throw capacityError;
+      if (departmentError) throw departmentError;
+
+      const byHospital = new Map<string, HospitalCapacity>();
+      capacityData?.forEach((row: CapacityRow) => {
+        byHospital.set(row.hospital_id, {
+          hospitalId: row.hospital_id,
+          icuBedsTotal: row.icu_beds_total,
+          icuBedsAvailable: row.icu_beds_available,
+          acceptingReferrals: row.accepting_referrals,
+          updatedAt: new Date(row.updated_at),
+          departments: [],
+        });
+      });
+
+      departmentData?.forEach(row => {
+        const capacity = byHospital.get(row.hospital_id) || emptyCapacity(row.hospital_id);
+        capacity.departments.push(transformDepartment(row));
+        byHospital.set(row.hospital_id, capacity);
+      });
+
+      setCapacityByHospital(byHospital);
+    } catch (error) {
+      console.error('Error fetching hospital capacity:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCapacity();
+
+    const channel = supabase
+      .channel('hospital-capacity-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'hospital_capacity' }, () => fetchCapacity())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'hospital_departments' }, () => fetchCapacity())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const updateHospitalCapacity = async (
+    hospitalId: string,
+    changes: { icuBedsTotal: number; icuBedsAvailable: number; acceptingReferrals: boolean }
+  ) => {
+    const { error } = await supabase
+      .from('hospital_capacity')
+      .upsert({
+        hospital_id: hospitalId,
+        icu_beds_total: changes.icuBedsTotal,
+        icu_beds_available: changes.icuBedsAvailable,
+        accepting_referrals: changes.acceptingReferrals,
+        updated_by: currentUser?.id,
+      });
+
+    if (error) {
+      console.error('Error updating hospital capacity:', error);
+      toast.error('Failed to update capacity');
+      return false;
+    }
+
+    toast.success('Capacity updated');
+    await fetchCapacity();
+    return true;
+  };
+
+  const saveDepartment = async (department: {
+    id?: string;
+    hospitalId: string;
+    name: string;
+    specialty: string | null;
+    bedsTotal: number;
+    bedsAvailable: number;
+    acceptingReferrals: boolean;
+  }) => {
+    const values = {
+      hospital_id: department.hospitalId,
+      name: department.name.trim(),
+      specialty: department.specialty,
+      beds_total: department.bedsTotal,
+      beds_available: department.bedsAvailable,
+      accepting_referrals: department.acceptingReferrals,
+      updated_by: currentUser?.id,
+    };
+
+    const { error } = department.id
+      ? await supabase.from('hospital_departments').update(values).eq('id', department.id)
+      : await supabase.from('hospital_departments').insert(values);
+
+    if (error) {
+      console.error('Error saving department:', error);
+      toast.error(error.code === '23505' ? 'A department with this name already exists' : 'Failed to save department');
+      return false;
+    }
+
+    toast.success(department.id ? 'Department updated' : 'Department added');
+    await fetchCapacity();
+    return true;
+  };
+
+  const deleteDepartment = async (id: string) => {
+    const { error } = await supabase.from('hospital_departments').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting department:', error);
+      toast.error('Failed to delete department');
+      return false;
+    }
+
+    toast.success('Department removed');
+    await fetchCapacity();
+    return true;
+  };
+
+  return {
+    capacityByHospital,
+    loading,
+    updateHospitalCapacity,
+    saveDepartment,
+    deleteDepartment,
+    refetch: fetchCapacity,
+  };
+};
+
+export const useCapacityHistory = (hospitalId: string | undefined, limit = 50) => {
+  const [snapshots, setSnapshots] = useState<CapacitySnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchHistory = async () => {
+    if (!hospitalId) {
+      setSnapshots([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('hospital_capacity_snapshots')
+        .select('*')
+        .eq('hospital_id', hospitalId)
+        .order('recorded_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      const recorderIds = [...new Set(data?.filter(s => s.recorded_by).map(s => s.recorded_by!) || [])];
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, full_name')
+        .in('id', recorderIds);
+      const profileMap = new Map(profiles?.map(p => [p.id, p.full_name]) || []);
+
+      setSnapshots((data || []).map((row: SnapshotRow) => ({
+        id: row.id,
+        hospitalId: row.hospital_id,
+        departmentId: row.department_id,
+        departmentName: row.department_name,
+        bedsTotal: row.beds_total,
+        bedsAvailable: row.beds_available,
+        acceptingReferrals: row.accepting_referrals,
+        recordedAt: new Date(row.recorded_at),
+        recordedByName: row.recorded_by ? profileMap.get(row.recorded_by) : undefined,
+      })));
+    } catch (error) {
+      console.error('Error fetching capacity history:', error);
+      setSnapshots([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchHistory();
+  }, [hospitalId, limit]);
+
+  return {
+    snapshots,
+    loading,
+    refetch: fetchHistory,
+  };
+};
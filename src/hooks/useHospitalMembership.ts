@@ -0,0 +1,313 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Database } from '@/integrations/supabase/types';
+
+type MembershipRequestRow = Database['public']['Tables']['hospital_membership_requests']['Row'];
+type HospitalInviteRow = Database['public']['Tables']['hospital_invites']['Row'];
+
+export type MembershipRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface MembershipRequest {
+  id: string;
+  userId: string;
+  userName?: string;
+  userEmail?: string;
+  userSpecialty?: string;
+  hospitalId: string;
+  hospitalName?: string;
+  status: MembershipRequestStatus;
+  message?: string;
+  reviewNote?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+}
+
+export interface HospitalInvite {
+  id: string;
+  hospitalId: string;
+  hospitalName?: string;
+  code: string;
+  maxUses: number;
+  useCount: number;
+  expiresAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+const transformRequest = (row: MembershipRequestRow): MembershipRequest => ({
+  id: row.id,
+  userId: row.user_id,
+  hospitalId: row.hospital_id,
+  status: row.status as MembershipRequestStatus,
+  message: row.message || undefined,
+  reviewNote: row.review_note || undefined,
+  reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+  createdAt: new Date(row.created_at),
+});
+
+const transformInvite = (row: HospitalInviteRow): HospitalInvite => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  code: row.code,
+  maxUses: row.max_uses,
+  useCount: row.use_count,
+  expiresAt: new Date(row.expires_at),
+  revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+  createdAt: new Date(row.created_at),
+});
+
+export const isInviteUsable = (invite: HospitalInvite) =>
+  !invite.revokedAt && invite.expiresAt > new Date() && invite.useCount < invite.maxUses;
+
+const fetchHospitalNames = async (ids: string[]) => {
+  if (ids.length === 0) return new Map<string, string>();
+  const { data } = await supabase.from('hospitals').select('id, name').in('id', ids);
+  return new Map((data || []).map(h => [h.id, h.name]));
+};
+
+// The signed-in user's own path into a hospital: their latest request, an invite code, or a new request
+export const useMyMembership = () => {
+  const { user, refreshProfile } = useAuth();
+  const [request, setRequest] = useState<MembershipRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchRequest = async () => {
+    if (!user) {
+      setRequest(null);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('hospital_membership_requests')
+      .select('*')
+      .eq('user_id', user.id)
+      .neq('status', 'cancelled')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching membership request:', error);
+    }
+
+    if (data) {
+      const hospitalNames = await fetchHospitalNames([data.hospital_id]);
+      setRequest({ ...transformRequest(data), hospitalName: hospitalNames.get(data.hospital_id) });
+    } else {
+      setRequest(null);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchRequest();
+
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`membership-request-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'hospital_membership_requests', filter: `user_id=eq.${user.id}` },
+        async (payload) => {
+          await fetchRequest();
+          if ((payload.new as MembershipRequestRow | undefined)?.status !== 'pending') {
+            await refreshProfile();
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id]);
+
+  const redeemInvite = async (code: string) => {
+    setSubmitting(true);
+    const { error } = await supabase.rpc('redeem_hospital_invite', { _code: code });
+    setSubmitting(false);
+
+    if (error) {
+      console.error('Error redeeming invite:', error);
+      toast.error(error.message || 'Failed to redeem invite code');
+      return false;
+    }
+
+    toast.success('Invite accepted. Welcome aboard!');
+    await refreshProfile();
+    return true;
+  };
+
+  const requestMembership = async (hospitalId: string, message?: string) => {
+    setSubmitting(true);
+    const { error } = await supabase.rpc('request_hospital_membership', {
+      _hospital_id: hospitalId,
+      _message: message || undefined,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      console.error('Error requesting membership:', error);
+      toast.error(error.message || 'Failed to send request');
+      return false;
+    }
+
+    toast.success('Request sent to the hospital administrators');
+    await Promise.all([fetchRequest(), refreshProfile()]);
+    return true;
+  };
+
+  return {
+    request,
+    loading,
+    submitting,
+    redeemInvite,
+    requestMembership,
+    refetch: fetchRequest,
+  };
+};
+
+// Pending membership requests and invite codes for the hospitals the caller manages
+export const useMembershipQueue = () => {
+  const { currentUser } = useAuth();
+  const [requests, setRequests] = useState<MembershipRequest[]>([]);
+  const [invites, setInvites] = useState<HospitalInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchQueue = async () => {
+    const [{ data: requestRows, error: requestError }, { data: inviteRows, error: inviteError }] = await Promise.all([
+      supabase
+        .from('hospital_membership_requests')
+        .select('*')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('hospital_invites')
+        .select('*')
+        .order('created_at', { ascending: false }),
+    ]);
+
+    if (requestError) console.error('Error fetching membership requests:', requestError);
+    if (inviteError) console.error('Error fetching hospital invites:', inviteError);
+
+    const userIds = [...new Set((requestRows || []).map(r => r.user_id))];
+    const hospitalIds = [
+      ...new Set([...(requestRows || []).map(r => r.hospital_id), ...(inviteRows || []).map(i => i.hospital_id)]),
+    ];
+
+    const [{ data: profiles }, hospitalNames] = await Promise.all([
+      userIds.length > 0
+        ? supabase.from('profiles').select('id, full_name, email, specialty').in('id', userIds)
+        : Promise.resolve({ data: [] as { id: string; full_name: string; email: string; specialty: string | null }[] }),
+      fetchHospitalNames(hospitalIds),
+    ]);
+
+    const profileMap = new Map((profiles || []).map(p => [p.id, p]));
+
+    setRequests((requestRows || []).map(row => {
+      const profile = profileMap.get(row.user_id);
+      return {
+        ...transformRequest(row),
+        userName: profile?.full_name,
+        userEmail: profile?.email,
+        userSpecialty: profile?.specialty || undefined,
+        hospitalName: hospitalNames.get(row.hospital_id),
+      };
+    }));
+    setInvites((inviteRows || []).map(row => ({
+      ...transformInvite(row),
+      hospitalName: hospitalNames.get(row.hospital_id),
+    })));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchQueue();
+
+    const channel = supabase
+      .channel('membership-queue-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'hospital_membership_requests' }, () => {
+        fetchQueue();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const reviewRequest = async (request: MembershipRequest, approve: boolean, note?: string) => {
+    const { error } = await supabase.rpc('review_membership_request', {
+      _request_id: request.id,
+      _approve: approve,
+      _note: note || undefined,
+    });
+
+    if (error) {
+      console.error('Error reviewing membership request:', error);
+      toast.error(error.message || 'Failed to update request');
+      return false;
+    }
+
+    toast.success(approve
+      ? `${request.userName || 'User'} can now access ${request.hospitalName || 'the hospital'}`
+      : 'Request rejected');
+    await fetchQueue();
+    return true;
+  };
+
+  const createInvite = async (hospitalId: string, maxUses: number, expiresInDays: number) => {
+    const { data, error } = await supabase
+      .from('hospital_invites')
+      .insert({
+        hospital_id: hospitalId,
+        max_uses: maxUses,
+        expires_at: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+        created_by: currentUser?.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating invite:', error);
+      toast.error('Failed to create invite code');
+      return null;
+    }
+
+    toast.success(`Invite code ${data.code} created`);
+    await fetchQueue();
+    return transformInvite(data);
+  };
+
+  const revokeInvite = async (invite: HospitalInvite) => {
+    const { error } = await supabase
+      .from('hospital_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', invite.id);
+
+    if (error) {
+      console.error('Error revoking invite:', error);
+      toast.error('Failed to revoke invite code');
+      return false;
+    }
+
+    toast.success(`${invite.code} revoked`);
+    await fetchQueue();
+    return true;
+  };
+
+  return {
+    requests,
+    invites,
+    loading,
+    reviewRequest,
+    createInvite,
+    revokeInvite,
+    refetch: fetchQueue,
+  };
+};
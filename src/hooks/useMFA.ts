@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { AuthMFAGetAuthenticatorAssuranceLevelResponse } from '@supabase/supabase-js';
+import { AuthMFAGetAuthenticatorAssuranceLevelResponse, FunctionsHttpError } from '@supabase/supabase-js';
 
 export interface MFAFactor {
   id: string;
@@ -18,8 +18,36 @@ export interface MFAState {
   nextLevel: 'aal1' | 'aal2' | null;
   loading: boolean;
   needsVerification: boolean;
+  recoveryCodesRemaining: number;
 }
 
+// Ten fresh one-time codes, replacing any the user had; needs a two-factor session
+export const generateRecoveryCodes = async (): Promise<{ codes?: string[]; error?: string }> => {
+  const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+  if (error) {
+    console.error('Error generating recovery codes:', error);
+    return { error: error.message };
+  }
+  return { codes: data || [] };
+};
+
+// Spends a recovery code in place of the authenticator. The server removes the user's factors, so
+// they continue signed in with their password and set up a new device.
+export const redeemRecoveryCode = async (code: string): Promise<{ error?: string }> => {
+  const { error } = await supabase.functions.invoke('mfa-recovery', { body: { code } });
+
+  if (error) {
+    const details = error instanceof FunctionsHttpError
+      ? await error.context.json().catch(() => ({}))
+      : {};
+    return { error: details.error || error.message };
+  }
+
+  // Pick up the factor change in the session and everything derived from it
+  await supabase.auth.refreshSession();
+  return {};
+};
+
 export const useMFA = () => {
   const [state, setState] = useState<MFAState>({
     isEnabled: false,
@@ -29,6 +57,7 @@ export const useMFA = () => {
     nextLevel: null,
     loading: true,
     needsVerification: false,
+    recoveryCodesRemaining: 0,
   });
 
   const checkMFAStatus = useCallback(async () => {
@@ -60,6 +89,10 @@ export const useMFA = () => {
       // User needs to verify if they have enabled 2FA but are at aal1
       const needsVerification = isEnabled && currentLevel === 'aal1' && nextLevel === 'aal2';
 
+      const { data: remaining } = isEnabled
+        ? await supabase.rpc('mfa_recovery_codes_remaining')
+        : { data: 0 };
+
       setState({
         isEnabled,
         isVerified: currentLevel === 'aal2',
@@ -74,6 +107,7 @@ export const useMFA = () => {
         nextLevel,
         loading: false,
         needsVerification,
+        recoveryCodesRemaining: remaining || 0,
       });
     } catch (error) {
       console.error('Error checking MFA status:', error);
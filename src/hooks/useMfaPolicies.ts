@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { AppRole } from '@/lib/permissions';
+import { toast } from 'sonner';
+
+export interface MfaPolicy {
+  id: string;
+  role?: AppRole;
+  hospitalId?: string;
+  gracePeriodDays: number;
+  createdAt: Date;
+}
+
+export interface MfaComplianceEntry {
+  userId: string;
+  fullName: string;
+  email: string;
+  hospitalName?: string;
+  role?: AppRole;
+  enrolled: boolean;
+  deadline?: Date;
+  status: 'enrolled' | 'pending' | 'overdue' | 'optional';
+  lastSignInAt?: Date;
+}
+
+// Who must use two-factor sign-in, enforced by meets_mfa_policy() in RLS
+export const useMfaPolicies = () => {
+  const { currentUser } = useAuth();
+  const [policies, setPolicies] = useState<MfaPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPolicies = async () => {
+    const { data, error } = await supabase
+      .from('mfa_policies')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching MFA policies:', error);
+    }
+
+    setPolicies((data || []).map(row => ({
+      id: row.id,
+      role: row.role || undefined,
+      hospitalId: row.hospital_id || undefined,
+      gracePeriodDays: row.grace_period_days,
+      createdAt: new Date(row.created_at),
+    })));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const addPolicy = async (policy: { role?: AppRole; hospitalId?: string; gracePeriodDays: number }) => {
+    const { error } = await supabase.from('mfa_policies').insert({
+      role: policy.role ?? null,
+      hospital_id: policy.hospitalId ?? null,
+      grace_period_days: policy.gracePeriodDays,
+      created_by: currentUser?.id,
+    });
+
+    if (error) {
+      console.error('Error adding MFA policy:', error);
+      toast.error(error.code === '23505' ? 'A policy for these users already exists' : 'Failed to add policy');
+      return false;
+    }
+
+    toast.success('Two-factor authentication policy added');
+    await fetchPolicies();
+    return true;
+  };
+
+  const removePolicy = async (id: string) => {
+    const { error } = await supabase.from('mfa_policies').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error removing MFA policy:', error);
+      toast.error('Failed to remove policy');
+      return false;
+    }
+
+    toast.success('Policy removed');
+    await fetchPolicies();
+    return true;
+  };
+
+  return {
+    policies,
+    loading,
+    addPolicy,
+    removePolicy,
+    refetch: fetchPolicies,
+  };
+};
+
+// Enrolment status of every active user the caller may audit
+export const useMfaCompliance = () => {
+  const [entries, setEntries] = useState<MfaComplianceEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc('mfa_compliance_report');
+
+    if (error) {
+      console.error('Error fetching MFA compliance report:', error);
+    }
+
+    setEntries((data || []).map(row => ({
+      userId: row.user_id,
+      fullName: row.full_name,
+      email: row.email,
+      hospitalName: row.hospital_name || undefined,
+      role: row.role || undefined,
+      enrolled: row.mfa_enrolled,
+      deadline: row.deadline ? new Date(row.deadline) : undefined,
+      status: row.status as MfaComplianceEntry['status'],
+      lastSignInAt: row.last_sign_in_at ? new Date(row.last_sign_in_at) : undefined,
+    })));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  return {
+    entries,
+    loading,
+    refetch: fetchReport,
+  };
+};
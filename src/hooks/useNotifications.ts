@@ -1,9 +1,20 @@
 import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { useQueryClient } from '@tanstack/react-query';
+import { useReferralRealtime } from '@/contexts/ReferralRealtimeContext';
+import { useMyDepartmentIds } from '@/hooks/useDepartments';
+import { upsertReferralRow } from '@/lib/referralCache';
+import type { Database } from '@/integrations/supabase/types';
+import {
+  describeReferralEvent,
+  notificationTypeFor,
+  NotificationType,
+} from '@/lib/referralNotifications';
+
+type SlaBreachRow = Database['public']['Tables']['referral_sla_breaches']['Row'];
 
-export type NotificationType = 'emergency' | 'urgent' | 'info';
+export type { NotificationType };
 
 export interface AppNotification {
   id: string;
@@ -13,24 +24,17 @@ export interface AppNotification {
   referralId?: string;
   patientName?: string;
   fromHospital?: string;
+  escalated?: boolean; // Raised by the SLA monitor rather than by a referral change
   read: boolean;
   createdAt: Date;
 }
 
-type ReferralStatus = 'pending' | 'accepted' | 'in_treatment' | 'completed' | 'rejected' | 'more_info_requested';
 type UrgencyLevel = 'emergency' | 'urgent' | 'routine';
 
-const statusLabels: Record<ReferralStatus, string> = {
-  pending: 'Pending',
-  accepted: 'Accepted',
-  in_treatment: 'In Treatment',
-  completed: 'Completed',
-  rejected: 'Rejected',
-  more_info_requested: 'More Info Requested',
-};
-
 export const useNotifications = () => {
   const { currentUser } = useAuth();
+  const { subscribe } = useReferralRealtime();
+  const { departmentIds: myDepartmentIds } = useMyDepartmentIds();
   const queryClient = useQueryClient();
   const [notifications, setNotifications] = useState<AppNotification[]>([]);
   const [emergencyAlert, setEmergencyAlert] = useState<AppNotification | null>(null);
@@ -74,102 +78,76 @@ export const useNotifications = () => {
   const unreadCount = notifications.filter(n => !n.read).length;
   const emergencyCount = notifications.filter(n => n.type === 'emergency' && !n.read).length;
 
+  // Referral changes arrive through the shared channel, already patched into the query cache
   useEffect(() => {
     if (!currentUser) return;
 
-    const channel = supabase
-      .channel('referral-notifications')
-      .on(
-        'postgres_changes',
+    return subscribe(({ eventType, row, previousStatus, previousAssignedDoctorId, referral }) => {
+      const contents = describeReferralEvent(
+        { eventType, row, previousStatus, previousAssignedDoctorId, fromHospitalName: referral?.fromHospitalName },
         {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'referrals',
+          id: currentUser.id,
+          isAdmin: currentUser.role === 'admin',
+          hospitalId: currentUser.hospital_id,
+          departmentIds: myDepartmentIds,
         },
-        async (payload) => {
-          const oldStatus = payload.old?.status as ReferralStatus;
-          const newStatus = payload.new?.status as ReferralStatus;
-          const patientName = payload.new?.patient_name as string;
-          const fromHospitalId = payload.new?.from_hospital_id as string;
-          const toHospitalId = payload.new?.to_hospital_id as string;
-          const urgency = payload.new?.urgency as UrgencyLevel;
-          const referralId = payload.new?.id as string;
-
-          if (oldStatus !== newStatus) {
-            const isAdmin = currentUser.role === 'admin';
-            const isFromMyHospital = fromHospitalId === currentUser.hospital_id;
-            const isToMyHospital = toHospitalId === currentUser.hospital_id;
-
-            if (isAdmin || isFromMyHospital || isToMyHospital) {
-              // Fetch hospital name for better context
-              const { data: fromHospital } = await supabase
-                .from('hospitals')
-                .select('name')
-                .eq('id', fromHospitalId)
-                .single();
-
-              const notificationType: NotificationType = 
-                urgency === 'emergency' ? 'emergency' : 
-                urgency === 'urgent' ? 'urgent' : 'info';
-
-              addNotification({
-                title: `Referral ${statusLabels[newStatus]}`,
-                message: `${patientName}'s referral status changed to "${statusLabels[newStatus]}"`,
-                type: notificationType,
-                referralId,
-                patientName,
-                fromHospital: fromHospital?.name,
-              });
-
-              queryClient.invalidateQueries({ queryKey: ['referrals'] });
-            }
-          }
-        }
-      )
+      );
+
+      contents.forEach(content => addNotification({
+        ...content,
+        referralId: row.id,
+        patientName: row.patient_name,
+        fromHospital: referral?.fromHospitalName,
+      }));
+    });
+  }, [currentUser, subscribe, addNotification, myDepartmentIds]);
+
+  // SLA breaches reach the hospital admins picked by the escalation job and the department queue
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const handleBreach = async (breach: SlaBreachRow, previous?: Partial<SlaBreachRow>) => {
+      if (breach.resolved_at) return;
+      if (previous?.last_escalated_at === breach.last_escalated_at) return;
+
+      const { data: row } = await supabase
+        .from('referrals')
+        .select('*')
+        .eq('id', breach.referral_id)
+        .maybeSingle();
+
+      if (!row || row.status !== 'pending') return;
+
+      const isNotified = breach.notified_user_ids.includes(currentUser.id);
+      const isInMyQueue = row.to_hospital_id === currentUser.hospital_id
+        && (!row.department_id || myDepartmentIds.includes(row.department_id));
+      if (!isNotified && !isInMyQueue) return;
+
+      const referral = await upsertReferralRow(queryClient, currentUser.id, row);
+      const urgency = row.urgency as UrgencyLevel;
+
+      addNotification({
+        title: breach.escalation_count > 1
+          ? `⏰ SLA Escalation #${breach.escalation_count}`
+          : '⏰ SLA Breached',
+        message: `${urgency.charAt(0).toUpperCase()}${urgency.slice(1)} referral for ${row.patient_name} has not been accepted in time`,
+        type: notificationTypeFor(urgency),
+        referralId: row.id,
+        patientName: row.patient_name,
+        fromHospital: referral.fromHospitalName,
+        escalated: true,
+      });
+    };
+
+    const channel = supabase
+      .channel('referral-sla-breaches')
       .on(
         'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'referrals',
-        },
-        async (payload) => {
-          const toHospitalId = payload.new?.to_hospital_id as string;
-          const fromHospitalId = payload.new?.from_hospital_id as string;
-          const patientName = payload.new?.patient_name as string;
-          const urgency = payload.new?.urgency as UrgencyLevel;
-          const referralId = payload.new?.id as string;
-          const isAdmin = currentUser.role === 'admin';
-          const isToMyHospital = toHospitalId === currentUser.hospital_id;
-
-          if (isAdmin || isToMyHospital) {
-            const { data: fromHospital } = await supabase
-              .from('hospitals')
-              .select('name')
-              .eq('id', fromHospitalId)
-              .single();
-
-            const notificationType: NotificationType = 
-              urgency === 'emergency' ? 'emergency' : 
-              urgency === 'urgent' ? 'urgent' : 'info';
-
-            const title = urgency === 'emergency' 
-              ? '🚨 EMERGENCY Referral Received'
-              : urgency === 'urgent'
-              ? '⚠️ Urgent Referral Received'
-              : 'New Referral Received';
-
-            addNotification({
-              title,
-              message: `New ${urgency} referral for ${patientName} from ${fromHospital?.name || 'Unknown Hospital'}`,
-              type: notificationType,
-              referralId,
-              patientName,
-              fromHospital: fromHospital?.name,
-            });
-
-            queryClient.invalidateQueries({ queryKey: ['referrals'] });
-          }
+        { event: '*', schema: 'public', table: 'referral_sla_breaches' },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          handleBreach(payload.new as SlaBreachRow, payload.old as Partial<SlaBreachRow> | undefined)
+            .catch(error => console.error('Error handling SLA breach:', error));
         }
       )
       .subscribe();
@@ -177,7 +155,7 @@ export const useNotifications = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [currentUser, queryClient, addNotification]);
+  }, [currentUser, queryClient, addNotification, myDepartmentIds]);
 
   return {
     notifications,
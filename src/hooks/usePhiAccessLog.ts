@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { PhiAccessAction } from '@/lib/phiAccess';
+
+export interface PhiAccessEntry {
+  id: string;
+  userId: string;
+  userName: string;
+  hospitalName?: string;
+  action: PhiAccessAction;
+  attachmentId?: string;
+  details: Record<string, unknown>;
+  accessedAt: Date;
+}
+
+export interface PhiChainVerification {
+  isValid: boolean;
+  checkedCount: number;
+  firstInvalidId?: string;
+}
+
+export interface PhiAccessAnomaly {
+  userId: string;
+  userName: string;
+  pattern: 'high_volume' | 'bulk_export' | 'code_lookups';
+  accessCount: number;
+  referralCount: number;
+  firstAt: Date;
+  lastAt: Date;
+}
+
+// Who has read a referral's patient data, newest first, with the result of the last chain check
+export const usePhiAccessHistory = (referralId: string | undefined) => {
+  const [entries, setEntries] = useState<PhiAccessEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [verification, setVerification] = useState<PhiChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const fetchHistory = async () => {
+    if (!referralId) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('phi_access_logs')
+        .select('*')
+        .eq('referral_id', referralId)
+        .order('seq', { ascending: false });
+
+      if (error) throw error;
+
+      const userIds = [...new Set((data || []).map(row => row.user_id))];
+      const hospitalIds = [...new Set((data || []).map(row => row.hospital_id).filter(Boolean))] as string[];
+
+      const [{ data: profiles }, { data: hospitals }] = await Promise.all([
+        userIds.length > 0
+          ? supabase.from('profiles').select('id, full_name').in('id', userIds)
+          : Promise.resolve({ data: [] as { id: string; full_name: string }[] }),
+        hospitalIds.length > 0
+          ? supabase.from('hospitals').select('id, name').in('id', hospitalIds)
+          : Promise.resolve({ data: [] as { id: string; name: string }[] }),
+      ]);
+
+      const nameMap = new Map((profiles || []).map(p => [p.id, p.full_name]));
+      const hospitalMap = new Map((hospitals || []).map(h => [h.id, h.name]));
+
+      setEntries((data || []).map(row => ({
+        id: row.id,
+        userId: row.user_id,
+        userName: nameMap.get(row.user_id) || 'Unknown User',
+        hospitalName: row.hospital_id ? hospitalMap.get(row.hospital_id) : undefined,
+        action: row.action as PhiAccessAction,
+        attachmentId: row.attachment_id || undefined,
+        details: (row.details as Record<string, unknown>) || {},
+        accessedAt: new Date(row.accessed_at),
+      })));
+    } catch (error) {
+      console.error('Error fetching PHI access history:', error);
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const verifyChain = async () => {
+    if (!referralId) return null;
+
+    setVerifying(true);
+    const { data, error } = await supabase.rpc('verify_phi_access_chain', {
+      _referral_id: referralId,
+    });
+    setVerifying(false);
+
+    if (error || !data?.[0]) {
+      console.error('Error verifying PHI access chain:', error);
+      return null;
+    }
+
+    const result: PhiChainVerification = {
+      isValid: data[0].is_valid,
+      checkedCount: data[0].checked_count,
+      firstInvalidId: data[0].first_invalid_id || undefined,
+    };
+    setVerification(result);
+    return result;
+  };
+
+  useEffect(() => {
+    fetchHistory();
+    setVerification(null);
+  }, [referralId]);
+
+  return {
+    entries,
+    loading,
+    verification,
+    verifying,
+    verifyChain,
+    refetch: fetchHistory,
+  };
+};
+
+// Admin report of access patterns flagged by phi_access_anomalies
+export const usePhiAccessAnomalies = (days: number) => {
+  const [anomalies, setAnomalies] = useState<PhiAccessAnomaly[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAnomalies = async () => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc('phi_access_anomalies', { _days: days });
+
+    if (error) {
+      console.error('Error fetching PHI access anomalies:', error);
+    }
+
+    setAnomalies((data || []).map(row => ({
+      userId: row.user_id,
+      userName: row.user_name || 'Unknown User',
+      pattern: row.pattern as PhiAccessAnomaly['pattern'],
+      accessCount: row.access_count,
+      referralCount: row.referral_count,
+      firstAt: new Date(row.first_at),
+      lastAt: new Date(row.last_at),
+    })));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchAnomalies();
+  }, [days]);
+
+  return {
+    anomalies,
+    loading,
+    refetch: fetchAnomalies,
+  };
+};
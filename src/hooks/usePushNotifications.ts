@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+const isPushSupported = () =>
+  typeof window !== 'undefined'
+  && 'serviceWorker' in navigator
+  && 'PushManager' in window
+  && 'Notification' in window;
+
+// VAPID keys travel base64url-encoded; PushManager wants raw bytes
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  const raw = atob(padded);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+// Browser push for referral events, delivered by the push-notifications edge function
+export const usePushNotifications = () => {
+  const { currentUser } = useAuth();
+  const supported = isPushSupported();
+  const [permission, setPermission] = useState<NotificationPermission>(
+    supported ? Notification.permission : 'denied'
+  );
+  const [subscribed, setSubscribed] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!supported || !currentUser) {
+      setLoading(false);
+      return;
+    }
+
+    const checkSubscription = async () => {
+      try {
+        const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+        const subscription = await registration.pushManager.getSubscription();
+        if (!subscription) {
+          setSubscribed(false);
+          return;
+        }
+
+        // The browser may still hold a subscription another account on this device registered
+        const { data } = await supabase
+          .from('push_subscriptions')
+          .select('id')
+          .eq('user_id', currentUser.id)
+          .eq('endpoint', subscription.endpoint)
+          .maybeSingle();
+
+        setSubscribed(!!data);
+      } catch (error) {
+        console.error('Error checking push subscription:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    checkSubscription();
+  }, [supported, currentUser?.id]);
+
+  const subscribe = useCallback(async () => {
+    if (!supported || !currentUser) return false;
+
+    setLoading(true);
+    try {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') {
+        toast.error('Notifications are blocked in this browser');
+        return false;
+      }
+
+      const { data: config, error: configError } = await supabase.functions.invoke('push-notifications', {
+        method: 'GET',
+      });
+      if (configError) throw configError;
+      if (!config?.publicKey) {
+        toast.error('Push notifications are not configured on the server');
+        return false;
+      }
+
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      await navigator.serviceWorker.ready;
+
+      const subscription = await registration.pushManager.getSubscription()
+        || await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(config.publicKey),
+        });
+
+      const { keys } = subscription.toJSON();
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .upsert(
+          {
+            user_id: currentUser.id,
+            endpoint: subscription.endpoint,
+            p256dh: keys?.p256dh ?? '',
+            auth: keys?.auth ?? '',
+          },
+          { onConflict: 'user_id,endpoint', ignoreDuplicates: true }
+        );
+      if (error) throw error;
+
+      setSubscribed(true);
+      toast.success('Push notifications enabled on this device');
+      return true;
+    } catch (error) {
+      console.error('Error enabling push notifications:', error);
+      toast.error('Failed to enable push notifications');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, [supported, currentUser]);
+
+  const unsubscribe = useCallback(async () => {
+    if (!supported || !currentUser) return false;
+
+    setLoading(true);
+    try {
+      const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+      const subscription = await registration?.pushManager.getSubscription();
+
+      if (subscription) {
+        const { error } = await supabase
+          .from('push_subscriptions')
+          .delete()
+          .eq('user_id', currentUser.id)
+          .eq('endpoint', subscription.endpoint);
+        if (error) throw error;
+
+        await subscription.unsubscribe();
+      }
+
+      setSubscribed(false);
+      toast.success('Push notifications disabled on this device');
+      return true;
+    } catch (error) {
+      console.error('Error disabling push notifications:', error);
+      toast.error('Failed to disable push notifications');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, [supported, currentUser]);
+
+  return {
+    supported,
+    permission,
+    subscribed,
+    loading,
+    subscribe,
+    unsubscribe,
+  };
+};
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { readFunctionFailure } from '@/lib/securityEvents';
 
 export interface ReferralAttachment {
   id: string;
@@ -166,12 +167,23 @@ export const useReferralAttachments = (referralId: string | undefined) => {
     }
   };
 
-  const getDownloadUrl = async (attachment: ReferralAttachment) => {
-    const { data } = await supabase.storage
-      .from('referral-documents')
-      .createSignedUrl(attachment.file_path, 3600);
+  // The edge function records the download before it signs a URL
+  const getDownloadUrl = async (attachment: ReferralAttachment): Promise<string | null> => {
+    const { data, error } = await supabase.functions.invoke('attachment-download', {
+      body: { attachment_id: attachment.id },
+    });
 
-    return data?.signedUrl || null;
+    if (error || !data?.url) {
+      const { message } = await readFunctionFailure(error, 'Failed to download file');
+      toast({
+        title: 'Download failed',
+        description: message,
+        variant: 'destructive'
+      });
+      return null;
+    }
+
+    return data.url;
   };
 
   useEffect(() => {
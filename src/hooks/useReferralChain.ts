@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ReferralChainLink, ReferralStatus } from '@/types/referral';
+
+// The forwarding chain a referral belongs to, root first. A referral that was never
+// forwarded yields a chain of one. `status` is only used to refetch after changes.
+export const useReferralChain = (referralId: string | undefined, status: ReferralStatus | undefined) => {
+  const [chain, setChain] = useState<ReferralChainLink[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchChain = async () => {
+    if (!referralId) {
+      setChain([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_referral_chain', {
+        _referral_id: referralId,
+      });
+
+      if (error) throw error;
+
+      setChain((data || []).map(link => ({
+        id: link.id,
+        parentReferralId: link.parent_referral_id || undefined,
+        fromHospitalName: link.from_hospital_name || 'Unknown Hospital',
+        toHospitalName: link.to_hospital_name || 'Unknown Hospital',
+        status: link.status,
+        reason: link.reason,
+        createdAt: new Date(link.created_at),
+        depth: link.depth,
+      })));
+    } catch (error) {
+      console.error('Error fetching referral chain:', error);
+      setChain([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchChain();
+  }, [referralId, status]);
+
+  return {
+    chain,
+    loading,
+    refetch: fetchChain,
+  };
+};
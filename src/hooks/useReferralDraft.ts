@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { UrgencyLevel } from '@/types/referral';
+
+// The sections the referral-draft edge function returns; the doctor edits them before they reach the form
+export interface ReferralDraft {
+  history: string;
+  findings: string;
+  medications: string;
+  question: string;
+}
+
+// A draft and the ai_draft_logs row that records how it was produced
+export interface ReferralDraftResult {
+  draft: ReferralDraft;
+  logId: string;
+}
+
+export interface ReferralDraftInput {
+  notes: string;
+  medicalSummary?: string;
+  templateId?: string | null;
+  specialty?: string;
+  urgency?: UrgencyLevel;
+}
+
+// The medical summary field holds the first three sections; the question becomes the reason for referral
+export const composeMedicalSummary = (draft: ReferralDraft) =>
+  [
+    ['History', draft.history],
+    ['Findings', draft.findings],
+    ['Medications', draft.medications],
+  ]
+    .filter(([, text]) => text.trim())
+    .map(([heading, text]) => `${heading}:\n${text.trim()}`)
+    .join('\n\n');
+
+// Each draft is logged server-side with its prompt and model for audit
+export const useReferralDraft = () => {
+  const [drafting, setDrafting] = useState(false);
+
+  const draftReferral = async (input: ReferralDraftInput): Promise<ReferralDraftResult | null> => {
+    setDrafting(true);
+    const { data, error } = await supabase.functions.invoke('referral-draft', {
+      body: {
+        notes: input.notes,
+        medical_summary: input.medicalSummary || undefined,
+        template_id: input.templateId || null,
+        specialty: input.specialty || undefined,
+        urgency: input.urgency,
+      },
+    });
+    setDrafting(false);
+
+    if (error) {
+      const details = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => ({}))
+        : {};
+      console.error('Error drafting referral:', error);
+      toast.error(details.error || 'Failed to draft referral');
+      return null;
+    }
+
+    const { draft, log_id } = data as { draft: ReferralDraft; log_id: string };
+    return { draft, logId: log_id };
+  };
+
+  return { draftReferral, drafting };
+};
@@ -0,0 +1,179 @@
+import { useMemo } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Referral, ReferralStatus, UrgencyLevel } from '@/types/referral';
+import { DEFAULT_REFERRAL_SPECIALTY } from '@/lib/specialties';
+import { toast } from 'sonner';
+import type { Database } from '@/integrations/supabase/types';
+
+type ReferralListRow = Database['public']['Views']['referral_list_view']['Row'];
+
+export type ReferralDirection = 'sent' | 'incoming';
+
+export interface ReferralListFilters {
+  search: string;
+  urgency: UrgencyLevel | '';
+  hospitalId: string;
+  specialty: string;
+  dateFrom: string; // yyyy-MM-dd, inclusive
+  dateTo: string; // yyyy-MM-dd, inclusive
+}
+
+export const emptyReferralListFilters: ReferralListFilters = {
+  search: '',
+  urgency: '',
+  hospitalId: '',
+  specialty: '',
+  dateFrom: '',
+  dateTo: '',
+};
+
+interface ReferralCursor {
+  createdAt: string;
+  id: string;
+}
+
+const PAGE_SIZE = 20;
+
+// List rows carry joined names but no activity log; the detail page loads that
+export const transformListRow = (row: ReferralListRow): Referral => ({
+  id: row.id!,
+  patientCode: row.patient_code || undefined,
+  patient: {
+    id: row.patient_medical_id || '',
+    name: row.patient_name || '',
+    age: row.patient_age ?? 0,
+    contact: row.patient_contact || '',
+    medicalId: row.patient_medical_id || '',
+  },
+  medicalSummary: row.medical_summary || '',
+  reasonForReferral: row.reason || '',
+  urgency: row.urgency!,
+  status: row.status!,
+  fromHospitalId: row.from_hospital_id!,
+  fromHospitalName: row.from_hospital_name || 'Unknown Hospital',
+  fromDoctorId: row.created_by!,
+  fromDoctorName: row.creator_name || 'Unknown Doctor',
+  toHospitalId: row.to_hospital_id!,
+  toHospitalName: row.to_hospital_name || 'Unknown Hospital',
+  assignedDoctorId: row.assigned_doctor_id || undefined,
+  assignedDoctorName: row.assigned_doctor_name || undefined,
+  specialty: row.specialty || DEFAULT_REFERRAL_SPECIALTY,
+  createdAt: new Date(row.created_at!),
+  updatedAt: new Date(row.updated_at!),
+  completedAt: row.status === 'completed' ? new Date(row.updated_at!) : undefined,
+  rejectionReason: row.rejection_reason || undefined,
+  parentReferralId: row.parent_referral_id || undefined,
+  departmentId: row.department_id || undefined,
+  departmentName: row.department_name || undefined,
+  activityLog: [],
+});
+
+// The date inputs are local calendar days; the upper bound is exclusive on the server.
+// departmentIds narrows incoming lists to those department queues; null means every queue.
+const toFilterArgs = (
+  direction: ReferralDirection,
+  filters: ReferralListFilters,
+  departmentIds: string[] | null
+) => {
+  const createdTo = filters.dateTo ? new Date(`${filters.dateTo}T00:00:00`) : null;
+  createdTo?.setDate(createdTo.getDate() + 1);
+
+  return {
+    _direction: direction,
+    _urgency: filters.urgency || undefined,
+    _hospital_id: filters.hospitalId || undefined,
+    _specialty: filters.specialty || undefined,
+    _created_from: filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`).toISOString() : undefined,
+    _created_to: createdTo ? createdTo.toISOString() : undefined,
+    _search: filters.search.trim() || undefined,
+    _department_ids: departmentIds || undefined,
+  };
+};
+
+export const useReferralList = (
+  direction: ReferralDirection,
+  statuses: ReferralStatus[] | null,
+  filters: ReferralListFilters,
+  departmentIds: string[] | null = null
+) => {
+  const { currentUser } = useAuth();
+
+  const query = useInfiniteQuery({
+    queryKey: ['referrals', 'list', currentUser?.id, direction, statuses, filters, departmentIds],
+    enabled: !!currentUser,
+    initialPageParam: null as ReferralCursor | null,
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc('list_referrals', {
+        ...toFilterArgs(direction, filters, departmentIds),
+        _statuses: statuses || undefined,
+        _cursor_created_at: pageParam?.createdAt,
+        _cursor_id: pageParam?.id,
+        _limit: PAGE_SIZE,
+      });
+
+      if (error) {
+        console.error('Error fetching referrals:', error);
+        toast.error('Failed to load referrals');
+        throw error;
+      }
+
+      return data || [];
+    },
+    getNextPageParam: (lastPage): ReferralCursor | undefined => {
+      if (lastPage.length < PAGE_SIZE) return undefined;
+      const last = lastPage[lastPage.length - 1];
+      return { createdAt: last.created_at!, id: last.id! };
+    },
+  });
+
+  const referrals = useMemo(
+    () => query.data?.pages.flat().map(transformListRow) || [],
+    [query.data]
+  );
+
+  return {
+    referrals,
+    loading: query.isLoading,
+    loadingMore: query.isFetchingNextPage,
+    hasMore: !!query.hasNextPage,
+    loadMore: query.fetchNextPage,
+    refetch: query.refetch,
+  };
+};
+
+export const useReferralStatusCounts = (
+  direction: ReferralDirection,
+  filters: ReferralListFilters,
+  departmentIds: string[] | null = null
+) => {
+  const { currentUser } = useAuth();
+
+  const query = useQuery({
+    queryKey: ['referrals', 'counts', currentUser?.id, direction, filters, departmentIds],
+    enabled: !!currentUser,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('count_referrals_by_status', toFilterArgs(direction, filters, departmentIds));
+
+      if (error) {
+        console.error('Error fetching referral counts:', error);
+        throw error;
+      }
+
+      const counts: Partial<Record<ReferralStatus, number>> = {};
+      data?.forEach(row => {
+        counts[row.status] = Number(row.total);
+      });
+      return counts;
+    },
+  });
+
+  const counts = query.data || {};
+  const countOf = (statuses: ReferralStatus[] | null) =>
+    statuses
+      ? statuses.reduce((sum, status) => sum + (counts[status] || 0), 0)
+      : Object.values(counts).reduce((sum, n) => sum + (n || 0), 0);
+
+  return { countOf, loading: query.isLoading };
+};
@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { UrgencyLevel } from '@/types/referral';
+import { toast } from 'sonner';
+import type { Database } from '@/integrations/supabase/types';
+
+type SlaBreachRow = Database['public']['Tables']['referral_sla_breaches']['Row'];
+
+export interface ReferralSla {
+  urgency: UrgencyLevel;
+  acceptWithinMinutes: number;
+  repeatEveryMinutes: number;
+  isActive: boolean;
+}
+
+export interface SlaBreach {
+  id: string;
+  referralId: string;
+  hospitalId: string;
+  urgency: UrgencyLevel;
+  dueAt: Date;
+  breachedAt: Date;
+  escalationCount: number;
+  lastEscalatedAt: Date;
+  notifiedUserIds: string[];
+  resolvedAt?: Date;
+}
+
+const URGENCY_ORDER: UrgencyLevel[] = ['emergency', 'urgent', 'routine'];
+
+export const transformSlaBreach = (row: SlaBreachRow): SlaBreach => ({
+  id: row.id,
+  referralId: row.referral_id,
+  hospitalId: row.hospital_id,
+  urgency: row.urgency,
+  dueAt: new Date(row.due_at),
+  breachedAt: new Date(row.breached_at),
+  escalationCount: row.escalation_count,
+  lastEscalatedAt: new Date(row.last_escalated_at),
+  notifiedUserIds: row.notified_user_ids,
+  resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+});
+
+// Per-urgency acceptance deadlines, enforced by the sla-escalation edge function
+export const useReferralSlas = () => {
+  const { currentUser } = useAuth();
+  const [slas, setSlas] = useState<ReferralSla[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSlas = async () => {
+    try {
+      const { data, error } = await supabase.from('referral_slas').select('*');
+      if (error) throw error;
+
+      setSlas((data || [])
+        .map(row => ({
+          urgency: row.urgency,
+          acceptWithinMinutes: row.accept_within_minutes,
+          repeatEveryMinutes: row.repeat_every_minutes,
+          isActive: row.is_active,
+        }))
+        .sort((a, b) => URGENCY_ORDER.indexOf(a.urgency) - URGENCY_ORDER.indexOf(b.urgency)));
+    } catch (error) {
+      console.error('Error fetching referral SLAs:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSlas();
+  }, []);
+
+  const updateSla = async (sla: ReferralSla) => {
+    const { error } = await supabase
+      .from('referral_slas')
+      .update({
+        accept_within_minutes: sla.acceptWithinMinutes,
+        repeat_every_minutes: sla.repeatEveryMinutes,
+        is_active: sla.isActive,
+        updated_by: currentUser?.id,
+      })
+      .eq('urgency', sla.urgency);
+
+    if (error) {
+      console.error('Error updating referral SLA:', error);
+      toast.error('Failed to update SLA');
+      return false;
+    }
+
+    toast.success('SLA updated');
+    await fetchSlas();
+    return true;
+  };
+
+  return {
+    slas,
+    loading,
+    updateSla,
+    refetch: fetchSlas,
+  };
+};
+
+// Every SLA breach on referrals the user can see, for analytics
+export const useSlaBreaches = () => {
+  const { currentUser } = useAuth();
+  const [breaches, setBreaches] = useState<SlaBreach[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const fetchBreaches = async () => {
+      const { data, error } = await supabase
+        .from('referral_sla_breaches')
+        .select('*')
+        .order('breached_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching SLA breaches:', error);
+      }
+      setBreaches((data || []).map(transformSlaBreach));
+      setLoading(false);
+    };
+
+    fetchBreaches();
+  }, [currentUser?.id]);
+
+  return { breaches, loading };
+};
@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ReferralStatus, StatusTransition } from '@/types/referral';
+
+// Transitions the current user may perform, as decided by the server.
+// `status` is only used to refetch when the referral moves on.
+export const useReferralTransitions = (referralId: string | undefined, status: ReferralStatus | undefined) => {
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTransitions = async () => {
+    if (!referralId) {
+      setTransitions([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_allowed_referral_transitions', {
+        _referral_id: referralId,
+      });
+
+      if (error) throw error;
+
+      setTransitions((data || []).map(t => ({
+        toStatus: t.to_status,
+        requiresReason: t.requires_reason,
+      })));
+    } catch (error) {
+      console.error('Error fetching status transitions:', error);
+      setTransitions([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTransitions();
+  }, [referralId, status]);
+
+  return {
+    transitions,
+    loading,
+    refetch: fetchTransitions,
+  };
+};
@@ -1,208 +1,133 @@
-import { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { Referral, ActivityLog } from '@/types/referral';
+import { Referral, ActivityLog, ReferralStatus, StatusTransitionError, StatusTransitionErrorCode } from '@/types/referral';
 import { toast } from 'sonner';
-import type { Database } from '@/integrations/supabase/types';
-
-type ReferralRow = Database['public']['Tables']['referrals']['Row'];
-type ActivityLogRow = Database['public']['Tables']['referral_activity_logs']['Row'];
-
-// Transform database row to Referral type
-const transformReferral = (
-  row: ReferralRow & {
-    from_hospital?: { name: string } | null;
-    to_hospital?: { name: string } | null;
-    creator?: { full_name: string } | null;
-    assigned_doctor?: { full_name: string } | null;
-  },
-  activityLogs: ActivityLogRow[] = []
-): Referral => {
-  return {
-    id: row.id,
-    patientCode: row.patient_code || undefined,
-    patient: {
-      id: row.patient_medical_id || '',
-      name: row.patient_name,
-      age: row.patient_age,
-      contact: row.patient_contact || '',
-      medicalId: row.patient_medical_id || '',
-    },
-    medicalSummary: row.medical_summary,
-    reasonForReferral: row.reason,
-    urgency: row.urgency,
-    status: row.status,
-    fromHospitalId: row.from_hospital_id,
-    fromHospitalName: row.from_hospital?.name || 'Unknown Hospital',
-    fromDoctorId: row.created_by,
-    fromDoctorName: row.creator?.full_name || 'Unknown Doctor',
-    toHospitalId: row.to_hospital_id,
-    toHospitalName: row.to_hospital?.name || 'Unknown Hospital',
-    assignedDoctorId: row.assigned_doctor_id || undefined,
-    assignedDoctorName: row.assigned_doctor?.full_name || undefined,
-    specialty: 'General', // Could be stored separately
-    createdAt: new Date(row.created_at),
-    updatedAt: new Date(row.updated_at),
-    completedAt: row.status === 'completed' ? new Date(row.updated_at) : undefined,
-    rejectionReason: row.rejection_reason || undefined,
-    activityLog: activityLogs.map(log => ({
-      id: log.id,
-      referralId: log.referral_id,
-      timestamp: new Date(log.created_at),
-      action: log.action,
-      performedBy: log.performed_by || 'System',
-      details: log.details || undefined,
-    })),
-  };
+import { referralsQueryKey, toReferral, refreshReferral } from '@/lib/referralCache';
+
+const transitionErrorCodes: StatusTransitionErrorCode[] = [
+  'not_authenticated',
+  'not_found',
+  'forbidden',
+  'invalid_transition',
+  'reason_required',
+  'capacity_full',
+  'invalid_assignee',
+];
+
+// transition_referral_status, forward_referral and assign_referral raise with the error code in the hint
+const toTransitionError = (
+  error: { message: string; hint?: string | null },
+  fallbackMessage = 'Failed to update referral'
+): StatusTransitionError => {
+  const code = transitionErrorCodes.find(c => c === error.hint);
+  return code
+    ? { code, message: error.message }
+    : { code: 'unknown', message: fallbackMessage };
 };
 
-export const useReferrals = () => {
-  const { currentUser } = useAuth();
-  const [referrals, setReferrals] = useState<Referral[]>([]);
-  const [loading, setLoading] = useState(true);
+// Load every referral visible to the user along with joined names and activity logs
+const fetchReferrals = async (): Promise<Referral[]> => {
+  try {
+    // Fetch referrals
+    const { data: referralsData, error: referralsError } = await supabase
+      .from('referrals')
+      .select('*')
+      .order('created_at', { ascending: false });
 
-  const fetchReferrals = async () => {
-    if (!currentUser) {
-      setReferrals([]);
-      setLoading(false);
-      return;
+    if (referralsError) throw referralsError;
+
+    if (!referralsData || referralsData.length === 0) {
+      return [];
     }
 
-    try {
-      // Fetch referrals
-      const { data: referralsData, error: referralsError } = await supabase
-        .from('referrals')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (referralsError) throw referralsError;
-
-      if (!referralsData || referralsData.length === 0) {
-        setReferrals([]);
-        setLoading(false);
-        return;
-      }
-
-      // Fetch hospitals for names
-      const hospitalIds = [...new Set([
-        ...referralsData.map(r => r.from_hospital_id),
-        ...referralsData.map(r => r.to_hospital_id)
-      ])];
-      
-      const { data: hospitalsData } = await supabase
-        .from('hospitals')
-        .select('id, name')
-        .in('id', hospitalIds);
-
-      const hospitalMap = new Map(hospitalsData?.map(h => [h.id, h.name]) || []);
-
-      // Fetch profiles for doctor names
-      const doctorIds = [...new Set([
-        ...referralsData.map(r => r.created_by),
-        ...referralsData.filter(r => r.assigned_doctor_id).map(r => r.assigned_doctor_id!)
-      ])];
-
-      const { data: profilesData } = await supabase
-        .from('profiles')
-        .select('id, full_name')
-        .in('id', doctorIds);
-
-      const profileMap = new Map(profilesData?.map(p => [p.id, p.full_name]) || []);
-
-      // Fetch activity logs for all referrals
-      const referralIds = referralsData.map(r => r.id);
-      const { data: logsData } = await supabase
-        .from('referral_activity_logs')
-        .select('*')
-        .in('referral_id', referralIds)
-        .order('created_at', { ascending: true });
-
-      // Get performer names for logs
-      const logPerformerIds = [...new Set(logsData?.filter(l => l.performed_by).map(l => l.performed_by!) || [])];
-      const { data: logProfilesData } = await supabase
-        .from('profiles')
-        .select('id, full_name')
-        .in('id', logPerformerIds);
-
-      const logProfileMap = new Map(logProfilesData?.map(p => [p.id, p.full_name]) || []);
-
-      const logsMap = new Map<string, ActivityLog[]>();
-      logsData?.forEach(log => {
-        const logs = logsMap.get(log.referral_id) || [];
-        logs.push({
-          id: log.id,
-          referralId: log.referral_id,
-          timestamp: new Date(log.created_at),
-          action: log.action,
-          performedBy: log.performed_by ? (logProfileMap.get(log.performed_by) || 'Unknown') : 'System',
-          details: log.details || undefined,
-        });
-        logsMap.set(log.referral_id, logs);
+    // Fetch hospitals for names
+    const hospitalIds = [...new Set([
+      ...referralsData.map(r => r.from_hospital_id),
+      ...referralsData.map(r => r.to_hospital_id)
+    ])];
+
+    const { data: hospitalsData } = await supabase
+      .from('hospitals')
+      .select('id, name')
+      .in('id', hospitalIds);
+
+    const hospitalMap = new Map(hospitalsData?.map(h => [h.id, h.name]) || []);
+
+    // Fetch profiles for doctor names
+    const doctorIds = [...new Set([
+      ...referralsData.map(r => r.created_by),
+      ...referralsData.filter(r => r.assigned_doctor_id).map(r => r.assigned_doctor_id!)
+    ])];
+
+    const { data: profilesData } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', doctorIds);
+
+    const profileMap = new Map(profilesData?.map(p => [p.id, p.full_name]) || []);
+
+    // Fetch department names for routed referrals
+    const departmentIds = [...new Set(referralsData.filter(r => r.department_id).map(r => r.department_id!))];
+    const { data: departmentsData } = departmentIds.length > 0
+      ? await supabase.from('hospital_departments').select('id, name').in('id', departmentIds)
+      : { data: [] as { id: string; name: string }[] };
+
+    const departmentMap = new Map(departmentsData?.map(d => [d.id, d.name]) || []);
+
+    // Fetch activity logs for all referrals
+    const referralIds = referralsData.map(r => r.id);
+    const { data: logsData } = await supabase
+      .from('referral_activity_logs')
+      .select('*')
+      .in('referral_id', referralIds)
+      .order('seq', { ascending: true });
+
+    // Get performer names for logs
+    const logPerformerIds = [...new Set(logsData?.filter(l => l.performed_by).map(l => l.performed_by!) || [])];
+    const { data: logProfilesData } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', logPerformerIds);
+
+    const logProfileMap = new Map(logProfilesData?.map(p => [p.id, p.full_name]) || []);
+
+    const logsMap = new Map<string, ActivityLog[]>();
+    logsData?.forEach(log => {
+      const logs = logsMap.get(log.referral_id) || [];
+      logs.push({
+        id: log.id,
+        referralId: log.referral_id,
+        timestamp: new Date(log.created_at),
+        action: log.action,
+        performedBy: log.performed_by ? (logProfileMap.get(log.performed_by) || 'Unknown') : 'System',
+        details: log.details || undefined,
       });
+      logsMap.set(log.referral_id, logs);
+    });
+
+    const names = { hospitals: hospitalMap, profiles: profileMap, departments: departmentMap };
+    return referralsData.map(row => toReferral(row, names, logsMap.get(row.id) || []));
+  } catch (error) {
+    console.error('Error fetching referrals:', error);
+    toast.error('Failed to load referrals');
+    throw error;
+  }
+};
 
-      // Transform referrals
-      const transformedReferrals: Referral[] = referralsData.map(row => ({
-        id: row.id,
-        patientCode: row.patient_code || undefined,
-        patient: {
-          id: row.patient_medical_id || '',
-          name: row.patient_name,
-          age: row.patient_age,
-          contact: row.patient_contact || '',
-          medicalId: row.patient_medical_id || '',
-        },
-        medicalSummary: row.medical_summary,
-        reasonForReferral: row.reason,
-        urgency: row.urgency,
-        status: row.status,
-        fromHospitalId: row.from_hospital_id,
-        fromHospitalName: hospitalMap.get(row.from_hospital_id) || 'Unknown Hospital',
-        fromDoctorId: row.created_by,
-        fromDoctorName: profileMap.get(row.created_by) || 'Unknown Doctor',
-        toHospitalId: row.to_hospital_id,
-        toHospitalName: hospitalMap.get(row.to_hospital_id) || 'Unknown Hospital',
-        assignedDoctorId: row.assigned_doctor_id || undefined,
-        assignedDoctorName: row.assigned_doctor_id ? profileMap.get(row.assigned_doctor_id) : undefined,
-        specialty: 'General',
-        createdAt: new Date(row.created_at),
-        updatedAt: new Date(row.updated_at),
-        completedAt: row.status === 'completed' ? new Date(row.updated_at) : undefined,
-        rejectionReason: row.rejection_reason || undefined,
-        activityLog: logsMap.get(row.id) || [],
-      }));
-
-      setReferrals(transformedReferrals);
-    } catch (error) {
-      console.error('Error fetching referrals:', error);
-      toast.error('Failed to load referrals');
-    } finally {
-      setLoading(false);
-    }
-  };
+// Realtime changes are patched into this query's cache by ReferralRealtimeProvider,
+// so pages sharing it never refetch the whole list.
+export const useReferrals = () => {
+  const { currentUser } = useAuth();
+  const queryClient = useQueryClient();
 
-  useEffect(() => {
-    fetchReferrals();
-  }, [currentUser]);
-
-  // Real-time subscription
-  useEffect(() => {
-    if (!currentUser) return;
-
-    const channel = supabase
-      .channel('referrals-changes')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'referrals' },
-        () => {
-          fetchReferrals();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [currentUser]);
+  const query = useQuery({
+    queryKey: referralsQueryKey(currentUser?.id),
+    enabled: !!currentUser,
+    queryFn: fetchReferrals,
+  });
+
+  const referrals = query.data || [];
 
   const addReferral = async (referralData: {
     patientName: string;
@@ -213,6 +138,8 @@ export const useReferrals = () => {
     reason: string;
     toHospitalId: string;
     urgency: 'emergency' | 'urgent' | 'routine';
+    specialty: string;
+    aiDraftLogId?: string | null;
   }) => {
     if (!currentUser?.hospital_id) {
       toast.error('You must be assigned to a hospital to create referrals');
@@ -233,6 +160,8 @@ export const useReferrals = () => {
           to_hospital_id: referralData.toHospitalId,
           created_by: currentUser.id,
           urgency: referralData.urgency,
+          specialty: referralData.specialty || null,
+          ai_draft_log_id: referralData.aiDraftLogId ?? null,
           status: 'pending',
         })
         .select()
@@ -240,67 +169,120 @@ export const useReferrals = () => {
 
       if (error) throw error;
 
-      // Add activity log
-      await supabase.from('referral_activity_logs').insert({
-        referral_id: data.id,
-        action: 'Referral Created',
-        performed_by: currentUser.id,
-      });
-
       toast.success('Referral created successfully!');
-      await fetchReferrals();
+      await refreshReferral(queryClient, currentUser.id, data.id);
       return data;
     } catch (error) {
       console.error('Error creating referral:', error);
-      toast.error('Failed to create referral');
+      // check_emergency_referral_capacity explains why the destination refused
+      const { hint, message } = error as { hint?: string; message?: string };
+      toast.error(hint === 'capacity_full' && message ? message : 'Failed to create referral');
       return null;
     }
   };
 
   const updateReferralStatus = async (
     id: string,
-    status: 'pending' | 'accepted' | 'in_treatment' | 'completed' | 'rejected' | 'more_info_requested',
+    status: ReferralStatus,
     details?: string
-  ) => {
-    if (!currentUser) return false;
+  ): Promise<{ error: StatusTransitionError | null }> => {
+    if (!currentUser) {
+      return { error: { code: 'not_authenticated', message: 'You must be signed in to update referrals' } };
+    }
 
-    try {
-      const updateData: Record<string, unknown> = { status };
-      if (status === 'rejected' && details) {
-        updateData.rejection_reason = details;
-      }
-      if (status === 'completed') {
-        // Generate patient code using database function
-        const { data: codeData } = await supabase.rpc('generate_patient_code');
-        updateData.patient_code = codeData;
-      }
-      if (status === 'accepted' || status === 'in_treatment') {
-        updateData.assigned_doctor_id = currentUser.id;
-      }
-
-      const { error } = await supabase
-        .from('referrals')
-        .update(updateData)
-        .eq('id', id);
+    // Validation, side effects and the activity log entry all happen server-side
+    const { error } = await supabase.rpc('transition_referral_status', {
+      _referral_id: id,
+      _to_status: status,
+      _details: details,
+    });
 
-      if (error) throw error;
+    if (error) {
+      console.error('Error updating referral:', error);
+      const transitionError = toTransitionError(error);
+      toast.error(transitionError.message);
+      return { error: transitionError };
+    }
 
-      // Add activity log
-      await supabase.from('referral_activity_logs').insert({
-        referral_id: id,
-        action: `Status changed to ${status.replace('_', ' ')}`,
-        performed_by: currentUser.id,
-        details,
-      });
+    toast.success('Referral updated successfully');
+    await refreshReferral(queryClient, currentUser.id, id);
+    return { error: null };
+  };
 
-      toast.success('Referral updated successfully');
-      await fetchReferrals();
-      return true;
-    } catch (error) {
-      console.error('Error updating referral:', error);
-      toast.error('Failed to update referral');
-      return false;
+  // Forward a received referral to another hospital as a linked child referral.
+  // The server copies the records; each attachment file is copied here and only then recorded on the child.
+  const forwardReferral = async (
+    id: string,
+    toHospitalId: string,
+    reason: string
+  ): Promise<{ referralId: string | null; error: StatusTransitionError | null }> => {
+    if (!currentUser) {
+      return {
+        referralId: null,
+        error: { code: 'not_authenticated', message: 'You must be signed in to forward referrals' },
+      };
     }
+
+    const { data: childId, error } = await supabase.rpc('forward_referral', {
+      _referral_id: id,
+      _to_hospital_id: toHospitalId,
+      _reason: reason,
+    });
+
+    if (error || !childId) {
+      console.error('Error forwarding referral:', error);
+      const forwardError = toTransitionError(error || { message: '' }, 'Failed to forward referral');
+      toast.error(forwardError.message);
+      return { referralId: null, error: forwardError };
+    }
+
+    // Staff cannot read the bucket, so the files are copied server-side
+    const { data: copyResult, error: copyError } = await supabase.functions.invoke('forward-attachments', {
+      body: { referral_id: childId },
+    });
+
+    if (copyError) {
+      console.error('Error copying attachments:', copyError);
+      toast.warning('Referral forwarded, but its attachments could not be copied');
+    } else if (copyResult.failed > 0) {
+      toast.warning(`Referral forwarded, but ${copyResult.failed} attachment(s) could not be copied`);
+    } else {
+      toast.success('Referral forwarded successfully');
+    }
+
+    await Promise.all([
+      refreshReferral(queryClient, currentUser.id, id),
+      refreshReferral(queryClient, currentUser.id, childId),
+    ]);
+    return { referralId: childId, error: null };
+  };
+
+  // Hand a referral to a colleague at the receiving hospital; reassigning needs a reason
+  const assignReferral = async (
+    id: string,
+    assigneeId: string,
+    reason?: string
+  ): Promise<{ error: StatusTransitionError | null }> => {
+    if (!currentUser) {
+      return { error: { code: 'not_authenticated', message: 'You must be signed in to assign referrals' } };
+    }
+
+    const { error } = await supabase.rpc('assign_referral', {
+      _referral_id: id,
+      _assignee_id: assigneeId,
+      _reason: reason,
+    });
+
+    if (error) {
+      console.error('Error assigning referral:', error);
+      const assignError = toTransitionError(error, 'Failed to assign referral');
+      toast.error(assignError.message);
+      return { error: assignError };
+    }
+
+    toast.success('Referral assigned');
+    await refreshReferral(queryClient, currentUser.id, id);
+    return { error: null };
   };
 
   const getReferralById = (id: string) => {
@@ -313,11 +295,13 @@ export const useReferrals = () => {
 
   return {
     referrals,
-    loading,
+    loading: query.isLoading,
     addReferral,
     updateReferralStatus,
+    forwardReferral,
+    assignReferral,
     getReferralById,
     getReferralByCode,
-    refetch: fetchReferrals,
+    refetch: query.refetch,
   };
 };
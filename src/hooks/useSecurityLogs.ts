@@ -59,44 +59,6 @@ export const useSecurityLogs = (options: UseSecurityLogsOptions = {}) => {
     }
   };
 
-  const logSecurityEvent = async (
-    eventType: string,
-    details?: Record<string, unknown>,
-    email?: string
-  ) => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/security-logger`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-          body: JSON.stringify({
-            event_type: eventType,
-            user_id: user?.id,
-            email: email || user?.email,
-            details,
-          }),
-        }
-      );
-
-      const result = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to log security event');
-      }
-
-      return result;
-    } catch (err) {
-      console.error('Error logging security event:', err);
-      throw err;
-    }
-  };
-
   const exportLogsAsCSV = () => {
     if (logs.length === 0) {
       toast({
@@ -158,7 +120,6 @@ export const useSecurityLogs = (options: UseSecurityLogsOptions = {}) => {
     loading,
     error,
     refetch: fetchLogs,
-    logSecurityEvent,
     exportLogsAsCSV,
   };
 };
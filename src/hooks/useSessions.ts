@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export interface UserSession {
+  id: string;
+  createdAt: Date;
+  lastActiveAt: Date;
+  ipAddress?: string;
+  userAgent?: string;
+  aal: string;
+  isCurrent: boolean;
+}
+
+// The signed-in user's devices, from auth.sessions via list_my_sessions
+export const useSessions = () => {
+  const { user, logout } = useAuth();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchSessions = async () => {
+    const { data, error } = await supabase.rpc('list_my_sessions');
+
+    if (error) {
+      console.error('Error fetching sessions:', error);
+    } else {
+      setSessions((data || []).map(row => ({
+        id: row.id,
+        createdAt: new Date(row.created_at),
+        lastActiveAt: new Date(row.last_active_at),
+        ipAddress: row.ip_address || undefined,
+        userAgent: row.user_agent || undefined,
+        aal: row.aal,
+        isCurrent: row.is_current,
+      })));
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (user) fetchSessions();
+  }, [user?.id]);
+
+  const revokeSession = async (session: UserSession) => {
+    setRevokingId(session.id);
+    const { error } = await supabase.rpc('revoke_my_session', { _session_id: session.id });
+    setRevokingId(null);
+
+    if (error) {
+      console.error('Error revoking session:', error);
+      toast.error(error.message || 'Failed to sign out that device');
+      return false;
+    }
+
+    toast.success('Device signed out');
+    await fetchSessions();
+    return true;
+  };
+
+  const signOutOtherSessions = async () => {
+    const { data, error } = await supabase.rpc('revoke_my_sessions', { _keep_current: true });
+
+    if (error) {
+      console.error('Error revoking sessions:', error);
+      toast.error('Failed to sign out other devices');
+      return false;
+    }
+
+    toast.success(data ? `Signed out of ${data} other ${data === 1 ? 'device' : 'devices'}` : 'No other devices were signed in');
+    await fetchSessions();
+    return true;
+  };
+
+  const signOutEverywhere = async () => {
+    const { error } = await supabase.rpc('revoke_my_sessions', { _keep_current: false });
+
+    if (error) {
+      console.error('Error revoking sessions:', error);
+      toast.error('Failed to sign out everywhere');
+      return false;
+    }
+
+    await logout();
+    return true;
+  };
+
+  return {
+    sessions,
+    loading,
+    revokingId,
+    revokeSession,
+    signOutOtherSessions,
+    signOutEverywhere,
+    refetch: fetchSessions,
+  };
+};
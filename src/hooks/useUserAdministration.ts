@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { AppRole } from '@/lib/permissions';
+
+export interface NewUserInput {
+  email: string;
+  fullName: string;
+  hospitalId?: string;
+  specialty?: string;
+  role: AppRole;
+}
+
+// The admin-users edge function answers failures with { error }; surface that rather than the HTTP status
+const invokeAdminUsers = async <T>(body: Record<string, unknown>): Promise<{ data?: T; error?: string }> => {
+  const { data, error } = await supabase.functions.invoke('admin-users', { body });
+
+  if (error) {
+    const details = error instanceof FunctionsHttpError
+      ? await error.context.json().catch(() => ({}))
+      : {};
+    return { error: details.error || error.message };
+  }
+
+  return { data: data as T };
+};
+
+// Creates the account and emails its invite link; the bulk importer calls this once per row
+export const provisionUser = async (input: NewUserInput) => {
+  const { data, error } = await invokeAdminUsers<{ user_id: string }>({
+    action: 'create',
+    email: input.email,
+    full_name: input.fullName,
+    hospital_id: input.hospitalId || null,
+    specialty: input.specialty || undefined,
+    role: input.role,
+    redirect_to: `${window.location.origin}/set-password`,
+  });
+  return { userId: data?.user_id, error };
+};
+
+// Account creation and deactivation run server-side so the admin's own session is never touched
+export const useUserAdministration = () => {
+  const [working, setWorking] = useState(false);
+
+  const createUser = async (input: NewUserInput) => {
+    setWorking(true);
+    const { userId, error } = await provisionUser(input);
+    setWorking(false);
+
+    if (error) {
+      console.error('Error creating user:', error);
+      toast.error('Failed to create user: ' + error);
+      return null;
+    }
+
+    toast.success(`Invitation sent to ${input.email}`);
+    return userId ?? null;
+  };
+
+  const setUserActive = async (userId: string, active: boolean, name?: string) => {
+    setWorking(true);
+    const { error } = await invokeAdminUsers({
+      action: active ? 'reactivate' : 'deactivate',
+      user_id: userId,
+    });
+    setWorking(false);
+
+    if (error) {
+      console.error('Error updating user status:', error);
+      toast.error(error);
+      return false;
+    }
+
+    toast.success(`${name || 'User'} ${active ? 'reactivated' : 'deactivated'}`);
+    return true;
+  };
+
+  // Ends every session and replaces the password, then emails the user a reset link
+  const forceSignOut = async (userId: string, name?: string) => {
+    setWorking(true);
+    const { error } = await invokeAdminUsers({
+      action: 'force_sign_out',
+      user_id: userId,
+      redirect_to: `${window.location.origin}/set-password`,
+    });
+    setWorking(false);
+
+    if (error) {
+      console.error('Error forcing sign-out:', error);
+      toast.error(error);
+      return false;
+    }
+
+    toast.success(`${name || 'User'} was signed out everywhere and sent a password reset email`);
+    return true;
+  };
+
+  // Removes the user's authenticators and recovery codes after they lose access to both
+  const resetMfa = async (userId: string, name?: string) => {
+    setWorking(true);
+    const { error } = await invokeAdminUsers({ action: 'reset_mfa', user_id: userId });
+    setWorking(false);
+
+    if (error) {
+      console.error('Error resetting MFA:', error);
+      toast.error(error);
+      return false;
+    }
+
+    toast.success(`Two-factor authentication reset for ${name || 'user'}`);
+    return true;
+  };
+
+  return {
+    working,
+    createUser,
+    setUserActive,
+    forceSignOut,
+    resetMfa,
+  };
+};
@@ -10,6 +10,8 @@ export const useVoice = (options: UseVoiceOptions = {}) => {
   const [isListening, setIsListening] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isSupported, setIsSupported] = useState(false);
+  // Dictation needs speech recognition specifically; isSupported is also true for synthesis alone
+  const [canListen, setCanListen] = useState(false);
   const [isReady, setIsReady] = useState(false);
   const [voicesLoaded, setVoicesLoaded] = useState(false);
   const recognitionRef = useRef<any>(null);
@@ -48,6 +50,7 @@ export const useVoice = (options: UseVoiceOptions = {}) => {
     // Check for speech synthesis support
     const hasSynthesis = 'speechSynthesis' in window;
     setIsSupported(!!(SpeechRecognition || hasSynthesis));
+    setCanListen(!!SpeechRecognition);
 
     // Handle Chrome's async voice loading
     if (hasSynthesis) {
@@ -203,6 +206,7 @@ export const useVoice = (options: UseVoiceOptions = {}) => {
     isListening,
     isSpeaking,
     isSupported,
+    canListen,
     isReady,
     voicesLoaded,
     startListening,
@@ -14,32 +14,98 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_draft_logs: {
+        Row: {
+          created_at: string
+          draft: Json | null
+          hospital_id: string | null
+          id: string
+          model: string
+          prompt: Json
+          provider: string
+          specialty: string | null
+          template_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          draft?: Json | null
+          hospital_id?: string | null
+          id?: string
+          model: string
+          prompt: Json
+          provider: string
+          specialty?: string | null
+          template_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          draft?: Json | null
+          hospital_id?: string | null
+          id?: string
+          model?: string
+          prompt?: Json
+          provider?: string
+          specialty?: string | null
+          template_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_draft_logs_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_draft_logs_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "referral_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       blocked_ips: {
         Row: {
+          auto_blocked: boolean
+          block_count: number
           blocked_at: string
           blocked_by: string | null
           expires_at: string | null
           id: string
           ip_address: string
           is_active: boolean
+          lifted_at: string | null
+          lifted_by: string | null
           reason: string
         }
         Insert: {
+          auto_blocked?: boolean
+          block_count?: number
           blocked_at?: string
           blocked_by?: string | null
           expires_at?: string | null
           id?: string
           ip_address: string
           is_active?: boolean
+          lifted_at?: string | null
+          lifted_by?: string | null
           reason: string
         }
         Update: {
+          auto_blocked?: boolean
+          block_count?: number
           blocked_at?: string
           blocked_by?: string | null
           expires_at?: string | null
           id?: string
           ip_address?: string
           is_active?: boolean
+          lifted_at?: string | null
+          lifted_by?: string | null
           reason?: string
         }
         Relationships: []
@@ -71,6 +137,42 @@ export type Database = {
         }
         Relationships: []
       }
+      department_members: {
+        Row: {
+          created_at: string
+          department_id: string
+          is_lead: boolean
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          department_id: string
+          is_lead?: boolean
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          department_id?: string
+          is_lead?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "department_members_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "hospital_departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "department_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       direct_messages: {
         Row: {
           created_at: string
@@ -150,6 +252,279 @@ export type Database = {
           },
         ]
       }
+      hospital_capacity: {
+        Row: {
+          accepting_referrals: boolean
+          hospital_id: string
+          icu_beds_available: number
+          icu_beds_total: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          accepting_referrals?: boolean
+          hospital_id: string
+          icu_beds_available?: number
+          icu_beds_total?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          accepting_referrals?: boolean
+          hospital_id?: string
+          icu_beds_available?: number
+          icu_beds_total?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hospital_capacity_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: true
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hospital_capacity_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hospital_capacity_snapshots: {
+        Row: {
+          accepting_referrals: boolean
+          beds_available: number
+          beds_total: number
+          department_id: string | null
+          department_name: string | null
+          hospital_id: string
+          id: string
+          recorded_at: string
+          recorded_by: string | null
+        }
+        Insert: {
+          accepting_referrals: boolean
+          beds_available: number
+          beds_total: number
+          department_id?: string | null
+          department_name?: string | null
+          hospital_id: string
+          id?: string
+          recorded_at?: string
+          recorded_by?: string | null
+        }
+        Update: {
+          accepting_referrals?: boolean
+          beds_available?: number
+          beds_total?: number
+          department_id?: string | null
+          department_name?: string | null
+          hospital_id?: string
+          id?: string
+          recorded_at?: string
+          recorded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hospital_capacity_snapshots_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "hospital_departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hospital_capacity_snapshots_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hospital_capacity_snapshots_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hospital_departments: {
+        Row: {
+          accepting_referrals: boolean
+          beds_available: number
+          beds_total: number
+          created_at: string
+          hospital_id: string
+          id: string
+          name: string
+          specialty: string | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          accepting_referrals?: boolean
+          beds_available?: number
+          beds_total?: number
+          created_at?: string
+          hospital_id: string
+          id?: string
+          name: string
+          specialty?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          accepting_referrals?: boolean
+          beds_available?: number
+          beds_total?: number
+          created_at?: string
+          hospital_id?: string
+          id?: string
+          name?: string
+          specialty?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hospital_departments_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hospital_departments_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hospital_invites: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          hospital_id: string
+          id: string
+          max_uses: number
+          revoked_at: string | null
+          use_count: number
+        }
+        Insert: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          hospital_id: string
+          id?: string
+          max_uses?: number
+          revoked_at?: string | null
+          use_count?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          hospital_id?: string
+          id?: string
+          max_uses?: number
+          revoked_at?: string | null
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hospital_invites_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hospital_invites_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hospital_membership_requests: {
+        Row: {
+          created_at: string
+          hospital_id: string
+          id: string
+          invite_id: string | null
+          message: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          hospital_id: string
+          id?: string
+          invite_id?: string | null
+          message?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          hospital_id?: string
+          id?: string
+          invite_id?: string | null
+          message?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hospital_membership_requests_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hospital_membership_requests_invite_id_fkey"
+            columns: ["invite_id"]
+            isOneToOne: false
+            referencedRelation: "hospital_invites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hospital_membership_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hospital_membership_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       hospitals: {
         Row: {
           address: string | null
@@ -177,6 +552,86 @@ export type Database = {
         }
         Relationships: []
       }
+      mfa_policies: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          grace_period_days: number
+          hospital_id: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"] | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          grace_period_days?: number
+          hospital_id?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          grace_period_days?: number
+          hospital_id?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mfa_policies_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mfa_recovery_attempts: {
+        Row: {
+          created_at: string
+          id: string
+          succeeded: boolean
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          succeeded: boolean
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          succeeded?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       patient_followups: {
         Row: {
           completed_at: string | null
@@ -191,32 +646,82 @@ export type Database = {
           scheduled_date: string
         }
         Insert: {
-          completed_at?: string | null
-          created_at?: string | null
-          created_by?: string | null
-          followup_type: string
+          completed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          followup_type: string
+          id?: string
+          notes?: string | null
+          outcome_status?: string | null
+          referral_id: string
+          satisfaction_rating?: number | null
+          scheduled_date: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          followup_type?: string
+          id?: string
+          notes?: string | null
+          outcome_status?: string | null
+          referral_id?: string
+          satisfaction_rating?: number | null
+          scheduled_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_followups_referral_id_fkey"
+            columns: ["referral_id"]
+            isOneToOne: false
+            referencedRelation: "referrals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phi_access_logs: {
+        Row: {
+          accessed_at: string
+          action: string
+          attachment_id: string | null
+          details: Json
+          hospital_id: string | null
+          id: string
+          prev_hash: string | null
+          referral_id: string
+          row_hash: string
+          seq: number
+          user_id: string
+        }
+        Insert: {
+          accessed_at?: string
+          action: string
+          attachment_id?: string | null
+          details?: Json
+          hospital_id?: string | null
           id?: string
-          notes?: string | null
-          outcome_status?: string | null
+          prev_hash?: string | null
           referral_id: string
-          satisfaction_rating?: number | null
-          scheduled_date: string
+          row_hash: string
+          seq?: number
+          user_id: string
         }
         Update: {
-          completed_at?: string | null
-          created_at?: string | null
-          created_by?: string | null
-          followup_type?: string
+          accessed_at?: string
+          action?: string
+          attachment_id?: string | null
+          details?: Json
+          hospital_id?: string | null
           id?: string
-          notes?: string | null
-          outcome_status?: string | null
+          prev_hash?: string | null
           referral_id?: string
-          satisfaction_rating?: number | null
-          scheduled_date?: string
+          row_hash?: string
+          seq?: number
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "patient_followups_referral_id_fkey"
+            foreignKeyName: "phi_access_logs_referral_id_fkey"
             columns: ["referral_id"]
             isOneToOne: false
             referencedRelation: "referrals"
@@ -229,6 +734,8 @@ export type Database = {
           availability_status: string | null
           bio: string | null
           created_at: string
+          deactivated_at: string | null
+          deactivated_by: string | null
           email: string
           full_name: string
           hospital_id: string | null
@@ -236,12 +743,15 @@ export type Database = {
           phone: string | null
           preferred_referral_method: string | null
           specialty: string | null
+          verification_status: string
           years_experience: number | null
         }
         Insert: {
           availability_status?: string | null
           bio?: string | null
           created_at?: string
+          deactivated_at?: string | null
+          deactivated_by?: string | null
           email: string
           full_name: string
           hospital_id?: string | null
@@ -249,12 +759,15 @@ export type Database = {
           phone?: string | null
           preferred_referral_method?: string | null
           specialty?: string | null
+          verification_status?: string
           years_experience?: number | null
         }
         Update: {
           availability_status?: string | null
           bio?: string | null
           created_at?: string
+          deactivated_at?: string | null
+          deactivated_by?: string | null
           email?: string
           full_name?: string
           hospital_id?: string | null
@@ -262,6 +775,7 @@ export type Database = {
           phone?: string | null
           preferred_referral_method?: string | null
           specialty?: string | null
+          verification_status?: string
           years_experience?: number | null
         }
         Relationships: [
@@ -308,7 +822,10 @@ export type Database = {
           details: string | null
           id: string
           performed_by: string | null
+          prev_hash: string | null
           referral_id: string
+          row_hash: string
+          seq: number
         }
         Insert: {
           action: string
@@ -316,7 +833,10 @@ export type Database = {
           details?: string | null
           id?: string
           performed_by?: string | null
+          prev_hash?: string | null
           referral_id: string
+          row_hash?: string
+          seq?: number
         }
         Update: {
           action?: string
@@ -324,7 +844,10 @@ export type Database = {
           details?: string | null
           id?: string
           performed_by?: string | null
+          prev_hash?: string | null
           referral_id?: string
+          row_hash?: string
+          seq?: number
         }
         Relationships: [
           {
@@ -426,6 +949,188 @@ export type Database = {
           },
         ]
       }
+      referral_routing_rules: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          department_id: string
+          end_time: string | null
+          hospital_id: string
+          id: string
+          is_active: boolean
+          priority: number
+          specialty: string | null
+          start_time: string | null
+          time_zone: string
+          updated_at: string
+          urgency: Database["public"]["Enums"]["urgency_level"] | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          department_id: string
+          end_time?: string | null
+          hospital_id: string
+          id?: string
+          is_active?: boolean
+          priority?: number
+          specialty?: string | null
+          start_time?: string | null
+          time_zone?: string
+          updated_at?: string
+          urgency?: Database["public"]["Enums"]["urgency_level"] | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          department_id?: string
+          end_time?: string | null
+          hospital_id?: string
+          id?: string
+          is_active?: boolean
+          priority?: number
+          specialty?: string | null
+          start_time?: string | null
+          time_zone?: string
+          updated_at?: string
+          urgency?: Database["public"]["Enums"]["urgency_level"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "referral_routing_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referral_routing_rules_department_hospital_fkey"
+            columns: ["department_id", "hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospital_departments"
+            referencedColumns: ["id", "hospital_id"]
+          },
+          {
+            foreignKeyName: "referral_routing_rules_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "hospital_departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referral_routing_rules_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      referral_sla_breaches: {
+        Row: {
+          breached_at: string
+          due_at: string
+          escalation_count: number
+          hospital_id: string
+          id: string
+          last_escalated_at: string
+          notified_user_ids: string[]
+          referral_id: string
+          resolved_at: string | null
+          urgency: Database["public"]["Enums"]["urgency_level"]
+        }
+        Insert: {
+          breached_at?: string
+          due_at: string
+          escalation_count?: number
+          hospital_id: string
+          id?: string
+          last_escalated_at?: string
+          notified_user_ids?: string[]
+          referral_id: string
+          resolved_at?: string | null
+          urgency: Database["public"]["Enums"]["urgency_level"]
+        }
+        Update: {
+          breached_at?: string
+          due_at?: string
+          escalation_count?: number
+          hospital_id?: string
+          id?: string
+          last_escalated_at?: string
+          notified_user_ids?: string[]
+          referral_id?: string
+          resolved_at?: string | null
+          urgency?: Database["public"]["Enums"]["urgency_level"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "referral_sla_breaches_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referral_sla_breaches_referral_id_fkey"
+            columns: ["referral_id"]
+            isOneToOne: true
+            referencedRelation: "referrals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      referral_slas: {
+        Row: {
+          accept_within_minutes: number
+          is_active: boolean
+          repeat_every_minutes: number
+          updated_at: string
+          updated_by: string | null
+          urgency: Database["public"]["Enums"]["urgency_level"]
+        }
+        Insert: {
+          accept_within_minutes: number
+          is_active?: boolean
+          repeat_every_minutes?: number
+          updated_at?: string
+          updated_by?: string | null
+          urgency: Database["public"]["Enums"]["urgency_level"]
+        }
+        Update: {
+          accept_within_minutes?: number
+          is_active?: boolean
+          repeat_every_minutes?: number
+          updated_at?: string
+          updated_by?: string | null
+          urgency?: Database["public"]["Enums"]["urgency_level"]
+        }
+        Relationships: []
+      }
+      referral_status_transitions: {
+        Row: {
+          actor_side: string
+          from_status: Database["public"]["Enums"]["referral_status"]
+          required_permission: string
+          requires_reason: boolean
+          to_status: Database["public"]["Enums"]["referral_status"]
+        }
+        Insert: {
+          actor_side: string
+          from_status: Database["public"]["Enums"]["referral_status"]
+          required_permission?: string
+          requires_reason?: boolean
+          to_status: Database["public"]["Enums"]["referral_status"]
+        }
+        Update: {
+          actor_side?: string
+          from_status?: Database["public"]["Enums"]["referral_status"]
+          required_permission?: string
+          requires_reason?: boolean
+          to_status?: Database["public"]["Enums"]["referral_status"]
+        }
+        Relationships: []
+      }
       referral_templates: {
         Row: {
           category: string
@@ -467,12 +1172,15 @@ export type Database = {
       }
       referrals: {
         Row: {
+          ai_draft_log_id: string | null
           assigned_doctor_id: string | null
           created_at: string
           created_by: string
+          department_id: string | null
           from_hospital_id: string
           id: string
           medical_summary: string
+          parent_referral_id: string | null
           patient_age: number
           patient_code: string | null
           patient_contact: string | null
@@ -480,18 +1188,22 @@ export type Database = {
           patient_name: string
           reason: string
           rejection_reason: string | null
+          specialty: string | null
           status: Database["public"]["Enums"]["referral_status"]
           to_hospital_id: string
           updated_at: string
           urgency: Database["public"]["Enums"]["urgency_level"]
         }
         Insert: {
+          ai_draft_log_id?: string | null
           assigned_doctor_id?: string | null
           created_at?: string
           created_by: string
+          department_id?: string | null
           from_hospital_id: string
           id?: string
           medical_summary: string
+          parent_referral_id?: string | null
           patient_age: number
           patient_code?: string | null
           patient_contact?: string | null
@@ -499,18 +1211,22 @@ export type Database = {
           patient_name: string
           reason: string
           rejection_reason?: string | null
+          specialty?: string | null
           status?: Database["public"]["Enums"]["referral_status"]
           to_hospital_id: string
           updated_at?: string
           urgency?: Database["public"]["Enums"]["urgency_level"]
         }
         Update: {
+          ai_draft_log_id?: string | null
           assigned_doctor_id?: string | null
           created_at?: string
           created_by?: string
+          department_id?: string | null
           from_hospital_id?: string
           id?: string
           medical_summary?: string
+          parent_referral_id?: string | null
           patient_age?: number
           patient_code?: string | null
           patient_contact?: string | null
@@ -518,12 +1234,27 @@ export type Database = {
           patient_name?: string
           reason?: string
           rejection_reason?: string | null
+          specialty?: string | null
           status?: Database["public"]["Enums"]["referral_status"]
           to_hospital_id?: string
           updated_at?: string
           urgency?: Database["public"]["Enums"]["urgency_level"]
         }
         Relationships: [
+          {
+            foreignKeyName: "referrals_ai_draft_log_id_fkey"
+            columns: ["ai_draft_log_id"]
+            isOneToOne: false
+            referencedRelation: "ai_draft_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referrals_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "hospital_departments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "referrals_from_hospital_id_fkey"
             columns: ["from_hospital_id"]
@@ -531,6 +1262,20 @@ export type Database = {
             referencedRelation: "hospitals"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "referrals_parent_referral_id_fkey"
+            columns: ["parent_referral_id"]
+            isOneToOne: false
+            referencedRelation: "referral_list_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referrals_parent_referral_id_fkey"
+            columns: ["parent_referral_id"]
+            isOneToOne: false
+            referencedRelation: "referrals"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "referrals_to_hospital_id_fkey"
             columns: ["to_hospital_id"]
@@ -540,12 +1285,28 @@ export type Database = {
           },
         ]
       }
+      role_permissions: {
+        Row: {
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          permission?: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
       security_logs: {
         Row: {
           created_at: string
           details: Json | null
           email: string | null
           event_type: string
+          from_service_role: boolean
           id: string
           ip_address: string | null
           user_agent: string | null
@@ -556,6 +1317,7 @@ export type Database = {
           details?: Json | null
           email?: string | null
           event_type: string
+          from_service_role?: boolean
           id?: string
           ip_address?: string | null
           user_agent?: string | null
@@ -566,6 +1328,7 @@ export type Database = {
           details?: Json | null
           email?: string | null
           event_type?: string
+          from_service_role?: boolean
           id?: string
           ip_address?: string | null
           user_agent?: string | null
@@ -593,11 +1356,159 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      referral_list_view: {
+        Row: {
+          assigned_doctor_id: string | null
+          assigned_doctor_name: string | null
+          created_at: string | null
+          created_by: string | null
+          creator_name: string | null
+          department_id: string | null
+          department_name: string | null
+          from_hospital_id: string | null
+          from_hospital_name: string | null
+          id: string | null
+          medical_summary: string | null
+          parent_referral_id: string | null
+          patient_age: number | null
+          patient_code: string | null
+          patient_contact: string | null
+          patient_medical_id: string | null
+          patient_name: string | null
+          reason: string | null
+          rejection_reason: string | null
+          specialty: string | null
+          status: Database["public"]["Enums"]["referral_status"] | null
+          to_hospital_id: string | null
+          to_hospital_name: string | null
+          updated_at: string | null
+          urgency: Database["public"]["Enums"]["urgency_level"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "referrals_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "hospital_departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referrals_from_hospital_id_fkey"
+            columns: ["from_hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referrals_to_hospital_id_fkey"
+            columns: ["to_hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      assign_referral: {
+        Args: { _assignee_id: string; _reason?: string; _referral_id: string }
+        Returns: undefined
+      }
+      attach_forwarded_file: {
+        Args: { _child_referral_id: string; _source_attachment_id: string }
+        Returns: string
+      }
+      can_assign_referral: {
+        Args: { _referral_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_manage_hospital_members: {
+        Args: { _hospital_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_manage_user: {
+        Args: { _actor_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_provision_role: {
+        Args: {
+          _actor_id: string
+          _hospital_id: string
+          _role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: boolean
+      }
+      consume_mfa_recovery_code: {
+        Args: { _code: string; _user_id: string }
+        Returns: boolean
+      }
+      count_referrals_by_status: {
+        Args: {
+          _created_from?: string
+          _created_to?: string
+          _department_ids?: string[]
+          _direction?: string
+          _hospital_id?: string
+          _search?: string
+          _specialty?: string
+          _urgency?: Database["public"]["Enums"]["urgency_level"]
+        }
+        Returns: {
+          status: Database["public"]["Enums"]["referral_status"]
+          total: number
+        }[]
+      }
+      filter_referral_list: {
+        Args: {
+          _created_from?: string
+          _created_to?: string
+          _department_ids?: string[]
+          _direction?: string
+          _hospital_id?: string
+          _search?: string
+          _specialty?: string
+          _urgency?: Database["public"]["Enums"]["urgency_level"]
+        }
+        Returns: Database["public"]["Views"]["referral_list_view"]["Row"][]
+      }
+      forward_referral: {
+        Args: { _reason: string; _referral_id: string; _to_hospital_id: string }
+        Returns: string
+      }
+      generate_invite_code: { Args: never; Returns: string }
+      generate_mfa_recovery_codes: { Args: never; Returns: string[] }
       generate_patient_code: { Args: never; Returns: string }
+      get_allowed_referral_transitions: {
+        Args: { _referral_id: string }
+        Returns: {
+          requires_reason: boolean
+          to_status: Database["public"]["Enums"]["referral_status"]
+        }[]
+      }
+      get_referral_chain: {
+        Args: { _referral_id: string }
+        Returns: {
+          created_at: string
+          depth: number
+          from_hospital_name: string
+          id: string
+          parent_referral_id: string
+          reason: string
+          status: Database["public"]["Enums"]["referral_status"]
+          to_hospital_name: string
+        }[]
+      }
       get_user_hospital: { Args: { _user_id: string }; Returns: string }
+      has_hospital_permission: {
+        Args: { _hospital_id: string; _permission: string; _user_id: string }
+        Returns: boolean
+      }
+      has_live_session: { Args: never; Returns: boolean }
+      has_mfa_factor: { Args: { _user_id: string }; Returns: boolean }
+      has_permission: {
+        Args: { _permission: string; _user_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -605,9 +1516,154 @@ export type Database = {
         }
         Returns: boolean
       }
+      list_my_sessions: {
+        Args: never
+        Returns: {
+          aal: string
+          created_at: string
+          id: string
+          ip_address: string
+          is_current: boolean
+          last_active_at: string
+          user_agent: string
+        }[]
+      }
+      list_referrals: {
+        Args: {
+          _created_from?: string
+          _created_to?: string
+          _cursor_created_at?: string
+          _cursor_id?: string
+          _department_ids?: string[]
+          _direction?: string
+          _hospital_id?: string
+          _limit?: number
+          _search?: string
+          _specialty?: string
+          _statuses?: Database["public"]["Enums"]["referral_status"][]
+          _urgency?: Database["public"]["Enums"]["urgency_level"]
+        }
+        Returns: Database["public"]["Views"]["referral_list_view"]["Row"][]
+      }
+      log_phi_access: {
+        Args: {
+          _action: string
+          _attachment_id?: string
+          _details?: Json
+          _referral_id: string
+        }
+        Returns: undefined
+      }
+      meets_mfa_policy: { Args: never; Returns: boolean }
+      mfa_compliance_report: {
+        Args: never
+        Returns: {
+          deadline: string
+          email: string
+          full_name: string
+          hospital_id: string
+          hospital_name: string
+          last_sign_in_at: string
+          mfa_enrolled: boolean
+          role: Database["public"]["Enums"]["app_role"]
+          status: string
+          user_id: string
+        }[]
+      }
+      mfa_deadline: { Args: { _user_id: string }; Returns: string }
+      mfa_recovery_codes_remaining: { Args: never; Returns: number }
+      normalize_mfa_recovery_code: { Args: { _code: string }; Returns: string }
+      phi_access_anomalies: {
+        Args: { _days?: number }
+        Returns: {
+          access_count: number
+          first_at: string
+          last_at: string
+          pattern: string
+          referral_count: number
+          user_id: string
+          user_name: string
+        }[]
+      }
+      provision_user: {
+        Args: {
+          _actor_id: string
+          _email: string
+          _full_name: string
+          _hospital_id: string
+          _role: Database["public"]["Enums"]["app_role"]
+          _specialty: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      redeem_hospital_invite: { Args: { _code: string }; Returns: string }
+      request_hospital_membership: {
+        Args: { _hospital_id: string; _message?: string }
+        Returns: string
+      }
+      resolve_chat_action: {
+        Args: { _action_id: string; _conversation_id: string; _state: string }
+        Returns: undefined
+      }
+      resolve_referral_department: {
+        Args: {
+          _at?: string
+          _specialty: string
+          _to_hospital_id: string
+          _urgency: Database["public"]["Enums"]["urgency_level"]
+        }
+        Returns: string
+      }
+      review_membership_request: {
+        Args: { _approve: boolean; _note?: string; _request_id: string }
+        Returns: undefined
+      }
+      revoke_my_session: { Args: { _session_id: string }; Returns: undefined }
+      revoke_my_sessions: { Args: { _keep_current?: boolean }; Returns: number }
+      revoke_user_sessions: {
+        Args: { _actor_id: string; _user_id: string }
+        Returns: number
+      }
+      search_chat_conversations: {
+        Args: { _query: string }
+        Returns: {
+          id: string
+          snippet: string
+          title: string
+          updated_at: string
+        }[]
+      }
+      set_user_active: {
+        Args: { _active: boolean; _actor_id: string; _user_id: string }
+        Returns: undefined
+      }
+      transition_referral_status: {
+        Args: {
+          _details?: string
+          _referral_id: string
+          _to_status: Database["public"]["Enums"]["referral_status"]
+        }
+        Returns: undefined
+      }
+      verify_activity_log_chain: {
+        Args: { _referral_id: string }
+        Returns: {
+          issue: string
+          log_id: string
+        }[]
+      }
+      verify_phi_access_chain: {
+        Args: { _referral_id: string }
+        Returns: {
+          checked_count: number
+          first_invalid_id: string
+          is_valid: boolean
+        }[]
+      }
     }
     Enums: {
-      app_role: "admin" | "doctor"
+      app_role: "admin" | "doctor" | "hospital_admin" | "coordinator" | "auditor"
       referral_status:
         | "pending"
         | "accepted"
@@ -743,7 +1799,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "doctor"],
+      app_role: ["admin", "doctor", "hospital_admin", "coordinator", "auditor"],
       referral_status: [
         "pending",
         "accepted",
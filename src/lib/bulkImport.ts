@@ -0,0 +1,267 @@
+import { SPECIALTIES } from '@/lib/specialties';
+import { AppRole, ROLE_LABELS } from '@/lib/permissions';
+
+export type ImportKind = 'hospitals' | 'doctors';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  // Header spellings recognised when guessing the column mapping
+  aliases: string[];
+}
+
+// Mirrors the handleAddHospital / handleAddDoctor forms in the admin dashboard
+export const IMPORT_FIELDS: Record<ImportKind, ImportField[]> = {
+  hospitals: [
+    { key: 'name', label: 'Hospital Name', required: true, aliases: ['hospital', 'hospital name', 'facility'] },
+    { key: 'address', label: 'Address', required: false, aliases: ['street', 'location'] },
+    { key: 'phone', label: 'Phone', required: false, aliases: ['telephone', 'phone number', 'tel'] },
+    { key: 'email', label: 'Email', required: false, aliases: ['e-mail', 'email address'] },
+  ],
+  doctors: [
+    { key: 'fullName', label: 'Full Name', required: true, aliases: ['name', 'full name', 'doctor', 'doctor name'] },
+    { key: 'email', label: 'Email', required: true, aliases: ['e-mail', 'email address'] },
+    { key: 'hospital', label: 'Hospital', required: true, aliases: ['hospital name', 'facility'] },
+    { key: 'specialty', label: 'Specialty', required: false, aliases: ['speciality', 'department'] },
+    { key: 'role', label: 'Role', required: false, aliases: ['user role', 'access'] },
+  ],
+};
+
+// Field key -> index of the source column, or -1 when unmapped
+export type ColumnMapping = Record<string, number>;
+
+export interface ImportRow {
+  rowNumber: number; // As shown in a spreadsheet, counting the header as row 1
+  values: Record<string, string>;
+  errors: string[];
+}
+
+export interface HospitalImportValues {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+export interface DoctorImportValues {
+  fullName: string;
+  email: string;
+  hospitalId: string;
+  specialty: string;
+  role: AppRole;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+// RFC 4180 style: quoted fields may hold commas, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// First sheet of an .xlsx, or the whole of a .csv, as rows of trimmed strings
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    const { readSheet } = await import('read-excel-file/browser');
+    const data = await readSheet(file);
+    return data
+      .map(row => row.map(cell => (cell === null ? '' : cell instanceof Date ? cell.toISOString() : String(cell)).trim()))
+      .filter(row => row.some(cell => cell !== ''));
+  }
+
+  const text = (await file.text()).replace(/^\uFEFF/, '');
+  return parseCsv(text).map(row => row.map(cell => cell.trim()));
+};
+
+export const guessMapping = (headers: string[], fields: ImportField[]): ColumnMapping => {
+  const normalizedHeaders = headers.map(normalize);
+  return Object.fromEntries(fields.map(field => {
+    const candidates = [field.key, field.label, ...field.aliases].map(normalize);
+    return [field.key, normalizedHeaders.findIndex(header => candidates.includes(header))];
+  }));
+};
+
+const readValues = (row: string[], fields: ImportField[], mapping: ColumnMapping) =>
+  Object.fromEntries(fields.map(field => {
+    const index = mapping[field.key] ?? -1;
+    return [field.key, index >= 0 ? (row[index] || '').trim() : ''];
+  }));
+
+const missingRequired = (values: Record<string, string>, fields: ImportField[]) =>
+  fields.filter(field => field.required && !values[field.key]).map(field => `${field.label} is required`);
+
+export const validateHospitalRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  existingNames: string[]
+): ImportRow[] => {
+  const fields = IMPORT_FIELDS.hospitals;
+  const taken = new Set(existingNames.map(normalize));
+  const seen = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const values = readValues(row, fields, mapping);
+    const errors = missingRequired(values, fields);
+    const name = normalize(values.name);
+
+    if (name) {
+      if (taken.has(name)) errors.push(`A hospital named "${values.name}" already exists`);
+      if (seen.has(name)) errors.push(`Duplicate of row ${seen.get(name)}`);
+      else seen.set(name, rowNumber);
+    }
+    if (values.email && !EMAIL_PATTERN.test(values.email)) errors.push(`Invalid email "${values.email}"`);
+
+    return { rowNumber, values, errors };
+  });
+};
+
+interface DoctorValidationContext {
+  hospitals: { id: string; name: string }[];
+  existingEmails: string[];
+  allowedRoles: AppRole[];
+  // Used when the file has no hospital column, e.g. a hospital admin importing their own staff
+  defaultHospitalId?: string;
+}
+
+const matchSpecialty = (value: string) =>
+  SPECIALTIES.find(specialty => normalize(specialty) === normalize(value));
+
+const matchRole = (value: string) =>
+  (Object.keys(ROLE_LABELS) as AppRole[]).find(
+    role => normalize(role) === normalize(value) || normalize(ROLE_LABELS[role]) === normalize(value)
+  );
+
+export const validateDoctorRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  context: DoctorValidationContext
+): ImportRow[] => {
+  const fields = IMPORT_FIELDS.doctors.map(field =>
+    field.key === 'hospital' && context.defaultHospitalId ? { ...field, required: false } : field
+  );
+  const hospitalsByName = new Map(context.hospitals.map(h => [normalize(h.name), h]));
+  const taken = new Set(context.existingEmails.map(normalize));
+  const seen = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const values = readValues(row, fields, mapping);
+    const errors = missingRequired(values, fields);
+    const email = normalize(values.email);
+
+    if (email) {
+      if (!EMAIL_PATTERN.test(values.email)) errors.push(`Invalid email "${values.email}"`);
+      if (taken.has(email)) errors.push(`An account with ${values.email} already exists`);
+      if (seen.has(email)) errors.push(`Duplicate of row ${seen.get(email)}`);
+      else seen.set(email, rowNumber);
+    }
+
+    if (values.hospital) {
+      const hospital = hospitalsByName.get(normalize(values.hospital));
+      if (hospital) values.hospitalId = hospital.id;
+      else errors.push(`Unknown hospital "${values.hospital}"`);
+    } else if (context.defaultHospitalId) {
+      values.hospitalId = context.defaultHospitalId;
+    }
+
+    if (values.specialty) {
+      const specialty = matchSpecialty(values.specialty);
+      if (specialty) values.specialty = specialty;
+      else errors.push(`Invalid specialty "${values.specialty}"`);
+    }
+
+    if (values.role) {
+      const role = matchRole(values.role);
+      if (!role) errors.push(`Unknown role "${values.role}"`);
+      else if (!context.allowedRoles.includes(role)) errors.push(`You cannot grant the ${ROLE_LABELS[role]} role`);
+      else values.role = role;
+    } else {
+      values.role = 'doctor';
+    }
+
+    return { rowNumber, values, errors };
+  });
+};
+
+export const toHospitalValues = (row: ImportRow): HospitalImportValues => ({
+  name: row.values.name,
+  address: row.values.address || null,
+  phone: row.values.phone || null,
+  email: row.values.email || null,
+});
+
+export const toDoctorValues = (row: ImportRow): DoctorImportValues => ({
+  fullName: row.values.fullName,
+  email: row.values.email,
+  hospitalId: row.values.hospitalId,
+  specialty: row.values.specialty,
+  role: row.values.role as AppRole,
+});
+
+const csvCell = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// The rows that failed, in their original columns plus the reasons, so they can be fixed and re-imported
+export const buildErrorReport = (
+  headers: string[],
+  rows: string[][],
+  results: { rowNumber: number; errors: string[] }[]
+) => {
+  const failed = results.filter(result => result.errors.length > 0);
+  return [
+    ['Row', ...headers, 'Errors'].map(csvCell).join(','),
+    ...failed.map(result => [
+      String(result.rowNumber),
+      ...headers.map((_, column) => rows[result.rowNumber - 2]?.[column] ?? ''),
+      result.errors.join('; '),
+    ].map(csvCell).join(',')),
+  ].join('\n');
+};
+
+export const downloadCsv = (filename: string, content: string) => {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+};
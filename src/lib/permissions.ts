@@ -0,0 +1,65 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type AppRole = Database['public']['Enums']['app_role'];
+
+// Mirrors the role_permissions table; the database remains the authority
+export type Permission =
+  | 'referrals.create'
+  | 'referrals.triage'
+  | 'referrals.assign'
+  | 'referrals.clinical'
+  | 'referrals.collaborate'
+  | 'hospital.configure'
+  | 'members.manage'
+  | 'audit.view'
+  | 'system.manage';
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: 'System Admin',
+  hospital_admin: 'Hospital Admin',
+  doctor: 'Doctor',
+  coordinator: 'Coordinator',
+  auditor: 'Auditor',
+};
+
+// Most privileged first; a user's primary role is the first one they hold
+export const ROLE_PRIORITY: AppRole[] = ['admin', 'hospital_admin', 'doctor', 'coordinator', 'auditor'];
+
+// Roles a hospital admin may grant to their own staff
+export const HOSPITAL_GRANTABLE_ROLES: AppRole[] = ['doctor', 'coordinator', 'auditor'];
+
+// Permissions that open the admin dashboard
+export const ADMIN_DASHBOARD_PERMISSIONS: Permission[] = [
+  'system.manage',
+  'hospital.configure',
+  'members.manage',
+  'audit.view',
+];
+
+export const primaryRole = (roles: AppRole[]): AppRole =>
+  ROLE_PRIORITY.find(role => roles.includes(role)) || 'doctor';
+
+// True when the user holds the permission, or any of them when given a list
+export const hasPermission = (
+  user: { permissions: Permission[] } | null | undefined,
+  permission: Permission | Permission[]
+) => {
+  if (!user) return false;
+  const required = Array.isArray(permission) ? permission : [permission];
+  return required.some(p => user.permissions.includes(p));
+};
+
+// Where the logo and refused routes lead
+export const homePath = (user: { role: AppRole } | null | undefined) =>
+  user?.role === 'admin' ? '/admin' : '/dashboard';
+
+export type MfaStatus = 'satisfied' | 'grace' | 'required';
+
+// Mirrors meets_mfa_policy(): enrolled users always verify, everyone else once the grace period ends
+export const mfaStatus = (
+  user: { mfa_required_by: string | null; mfa_enrolled: boolean; aal: 'aal1' | 'aal2' } | null | undefined
+): MfaStatus => {
+  if (!user || !user.mfa_required_by || user.aal === 'aal2') return 'satisfied';
+  if (user.mfa_enrolled || new Date(user.mfa_required_by) <= new Date()) return 'required';
+  return 'grace';
+};
@@ -0,0 +1,30 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type PhiAccessAction = 'view' | 'pdf_export' | 'print' | 'attachment_download' | 'code_lookup';
+
+interface PhiAccessOptions {
+  attachmentId?: string;
+  details?: Record<string, string | number | boolean | null>;
+}
+
+// Records a read of a referral's patient data in the hash-chained phi_access_logs.
+// Resolves false when the row could not be written; callers must not show, print or export
+// the data in that case. Attachment downloads and code lookups are logged by their edge functions.
+export const logPhiAccess = async (
+  referralId: string,
+  action: PhiAccessAction,
+  { attachmentId, details = {} }: PhiAccessOptions = {}
+): Promise<boolean> => {
+  const { error } = await supabase.rpc('log_phi_access', {
+    _referral_id: referralId,
+    _action: action,
+    _attachment_id: attachmentId,
+    _details: details,
+  });
+
+  if (error) {
+    console.error('Error logging PHI access:', error);
+    return false;
+  }
+  return true;
+};
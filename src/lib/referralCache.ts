@@ -0,0 +1,251 @@
+import type { InfiniteData, QueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Referral, ActivityLog, ReferralStatus } from '@/types/referral';
+import { DEFAULT_REFERRAL_SPECIALTY } from '@/lib/specialties';
+import type { Database } from '@/integrations/supabase/types';
+
+export type ReferralRow = Database['public']['Tables']['referrals']['Row'];
+export type ActivityLogRow = Database['public']['Tables']['referral_activity_logs']['Row'];
+type ReferralListRow = Database['public']['Views']['referral_list_view']['Row'];
+
+// Every referral visible to the user, as loaded by useReferrals and patched by realtime changes
+export const referralsQueryKey = (userId: string | undefined) => ['referrals', 'all', userId] as const;
+
+interface ReferralNames {
+  hospitals: Map<string, string>;
+  profiles: Map<string, string>;
+  departments: Map<string, string>;
+}
+
+export const toReferral = (row: ReferralRow, names: ReferralNames, activityLog: ActivityLog[] = []): Referral => ({
+  id: row.id,
+  patientCode: row.patient_code || undefined,
+  patient: {
+    id: row.patient_medical_id || '',
+    name: row.patient_name,
+    age: row.patient_age,
+    contact: row.patient_contact || '',
+    medicalId: row.patient_medical_id || '',
+  },
+  medicalSummary: row.medical_summary,
+  reasonForReferral: row.reason,
+  urgency: row.urgency,
+  status: row.status,
+  fromHospitalId: row.from_hospital_id,
+  fromHospitalName: names.hospitals.get(row.from_hospital_id) || 'Unknown Hospital',
+  fromDoctorId: row.created_by,
+  fromDoctorName: names.profiles.get(row.created_by) || 'Unknown Doctor',
+  toHospitalId: row.to_hospital_id,
+  toHospitalName: names.hospitals.get(row.to_hospital_id) || 'Unknown Hospital',
+  assignedDoctorId: row.assigned_doctor_id || undefined,
+  assignedDoctorName: row.assigned_doctor_id ? names.profiles.get(row.assigned_doctor_id) : undefined,
+  specialty: row.specialty || DEFAULT_REFERRAL_SPECIALTY,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+  completedAt: row.status === 'completed' ? new Date(row.updated_at) : undefined,
+  rejectionReason: row.rejection_reason || undefined,
+  parentReferralId: row.parent_referral_id || undefined,
+  departmentId: row.department_id || undefined,
+  departmentName: row.department_id ? names.departments.get(row.department_id) : undefined,
+  activityLog,
+});
+
+// Names we already hold for hospitals and doctors, so a patch only fetches what is new
+const knownNames = (referrals: Referral[]): ReferralNames => {
+  const hospitals = new Map<string, string>();
+  const profiles = new Map<string, string>();
+  const departments = new Map<string, string>();
+
+  referrals.forEach(r => {
+    hospitals.set(r.fromHospitalId, r.fromHospitalName);
+    hospitals.set(r.toHospitalId, r.toHospitalName);
+    profiles.set(r.fromDoctorId, r.fromDoctorName);
+    if (r.assignedDoctorId && r.assignedDoctorName) {
+      profiles.set(r.assignedDoctorId, r.assignedDoctorName);
+    }
+    if (r.departmentId && r.departmentName) {
+      departments.set(r.departmentId, r.departmentName);
+    }
+  });
+
+  return { hospitals, profiles, departments };
+};
+
+const fetchProfileNames = async (ids: string[], into: Map<string, string>) => {
+  if (ids.length === 0) return;
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('id, full_name')
+    .in('id', ids);
+
+  data?.forEach(p => into.set(p.id, p.full_name));
+};
+
+const resolveNames = async (row: ReferralRow, cached: Referral[]): Promise<ReferralNames> => {
+  const names = knownNames(cached);
+
+  const missingHospitals = [row.from_hospital_id, row.to_hospital_id].filter(id => !names.hospitals.has(id));
+  if (missingHospitals.length > 0) {
+    const { data } = await supabase
+      .from('hospitals')
+      .select('id, name')
+      .in('id', missingHospitals);
+
+    data?.forEach(h => names.hospitals.set(h.id, h.name));
+  }
+
+  const profileIds = [row.created_by, row.assigned_doctor_id].filter((id): id is string => !!id);
+  await fetchProfileNames(profileIds.filter(id => !names.profiles.has(id)), names.profiles);
+
+  if (row.department_id && !names.departments.has(row.department_id)) {
+    const { data } = await supabase
+      .from('hospital_departments')
+      .select('id, name')
+      .eq('id', row.department_id)
+      .maybeSingle();
+
+    if (data) names.departments.set(data.id, data.name);
+  }
+
+  return names;
+};
+
+export const getCachedReferral = (queryClient: QueryClient, userId: string, id: string) =>
+  queryClient.getQueryData<Referral[]>(referralsQueryKey(userId))?.find(r => r.id === id);
+
+// Insert or replace one referral from its table row. The existing activity log is kept unless
+// a fresh one is given. Returns the referral even when the list has not been loaded yet.
+export const upsertReferralRow = async (
+  queryClient: QueryClient,
+  userId: string,
+  row: ReferralRow,
+  activityLog?: ActivityLog[]
+): Promise<Referral> => {
+  const cached = queryClient.getQueryData<Referral[]>(referralsQueryKey(userId)) || [];
+  const names = await resolveNames(row, cached);
+
+  let referral = toReferral(row, names, activityLog || cached.find(r => r.id === row.id)?.activityLog);
+
+  queryClient.setQueryData<Referral[]>(referralsQueryKey(userId), current => {
+    if (!current) return current;
+
+    const existing = current.find(r => r.id === row.id);
+    if (existing && !activityLog) {
+      // A log entry may have landed while names were being fetched
+      referral = { ...referral, activityLog: existing.activityLog };
+    }
+
+    return [referral, ...current.filter(r => r.id !== row.id)]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  });
+
+  return referral;
+};
+
+export const removeReferral = (queryClient: QueryClient, userId: string, id: string) => {
+  queryClient.setQueryData<Referral[]>(referralsQueryKey(userId), current =>
+    current?.filter(r => r.id !== id)
+  );
+};
+
+export const appendActivityLog = async (queryClient: QueryClient, userId: string, log: ActivityLogRow) => {
+  if (!getCachedReferral(queryClient, userId, log.referral_id)) return;
+
+  const performers = new Map<string, string>();
+  if (log.performed_by) {
+    await fetchProfileNames([log.performed_by], performers);
+  }
+
+  const entry: ActivityLog = {
+    id: log.id,
+    referralId: log.referral_id,
+    timestamp: new Date(log.created_at),
+    action: log.action,
+    performedBy: log.performed_by ? (performers.get(log.performed_by) || 'Unknown') : 'System',
+    details: log.details || undefined,
+  };
+
+  queryClient.setQueryData<Referral[]>(referralsQueryKey(userId), current =>
+    current?.map(r =>
+      r.id === log.referral_id && !r.activityLog.some(l => l.id === log.id)
+        ? { ...r, activityLog: [...r.activityLog, entry] }
+        : r
+    )
+  );
+};
+
+// Re-read a single referral and its activity log, e.g. right after the user changed it
+export const refreshReferral = async (queryClient: QueryClient, userId: string, id: string) => {
+  const { data: row, error } = await supabase
+    .from('referrals')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error refreshing referral:', error);
+    return;
+  }
+  if (!row) {
+    removeReferral(queryClient, userId, id);
+    return;
+  }
+
+  const { data: logsData } = await supabase
+    .from('referral_activity_logs')
+    .select('*')
+    .eq('referral_id', id)
+    .order('seq', { ascending: true });
+
+  const performers = new Map<string, string>();
+  await fetchProfileNames(
+    [...new Set(logsData?.filter(l => l.performed_by).map(l => l.performed_by!) || [])],
+    performers
+  );
+
+  const activityLog: ActivityLog[] = (logsData || []).map(log => ({
+    id: log.id,
+    referralId: log.referral_id,
+    timestamp: new Date(log.created_at),
+    action: log.action,
+    performedBy: log.performed_by ? (performers.get(log.performed_by) || 'Unknown') : 'System',
+    details: log.details || undefined,
+  }));
+
+  await upsertReferralRow(queryClient, userId, row, activityLog);
+};
+
+// Paged lists only get patched in place while a row keeps its status; anything that can move a
+// row between tabs or change the counts refetches the loaded pages instead.
+export const patchReferralLists = (
+  queryClient: QueryClient,
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE',
+  row: ReferralRow,
+  previousStatus: ReferralStatus | undefined,
+  referral?: Referral
+) => {
+  if (eventType === 'UPDATE' && previousStatus === row.status) {
+    queryClient.setQueriesData<InfiniteData<ReferralListRow[]>>({ queryKey: ['referrals', 'list'] }, data =>
+      data && {
+        ...data,
+        pages: data.pages.map(page =>
+          page.map(r =>
+            r.id === row.id
+              ? {
+                  ...r,
+                  ...row,
+                  assigned_doctor_name: referral?.assignedDoctorName ?? null,
+                  department_name: referral?.departmentName ?? null,
+                }
+              : r
+          )
+        ),
+      }
+    );
+    return;
+  }
+
+  queryClient.invalidateQueries({ queryKey: ['referrals', 'list'] });
+  queryClient.invalidateQueries({ queryKey: ['referrals', 'counts'] });
+};
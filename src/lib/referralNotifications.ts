@@ -0,0 +1,108 @@
+// Who hears about a referral change, and what they are told. The push-notifications edge function
+// keeps a copy in supabase/functions/_shared/referralNotifications.ts; change both together.
+
+export type NotificationType = 'emergency' | 'urgent' | 'info';
+
+export type ReferralStatus = 'pending' | 'accepted' | 'in_treatment' | 'completed' | 'rejected' | 'more_info_requested';
+export type UrgencyLevel = 'emergency' | 'urgent' | 'routine';
+
+export const statusLabels: Record<ReferralStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  in_treatment: 'In Treatment',
+  completed: 'Completed',
+  rejected: 'Rejected',
+  more_info_requested: 'More Info Requested',
+};
+
+export interface ReferralEventRow {
+  id: string;
+  patient_name: string;
+  urgency: string;
+  status: string;
+  from_hospital_id: string;
+  to_hospital_id: string;
+  department_id: string | null;
+  assigned_doctor_id: string | null;
+}
+
+export interface ReferralEvent {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  row: ReferralEventRow;
+  previousStatus?: string;
+  previousAssignedDoctorId?: string | null;
+  fromHospitalName?: string;
+}
+
+export interface NotificationViewer {
+  id: string;
+  isAdmin: boolean;
+  hospitalId: string | null;
+  departmentIds: string[];
+}
+
+export interface ReferralNotificationContent {
+  title: string;
+  message: string;
+  type: NotificationType;
+}
+
+export const notificationTypeFor = (urgency: string): NotificationType =>
+  urgency === 'emergency' ? 'emergency' :
+  urgency === 'urgent' ? 'urgent' : 'info';
+
+export const describeReferralEvent = (
+  event: ReferralEvent,
+  viewer: NotificationViewer,
+): ReferralNotificationContent[] => {
+  const { eventType, row, previousStatus, previousAssignedDoctorId } = event;
+  const fromHospital = event.fromHospitalName || 'Unknown Hospital';
+  const type = notificationTypeFor(row.urgency);
+  const isFromMyHospital = row.from_hospital_id === viewer.hospitalId;
+  const isToMyHospital = row.to_hospital_id === viewer.hospitalId;
+  // Routed referrals only reach the doctors of their department queue
+  const isInMyQueue = isToMyHospital && (!row.department_id || viewer.departmentIds.includes(row.department_id));
+  const contents: ReferralNotificationContent[] = [];
+
+  if (eventType === 'UPDATE' && previousStatus !== row.status) {
+    const label = statusLabels[row.status as ReferralStatus];
+
+    if (viewer.isAdmin || isFromMyHospital || isInMyQueue) {
+      contents.push({
+        title: `Referral ${label}`,
+        message: `${row.patient_name}'s referral status changed to "${label}"`,
+        type,
+      });
+    }
+  }
+
+  // Explicit assignments leave the status alone; accepting a referral yourself is not news
+  if (
+    eventType === 'UPDATE'
+    && previousStatus === row.status
+    && row.assigned_doctor_id === viewer.id
+    && previousAssignedDoctorId !== viewer.id
+  ) {
+    contents.push({
+      title: 'Referral Assigned to You',
+      message: `${row.patient_name}'s ${row.urgency} referral from ${fromHospital} is now yours`,
+      type,
+    });
+  }
+
+  if (eventType === 'INSERT' && (viewer.isAdmin || isInMyQueue)) {
+    const title = row.urgency === 'emergency'
+      ? '🚨 EMERGENCY Referral Received'
+      : row.urgency === 'urgent'
+      ? '⚠️ Urgent Referral Received'
+      : 'New Referral Received';
+
+    contents.push({
+      title,
+      message: `New ${row.urgency} referral for ${row.patient_name} from ${fromHospital}`,
+      type,
+    });
+  }
+
+  return contents;
+};
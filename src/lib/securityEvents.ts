@@ -0,0 +1,52 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface FunctionFailure {
+  blocked: boolean;
+  message: string;
+}
+
+// Fire-and-forget logging through the security-logger edge function. The function takes the
+// user from the session token and the IP from the request. Sign-in and code lookup failures are
+// logged by their own edge functions, not from here.
+export const logSecurityEvent = async (
+  eventType: 'login_success' | 'logout',
+  details?: Record<string, unknown>
+): Promise<void> => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/security-logger`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        },
+        body: JSON.stringify({
+          event_type: eventType,
+          details,
+        }),
+      }
+    );
+  } catch (err) {
+    console.error('Failed to log security event:', err);
+  }
+};
+
+export const blockedMessage = (blockedUntil?: string | null) =>
+  blockedUntil
+    ? `Too many failed attempts from your network. Try again after ${new Date(blockedUntil).toLocaleTimeString()}.`
+    : 'Access from your network has been blocked. Contact an administrator.';
+
+// Edge functions answer a blocked network with a 403 and the time the block ends
+export const readFunctionFailure = async (error: unknown, fallback: string): Promise<FunctionFailure> => {
+  if (!(error instanceof FunctionsHttpError)) {
+    return { blocked: false, message: fallback };
+  }
+  const body = await error.context.json().catch(() => ({}));
+  return error.context.status === 403
+    ? { blocked: true, message: blockedMessage(body.blocked_until) }
+    : { blocked: false, message: body.error || fallback };
+};
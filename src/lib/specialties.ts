@@ -0,0 +1,25 @@
+export const SPECIALTIES = [
+  'Cardiology',
+  'Neurology',
+  'Orthopedics',
+  'Pediatrics',
+  'Oncology',
+  'Dermatology',
+  'Psychiatry',
+  'Radiology',
+  'Emergency Medicine',
+  'Internal Medicine',
+  'General Surgery',
+  'Ophthalmology',
+  'ENT',
+  'Gastroenterology',
+  'Pulmonology',
+  'Nephrology',
+  'Endocrinology',
+  'Rheumatology',
+  'Urology',
+  'Obstetrics & Gynecology',
+];
+
+// Shown for referrals created before specialty was captured
+export const DEFAULT_REFERRAL_SPECIALTY = 'General';
@@ -11,6 +11,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { 
@@ -23,9 +33,32 @@ import {
   CheckCircle,
   AlertTriangle,
   Loader2,
-  Shield
+  Shield,
+  BedDouble,
+  GitBranch,
+  UserCheck
 } from 'lucide-react';
 import SecurityLogViewer from '@/components/SecurityLogViewer';
+import PhiAccessReport from '@/components/PhiAccessReport';
+import MfaPolicySettings from '@/components/MfaPolicySettings';
+import MfaComplianceReport from '@/components/MfaComplianceReport';
+import HospitalCapacityManager from '@/components/HospitalCapacityManager';
+import DepartmentRoutingManager from '@/components/DepartmentRoutingManager';
+import ReferralSlaSettings from '@/components/ReferralSlaSettings';
+import MembershipQueue from '@/components/MembershipQueue';
+import { useUserAdministration } from '@/hooks/useUserAdministration';
+import BulkImportWizard from '@/components/BulkImportWizard';
+import { SpecialtyFilter } from '@/components/SpecialtyFilter';
+import { DEFAULT_REFERRAL_SPECIALTY } from '@/lib/specialties';
+import {
+  AppRole,
+  ADMIN_DASHBOARD_PERMISSIONS,
+  HOSPITAL_GRANTABLE_ROLES,
+  ROLE_LABELS,
+  ROLE_PRIORITY,
+  hasPermission,
+  primaryRole,
+} from '@/lib/permissions';
 
 import { Navigate } from 'react-router-dom';
 import { Database } from '@/integrations/supabase/types';
@@ -39,7 +72,7 @@ interface Hospital extends DbHospital {}
 
 interface Profile extends DbProfile {
   hospital_name?: string;
-  role?: string;
+  role?: AppRole;
 }
 
 interface Referral extends DbReferral {
@@ -49,6 +82,7 @@ interface Referral extends DbReferral {
 
 const AdminDashboard = () => {
   const { currentUser, isLoading: authLoading } = useAuth();
+  const { working: provisioning, createUser, setUserActive, forceSignOut, resetMfa } = useUserAdministration();
   const [hospitals, setHospitals] = useState<Hospital[]>([]);
   const [doctors, setDoctors] = useState<Profile[]>([]);
   const [referrals, setReferrals] = useState<Referral[]>([]);
@@ -56,6 +90,7 @@ const AdminDashboard = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [specialtyFilter, setSpecialtyFilter] = useState<string>('all');
   
   // Add Hospital Dialog State
   const [addHospitalOpen, setAddHospitalOpen] = useState(false);
@@ -69,75 +104,75 @@ const AdminDashboard = () => {
 
   // Add Doctor Dialog State
   const [addDoctorOpen, setAddDoctorOpen] = useState(false);
+  const [forceSignOutTarget, setForceSignOutTarget] = useState<Profile | null>(null);
+  const [resetMfaTarget, setResetMfaTarget] = useState<Profile | null>(null);
   const [newDoctor, setNewDoctor] = useState({
     email: '',
-    password: '',
     fullName: '',
     hospitalId: '',
     specialty: '',
-    role: 'doctor' as 'doctor' | 'admin'
+    role: 'doctor' as AppRole
   });
-  const [addingDoctor, setAddingDoctor] = useState(false);
 
   // Fetch data
-  useEffect(() => {
-    const fetchData = async () => {
-      setIsLoading(true);
-      
-      // Fetch hospitals
-      const { data: hospitalsData } = await supabase
-        .from('hospitals')
-        .select('*')
-        .order('name');
-      
-      // Fetch profiles
-      const { data: profilesData } = await supabase
-        .from('profiles')
-        .select('*')
-        .order('full_name');
-
-      // Fetch user roles
-      const { data: rolesData } = await supabase
-        .from('user_roles')
-        .select('*');
-      
-      // Fetch referrals
-      const { data: referralsData } = await supabase
-        .from('referrals')
-        .select('*')
-        .order('created_at', { ascending: false });
+  const fetchData = async () => {
+    setIsLoading(true);
+    
+    // Fetch hospitals
+    const { data: hospitalsData } = await supabase
+      .from('hospitals')
+      .select('*')
+      .order('name');
+    
+    // Fetch profiles
+    const { data: profilesData } = await supabase
+      .from('profiles')
+      .select('*')
+      .order('full_name');
 
-      const hospitalsMap = new Map((hospitalsData || []).map(h => [h.id, h.name]));
-      
-      // Enrich profiles with hospital names and roles
-      const enrichedProfiles: Profile[] = (profilesData || []).map(profile => {
-        const role = (rolesData || []).find(r => r.user_id === profile.id);
-        return {
-          ...profile,
-          hospital_name: profile.hospital_id ? hospitalsMap.get(profile.hospital_id) : undefined,
-          role: role?.role || 'doctor'
-        };
-      });
-
-      // Enrich referrals with hospital names
-      const enrichedReferrals: Referral[] = (referralsData || []).map(referral => ({
-        ...referral,
-        from_hospital_name: hospitalsMap.get(referral.from_hospital_id),
-        to_hospital_name: hospitalsMap.get(referral.to_hospital_id)
-      }));
-
-      if (hospitalsData) setHospitals(hospitalsData);
-      setDoctors(enrichedProfiles);
-      if (rolesData) setUserRoles(rolesData);
-      setReferrals(enrichedReferrals);
-      
-      setIsLoading(false);
-    };
+    // Fetch user roles
+    const { data: rolesData } = await supabase
+      .from('user_roles')
+      .select('*');
+    
+    // Fetch referrals
+    const { data: referralsData } = await supabase
+      .from('referrals')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    const hospitalsMap = new Map((hospitalsData || []).map(h => [h.id, h.name]));
+    
+    // Enrich profiles with hospital names and roles
+    const enrichedProfiles: Profile[] = (profilesData || []).map(profile => {
+      const roles = (rolesData || []).filter(r => r.user_id === profile.id).map(r => r.role);
+      return {
+        ...profile,
+        hospital_name: profile.hospital_id ? hospitalsMap.get(profile.hospital_id) : undefined,
+        role: primaryRole(roles)
+      };
+    });
+
+    // Enrich referrals with hospital names
+    const enrichedReferrals: Referral[] = (referralsData || []).map(referral => ({
+      ...referral,
+      from_hospital_name: hospitalsMap.get(referral.from_hospital_id),
+      to_hospital_name: hospitalsMap.get(referral.to_hospital_id)
+    }));
 
+    if (hospitalsData) setHospitals(hospitalsData);
+    setDoctors(enrichedProfiles);
+    if (rolesData) setUserRoles(rolesData);
+    setReferrals(enrichedReferrals);
+    
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
     fetchData();
   }, []);
 
-  // Redirect if not admin
+  // Redirect if the user holds none of the administrative permissions
   if (authLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -146,10 +181,29 @@ const AdminDashboard = () => {
     );
   }
 
-  if (currentUser?.role !== 'admin') {
+  if (!hasPermission(currentUser, ADMIN_DASHBOARD_PERMISSIONS)) {
     return <Navigate to="/dashboard" replace />;
   }
 
+  // Hospital admins and auditors only see their own hospital's staff and settings
+  const isSystemAdmin = hasPermission(currentUser, 'system.manage');
+  const canManageMembers = hasPermission(currentUser, 'members.manage');
+  const canConfigure = hasPermission(currentUser, 'hospital.configure');
+  const canViewAudit = hasPermission(currentUser, 'audit.view');
+  const staff = isSystemAdmin ? doctors : doctors.filter(d => d.hospital_id === currentUser?.hospital_id);
+  const assignableRoles = isSystemAdmin ? ROLE_PRIORITY : HOSPITAL_GRANTABLE_ROLES;
+
+  const visibleTabs = [
+    'referrals',
+    isSystemAdmin && 'hospitals',
+    canManageMembers && 'doctors',
+    canManageMembers && 'members',
+    canConfigure && 'capacity',
+    canConfigure && 'routing',
+    canViewAudit && 'security',
+  ].filter(Boolean) as string[];
+  const tabGridCols = ['', 'grid-cols-1', 'grid-cols-2', 'grid-cols-3', 'grid-cols-4', 'grid-cols-5', 'grid-cols-6', 'grid-cols-7'][visibleTabs.length];
+
   // Statistics
   const stats = {
     totalReferrals: referrals.length,
@@ -157,9 +211,11 @@ const AdminDashboard = () => {
     completedReferrals: referrals.filter(r => r.status === 'completed').length,
     emergencyReferrals: referrals.filter(r => r.urgency === 'emergency').length,
     totalHospitals: hospitals.length,
-    totalDoctors: doctors.filter(d => d.role === 'doctor').length
+    totalDoctors: staff.filter(d => d.role === 'doctor').length
   };
 
+  const referralSpecialties = [...new Set(referrals.map(r => r.specialty || DEFAULT_REFERRAL_SPECIALTY))].sort();
+
   // Filter referrals
   const filteredReferrals = referrals.filter(referral => {
     const matchesSearch = 
@@ -168,7 +224,9 @@ const AdminDashboard = () => {
       referral.to_hospital_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       referral.patient_code?.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesStatus = statusFilter === 'all' || referral.status === statusFilter;
-    return matchesSearch && matchesStatus;
+    const matchesSpecialty = specialtyFilter === 'all' ||
+      (referral.specialty || DEFAULT_REFERRAL_SPECIALTY) === specialtyFilter;
+    return matchesSearch && matchesStatus && matchesSpecialty;
   });
 
   // Add Hospital Handler
@@ -204,60 +262,25 @@ const AdminDashboard = () => {
     toast.success('Hospital added successfully');
   };
 
-  // Add Doctor Handler
+  // Add Doctor Handler: the edge function creates the account and emails a link to set a password
   const handleAddDoctor = async () => {
-    if (!newDoctor.email || !newDoctor.password || !newDoctor.fullName) {
-      toast.error('Email, password, and full name are required');
-      return;
-    }
-
-    setAddingDoctor(true);
-
-    // Create auth user
-    const { data: authData, error: authError } = await supabase.auth.signUp({
-      email: newDoctor.email,
-      password: newDoctor.password,
-      options: {
-        emailRedirectTo: `${window.location.origin}/`,
-      }
-    });
-
-    if (authError) {
-      toast.error('Failed to create user: ' + authError.message);
-      setAddingDoctor(false);
+    if (!newDoctor.email || !newDoctor.fullName) {
+      toast.error('Email and full name are required');
       return;
     }
 
-    if (!authData.user) {
-      toast.error('Failed to create user');
-      setAddingDoctor(false);
-      return;
-    }
+    // Hospital admins can only add staff to their own hospital
+    const hospitalId = isSystemAdmin ? newDoctor.hospitalId : currentUser?.hospital_id || '';
 
-    // Create profile
-    const { error: profileError } = await supabase.from('profiles').insert({
-      id: authData.user.id,
+    const userId = await createUser({
       email: newDoctor.email,
-      full_name: newDoctor.fullName,
-      hospital_id: newDoctor.hospitalId || null,
-      specialty: newDoctor.specialty || null,
-    });
-
-    if (profileError) {
-      toast.error('Failed to create profile: ' + profileError.message);
-      setAddingDoctor(false);
-      return;
-    }
-
-    // Assign role
-    const { error: roleError } = await supabase.from('user_roles').insert({
-      user_id: authData.user.id,
+      fullName: newDoctor.fullName,
+      hospitalId,
+      specialty: newDoctor.specialty,
       role: newDoctor.role,
     });
 
-    if (roleError) {
-      toast.error('Failed to assign role: ' + roleError.message);
-    }
+    if (!userId) return;
 
     // Refresh doctors list
     const { data: profilesData } = await supabase
@@ -272,20 +295,70 @@ const AdminDashboard = () => {
     const hospitalsMap = new Map(hospitals.map(h => [h.id, h.name]));
     
     const enrichedProfiles: Profile[] = (profilesData || []).map(profile => {
-      const role = (rolesData || []).find(r => r.user_id === profile.id);
+      const roles = (rolesData || []).filter(r => r.user_id === profile.id).map(r => r.role);
       return {
         ...profile,
         hospital_name: profile.hospital_id ? hospitalsMap.get(profile.hospital_id) : undefined,
-        role: role?.role || 'doctor'
+        role: primaryRole(roles)
       };
     });
 
     setDoctors(enrichedProfiles);
+    if (rolesData) setUserRoles(rolesData);
 
-    setAddingDoctor(false);
-    setNewDoctor({ email: '', password: '', fullName: '', hospitalId: '', specialty: '', role: 'doctor' });
+    setNewDoctor({ email: '', fullName: '', hospitalId: '', specialty: '', role: 'doctor' });
     setAddDoctorOpen(false);
-    toast.success('Doctor added successfully');
+  };
+
+  // Deactivate / Reactivate Handler
+  const handleToggleActive = async (doctor: Profile) => {
+    const active = !!doctor.deactivated_at;
+    if (!await setUserActive(doctor.id, active, doctor.full_name)) return;
+
+    setDoctors(doctors.map(d => d.id === doctor.id
+      ? {
+        ...d,
+        deactivated_at: active ? null : new Date().toISOString(),
+        deactivated_by: active ? null : currentUser?.id || null,
+      }
+      : d
+    ));
+  };
+
+  // Change Role Handler: swaps the staff member's primary role for the chosen one
+  const handleChangeRole = async (doctor: Profile, role: AppRole) => {
+    if (role === doctor.role) return;
+
+    const { data: granted, error: grantError } = await supabase
+      .from('user_roles')
+      .insert({ user_id: doctor.id, role })
+      .select()
+      .single();
+
+    if (grantError) {
+      toast.error('Failed to change role: ' + grantError.message);
+      return;
+    }
+
+    const previous = userRoles.filter(r => r.user_id === doctor.id && r.role === doctor.role);
+    if (previous.length > 0) {
+      const { error: revokeError } = await supabase
+        .from('user_roles')
+        .delete()
+        .in('id', previous.map(r => r.id));
+
+      if (revokeError) {
+        toast.error('New role granted, but the previous one could not be removed: ' + revokeError.message);
+      }
+    }
+
+    const remaining = [...userRoles.filter(r => !previous.includes(r)), granted];
+    setUserRoles(remaining);
+    setDoctors(doctors.map(d => d.id === doctor.id
+      ? { ...d, role: primaryRole(remaining.filter(r => r.user_id === d.id).map(r => r.role)) }
+      : d
+    ));
+    toast.success(`${doctor.full_name} is now ${ROLE_LABELS[role]}`);
   };
 
   return (
@@ -295,7 +368,9 @@ const AdminDashboard = () => {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-foreground">Admin Dashboard</h1>
-          <p className="text-muted-foreground mt-1">System-wide overview and management</p>
+          <p className="text-muted-foreground mt-1">
+            {isSystemAdmin ? 'System-wide overview and management' : 'Overview and management for your hospital'}
+          </p>
         </div>
 
         {/* Statistics Cards */}
@@ -387,23 +462,47 @@ const AdminDashboard = () => {
 
         {/* Main Tabs */}
         <Tabs defaultValue="referrals" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 lg:w-auto lg:inline-flex">
+          <TabsList className={`grid w-full ${tabGridCols} lg:w-auto lg:inline-flex`}>
             <TabsTrigger value="referrals" className="gap-2">
               <FileText className="w-4 h-4" />
               Referrals
             </TabsTrigger>
-            <TabsTrigger value="hospitals" className="gap-2">
-              <Building2 className="w-4 h-4" />
-              Hospitals
-            </TabsTrigger>
-            <TabsTrigger value="doctors" className="gap-2">
-              <Users className="w-4 h-4" />
-              Doctors
-            </TabsTrigger>
-            <TabsTrigger value="security" className="gap-2">
-              <Shield className="w-4 h-4" />
-              Security
-            </TabsTrigger>
+            {isSystemAdmin && (
+              <TabsTrigger value="hospitals" className="gap-2">
+                <Building2 className="w-4 h-4" />
+                Hospitals
+              </TabsTrigger>
+            )}
+            {canManageMembers && (
+              <TabsTrigger value="doctors" className="gap-2">
+                <Users className="w-4 h-4" />
+                Doctors
+              </TabsTrigger>
+            )}
+            {canManageMembers && (
+              <TabsTrigger value="members" className="gap-2">
+                <UserCheck className="w-4 h-4" />
+                Members
+              </TabsTrigger>
+            )}
+            {canConfigure && (
+              <TabsTrigger value="capacity" className="gap-2">
+                <BedDouble className="w-4 h-4" />
+                Capacity
+              </TabsTrigger>
+            )}
+            {canConfigure && (
+              <TabsTrigger value="routing" className="gap-2">
+                <GitBranch className="w-4 h-4" />
+                Routing
+              </TabsTrigger>
+            )}
+            {canViewAudit && (
+              <TabsTrigger value="security" className="gap-2">
+                <Shield className="w-4 h-4" />
+                Security
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* All Referrals Tab */}
@@ -438,6 +537,12 @@ const AdminDashboard = () => {
                         <SelectItem value="rejected">Rejected</SelectItem>
                       </SelectContent>
                     </Select>
+                    <SpecialtyFilter
+                      value={specialtyFilter}
+                      onChange={setSpecialtyFilter}
+                      specialties={referralSpecialties}
+                      className="sm:w-44"
+                    />
                   </div>
                 </div>
               </CardHeader>
@@ -454,6 +559,7 @@ const AdminDashboard = () => {
                           <TableHead>Patient</TableHead>
                           <TableHead>From Hospital</TableHead>
                           <TableHead>To Hospital</TableHead>
+                          <TableHead>Specialty</TableHead>
                           <TableHead>Urgency</TableHead>
                           <TableHead>Status</TableHead>
                           <TableHead>Date</TableHead>
@@ -463,7 +569,7 @@ const AdminDashboard = () => {
                       <TableBody>
                         {filteredReferrals.length === 0 ? (
                           <TableRow>
-                            <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                            <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
                               No referrals found
                             </TableCell>
                           </TableRow>
@@ -473,6 +579,7 @@ const AdminDashboard = () => {
                               <TableCell className="font-medium">{referral.patient_name}</TableCell>
                               <TableCell>{referral.from_hospital_name || '—'}</TableCell>
                               <TableCell>{referral.to_hospital_name || '—'}</TableCell>
+                              <TableCell>{referral.specialty || DEFAULT_REFERRAL_SPECIALTY}</TableCell>
                               <TableCell>
                                 <UrgencyBadge urgency={referral.urgency} />
                               </TableCell>
@@ -511,70 +618,73 @@ const AdminDashboard = () => {
                     <CardTitle>Registered Hospitals</CardTitle>
                     <CardDescription>Manage participating healthcare facilities</CardDescription>
                   </div>
-                  <Dialog open={addHospitalOpen} onOpenChange={setAddHospitalOpen}>
-                    <DialogTrigger asChild>
-                      <Button>
-                        <Plus className="w-4 h-4 mr-2" />
-                        Add Hospital
-                      </Button>
-                    </DialogTrigger>
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Add New Hospital</DialogTitle>
-                        <DialogDescription>
-                          Register a new healthcare facility in the referral network
-                        </DialogDescription>
-                      </DialogHeader>
-                      <div className="space-y-4 py-4">
-                        <div className="space-y-2">
-                          <Label htmlFor="hospital-name">Hospital Name *</Label>
-                          <Input
-                            id="hospital-name"
-                            placeholder="e.g., Central Medical Center"
-                            value={newHospital.name}
-                            onChange={(e) => setNewHospital({ ...newHospital, name: e.target.value })}
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="hospital-address">Address</Label>
-                          <Input
-                            id="hospital-address"
-                            placeholder="e.g., 123 Medical Drive"
-                            value={newHospital.address}
-                            onChange={(e) => setNewHospital({ ...newHospital, address: e.target.value })}
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="hospital-phone">Phone</Label>
-                          <Input
-                            id="hospital-phone"
-                            placeholder="e.g., (555) 123-4567"
-                            value={newHospital.phone}
-                            onChange={(e) => setNewHospital({ ...newHospital, phone: e.target.value })}
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="hospital-email">Email</Label>
-                          <Input
-                            id="hospital-email"
-                            type="email"
-                            placeholder="e.g., info@hospital.com"
-                            value={newHospital.email}
-                            onChange={(e) => setNewHospital({ ...newHospital, email: e.target.value })}
-                          />
-                        </div>
-                      </div>
-                      <DialogFooter>
-                        <Button variant="outline" onClick={() => setAddHospitalOpen(false)}>
-                          Cancel
-                        </Button>
-                        <Button onClick={handleAddHospital} disabled={addingHospital}>
-                          {addingHospital ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+                  <div className="flex gap-2">
+                    <BulkImportWizard kind="hospitals" hospitals={hospitals} onImported={fetchData} />
+                    <Dialog open={addHospitalOpen} onOpenChange={setAddHospitalOpen}>
+                      <DialogTrigger asChild>
+                        <Button>
+                          <Plus className="w-4 h-4 mr-2" />
                           Add Hospital
                         </Button>
-                      </DialogFooter>
-                    </DialogContent>
-                  </Dialog>
+                      </DialogTrigger>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>Add New Hospital</DialogTitle>
+                          <DialogDescription>
+                            Register a new healthcare facility in the referral network
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-4 py-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="hospital-name">Hospital Name *</Label>
+                            <Input
+                              id="hospital-name"
+                              placeholder="e.g., Central Medical Center"
+                              value={newHospital.name}
+                              onChange={(e) => setNewHospital({ ...newHospital, name: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="hospital-address">Address</Label>
+                            <Input
+                              id="hospital-address"
+                              placeholder="e.g., 123 Medical Drive"
+                              value={newHospital.address}
+                              onChange={(e) => setNewHospital({ ...newHospital, address: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="hospital-phone">Phone</Label>
+                            <Input
+                              id="hospital-phone"
+                              placeholder="e.g., (555) 123-4567"
+                              value={newHospital.phone}
+                              onChange={(e) => setNewHospital({ ...newHospital, phone: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="hospital-email">Email</Label>
+                            <Input
+                              id="hospital-email"
+                              type="email"
+                              placeholder="e.g., info@hospital.com"
+                              value={newHospital.email}
+                              onChange={(e) => setNewHospital({ ...newHospital, email: e.target.value })}
+                            />
+                          </div>
+                        </div>
+                        <DialogFooter>
+                          <Button variant="outline" onClick={() => setAddHospitalOpen(false)}>
+                            Cancel
+                          </Button>
+                          <Button onClick={handleAddHospital} disabled={addingHospital}>
+                            {addingHospital ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+                            Add Hospital
+                          </Button>
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -638,104 +748,109 @@ const AdminDashboard = () => {
                     <CardTitle>Registered Doctors</CardTitle>
                     <CardDescription>Manage healthcare professionals in the network</CardDescription>
                   </div>
-                  <Dialog open={addDoctorOpen} onOpenChange={setAddDoctorOpen}>
-                    <DialogTrigger asChild>
-                      <Button>
-                        <Plus className="w-4 h-4 mr-2" />
-                        Add Doctor
-                      </Button>
-                    </DialogTrigger>
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Add New Doctor</DialogTitle>
-                        <DialogDescription>
-                          Create a new doctor account in the system
-                        </DialogDescription>
-                      </DialogHeader>
-                      <div className="space-y-4 py-4">
-                        <div className="space-y-2">
-                          <Label htmlFor="doctor-name">Full Name *</Label>
-                          <Input
-                            id="doctor-name"
-                            placeholder="e.g., Dr. Jane Smith"
-                            value={newDoctor.fullName}
-                            onChange={(e) => setNewDoctor({ ...newDoctor, fullName: e.target.value })}
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="doctor-email">Email *</Label>
-                          <Input
-                            id="doctor-email"
-                            type="email"
-                            placeholder="e.g., doctor@hospital.com"
-                            value={newDoctor.email}
-                            onChange={(e) => setNewDoctor({ ...newDoctor, email: e.target.value })}
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="doctor-password">Password *</Label>
-                          <Input
-                            id="doctor-password"
-                            type="password"
-                            placeholder="Create a password"
-                            value={newDoctor.password}
-                            onChange={(e) => setNewDoctor({ ...newDoctor, password: e.target.value })}
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="doctor-hospital">Hospital</Label>
-                          <Select 
-                            value={newDoctor.hospitalId} 
-                            onValueChange={(value) => setNewDoctor({ ...newDoctor, hospitalId: value })}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select a hospital" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {hospitals.map((hospital) => (
-                                <SelectItem key={hospital.id} value={hospital.id}>
-                                  {hospital.name}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="doctor-specialty">Specialty</Label>
-                          <Input
-                            id="doctor-specialty"
-                            placeholder="e.g., Cardiology"
-                            value={newDoctor.specialty}
-                            onChange={(e) => setNewDoctor({ ...newDoctor, specialty: e.target.value })}
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="doctor-role">Role *</Label>
-                          <Select 
-                            value={newDoctor.role} 
-                            onValueChange={(value: 'doctor' | 'admin') => setNewDoctor({ ...newDoctor, role: value })}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select a role" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="doctor">Doctor</SelectItem>
-                              <SelectItem value="admin">Admin</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </div>
-                      </div>
-                      <DialogFooter>
-                        <Button variant="outline" onClick={() => setAddDoctorOpen(false)}>
-                          Cancel
-                        </Button>
-                        <Button onClick={handleAddDoctor} disabled={addingDoctor}>
-                          {addingDoctor ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
-                          Add Doctor
-                        </Button>
-                      </DialogFooter>
-                    </DialogContent>
-                  </Dialog>
+                  {canManageMembers && (
+                    <div className="flex gap-2">
+                      <BulkImportWizard
+                        kind="doctors"
+                        hospitals={isSystemAdmin ? hospitals : hospitals.filter(h => h.id === currentUser?.hospital_id)}
+                        existingEmails={doctors.map(d => d.email)}
+                        allowedRoles={assignableRoles}
+                        defaultHospitalId={isSystemAdmin ? undefined : currentUser?.hospital_id || undefined}
+                        onImported={fetchData}
+                      />
+                      <Dialog open={addDoctorOpen} onOpenChange={setAddDoctorOpen}>
+                        <DialogTrigger asChild>
+                          <Button>
+                            <Plus className="w-4 h-4 mr-2" />
+                            Add Doctor
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Add New Doctor</DialogTitle>
+                            <DialogDescription>
+                              They will receive an email with a link to choose their password
+                            </DialogDescription>
+                          </DialogHeader>
+                          <div className="space-y-4 py-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="doctor-name">Full Name *</Label>
+                              <Input
+                                id="doctor-name"
+                                placeholder="e.g., Dr. Jane Smith"
+                                value={newDoctor.fullName}
+                                onChange={(e) => setNewDoctor({ ...newDoctor, fullName: e.target.value })}
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="doctor-email">Email *</Label>
+                              <Input
+                                id="doctor-email"
+                                type="email"
+                                placeholder="e.g., doctor@hospital.com"
+                                value={newDoctor.email}
+                                onChange={(e) => setNewDoctor({ ...newDoctor, email: e.target.value })}
+                              />
+                            </div>
+                            {isSystemAdmin && (
+                              <div className="space-y-2">
+                                <Label htmlFor="doctor-hospital">Hospital</Label>
+                                <Select 
+                                  value={newDoctor.hospitalId} 
+                                  onValueChange={(value) => setNewDoctor({ ...newDoctor, hospitalId: value })}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select a hospital" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {hospitals.map((hospital) => (
+                                      <SelectItem key={hospital.id} value={hospital.id}>
+                                        {hospital.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            )}
+                            <div className="space-y-2">
+                              <Label htmlFor="doctor-specialty">Specialty</Label>
+                              <Input
+                                id="doctor-specialty"
+                                placeholder="e.g., Cardiology"
+                                value={newDoctor.specialty}
+                                onChange={(e) => setNewDoctor({ ...newDoctor, specialty: e.target.value })}
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="doctor-role">Role *</Label>
+                              <Select 
+                                value={newDoctor.role} 
+                                onValueChange={(value: AppRole) => setNewDoctor({ ...newDoctor, role: value })}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select a role" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {assignableRoles.map((role) => (
+                                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+                          <DialogFooter>
+                            <Button variant="outline" onClick={() => setAddDoctorOpen(false)}>
+                              Cancel
+                            </Button>
+                            <Button onClick={handleAddDoctor} disabled={provisioning}>
+                              {provisioning ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+                              Send Invite
+                            </Button>
+                          </DialogFooter>
+                        </DialogContent>
+                      </Dialog>
+                    </div>
+                  )}
                 </div>
               </CardHeader>
               <CardContent>
@@ -753,26 +868,85 @@ const AdminDashboard = () => {
                           <TableHead>Hospital</TableHead>
                           <TableHead>Specialty</TableHead>
                           <TableHead>Role</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {doctors.length === 0 ? (
+                        {staff.length === 0 ? (
                           <TableRow>
-                            <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                            <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                               No doctors found
                             </TableCell>
                           </TableRow>
                         ) : (
-                          doctors.map((doctor) => (
+                          staff.map((doctor) => (
                             <TableRow key={doctor.id}>
                               <TableCell className="font-medium">{doctor.full_name}</TableCell>
                               <TableCell>{doctor.email}</TableCell>
                               <TableCell>{doctor.hospital_name || '—'}</TableCell>
                               <TableCell>{doctor.specialty || '—'}</TableCell>
                               <TableCell>
-                                <Badge variant={doctor.role === 'admin' ? 'default' : 'secondary'}>
-                                  {doctor.role || 'doctor'}
-                                </Badge>
+                                {doctor.id !== currentUser?.id && assignableRoles.includes(doctor.role || 'doctor') ? (
+                                  <Select
+                                    value={doctor.role || 'doctor'}
+                                    onValueChange={(value: AppRole) => handleChangeRole(doctor, value)}
+                                  >
+                                    <SelectTrigger className="h-8 w-40">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {assignableRoles.map((role) => (
+                                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                ) : (
+                                  <Badge variant={doctor.role === 'admin' ? 'default' : 'secondary'}>
+                                    {ROLE_LABELS[doctor.role || 'doctor']}
+                                  </Badge>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                {doctor.deactivated_at ? (
+                                  <Badge variant="destructive">Deactivated</Badge>
+                                ) : (
+                                  <Badge variant="outline">Active</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {doctor.id !== currentUser?.id && assignableRoles.includes(doctor.role || 'doctor') && (
+                                  <div className="flex justify-end gap-2">
+                                    {!doctor.deactivated_at && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => setForceSignOutTarget(doctor)}
+                                        disabled={provisioning}
+                                      >
+                                        Force sign-out
+                                      </Button>
+                                    )}
+                                    {!doctor.deactivated_at && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => setResetMfaTarget(doctor)}
+                                        disabled={provisioning}
+                                      >
+                                        Reset 2FA
+                                      </Button>
+                                    )}
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleToggleActive(doctor)}
+                                      disabled={provisioning}
+                                    >
+                                      {doctor.deactivated_at ? 'Reactivate' : 'Deactivate'}
+                                    </Button>
+                                  </div>
+                                )}
                               </TableCell>
                             </TableRow>
                           ))
@@ -785,11 +959,73 @@ const AdminDashboard = () => {
             </Card>
           </TabsContent>
 
+          {/* Membership Tab */}
+          <TabsContent value="members" className="space-y-6">
+            <MembershipQueue />
+          </TabsContent>
+
+          {/* Capacity Tab */}
+          <TabsContent value="capacity" className="space-y-6">
+            <HospitalCapacityManager />
+          </TabsContent>
+
+          {/* Routing Tab */}
+          <TabsContent value="routing" className="space-y-6">
+            {isSystemAdmin && <ReferralSlaSettings />}
+            <DepartmentRoutingManager />
+          </TabsContent>
+
           {/* Security Tab */}
           <TabsContent value="security" className="space-y-6">
-            <SecurityLogViewer />
+            {canConfigure && <MfaPolicySettings />}
+            <MfaComplianceReport />
+            <PhiAccessReport />
+            {isSystemAdmin && <SecurityLogViewer />}
           </TabsContent>
         </Tabs>
+
+        <AlertDialog open={!!forceSignOutTarget} onOpenChange={() => setForceSignOutTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Force sign-out</AlertDialogTitle>
+              <AlertDialogDescription>
+                {forceSignOutTarget?.full_name} will be signed out on every device and their password replaced.
+                They will be emailed a link at {forceSignOutTarget?.email} to choose a new one.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => forceSignOutTarget && forceSignOut(forceSignOutTarget.id, forceSignOutTarget.full_name)}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Sign out and reset password
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <AlertDialog open={!!resetMfaTarget} onOpenChange={() => setResetMfaTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Reset two-factor authentication</AlertDialogTitle>
+              <AlertDialogDescription>
+                Every authenticator app and recovery code {resetMfaTarget?.full_name} has set up will be removed.
+                Only do this once you have confirmed who is asking: they will sign in with their password alone
+                and be asked to set up two-factor authentication again.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => resetMfaTarget && resetMfa(resetMfaTarget.id, resetMfaTarget.full_name)}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Reset 2FA
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </main>
     </div>
   );
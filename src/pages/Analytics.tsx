@@ -1,6 +1,7 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { useReferrals } from '@/hooks/useReferrals';
 import { useAnalytics } from '@/hooks/useAnalytics';
+import { useSlaBreaches } from '@/hooks/useReferralSlas';
 import Navigation from '@/components/Navigation';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -12,7 +13,9 @@ import {
   FileText,
   Activity,
   BarChart3,
-  Users
+  Users,
+  Stethoscope,
+  Timer
 } from 'lucide-react';
 import {
   LineChart,
@@ -33,7 +36,8 @@ import {
 const Analytics = () => {
   const { currentUser } = useAuth();
   const { referrals, loading } = useReferrals();
-  const analytics = useAnalytics(referrals, currentUser?.id);
+  const { breaches } = useSlaBreaches();
+  const analytics = useAnalytics(referrals, currentUser?.id, breaches);
 
   if (loading) {
     return (
@@ -350,6 +354,124 @@ const Analytics = () => {
             </CardContent>
           </Card>
         </div>
+
+        {/* SLA Compliance */}
+        <Card className="card-elevated mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5 text-primary" />
+              SLA Compliance
+            </CardTitle>
+            <CardDescription>
+              {analytics.slaBreachRate}% of referrals were not accepted within their SLA
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {analytics.slaByUrgency.length === 0 ? (
+              <p className="text-muted-foreground text-sm text-center py-8">
+                No data available yet
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="h-[260px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={analytics.slaByUrgency}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                      <XAxis 
+                        dataKey="urgency" 
+                        tick={{ fontSize: 12 }}
+                        tickLine={false}
+                      />
+                      <YAxis 
+                        tick={{ fontSize: 12 }}
+                        tickLine={false}
+                        axisLine={false}
+                        unit="%"
+                      />
+                      <Tooltip 
+                        formatter={(value: number) => [`${value}%`, 'Breach rate']}
+                        contentStyle={{ 
+                          backgroundColor: 'hsl(var(--card))',
+                          border: '1px solid hsl(var(--border))',
+                          borderRadius: '8px'
+                        }}
+                      />
+                      <Bar dataKey="rate" name="Breach rate" radius={[4, 4, 0, 0]}>
+                        {analytics.slaByUrgency.map((entry, index) => (
+                          <Cell key={`cell-${index}`} fill={entry.fill} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="space-y-3">
+                  <p className="text-sm font-medium text-foreground">Receiving hospitals with breaches</p>
+                  {analytics.slaByHospital.length === 0 ? (
+                    <p className="text-muted-foreground text-sm py-4">No SLA breaches recorded</p>
+                  ) : (
+                    analytics.slaByHospital.map(row => (
+                      <div key={row.hospital} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+                        <span className="text-sm text-foreground">{row.hospital}</span>
+                        <span className="text-sm text-muted-foreground">
+                          {row.breached} of {row.received} •{' '}
+                          <span className="font-medium text-destructive">{row.rate}%</span>
+                        </span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Specialty Breakdown */}
+        <Card className="card-elevated mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Stethoscope className="h-5 w-5 text-primary" />
+              Referrals by Specialty
+            </CardTitle>
+            <CardDescription>Volume and completions per requested specialty</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {analytics.referralsBySpecialty.length === 0 ? (
+              <p className="text-muted-foreground text-sm text-center py-8">
+                No data available yet
+              </p>
+            ) : (
+              <div className="h-[300px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={analytics.referralsBySpecialty}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                    <XAxis 
+                      dataKey="specialty" 
+                      tick={{ fontSize: 11 }}
+                      tickLine={false}
+                      interval={0}
+                    />
+                    <YAxis 
+                      tick={{ fontSize: 12 }}
+                      tickLine={false}
+                      axisLine={false}
+                      allowDecimals={false}
+                    />
+                    <Tooltip 
+                      contentStyle={{ 
+                        backgroundColor: 'hsl(var(--card))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: '8px'
+                      }}
+                    />
+                    <Legend />
+                    <Bar dataKey="count" fill="hsl(var(--primary))" name="Referrals" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="completed" fill="hsl(var(--success))" name="Completed" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </main>
     </div>
   );
@@ -4,8 +4,21 @@ import Navigation from '@/components/Navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Search, FileText, Building2, Calendar, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { Search, FileText, Building2, Calendar, CheckCircle, AlertCircle, Loader2, Ban } from 'lucide-react';
 import { format } from 'date-fns';
+import { DEFAULT_REFERRAL_SPECIALTY } from '@/lib/specialties';
+import { readFunctionFailure } from '@/lib/securityEvents';
+
+// What the code-lookup edge function returns for a matching code
+interface CodeLookupResult {
+  patient_code: string | null;
+  status: string;
+  specialty: string | null;
+  from_hospital_name: string | null;
+  to_hospital_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
 
 interface ReferralSummary {
   patientCode: string;
@@ -17,9 +30,10 @@ interface ReferralSummary {
 
 const CodeLookup = () => {
   const [searchCode, setSearchCode] = useState('');
-  const [searchResult, setSearchResult] = useState<'idle' | 'found' | 'not_found'>('idle');
+  const [searchResult, setSearchResult] = useState<'idle' | 'found' | 'not_found' | 'blocked'>('idle');
   const [referralData, setReferralData] = useState<ReferralSummary | null>(null);
   const [isSearching, setIsSearching] = useState(false);
+  const [blockedNotice, setBlockedNotice] = useState<string | null>(null);
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -28,50 +42,42 @@ const CodeLookup = () => {
 
     setIsSearching(true);
 
-    try {
-      // Search for referral by patient code
-      const { data: referral, error } = await supabase
-        .from('referrals')
-        .select('*')
-        .ilike('patient_code', searchCode.trim())
-        .maybeSingle();
-
-      if (error) throw error;
-
-      if (referral) {
-        // Fetch hospital names
-        const { data: hospitals } = await supabase
-          .from('hospitals')
-          .select('id, name')
-          .in('id', [referral.from_hospital_id, referral.to_hospital_id]);
-
-        const hospitalMap = new Map(hospitals?.map(h => [h.id, h.name]) || []);
-
-        setReferralData({
-          patientCode: referral.patient_code || '',
-          dates: {
-            created: new Date(referral.created_at),
-            completed: referral.status === 'completed' ? new Date(referral.updated_at) : undefined,
-          },
-          hospitalsInvolved: [
-            hospitalMap.get(referral.from_hospital_id) || 'Unknown Hospital',
-            hospitalMap.get(referral.to_hospital_id) || 'Unknown Hospital',
-          ],
-          specialty: 'General',
-          outcome: referral.status === 'completed' ? 'Treatment Completed Successfully' : 'In Progress',
-        });
-        setSearchResult('found');
-      } else {
-        setReferralData(null);
-        setSearchResult('not_found');
-      }
-    } catch (error) {
+    // The lookup runs server-side, where misses count towards the network lockout
+    const { data, error } = await supabase.functions.invoke('code-lookup', {
+      body: { code: searchCode.trim() },
+    });
+
+    if (error) {
+      const failure = await readFunctionFailure(error, 'Lookup failed');
       console.error('Error searching referral:', error);
       setReferralData(null);
-      setSearchResult('not_found');
-    } finally {
+      setBlockedNotice(failure.blocked ? failure.message : null);
+      setSearchResult(failure.blocked ? 'blocked' : 'not_found');
       setIsSearching(false);
+      return;
+    }
+
+    const referral = (data as { referral: CodeLookupResult | null }).referral;
+    if (referral) {
+      setReferralData({
+        patientCode: referral.patient_code || '',
+        dates: {
+          created: new Date(referral.created_at),
+          completed: referral.status === 'completed' ? new Date(referral.updated_at) : undefined,
+        },
+        hospitalsInvolved: [
+          referral.from_hospital_name || 'Unknown Hospital',
+          referral.to_hospital_name || 'Unknown Hospital',
+        ],
+        specialty: referral.specialty || DEFAULT_REFERRAL_SPECIALTY,
+        outcome: referral.status === 'completed' ? 'Treatment Completed Successfully' : 'In Progress',
+      });
+      setSearchResult('found');
+    } else {
+      setReferralData(null);
+      setSearchResult('not_found');
     }
+    setIsSearching(false);
   };
 
   return (
@@ -99,12 +105,12 @@ const CodeLookup = () => {
                   value={searchCode}
                   onChange={(e) => {
                     setSearchCode(e.target.value.toUpperCase());
-                    if (searchResult !== 'idle') setSearchResult('idle');
+                    if (searchResult !== 'idle' && searchResult !== 'blocked') setSearchResult('idle');
                   }}
                   className="pl-10 font-mono"
                 />
               </div>
-              <Button type="submit" disabled={isSearching}>
+              <Button type="submit" disabled={isSearching || searchResult === 'blocked'}>
                 {isSearching ? (
                   <Loader2 className="w-4 h-4 animate-spin" />
                 ) : (
@@ -202,6 +208,16 @@ const CodeLookup = () => {
           </Card>
         )}
 
+        {searchResult === 'blocked' && (
+          <Card className="card-elevated mt-6 animate-slide-up border-destructive/30">
+            <CardContent className="py-8 text-center">
+              <Ban className="w-12 h-12 mx-auto mb-3 text-destructive" />
+              <p className="font-medium text-foreground">Lookups Temporarily Blocked</p>
+              <p className="text-sm text-muted-foreground mt-1">{blockedNotice}</p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Info Box */}
         <Card className="mt-6 bg-muted/30 border-dashed">
           <CardContent className="py-4">
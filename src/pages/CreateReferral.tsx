@@ -1,8 +1,9 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useReferrals } from '@/hooks/useReferrals';
 import { useHospitals } from '@/hooks/useHospitals';
+import { useHospitalCapacity, getSpecialtyCapacity } from '@/hooks/useHospitalCapacity';
 import { useReferralTemplates, ReferralTemplate } from '@/hooks/useReferralTemplates';
 import Navigation from '@/components/Navigation';
 import { Button } from '@/components/ui/button';
@@ -12,17 +13,32 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { CapacityBadge } from '@/components/CapacityBadge';
+import { ReferralDraftDialog } from '@/components/ReferralDraftDialog';
+import { ReferralDraft, composeMedicalSummary } from '@/hooks/useReferralDraft';
 import { toast } from 'sonner';
-import { ArrowLeft, Send, AlertTriangle, Clock, CheckCircle, Loader2, FileText } from 'lucide-react';
+import { ArrowLeft, Send, AlertTriangle, Clock, CheckCircle, Loader2, FileText, Sparkles } from 'lucide-react';
+import { SPECIALTIES } from '@/lib/specialties';
 
 type UrgencyLevel = 'emergency' | 'urgent' | 'routine';
 
+// Set by the doctor directory's "Start referral" action
+interface CreateReferralLocationState {
+  preselectedHospital?: string | null;
+  preselectedDoctor?: string;
+  preselectedSpecialty?: string | null;
+}
+
 const CreateReferral = () => {
   const { currentUser } = useAuth();
   const { addReferral } = useReferrals();
   const { hospitals, loading: hospitalsLoading } = useHospitals();
+  const { capacityByHospital } = useHospitalCapacity();
   const { templates, loading: templatesLoading } = useReferralTemplates();
   const navigate = useNavigate();
+  const location = useLocation();
+  const preselected = (location.state || {}) as CreateReferralLocationState;
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
 
   const [formData, setFormData] = useState({
@@ -32,16 +48,31 @@ const CreateReferral = () => {
     medicalId: '',
     medicalSummary: '',
     reasonForReferral: '',
-    toHospitalId: '',
+    toHospitalId: preselected.preselectedHospital || '',
     urgency: 'routine' as UrgencyLevel,
+    specialty: preselected.preselectedSpecialty || '',
+    aiDraftLogId: null as string | null,
   });
 
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showDraftDialog, setShowDraftDialog] = useState(false);
 
   if (!currentUser) return null;
 
   const availableHospitals = hospitals.filter(h => h.id !== currentUser.hospital_id);
 
+  // Templates may carry a specialty outside the standard list
+  const specialtyOptions = formData.specialty && !SPECIALTIES.includes(formData.specialty)
+    ? [formData.specialty, ...SPECIALTIES]
+    : SPECIALTIES;
+
+  const targetCapacity = formData.toHospitalId
+    ? getSpecialtyCapacity(capacityByHospital.get(formData.toHospitalId), formData.specialty)
+    : null;
+  const targetIcu = capacityByHospital.get(formData.toHospitalId);
+  // The server rejects these too; blocking here avoids a failed submit
+  const blockedByCapacity = formData.urgency === 'emergency' && targetCapacity?.level === 'full';
+
   const handleTemplateSelect = (templateId: string) => {
     setSelectedTemplateId(templateId);
     
@@ -56,11 +87,24 @@ const CreateReferral = () => {
         medicalSummary: template.medical_summary_template || prev.medicalSummary,
         reasonForReferral: template.reason_template || prev.reasonForReferral,
         urgency: template.default_urgency || prev.urgency,
+        specialty: template.specialty || prev.specialty,
       }));
       toast.success(`Template "${template.name}" applied`);
     }
   };
 
+  const handleApplyDraft = (draft: ReferralDraft, logId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      medicalSummary: composeMedicalSummary(draft) || prev.medicalSummary,
+      reasonForReferral: draft.question.trim() || prev.reasonForReferral,
+      aiDraftLogId: logId,
+    }));
+    toast.success('Draft applied. Review it before sending.');
+  };
+
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -80,6 +124,8 @@ const CreateReferral = () => {
       reason: formData.reasonForReferral,
       toHospitalId: formData.toHospitalId,
       urgency: formData.urgency,
+      specialty: formData.specialty,
+      aiDraftLogId: formData.aiDraftLogId,
     });
 
     setIsSubmitting(false);
@@ -155,7 +201,7 @@ const CreateReferral = () => {
                     </SelectContent>
                   </Select>
                   <p className="text-xs text-muted-foreground">
-                    Templates auto-fill medical summary, reason, and urgency level
+                    Templates auto-fill medical summary, reason, specialty, and urgency level
                   </p>
                 </div>
               </div>
@@ -218,9 +264,15 @@ const CreateReferral = () => {
 
               {/* Medical Details */}
               <div className="space-y-4">
-                <h3 className="font-semibold text-foreground border-b border-border pb-2">
-                  Medical Details
-                </h3>
+                <div className="flex items-center justify-between border-b border-border pb-2">
+                  <h3 className="font-semibold text-foreground">
+                    Medical Details
+                  </h3>
+                  <Button type="button" variant="outline" size="sm" onClick={() => setShowDraftDialog(true)}>
+                    <Sparkles className="w-4 h-4 mr-2" />
+                    Draft with AI
+                  </Button>
+                </div>
 
                 <div className="space-y-2">
                   <Label htmlFor="medicalSummary">Medical Summary</Label>
@@ -253,6 +305,25 @@ const CreateReferral = () => {
                   Referral Details
                 </h3>
 
+                <div className="space-y-2">
+                  <Label>Specialty Required</Label>
+                  <Select
+                    value={formData.specialty}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, specialty: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select specialty" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {specialtyOptions.map((specialty) => (
+                        <SelectItem key={specialty} value={specialty}>
+                          {specialty}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="space-y-2">
                   <Label>Destination Hospital</Label>
                   <Select
@@ -264,13 +335,32 @@ const CreateReferral = () => {
                       <SelectValue placeholder={hospitalsLoading ? "Loading hospitals..." : "Select hospital"} />
                     </SelectTrigger>
                     <SelectContent>
-                      {availableHospitals.map((hospital) => (
-                        <SelectItem key={hospital.id} value={hospital.id}>
-                          {hospital.name}
-                        </SelectItem>
-                      ))}
+                      {availableHospitals.map((hospital) => {
+                        const capacity = getSpecialtyCapacity(capacityByHospital.get(hospital.id), formData.specialty);
+                        return (
+                          <SelectItem key={hospital.id} value={hospital.id}>
+                            <div className="flex items-center gap-2">
+                              <span>{hospital.name}</span>
+                              {capacity.level !== 'unknown' && (
+                                <CapacityBadge
+                                  level={capacity.level}
+                                  label={capacity.level === 'full' ? 'Full' : `${capacity.bedsAvailable} beds`}
+                                />
+                              )}
+                            </div>
+                          </SelectItem>
+                        );
+                      })}
                     </SelectContent>
                   </Select>
+                  {targetCapacity && (
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <CapacityBadge level={targetCapacity.level} label={targetCapacity.message} />
+                      {targetIcu && targetIcu.icuBedsTotal > 0 && (
+                        <span>ICU: {targetIcu.icuBedsAvailable} of {targetIcu.icuBedsTotal} beds available</span>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <div className="space-y-3">
@@ -305,6 +395,27 @@ const CreateReferral = () => {
                 </div>
               </div>
 
+              {targetCapacity?.level === 'full' && (
+                <Alert variant={blockedByCapacity ? 'destructive' : 'default'}>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>
+                    {blockedByCapacity ? 'Emergency referral blocked' : 'Destination is at capacity'}
+                  </AlertTitle>
+                  <AlertDescription>
+                    {blockedByCapacity
+                      ? `${targetCapacity.message}. Choose another hospital for this emergency referral.`
+                      : `${targetCapacity.message}. The referral may wait until a bed becomes free.`}
+                  </AlertDescription>
+                </Alert>
+              )}
+              {targetCapacity?.level === 'limited' && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Limited capacity</AlertTitle>
+                  <AlertDescription>{targetCapacity.message}.</AlertDescription>
+                </Alert>
+              )}
+
               {/* Submit */}
               <div className="flex gap-3 pt-4 border-t border-border">
                 <Button
@@ -317,7 +428,7 @@ const CreateReferral = () => {
                 </Button>
                 <Button
                   type="submit"
-                  disabled={isSubmitting || !formData.toHospitalId}
+                  disabled={isSubmitting || !formData.toHospitalId || !formData.specialty || blockedByCapacity}
                   className="flex-1"
                 >
                   {isSubmitting ? (
@@ -334,6 +445,19 @@ const CreateReferral = () => {
           </CardContent>
         </Card>
       </main>
+
+      <ReferralDraftDialog
+        open={showDraftDialog}
+        onOpenChange={setShowDraftDialog}
+        context={{
+          medicalSummary: formData.medicalSummary,
+          templateId: selectedTemplate?.id,
+          templateName: selectedTemplate?.name,
+          specialty: formData.specialty,
+          urgency: formData.urgency,
+        }}
+        onApply={handleApplyDraft}
+      />
     </div>
   );
 };
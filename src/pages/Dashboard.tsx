@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useReferrals } from '@/hooks/useReferrals';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,15 +14,22 @@ import {
   Activity,
   Loader2,
   Shield,
-  AlertTriangle
+  AlertTriangle,
+  UserCheck
 } from 'lucide-react';
 import ReferralCard from '@/components/ReferralCard';
 import Navigation from '@/components/Navigation';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ReferralStatus } from '@/types/referral';
+
+type ReferralView = 'recent' | 'assigned';
+
+const closedStatuses: ReferralStatus[] = ['completed', 'rejected'];
 
 const Dashboard = () => {
   const { currentUser } = useAuth();
   const { referrals, loading } = useReferrals();
+  const [view, setView] = useState<ReferralView>('recent');
 
   if (!currentUser) return null;
 
@@ -60,6 +68,13 @@ const Dashboard = () => {
     .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
     .slice(0, 3);
 
+  // Open referrals handed to this doctor, most recently touched first
+  const assignedReferrals = referrals
+    .filter(r => r.assignedDoctorId === currentUser.id && !closedStatuses.includes(r.status))
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+
+  const visibleReferrals = view === 'assigned' ? assignedReferrals : recentReferrals;
+
   if (loading) {
     return (
       <div className={`min-h-screen ${isAdmin ? 'bg-gradient-to-br from-accent/5 via-background to-accent/10' : 'bg-gradient-to-br from-primary/5 via-background to-secondary/10'}`}>
@@ -187,25 +202,42 @@ const Dashboard = () => {
         <Card className="card-elevated">
           <CardHeader className="flex flex-row items-center justify-between">
             <div>
-              <CardTitle>Recent Referrals</CardTitle>
-              <CardDescription>Latest updates across your referrals</CardDescription>
+              <CardTitle>{view === 'assigned' ? 'My Assigned Referrals' : 'Recent Referrals'}</CardTitle>
+              <CardDescription>
+                {view === 'assigned' ? 'Open referrals you are responsible for' : 'Latest updates across your referrals'}
+              </CardDescription>
             </div>
-            <Link to="/sent-referrals">
-              <Button variant="outline" size="sm">
-                View All
-                <ArrowRight className="w-4 h-4 ml-2" />
+            <div className="flex items-center gap-2">
+              <Button
+                variant={view === 'assigned' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setView(view === 'assigned' ? 'recent' : 'assigned')}
+              >
+                <UserCheck className="w-4 h-4 mr-2" />
+                Assigned to me ({assignedReferrals.length})
               </Button>
-            </Link>
+              <Link to="/sent-referrals">
+                <Button variant="outline" size="sm">
+                  View All
+                  <ArrowRight className="w-4 h-4 ml-2" />
+                </Button>
+              </Link>
+            </div>
           </CardHeader>
           <CardContent className="space-y-4">
-            {recentReferrals.length > 0 ? (
-              recentReferrals.map((referral) => (
+            {visibleReferrals.length > 0 ? (
+              visibleReferrals.map((referral) => (
                 <ReferralCard 
                   key={referral.id} 
                   referral={referral}
                   showFromHospital={referral.toHospitalId === currentUser.hospital_id}
                 />
               ))
+            ) : view === 'assigned' ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <UserCheck className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                <p>No referrals assigned to you</p>
+              </div>
             ) : (
               <div className="text-center py-8 text-muted-foreground">
                 <FileText className="w-12 h-12 mx-auto mb-3 opacity-50" />
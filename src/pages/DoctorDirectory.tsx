@@ -41,7 +41,8 @@ const DoctorDirectory = () => {
     navigate('/create-referral', { 
       state: { 
         preselectedHospital: doctor.hospital_id,
-        preselectedDoctor: doctor.id 
+        preselectedDoctor: doctor.id,
+        preselectedSpecialty: doctor.specialty
       } 
     });
   };
@@ -1,35 +1,64 @@
+import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useReferrals } from '@/hooks/useReferrals';
+import { useHospitals } from '@/hooks/useHospitals';
+import { useDepartments, useMyDepartmentIds } from '@/hooks/useDepartments';
+import {
+  useReferralList,
+  useReferralStatusCounts,
+  emptyReferralListFilters,
+  ReferralListFilters as Filters,
+} from '@/hooks/useReferralList';
 import Navigation from '@/components/Navigation';
-import ReferralCard from '@/components/ReferralCard';
+import { ReferralListFilters } from '@/components/ReferralListFilters';
+import { ReferralInfiniteList } from '@/components/ReferralInfiniteList';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Inbox, AlertCircle, Loader2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Inbox, AlertCircle, Layers } from 'lucide-react';
+import { ReferralStatus } from '@/types/referral';
+
+type IncomingTab = 'pending' | 'active' | 'completed' | 'all';
+
+const TAB_STATUSES: Record<IncomingTab, ReferralStatus[] | null> = {
+  pending: ['pending'],
+  active: ['accepted', 'in_treatment'],
+  completed: ['completed', 'rejected'],
+  all: null,
+};
+
+const EMPTY_MESSAGES: Record<IncomingTab, string | undefined> = {
+  pending: 'No pending referrals to review',
+  active: 'No referrals in progress',
+  completed: 'No completed referrals',
+  all: undefined,
+};
+
+// 'all' and 'mine' are the fixed queues; any other value is a department id
+const ALL_QUEUES = 'all';
+const MY_QUEUES = 'mine';
 
 const IncomingReferrals = () => {
   const { currentUser } = useAuth();
-  const { referrals, loading } = useReferrals();
+  const { hospitals } = useHospitals();
+  const [tab, setTab] = useState<IncomingTab>('pending');
+  const [filters, setFilters] = useState<Filters>(emptyReferralListFilters);
+  const { departments } = useDepartments(currentUser?.hospital_id);
+  const { departmentIds: myDepartmentIds } = useMyDepartmentIds();
+  const [selectedQueue, setSelectedQueue] = useState<string | null>(null);
 
-  if (!currentUser) return null;
+  // Everyone starts on the whole hospital: unrouted referrals belong to no department queue
+  const queue = selectedQueue ?? ALL_QUEUES;
+  const queueDepartmentIds =
+    queue === ALL_QUEUES ? null : queue === MY_QUEUES ? myDepartmentIds : [queue];
 
-  const incomingReferrals = referrals
-    .filter(r => r.toHospitalId === currentUser.hospital_id)
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const { referrals, loading, loadingMore, hasMore, loadMore } =
+    useReferralList('incoming', TAB_STATUSES[tab], filters, queueDepartmentIds);
+  const { countOf } = useReferralStatusCounts('incoming', filters, queueDepartmentIds);
 
-  const pendingReferrals = incomingReferrals.filter(r => r.status === 'pending');
-  const activeReferrals = incomingReferrals.filter(r => r.status === 'accepted' || r.status === 'in_treatment');
-  const completedReferrals = incomingReferrals.filter(r => r.status === 'completed' || r.status === 'rejected');
+  if (!currentUser) return null;
 
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-background">
-        <Navigation />
-        <div className="flex items-center justify-center py-20">
-          <Loader2 className="w-8 h-8 animate-spin text-primary" />
-        </div>
-      </div>
-    );
-  }
+  const referringHospitals = hospitals.filter(h => h.id !== currentUser.hospital_id);
+  const pendingCount = countOf(TAB_STATUSES.pending);
 
   return (
     <div className="min-h-screen bg-background">
@@ -39,67 +68,71 @@ const IncomingReferrals = () => {
         <div className="mb-6">
           <div className="flex items-center gap-3">
             <h1 className="text-2xl font-bold text-foreground">Incoming Referrals</h1>
-            {pendingReferrals.length > 0 && (
+            {pendingCount > 0 && (
               <span className="bg-destructive text-destructive-foreground text-xs font-medium px-2.5 py-1 rounded-full flex items-center gap-1">
                 <AlertCircle className="w-3 h-3" />
-                {pendingReferrals.length} pending
+                {pendingCount} pending
               </span>
             )}
           </div>
           <p className="text-muted-foreground">Referrals received from other hospitals</p>
         </div>
 
-        <Tabs defaultValue="pending" className="space-y-4">
+        {departments.length > 0 && (
+          <div className="mb-4 flex items-center gap-2">
+            <Layers className="w-4 h-4 text-muted-foreground" />
+            <Select value={queue} onValueChange={setSelectedQueue}>
+              <SelectTrigger className="w-full md:w-64">
+                <SelectValue placeholder="Department queue" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_QUEUES}>All departments</SelectItem>
+                {myDepartmentIds.length > 0 && (
+                  <SelectItem value={MY_QUEUES}>My departments</SelectItem>
+                )}
+                {departments.map(department => (
+                  <SelectItem key={department.id} value={department.id}>
+                    {department.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="mb-4">
+          <ReferralListFilters
+            filters={filters}
+            onChange={(changes) => setFilters(prev => ({ ...prev, ...changes }))}
+            onClear={() => setFilters(emptyReferralListFilters)}
+            hospitals={referringHospitals}
+            hospitalLabel="Referring"
+          />
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as IncomingTab)} className="space-y-4">
           <TabsList>
             <TabsTrigger value="pending" className="relative">
-              Pending ({pendingReferrals.length})
-              {pendingReferrals.length > 0 && (
+              Pending ({pendingCount})
+              {pendingCount > 0 && (
                 <span className="absolute -top-1 -right-1 w-2 h-2 bg-destructive rounded-full" />
               )}
             </TabsTrigger>
-            <TabsTrigger value="active">In Progress ({activeReferrals.length})</TabsTrigger>
-            <TabsTrigger value="completed">Completed ({completedReferrals.length})</TabsTrigger>
-            <TabsTrigger value="all">All ({incomingReferrals.length})</TabsTrigger>
+            <TabsTrigger value="active">In Progress ({countOf(TAB_STATUSES.active)})</TabsTrigger>
+            <TabsTrigger value="completed">Completed ({countOf(TAB_STATUSES.completed)})</TabsTrigger>
+            <TabsTrigger value="all">All ({countOf(TAB_STATUSES.all)})</TabsTrigger>
           </TabsList>
 
-          <TabsContent value="pending" className="space-y-4">
-            {pendingReferrals.length > 0 ? (
-              pendingReferrals.map(referral => (
-                <ReferralCard key={referral.id} referral={referral} showFromHospital={true} />
-              ))
-            ) : (
-              <EmptyState message="No pending referrals to review" />
-            )}
-          </TabsContent>
-
-          <TabsContent value="active" className="space-y-4">
-            {activeReferrals.length > 0 ? (
-              activeReferrals.map(referral => (
-                <ReferralCard key={referral.id} referral={referral} showFromHospital={true} />
-              ))
-            ) : (
-              <EmptyState message="No referrals in progress" />
-            )}
-          </TabsContent>
-
-          <TabsContent value="completed" className="space-y-4">
-            {completedReferrals.length > 0 ? (
-              completedReferrals.map(referral => (
-                <ReferralCard key={referral.id} referral={referral} showFromHospital={true} />
-              ))
-            ) : (
-              <EmptyState message="No completed referrals" />
-            )}
-          </TabsContent>
-
-          <TabsContent value="all" className="space-y-4">
-            {incomingReferrals.length > 0 ? (
-              incomingReferrals.map(referral => (
-                <ReferralCard key={referral.id} referral={referral} showFromHospital={true} />
-              ))
-            ) : (
-              <EmptyState />
-            )}
+          <TabsContent value={tab}>
+            <ReferralInfiniteList
+              referrals={referrals}
+              loading={loading}
+              loadingMore={loadingMore}
+              hasMore={hasMore}
+              onLoadMore={loadMore}
+              showFromHospital={true}
+              emptyState={<EmptyState message={EMPTY_MESSAGES[tab]} />}
+            />
           </TabsContent>
         </Tabs>
       </main>
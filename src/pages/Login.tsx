@@ -6,24 +6,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Building2, Lock, Mail, User, AlertCircle, Stethoscope } from 'lucide-react';
+import { Building2, Lock, Mail, User, AlertCircle, Stethoscope, KeyRound } from 'lucide-react';
 import { toast } from 'sonner';
 import { TwoFactorVerify } from '@/components/TwoFactorSetup';
 
-interface Hospital {
-  id: string;
-  name: string;
-}
-
 const Login = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
-  const [hospitalId, setHospitalId] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
   const [specialty, setSpecialty] = useState('');
-  const [hospitals, setHospitals] = useState<Hospital[]>([]);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [mfaRequired, setMfaRequired] = useState(false);
@@ -37,14 +30,6 @@ const Login = () => {
     }
   }, [isAuthenticated, navigate]);
 
-  useEffect(() => {
-    const fetchHospitals = async () => {
-      const { data } = await supabase.from('hospitals').select('id, name');
-      if (data) setHospitals(data);
-    };
-    fetchHospitals();
-  }, []);
-
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -90,13 +75,19 @@ const Login = () => {
       return;
     }
 
-    const { error: signupError } = await signup(email, password, fullName, hospitalId, specialty);
+    const { error: signupError, inviteError } = await signup(email, password, fullName, inviteCode, specialty);
     setIsLoading(false);
 
     if (signupError) {
       setError(signupError);
     } else {
-      toast.success('Account created successfully!');
+      if (inviteError) {
+        toast.error(`Account created, but the invite code was not accepted: ${inviteError}`);
+      } else {
+        toast.success(inviteCode.trim()
+          ? 'Account created successfully!'
+          : 'Account created. Ask to join your hospital to get started.');
+      }
       navigate('/dashboard');
     }
   };
@@ -222,19 +213,21 @@ const Login = () => {
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="signup-hospital">Hospital (Optional)</Label>
-                    <Select value={hospitalId} onValueChange={setHospitalId}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select your hospital" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {hospitals.map((hospital) => (
-                          <SelectItem key={hospital.id} value={hospital.id}>
-                            {hospital.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <Label htmlFor="signup-invite">Invite Code (Optional)</Label>
+                    <div className="relative">
+                      <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input
+                        id="signup-invite"
+                        type="text"
+                        placeholder="INV-XXXX-XXXX"
+                        value={inviteCode}
+                        onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                        className="pl-10 font-mono"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Without a code, you can request access to your hospital after signing up
+                    </p>
                   </div>
 
                   <div className="space-y-2">
@@ -273,6 +266,7 @@ const Login = () => {
           factorId={mfaFactorId}
           onVerified={handleMfaVerified}
           onCancel={handleMfaCancel}
+          allowRecovery
         />
       )}
     </div>
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMFA } from '@/hooks/useMFA';
+import { homePath, mfaStatus } from '@/lib/permissions';
+import { TwoFactorSetup, TwoFactorVerify } from '@/components/TwoFactorSetup';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, LogOut, ShieldCheck } from 'lucide-react';
+import { format } from 'date-fns';
+
+// Where ProtectedRoute sends users an MFA policy applies to until they enrol or verify a factor
+const MfaRequired = () => {
+  const { currentUser, isAuthenticated, isLoading, refreshProfile, logout } = useAuth();
+  const { factors, loading: mfaLoading, refresh } = useMFA();
+  const navigate = useNavigate();
+  const [showSetup, setShowSetup] = useState(false);
+  const [showVerify, setShowVerify] = useState(false);
+
+  const handleDone = async () => {
+    setShowSetup(false);
+    setShowVerify(false);
+    await Promise.all([refresh(), refreshProfile()]);
+    navigate(homePath(currentUser), { replace: true });
+  };
+
+  if (isLoading || (isAuthenticated && !currentUser)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <Navigate to="/login" replace />;
+  }
+
+  const status = mfaStatus(currentUser);
+  if (status === 'satisfied') {
+    return <Navigate to={homePath(currentUser)} replace />;
+  }
+
+  const factor = factors[0];
+  const deadline = new Date(currentUser!.mfa_required_by!);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-6 animate-fade-in">
+        <div className="text-center space-y-2">
+          <div className="w-16 h-16 rounded-2xl bg-primary mx-auto flex items-center justify-center shadow-lg">
+            <ShieldCheck className="w-8 h-8 text-primary-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground">Two-factor authentication</h1>
+          <p className="text-muted-foreground">
+            {status === 'grace'
+              ? `Your organisation requires it from ${format(deadline, 'MMM d, yyyy')}`
+              : 'Your organisation requires it to view referrals'}
+          </p>
+        </div>
+
+        <Card className="card-elevated">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">
+              {currentUser?.mfa_enrolled ? 'Verify it\'s you' : 'Set up an authenticator app'}
+            </CardTitle>
+            <CardDescription>
+              {currentUser?.mfa_enrolled
+                ? 'Enter the code from your authenticator app to continue.'
+                : 'Scan a QR code with Google Authenticator, Authy or a similar app, then enter the code it shows.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {mfaLoading ? (
+              <div className="flex justify-center py-2">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : currentUser?.mfa_enrolled && factor ? (
+              <Button className="w-full" onClick={() => setShowVerify(true)}>
+                Enter code
+              </Button>
+            ) : (
+              <Button className="w-full" onClick={() => setShowSetup(true)}>
+                Set up two-factor authentication
+              </Button>
+            )}
+            {status === 'grace' && (
+              <Button variant="outline" className="w-full" onClick={() => navigate(homePath(currentUser))}>
+                Remind me later
+              </Button>
+            )}
+            <Button variant="ghost" className="w-full" onClick={logout}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <TwoFactorSetup open={showSetup} onOpenChange={setShowSetup} onComplete={handleDone} />
+      {factor && (
+        <TwoFactorVerify
+          open={showVerify}
+          factorId={factor.id}
+          onVerified={handleDone}
+          onCancel={() => setShowVerify(false)}
+          allowRecovery
+        />
+      )}
+    </div>
+  );
+};
+
+export default MfaRequired;
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMyMembership } from '@/hooks/useHospitalMembership';
+import { useHospitals } from '@/hooks/useHospitals';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2, Clock, KeyRound, Loader2, LogOut, Send, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+// Shown instead of the app until the signed-in user belongs to a hospital
+const PendingVerification = () => {
+  const { currentUser, logout } = useAuth();
+  const { request, loading, submitting, redeemInvite, requestMembership } = useMyMembership();
+  const { hospitals } = useHospitals();
+  const [inviteCode, setInviteCode] = useState('');
+  const [hospitalId, setHospitalId] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleRedeem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await redeemInvite(inviteCode)) {
+      setInviteCode('');
+    }
+  };
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await requestMembership(hospitalId, message)) {
+      setHospitalId('');
+      setMessage('');
+    }
+  };
+
+  const isPending = request?.status === 'pending';
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-6 animate-fade-in">
+        <div className="text-center space-y-2">
+          <div className="w-16 h-16 rounded-2xl bg-primary mx-auto flex items-center justify-center shadow-lg">
+            <Building2 className="w-8 h-8 text-primary-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground">Join your hospital</h1>
+          <p className="text-muted-foreground">
+            {currentUser?.full_name}, your account needs to be verified before you can see referrals
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : request && request.status !== 'approved' && (
+          <Card className={isPending ? 'border-warning/40' : 'border-destructive/40'}>
+            <CardContent className="p-4 flex items-start gap-3">
+              {isPending ? (
+                <Clock className="w-5 h-5 text-warning shrink-0 mt-0.5" />
+              ) : (
+                <XCircle className="w-5 h-5 text-destructive shrink-0 mt-0.5" />
+              )}
+              <div className="text-sm space-y-1">
+                <p className="font-medium text-foreground">
+                  {isPending
+                    ? `Waiting for approval from ${request.hospitalName || 'the hospital'}`
+                    : `Your request to join ${request.hospitalName || 'the hospital'} was declined`}
+                </p>
+                <p className="text-muted-foreground">
+                  {isPending
+                    ? `Requested ${format(request.createdAt, 'MMM d, yyyy h:mm a')}`
+                    : request.reviewNote || 'You can ask another hospital or use an invite code.'}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="card-elevated">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <KeyRound className="w-5 h-5" />
+              Have an invite code?
+            </CardTitle>
+            <CardDescription>Codes from your hospital administrator grant access straight away</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleRedeem} className="flex gap-2">
+              <Input
+                placeholder="INV-XXXX-XXXX"
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                className="font-mono"
+                required
+              />
+              <Button type="submit" disabled={submitting || !inviteCode.trim()}>
+                Join
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="card-elevated">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Send className="w-5 h-5" />
+              {isPending ? 'Ask a different hospital' : 'Request access'}
+            </CardTitle>
+            <CardDescription>An administrator will confirm that you work there</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleRequest} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="membership-hospital">Hospital</Label>
+                <Select value={hospitalId} onValueChange={setHospitalId}>
+                  <SelectTrigger id="membership-hospital">
+                    <SelectValue placeholder="Select your hospital" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {hospitals.map((hospital) => (
+                      <SelectItem key={hospital.id} value={hospital.id}>
+                        {hospital.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="membership-message">Note for the administrator (optional)</Label>
+                <Textarea
+                  id="membership-message"
+                  placeholder="e.g., Cardiology registrar, staff number 4821"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  rows={2}
+                  maxLength={500}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={submitting || !hospitalId}>
+                {submitting ? 'Sending...' : 'Send request'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Button variant="ghost" className="w-full gap-2" onClick={logout}>
+          <LogOut className="w-4 h-4" />
+          Sign out
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PendingVerification;
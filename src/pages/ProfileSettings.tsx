@@ -9,33 +9,13 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Loader2, Save, User, Shield, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Loader2, Save, User, Shield, ShieldCheck, ShieldOff, Bell, BellOff, BellRing, KeyRound, Plus, Smartphone } from 'lucide-react';
 import { toast } from 'sonner';
-import { TwoFactorSetup, TwoFactorDisable } from '@/components/TwoFactorSetup';
+import { TwoFactorSetup, TwoFactorDisable, RecoveryCodesDialog } from '@/components/TwoFactorSetup';
+import ActiveSessions from '@/components/ActiveSessions';
 import { useMFA } from '@/hooks/useMFA';
-
-const SPECIALTIES = [
-  'Cardiology',
-  'Neurology',
-  'Orthopedics',
-  'Pediatrics',
-  'Oncology',
-  'Dermatology',
-  'Psychiatry',
-  'Radiology',
-  'Emergency Medicine',
-  'Internal Medicine',
-  'General Surgery',
-  'Ophthalmology',
-  'ENT',
-  'Gastroenterology',
-  'Pulmonology',
-  'Nephrology',
-  'Endocrinology',
-  'Rheumatology',
-  'Urology',
-  'Obstetrics & Gynecology',
-];
+import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { SPECIALTIES } from '@/lib/specialties';
 
 const AVAILABILITY_OPTIONS = [
   { value: 'available', label: 'Available', description: 'Accepting new referrals' },
@@ -61,12 +41,20 @@ interface ProfileData {
 }
 
 const ProfileSettings = () => {
-  const { currentUser } = useAuth();
+  const { currentUser, refreshProfile } = useAuth();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [showMfaSetup, setShowMfaSetup] = useState(false);
-  const [showMfaDisable, setShowMfaDisable] = useState(false);
-  const { isEnabled: mfaEnabled, factors, loading: mfaLoading, refresh: refreshMfa } = useMFA();
+  const [removeFactorId, setRemoveFactorId] = useState<string | null>(null);
+  const [showRecoveryCodes, setShowRecoveryCodes] = useState(false);
+  const {
+    isEnabled: mfaEnabled,
+    factors,
+    loading: mfaLoading,
+    recoveryCodesRemaining,
+    refresh: refreshMfa,
+  } = useMFA();
+  const push = usePushNotifications();
   const [profile, setProfile] = useState<ProfileData>({
     full_name: '',
     email: '',
@@ -84,6 +72,11 @@ const ProfileSettings = () => {
     }
   }, [currentUser?.id]);
 
+  // Enrolment feeds the MFA policy check in the profile as well as this page
+  const handleMfaChanged = async () => {
+    await Promise.all([refreshMfa(), refreshProfile()]);
+  };
+
   const fetchProfile = async () => {
     try {
       const { data, error } = await supabase
@@ -358,13 +351,9 @@ const ProfileSettings = () => {
                 {mfaLoading ? (
                   <Loader2 className="w-4 h-4 animate-spin" />
                 ) : mfaEnabled ? (
-                  <Button
-                    variant="outline"
-                    onClick={() => setShowMfaDisable(true)}
-                    className="text-destructive hover:text-destructive"
-                  >
-                    <ShieldOff className="w-4 h-4 mr-2" />
-                    Disable
+                  <Button variant="outline" onClick={() => setShowMfaSetup(true)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add backup device
                   </Button>
                 ) : (
                   <Button onClick={() => setShowMfaSetup(true)}>
@@ -373,6 +362,100 @@ const ProfileSettings = () => {
                   </Button>
                 )}
               </div>
+
+              {mfaEnabled && (
+                <div className="mt-3 space-y-3">
+                  {factors.map(factor => (
+                    <div key={factor.id} className="flex items-center justify-between gap-3 px-4 py-3 border rounded-lg">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <Smartphone className="w-4 h-4 text-muted-foreground shrink-0" />
+                        <p className="text-sm font-medium text-foreground truncate">
+                          {factor.friendly_name || 'Authenticator'}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRemoveFactorId(factor.id)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <ShieldOff className="w-4 h-4 mr-2" />
+                        Remove
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between gap-3 px-4 py-3 border rounded-lg">
+                    <div className="flex items-center gap-3">
+                      <KeyRound className="w-4 h-4 text-muted-foreground shrink-0" />
+                      <p className="text-sm text-foreground">
+                        {recoveryCodesRemaining > 0
+                          ? `${recoveryCodesRemaining} unused recovery ${recoveryCodesRemaining === 1 ? 'code' : 'codes'}`
+                          : 'No recovery codes left'}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => setShowRecoveryCodes(true)}>
+                      Create new codes
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Security - Devices & Sessions */}
+          <ActiveSessions />
+
+          {/* Notifications - Web Push */}
+          <Card className="card-elevated">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Bell className="w-5 h-5" />
+                Notifications
+              </CardTitle>
+              <CardDescription>Get referral alerts on this device even when the app is closed</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  {push.subscribed ? (
+                    <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+                      <BellRing className="w-5 h-5 text-primary" />
+                    </div>
+                  ) : (
+                    <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center">
+                      <BellOff className="w-5 h-5 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div>
+                    <p className="font-medium text-foreground">Push Notifications</p>
+                    <p className="text-sm text-muted-foreground">
+                      {!push.supported
+                        ? 'This browser does not support push notifications'
+                        : push.permission === 'denied'
+                        ? 'Notifications are blocked; allow them in your browser settings'
+                        : push.subscribed
+                        ? 'New referrals and status changes are pushed to this device'
+                        : 'Receive new referrals and status changes as system notifications'}
+                    </p>
+                  </div>
+                </div>
+                {push.loading ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : push.subscribed ? (
+                  <Button variant="outline" onClick={push.unsubscribe}>
+                    <BellOff className="w-4 h-4 mr-2" />
+                    Disable
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={push.subscribe}
+                    disabled={!push.supported || push.permission === 'denied'}
+                  >
+                    <Bell className="w-4 h-4 mr-2" />
+                    Enable
+                  </Button>
+                )}
+              </div>
             </CardContent>
           </Card>
 
@@ -393,18 +476,26 @@ const ProfileSettings = () => {
         <TwoFactorSetup
           open={showMfaSetup}
           onOpenChange={setShowMfaSetup}
-          onComplete={refreshMfa}
+          onComplete={handleMfaChanged}
+          backup={mfaEnabled}
         />
 
-        {/* 2FA Disable Dialog */}
-        {factors[0] && (
+        {/* 2FA Remove Device Dialog */}
+        {removeFactorId && (
           <TwoFactorDisable
-            open={showMfaDisable}
-            onOpenChange={setShowMfaDisable}
-            factorId={factors[0].id}
-            onDisabled={refreshMfa}
+            open={!!removeFactorId}
+            onOpenChange={(open) => !open && setRemoveFactorId(null)}
+            factorId={removeFactorId}
+            deviceName={factors.length > 1 ? factors.find(f => f.id === removeFactorId)?.friendly_name || 'this device' : undefined}
+            onDisabled={handleMfaChanged}
           />
         )}
+
+        <RecoveryCodesDialog
+          open={showRecoveryCodes}
+          onOpenChange={setShowRecoveryCodes}
+          onGenerated={refreshMfa}
+        />
       </main>
     </div>
   );
@@ -1,20 +1,28 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useReferrals } from '@/hooks/useReferrals';
 import { useReferralAttachments } from '@/hooks/useReferralAttachments';
 import { useReferralMessages } from '@/hooks/useReferralMessages';
+import { useReferralTransitions } from '@/hooks/useReferralTransitions';
+import { useReferralChain } from '@/hooks/useReferralChain';
+import { useCanAssignReferral } from '@/hooks/useCanAssignReferral';
+import { useHospitals } from '@/hooks/useHospitals';
 import Navigation from '@/components/Navigation';
 import { StatusBadge, UrgencyBadge } from '@/components/StatusBadge';
 import ActivityTimeline from '@/components/ActivityTimeline';
 import { FileUploadZone } from '@/components/FileUploadZone';
 import { AttachmentsList } from '@/components/AttachmentsList';
 import { ReferralChat } from '@/components/ReferralChat';
+import { AssignReferralDialog } from '@/components/AssignReferralDialog';
+import AccessHistory from '@/components/AccessHistory';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   ArrowLeft, 
   Building2, 
@@ -29,28 +37,136 @@ import {
   Paperclip,
   MessageCircle,
   Printer,
-  Download
+  Download,
+  Stethoscope,
+  Send,
+  Forward,
+  UserPlus,
+  Eye,
+  LucideIcon
 } from 'lucide-react';
 import { generateReferralPDF } from '@/utils/pdfGenerator';
+import { logPhiAccess } from '@/lib/phiAccess';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
+import { ReferralStatus, StatusTransition } from '@/types/referral';
+import { hasPermission } from '@/lib/permissions';
+
+interface TransitionAction {
+  label: string;
+  icon: LucideIcon;
+  variant: 'default' | 'outline' | 'destructive';
+  className?: string;
+  // Actions with a dialog collect notes; the rest run immediately
+  dialog?: {
+    title: string;
+    description: string;
+    placeholder: string;
+  };
+  defaultDetails?: string;
+}
+
+const transitionActions: Record<ReferralStatus, TransitionAction> = {
+  accepted: {
+    label: 'Accept Referral',
+    icon: CheckCircle,
+    variant: 'default',
+  },
+  more_info_requested: {
+    label: 'Request More Info',
+    icon: MessageSquare,
+    variant: 'outline',
+    dialog: {
+      title: 'Request Additional Information',
+      description: 'What additional information do you need?',
+      placeholder: 'Information needed...',
+    },
+  },
+  rejected: {
+    label: 'Reject Referral',
+    icon: XCircle,
+    variant: 'destructive',
+    dialog: {
+      title: 'Reject Referral',
+      description: 'Please provide a reason for rejecting this referral.',
+      placeholder: 'Reason for rejection...',
+    },
+  },
+  pending: {
+    label: 'Resubmit Referral',
+    icon: Send,
+    variant: 'default',
+    dialog: {
+      title: 'Resubmit Referral',
+      description: 'Describe the information you have provided. The referral will return to pending.',
+      placeholder: 'Information provided...',
+    },
+  },
+  in_treatment: {
+    label: 'Start Treatment',
+    icon: Stethoscope,
+    variant: 'default',
+    defaultDetails: 'Treatment started',
+  },
+  completed: {
+    label: 'Mark as Complete',
+    icon: CheckCircle,
+    variant: 'default',
+    className: 'bg-success hover:bg-success/90',
+    dialog: {
+      title: 'Complete Treatment',
+      description: 'Add any notes about the completed treatment. A unique patient code will be generated.',
+      placeholder: 'Treatment notes...',
+    },
+  },
+};
+
+// Statuses in which the receiving hospital may still hand the patient on
+const forwardableStatuses: ReferralStatus[] = ['pending', 'more_info_requested', 'accepted'];
 
 const ReferralDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { currentUser } = useAuth();
-  const { getReferralById, updateReferralStatus, loading } = useReferrals();
+  const { getReferralById, updateReferralStatus, forwardReferral, assignReferral, loading } = useReferrals();
+  const { hospitals } = useHospitals();
   const { attachments, loading: attachmentsLoading, uploading, uploadFile, deleteAttachment, getDownloadUrl } = useReferralAttachments(id);
   const { messages, loading: messagesLoading, sending, sendMessage } = useReferralMessages(id);
   
   const [actionReason, setActionReason] = useState('');
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [currentAction, setCurrentAction] = useState<'accept' | 'reject' | 'more_info' | 'complete' | null>(null);
+  const [currentAction, setCurrentAction] = useState<StatusTransition | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [forwardOpen, setForwardOpen] = useState(false);
+  const [forwardHospitalId, setForwardHospitalId] = useState('');
+  const [forwardReason, setForwardReason] = useState('');
+  const [assignOpen, setAssignOpen] = useState(false);
+
+  const referral = id ? getReferralById(id) : undefined;
+  const { transitions, refetch: refetchTransitions } = useReferralTransitions(id, referral?.status);
+  const { chain } = useReferralChain(id, referral?.status);
+  const canAssign = useCanAssignReferral(id, referral?.status);
+  const loggedViewRef = useRef<string | null>(null);
+  const [viewRecordedFor, setViewRecordedFor] = useState<string | null>(null);
+  const [viewLogFailed, setViewLogFailed] = useState(false);
+
+  const recordView = useCallback(async (referralId: string) => {
+    setViewLogFailed(false);
+    if (await logPhiAccess(referralId, 'view')) {
+      setViewRecordedFor(referralId);
+    } else {
+      setViewLogFailed(true);
+    }
+  }, []);
 
-  if (!currentUser || !id) return null;
+  // One access record per referral opened; patient data stays hidden until it is written
+  useEffect(() => {
+    if (!referral?.id || loggedViewRef.current === referral.id) return;
+    loggedViewRef.current = referral.id;
+    recordView(referral.id);
+  }, [referral?.id, recordView]);
 
-  const referral = getReferralById(id);
+  if (!currentUser || !id) return null;
 
   if (loading) {
     return (
@@ -83,43 +199,90 @@ const ReferralDetail = () => {
     );
   }
 
-  const isReceivingHospital = referral.toHospitalId === currentUser.hospital_id;
-  const canTakeAction = isReceivingHospital && (referral.status === 'pending' || referral.status === 'accepted' || referral.status === 'in_treatment');
+  if (viewRecordedFor !== referral.id) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        {viewLogFailed ? (
+          <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            <Card className="card-elevated">
+              <CardContent className="py-12 text-center">
+                <AlertTriangle className="w-12 h-12 mx-auto mb-3 text-warning" />
+                <p className="text-lg font-medium text-foreground">Access could not be recorded</p>
+                <p className="text-muted-foreground">Patient data is only shown once this view is in the access log.</p>
+                <Button onClick={() => recordView(referral.id)} className="mt-4">
+                  Try Again
+                </Button>
+              </CardContent>
+            </Card>
+          </main>
+        ) : (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        )}
+      </div>
+    );
+  }
 
-  const handleAction = async (action: 'accept' | 'reject' | 'more_info' | 'complete') => {
-    setCurrentAction(action);
-    if (action === 'accept') {
-      setIsUpdating(true);
-      await updateReferralStatus(referral.id, 'accepted');
-      setIsUpdating(false);
-    } else {
+  const currentActionConfig = currentAction ? transitionActions[currentAction.toStatus] : null;
+  const canForward = forwardableStatuses.includes(referral.status)
+    && (hasPermission(currentUser, 'system.manage')
+      || (hasPermission(currentUser, 'referrals.triage') && referral.toHospitalId === currentUser.hospital_id));
+  const forwardTargets = hospitals.filter(
+    h => h.id !== referral.fromHospitalId && h.id !== referral.toHospitalId
+  );
+
+  const runTransition = async (transition: StatusTransition, details?: string) => {
+    setIsUpdating(true);
+    const { error } = await updateReferralStatus(referral.id, transition.toStatus, details);
+    setIsUpdating(false);
+    // Whatever happened, the server's view of what is allowed may have changed
+    refetchTransitions();
+    return !error;
+  };
+
+  const handleAction = async (transition: StatusTransition) => {
+    const action = transitionActions[transition.toStatus];
+    if (action.dialog) {
+      setCurrentAction(transition);
       setDialogOpen(true);
+    } else {
+      await runTransition(transition, action.defaultDetails);
     }
   };
 
   const confirmAction = async () => {
     if (!currentAction) return;
 
-    setIsUpdating(true);
-
-    switch (currentAction) {
-      case 'reject':
-        await updateReferralStatus(referral.id, 'rejected', actionReason);
-        break;
-      case 'more_info':
-        await updateReferralStatus(referral.id, 'more_info_requested', actionReason);
-        break;
-      case 'complete':
-        await updateReferralStatus(referral.id, 'completed', actionReason);
-        break;
-    }
+    const succeeded = await runTransition(currentAction, actionReason);
+    if (!succeeded) return;
 
-    setIsUpdating(false);
     setDialogOpen(false);
     setActionReason('');
     setCurrentAction(null);
   };
 
+  const confirmForward = async () => {
+    setIsUpdating(true);
+    const { referralId: forwardedId } = await forwardReferral(referral.id, forwardHospitalId, forwardReason);
+    setIsUpdating(false);
+    if (!forwardedId) {
+      refetchTransitions();
+      return;
+    }
+
+    setForwardOpen(false);
+    setForwardHospitalId('');
+    setForwardReason('');
+    navigate(`/referral/${forwardedId}`);
+  };
+
+  const confirmAssign = async (assigneeId: string, reason: string) => {
+    const { error } = await assignReferral(referral.id, assigneeId, reason);
+    return !error;
+  };
+
   const copyPatientCode = () => {
     if (referral.patientCode) {
       navigator.clipboard.writeText(referral.patientCode);
@@ -127,12 +290,6 @@ const ReferralDetail = () => {
     }
   };
 
-  const startTreatment = async () => {
-    setIsUpdating(true);
-    await updateReferralStatus(referral.id, 'in_treatment', 'Treatment started');
-    setIsUpdating(false);
-  };
-
   const handleFilesSelected = async (files: File[]) => {
     for (const file of files) {
       await uploadFile(file);
@@ -146,12 +303,18 @@ const ReferralDetail = () => {
     }
   };
 
-  const handlePrint = () => {
+  const handlePrint = async () => {
+    // Opened before the await so the popup still counts as part of the click
     const printWindow = window.open('', '_blank');
     if (!printWindow) {
       toast.error('Please allow popups to print the referral');
       return;
     }
+    if (!(await logPhiAccess(referral.id, 'print'))) {
+      printWindow.close();
+      toast.error('Access could not be recorded, so the referral was not printed');
+      return;
+    }
 
     const printContent = `
       <!DOCTYPE html>
@@ -295,8 +458,8 @@ const ReferralDetail = () => {
           <div className="flex items-center gap-2">
             <Button
               variant="outline"
-              onClick={() => {
-                generateReferralPDF({
+              onClick={async () => {
+                const exported = await generateReferralPDF({
                   id: referral.id,
                   patientName: referral.patient.name,
                   patientAge: referral.patient.age,
@@ -312,8 +475,15 @@ const ReferralDetail = () => {
                   createdAt: typeof referral.createdAt === 'string' ? referral.createdAt : referral.createdAt.toISOString(),
                   rejectionReason: referral.rejectionReason,
                   assignedDoctorName: referral.assignedDoctorName,
-                }, referral.activityLog?.map(log => ({ ...log, created_at: log.timestamp.toISOString() })));
-                toast.success('PDF downloaded successfully');
+                },
+                referral.activityLog?.map(log => ({ ...log, created_at: log.timestamp.toISOString() })),
+                chain.map(link => ({ ...link, createdAt: link.createdAt.toISOString() }))
+                );
+                if (exported) {
+                  toast.success('PDF downloaded successfully');
+                } else {
+                  toast.error('Access could not be recorded, so the PDF was not created');
+                }
               }}
             >
               <Download className="w-4 h-4 mr-2" />
@@ -342,6 +512,7 @@ const ReferralDetail = () => {
                 <CardTitle className="text-xl">{referral.patient.name}</CardTitle>
                 <CardDescription>
                   {referral.patient.age} years old • {referral.specialty}
+                  {referral.departmentName && ` • ${referral.departmentName}`}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -408,7 +579,7 @@ const ReferralDetail = () => {
             <Card className="card-elevated">
               <Tabs defaultValue="attachments" className="w-full">
                 <CardHeader className="pb-0">
-                  <TabsList className="grid w-full grid-cols-2">
+                  <TabsList className="grid w-full grid-cols-3">
                     <TabsTrigger value="attachments" className="flex items-center gap-2">
                       <Paperclip className="w-4 h-4" />
                       Attachments ({attachments.length})
@@ -417,6 +588,10 @@ const ReferralDetail = () => {
                       <MessageCircle className="w-4 h-4" />
                       Messages ({messages.length})
                     </TabsTrigger>
+                    <TabsTrigger value="access" className="flex items-center gap-2">
+                      <Eye className="w-4 h-4" />
+                      Access history
+                    </TabsTrigger>
                   </TabsList>
                 </CardHeader>
                 <CardContent className="pt-4">
@@ -444,6 +619,9 @@ const ReferralDetail = () => {
                       onSendMessage={sendMessage}
                     />
                   </TabsContent>
+                  <TabsContent value="access" className="mt-0">
+                    <AccessHistory referralId={referral.id} />
+                  </TabsContent>
                 </CardContent>
               </Tabs>
             </Card>
@@ -451,7 +629,11 @@ const ReferralDetail = () => {
             {/* Activity Log */}
             <Card className="card-elevated">
               <CardContent className="pt-6">
-                <ActivityTimeline activities={referral.activityLog} />
+                <ActivityTimeline
+                  activities={referral.activityLog}
+                  chain={chain}
+                  currentReferralId={referral.id}
+                />
               </CardContent>
             </Card>
           </div>
@@ -517,60 +699,48 @@ const ReferralDetail = () => {
             </Card>
 
             {/* Actions */}
-            {canTakeAction && (
+            {(transitions.length > 0 || canForward || canAssign) && (
               <Card className="card-elevated">
                 <CardHeader>
                   <CardTitle className="text-lg">Actions</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-2">
-                  {referral.status === 'pending' && (
-                    <>
-                      <Button 
-                        className="w-full" 
-                        onClick={() => handleAction('accept')}
+                  {transitions.map((transition) => {
+                    const action = transitionActions[transition.toStatus];
+                    const Icon = action.icon;
+                    return (
+                      <Button
+                        key={transition.toStatus}
+                        variant={action.variant}
+                        className={`w-full ${action.className || ''}`}
+                        onClick={() => handleAction(transition)}
                         disabled={isUpdating}
                       >
-                        {isUpdating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
-                        Accept Referral
+                        {isUpdating && !action.dialog ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Icon className="w-4 h-4 mr-2" />}
+                        {action.label}
                       </Button>
-                      <Button 
-                        variant="outline" 
-                        className="w-full"
-                        onClick={() => handleAction('more_info')}
-                        disabled={isUpdating}
-                      >
-                        <MessageSquare className="w-4 h-4 mr-2" />
-                        Request More Info
-                      </Button>
-                      <Button 
-                        variant="destructive" 
-                        className="w-full"
-                        onClick={() => handleAction('reject')}
-                        disabled={isUpdating}
-                      >
-                        <XCircle className="w-4 h-4 mr-2" />
-                        Reject Referral
-                      </Button>
-                    </>
-                  )}
-                  {referral.status === 'accepted' && (
-                    <Button 
-                      className="w-full" 
-                      onClick={startTreatment}
+                    );
+                  })}
+                  {canAssign && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => setAssignOpen(true)}
                       disabled={isUpdating}
                     >
-                      {isUpdating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
-                      Start Treatment
+                      <UserPlus className="w-4 h-4 mr-2" />
+                      {referral.assignedDoctorId ? 'Reassign Doctor' : 'Assign Doctor'}
                     </Button>
                   )}
-                  {referral.status === 'in_treatment' && (
-                    <Button 
-                      className="w-full bg-success hover:bg-success/90" 
-                      onClick={() => handleAction('complete')}
+                  {canForward && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => setForwardOpen(true)}
                       disabled={isUpdating}
                     >
-                      {isUpdating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
-                      Mark as Complete
+                      <Forward className="w-4 h-4 mr-2" />
+                      Forward to Another Hospital
                     </Button>
                   )}
                 </CardContent>
@@ -583,25 +753,11 @@ const ReferralDetail = () => {
         <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>
-                {currentAction === 'reject' && 'Reject Referral'}
-                {currentAction === 'more_info' && 'Request Additional Information'}
-                {currentAction === 'complete' && 'Complete Treatment'}
-              </DialogTitle>
-              <DialogDescription>
-                {currentAction === 'reject' && 'Please provide a reason for rejecting this referral.'}
-                {currentAction === 'more_info' && 'What additional information do you need?'}
-                {currentAction === 'complete' && 'Add any notes about the completed treatment. A unique patient code will be generated.'}
-              </DialogDescription>
+              <DialogTitle>{currentActionConfig?.dialog?.title}</DialogTitle>
+              <DialogDescription>{currentActionConfig?.dialog?.description}</DialogDescription>
             </DialogHeader>
             <Textarea
-              placeholder={
-                currentAction === 'reject' 
-                  ? 'Reason for rejection...' 
-                  : currentAction === 'more_info'
-                  ? 'Information needed...'
-                  : 'Treatment notes...'
-              }
+              placeholder={currentActionConfig?.dialog?.placeholder}
               value={actionReason}
               onChange={(e) => setActionReason(e.target.value)}
               rows={4}
@@ -612,8 +768,8 @@ const ReferralDetail = () => {
               </Button>
               <Button 
                 onClick={confirmAction}
-                variant={currentAction === 'reject' ? 'destructive' : 'default'}
-                disabled={isUpdating}
+                variant={currentAction?.toStatus === 'rejected' ? 'destructive' : 'default'}
+                disabled={isUpdating || (currentAction?.requiresReason && !actionReason.trim())}
               >
                 {isUpdating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
                 Confirm
@@ -621,6 +777,62 @@ const ReferralDetail = () => {
             </div>
           </DialogContent>
         </Dialog>
+
+        <AssignReferralDialog
+          referral={referral}
+          open={assignOpen}
+          onOpenChange={setAssignOpen}
+          onAssign={confirmAssign}
+        />
+
+        {/* Forward Dialog */}
+        <Dialog open={forwardOpen} onOpenChange={setForwardOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Forward to Another Hospital</DialogTitle>
+              <DialogDescription>
+                A new referral is sent with this referral's summary, attachments and messages.
+                This referral will be closed as forwarded.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label>Receiving hospital</Label>
+              <Select value={forwardHospitalId} onValueChange={setForwardHospitalId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a hospital" />
+                </SelectTrigger>
+                <SelectContent>
+                  {forwardTargets.map(hospital => (
+                    <SelectItem key={hospital.id} value={hospital.id}>
+                      {hospital.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Reason for forwarding</Label>
+              <Textarea
+                placeholder="Why this patient is being forwarded..."
+                value={forwardReason}
+                onChange={(e) => setForwardReason(e.target.value)}
+                rows={4}
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setForwardOpen(false)} disabled={isUpdating}>
+                Cancel
+              </Button>
+              <Button
+                onClick={confirmForward}
+                disabled={isUpdating || !forwardHospitalId || !forwardReason.trim()}
+              >
+                {isUpdating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+                Forward Referral
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
       </main>
     </div>
   );
@@ -1,37 +1,49 @@
+import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useReferrals } from '@/hooks/useReferrals';
+import { useHospitals } from '@/hooks/useHospitals';
+import {
+  useReferralList,
+  useReferralStatusCounts,
+  emptyReferralListFilters,
+  ReferralListFilters as Filters,
+} from '@/hooks/useReferralList';
 import Navigation from '@/components/Navigation';
-import ReferralCard from '@/components/ReferralCard';
+import { ReferralListFilters } from '@/components/ReferralListFilters';
+import { ReferralInfiniteList } from '@/components/ReferralInfiniteList';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { FileText, Send, Loader2 } from 'lucide-react';
+import { FileText, Send } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { ReferralStatus } from '@/types/referral';
+
+type SentTab = 'all' | 'pending' | 'active' | 'completed';
+
+const TAB_STATUSES: Record<SentTab, ReferralStatus[] | null> = {
+  all: null,
+  pending: ['pending', 'more_info_requested'],
+  active: ['accepted', 'in_treatment'],
+  completed: ['completed', 'rejected'],
+};
+
+const EMPTY_MESSAGES: Record<SentTab, string | undefined> = {
+  all: undefined,
+  pending: 'No pending referrals',
+  active: 'No active referrals',
+  completed: 'No completed referrals',
+};
 
 const SentReferrals = () => {
   const { currentUser } = useAuth();
-  const { referrals, loading } = useReferrals();
+  const { hospitals } = useHospitals();
+  const [tab, setTab] = useState<SentTab>('all');
+  const [filters, setFilters] = useState<Filters>(emptyReferralListFilters);
+  const { referrals, loading, loadingMore, hasMore, loadMore } = useReferralList('sent', TAB_STATUSES[tab], filters);
+  const { countOf } = useReferralStatusCounts('sent', filters);
 
   if (!currentUser) return null;
 
-  const sentReferrals = referrals
-    .filter(r => r.fromHospitalId === currentUser.hospital_id)
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-
-  const pendingReferrals = sentReferrals.filter(r => r.status === 'pending' || r.status === 'more_info_requested');
-  const activeReferrals = sentReferrals.filter(r => r.status === 'accepted' || r.status === 'in_treatment');
-  const completedReferrals = sentReferrals.filter(r => r.status === 'completed' || r.status === 'rejected');
-
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-background">
-        <Navigation />
-        <div className="flex items-center justify-center py-20">
-          <Loader2 className="w-8 h-8 animate-spin text-primary" />
-        </div>
-      </div>
-    );
-  }
+  const destinationHospitals = hospitals.filter(h => h.id !== currentUser.hospital_id);
 
   return (
     <div className="min-h-screen bg-background">
@@ -51,52 +63,34 @@ const SentReferrals = () => {
           </Link>
         </div>
 
-        <Tabs defaultValue="all" className="space-y-4">
+        <div className="mb-4">
+          <ReferralListFilters
+            filters={filters}
+            onChange={(changes) => setFilters(prev => ({ ...prev, ...changes }))}
+            onClear={() => setFilters(emptyReferralListFilters)}
+            hospitals={destinationHospitals}
+            hospitalLabel="Destination"
+          />
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as SentTab)} className="space-y-4">
           <TabsList>
-            <TabsTrigger value="all">All ({sentReferrals.length})</TabsTrigger>
-            <TabsTrigger value="pending">Pending ({pendingReferrals.length})</TabsTrigger>
-            <TabsTrigger value="active">Active ({activeReferrals.length})</TabsTrigger>
-            <TabsTrigger value="completed">Completed ({completedReferrals.length})</TabsTrigger>
+            <TabsTrigger value="all">All ({countOf(TAB_STATUSES.all)})</TabsTrigger>
+            <TabsTrigger value="pending">Pending ({countOf(TAB_STATUSES.pending)})</TabsTrigger>
+            <TabsTrigger value="active">Active ({countOf(TAB_STATUSES.active)})</TabsTrigger>
+            <TabsTrigger value="completed">Completed ({countOf(TAB_STATUSES.completed)})</TabsTrigger>
           </TabsList>
 
-          <TabsContent value="all" className="space-y-4">
-            {sentReferrals.length > 0 ? (
-              sentReferrals.map(referral => (
-                <ReferralCard key={referral.id} referral={referral} showFromHospital={false} />
-              ))
-            ) : (
-              <EmptyState />
-            )}
-          </TabsContent>
-
-          <TabsContent value="pending" className="space-y-4">
-            {pendingReferrals.length > 0 ? (
-              pendingReferrals.map(referral => (
-                <ReferralCard key={referral.id} referral={referral} showFromHospital={false} />
-              ))
-            ) : (
-              <EmptyState message="No pending referrals" />
-            )}
-          </TabsContent>
-
-          <TabsContent value="active" className="space-y-4">
-            {activeReferrals.length > 0 ? (
-              activeReferrals.map(referral => (
-                <ReferralCard key={referral.id} referral={referral} showFromHospital={false} />
-              ))
-            ) : (
-              <EmptyState message="No active referrals" />
-            )}
-          </TabsContent>
-
-          <TabsContent value="completed" className="space-y-4">
-            {completedReferrals.length > 0 ? (
-              completedReferrals.map(referral => (
-                <ReferralCard key={referral.id} referral={referral} showFromHospital={false} />
-              ))
-            ) : (
-              <EmptyState message="No completed referrals" />
-            )}
+          <TabsContent value={tab}>
+            <ReferralInfiniteList
+              referrals={referrals}
+              loading={loading}
+              loadingMore={loadingMore}
+              hasMore={hasMore}
+              onLoadMore={loadMore}
+              showFromHospital={false}
+              emptyState={<EmptyState message={EMPTY_MESSAGES[tab]} />}
+            />
           </TabsContent>
         </Tabs>
       </main>
@@ -8,6 +8,38 @@ export type ReferralStatus =
   | 'rejected' 
   | 'completed';
 
+export interface StatusTransition {
+  toStatus: ReferralStatus;
+  requiresReason: boolean;
+}
+
+export type StatusTransitionErrorCode =
+  | 'not_authenticated'
+  | 'not_found'
+  | 'forbidden'
+  | 'invalid_transition'
+  | 'reason_required'
+  | 'capacity_full'
+  | 'invalid_assignee'
+  | 'unknown';
+
+export interface StatusTransitionError {
+  code: StatusTransitionErrorCode;
+  message: string;
+}
+
+// One referral in a forwarding chain, as returned by get_referral_chain
+export interface ReferralChainLink {
+  id: string;
+  parentReferralId?: string;
+  fromHospitalName: string;
+  toHospitalName: string;
+  status: ReferralStatus;
+  reason: string;
+  createdAt: Date;
+  depth: number;
+}
+
 export interface Hospital {
   id: string;
   name: string;
@@ -63,6 +95,9 @@ export interface Referral {
   updatedAt: Date;
   completedAt?: Date;
   rejectionReason?: string;
+  parentReferralId?: string;
+  departmentId?: string;
+  departmentName?: string;
   moreInfoRequest?: string;
   activityLog: ActivityLog[];
 }
@@ -1,5 +1,6 @@
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
+import { logPhiAccess } from '@/lib/phiAccess';
 
 interface ReferralForPDF {
   id: string;
@@ -26,6 +27,14 @@ interface ActivityLog {
   performed_by_name?: string;
 }
 
+interface ReferralChainEntry {
+  id: string;
+  fromHospitalName: string;
+  toHospitalName: string;
+  status: string;
+  createdAt: string;
+}
+
 // Extend jsPDF type for autoTable
 declare module 'jspdf' {
   interface jsPDF {
@@ -77,10 +86,15 @@ const getStatusText = (status: string): string => {
   return statusMap[status] || status;
 };
 
-export const generateReferralPDF = (
+// Resolves false, without creating a file, when the export could not be recorded
+export const generateReferralPDF = async (
   referral: ReferralForPDF,
-  activityLogs?: ActivityLog[]
-): void => {
+  activityLogs?: ActivityLog[],
+  chain?: ReferralChainEntry[]
+): Promise<boolean> => {
+  // Every export of patient data lands in the PHI audit trail, whichever screen triggered it
+  if (!(await logPhiAccess(referral.id, 'pdf_export'))) return false;
+
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
   const margin = 20;
@@ -199,6 +213,44 @@ export const generateReferralPDF = (
   doc.text(formatDate(referral.createdAt), margin + 40, yPosition);
   yPosition += 15;
 
+  // Forwarding chain (only when the referral was forwarded or forwarded on)
+  if (chain && chain.length > 1) {
+    doc.setTextColor(20, 128, 122);
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Referral Chain', margin, yPosition);
+    yPosition += 8;
+
+    doc.setDrawColor(20, 128, 122);
+    doc.line(margin, yPosition, pageWidth - margin, yPosition);
+    yPosition += 5;
+
+    doc.autoTable({
+      startY: yPosition,
+      head: [['#', 'From', 'To', 'Status', 'Date']],
+      body: chain.map((link, index) => [
+        link.id === referral.id ? `${index + 1} (this)` : `${index + 1}`,
+        link.fromHospitalName,
+        link.toHospitalName,
+        getStatusText(link.status),
+        formatDate(link.createdAt),
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: [20, 128, 122] },
+      styles: { fontSize: 8, cellPadding: 3 },
+      columnStyles: {
+        0: { cellWidth: 18 },
+        1: { cellWidth: 45 },
+        2: { cellWidth: 45 },
+        3: { cellWidth: 30 },
+        4: { cellWidth: 32 },
+      },
+      margin: { left: margin, right: margin },
+    });
+
+    yPosition = (doc.lastAutoTable?.finalY || yPosition) + 15;
+  }
+
   // Medical Summary Section
   doc.setTextColor(20, 128, 122);
   doc.setFontSize(14);
@@ -322,9 +374,15 @@ export const generateReferralPDF = (
 
   // Save the PDF
   doc.save(`referral-${referral.id.substring(0, 8)}.pdf`);
+  return true;
 };
 
-export const generateBatchReferralsPDF = (referrals: ReferralForPDF[]): void => {
+export const generateBatchReferralsPDF = async (referrals: ReferralForPDF[]): Promise<boolean> => {
+  const recorded = await Promise.all(
+    referrals.map(referral => logPhiAccess(referral.id, 'pdf_export', { details: { batch: true } }))
+  );
+  if (recorded.includes(false)) return false;
+
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
   const margin = 20;
@@ -394,4 +452,5 @@ export const generateBatchReferralsPDF = (referrals: ReferralForPDF[]): void =>
   }
 
   doc.save(`referrals-report-${new Date().toISOString().split('T')[0]}.pdf`);
+  return true;
 };
@@ -0,0 +1,62 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+interface BlockedIp {
+  id: string;
+  reason: string;
+  expires_at: string | null;
+}
+
+// Headers set by the edge proxy first. Clients can send their own x-forwarded-for, so only its last
+// hop, the one the proxy appended, is trusted.
+export function getClientIp(req: Request): string {
+  return req.headers.get("cf-connecting-ip")?.trim() ||
+    req.headers.get("x-real-ip")?.trim() ||
+    req.headers.get("x-forwarded-for")?.split(",").pop()?.trim() ||
+    "unknown";
+}
+
+// Active blocks only: lifted blocks have is_active off, temporary ones lapse at expires_at
+export async function findActiveBlock(supabase: SupabaseClient, ip: string): Promise<BlockedIp | null> {
+  if (ip === "unknown") return null;
+
+  const { data, error } = await supabase
+    .from("blocked_ips")
+    .select("id, reason, expires_at")
+    .eq("ip_address", ip)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) {
+    // A lookup failure must not take every function down with it
+    console.error("Error checking blocked IPs:", error);
+    return null;
+  }
+
+  if (!data || (data.expires_at && new Date(data.expires_at) <= new Date())) return null;
+  return data as BlockedIp;
+}
+
+// Returns the 403 to send back when the caller's IP is blocked, or null to carry on
+export async function rejectIfBlocked(
+  req: Request,
+  supabase: SupabaseClient,
+  corsHeaders: Record<string, string>,
+  functionName: string,
+): Promise<Response | null> {
+  const ip = getClientIp(req);
+  const block = await findActiveBlock(supabase, ip);
+  if (!block) return null;
+
+  console.warn(`Blocked IP ${ip} rejected by ${functionName}`);
+  await supabase.from("security_logs").insert({
+    event_type: "blocked_access",
+    ip_address: ip,
+    user_agent: req.headers.get("user-agent") || "unknown",
+    details: { function: functionName, reason: block.reason },
+  });
+
+  return new Response(
+    JSON.stringify({ error: "Access from your network has been blocked", blocked_until: block.expires_at }),
+    { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
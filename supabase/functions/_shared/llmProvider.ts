@@ -0,0 +1,219 @@
+// Chat completions behind one interface, so functions don't care which model service answers.
+//
+// Configured through env:
+//   LLM_PROVIDER      "openai" (default) for any OpenAI-compatible endpoint, or "stub" for canned
+//                     offline replies
+//   LLM_BASE_URL      defaults to the Lovable AI gateway
+//   LLM_API_KEY       falls back to LOVABLE_API_KEY
+//   LLM_MODEL         default model; LLM_MODEL_<MODE> (e.g. LLM_MODEL_DOCTOR) overrides it per mode
+//   LLM_TIMEOUT_MS    time allowed for the response to start, per attempt (default 30000)
+//   LLM_MAX_RETRIES   retries after a timeout, network error, 429 or 5xx (default 2)
+//   LLM_STUB_DELAY_MS pause between streamed stub chunks (default 20)
+
+export interface LlmMessage {
+  role: "user" | "assistant" | "system" | "tool";
+  content: string | null;
+  tool_calls?: { id: string; type: "function"; function: { name: string; arguments: string } }[];
+  tool_call_id?: string;
+}
+
+export interface LlmRequest {
+  // Picks the model; see LLM_MODEL_<MODE>
+  mode: string;
+  messages: LlmMessage[];
+  stream?: boolean;
+  tools?: LlmTool[];
+  // Naming a function forces the model to call it, which is how callers get structured output
+  tool_choice?: "auto" | "none" | { type: "function"; function: { name: string } };
+}
+
+export interface LlmTool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters: { type: "object"; properties: Record<string, unknown>; required?: string[] };
+  };
+}
+
+// Both providers answer with an OpenAI-shaped Response: an SSE body when streaming, JSON otherwise,
+// and the upstream status code on failure
+export interface LlmProvider {
+  name: string;
+  // The model configured for a mode; the response's own model field names the exact version
+  model(mode: string): string;
+  chat(request: LlmRequest): Promise<Response>;
+}
+
+const DEFAULT_BASE_URL = "https://ai.gateway.lovable.dev/v1";
+const DEFAULT_MODEL = "google/gemini-2.5-flash";
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function modelFor(mode: string): string {
+  return Deno.env.get(`LLM_MODEL_${mode.toUpperCase()}`) || Deno.env.get("LLM_MODEL") || DEFAULT_MODEL;
+}
+
+function openAiCompatibleProvider(): LlmProvider {
+  const baseUrl = (Deno.env.get("LLM_BASE_URL") || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const apiKey = Deno.env.get("LLM_API_KEY") || Deno.env.get("LOVABLE_API_KEY");
+  const timeoutMs = envNumber("LLM_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const maxRetries = envNumber("LLM_MAX_RETRIES", DEFAULT_MAX_RETRIES);
+
+  if (!apiKey) {
+    throw new Error("LLM_API_KEY is not configured");
+  }
+
+  return {
+    name: "openai",
+    model: modelFor,
+    async chat({ mode, ...request }) {
+      const body = JSON.stringify({ model: modelFor(mode), ...request });
+
+      for (let attempt = 0; ; attempt++) {
+        // The timeout covers the wait for headers only, so a long stream is never cut off
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        let response: Response | null = null;
+        let failure: unknown = null;
+
+        try {
+          response = await fetch(`${baseUrl}/chat/completions`, {
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${apiKey}`,
+              "Content-Type": "application/json",
+            },
+            body,
+            signal: controller.signal,
+          });
+        } catch (e) {
+          failure = e;
+        } finally {
+          clearTimeout(timer);
+        }
+
+        const retryable = response ? isRetryable(response.status) : true;
+        if ((response && !retryable) || attempt >= maxRetries) {
+          if (response) return response;
+          console.error("LLM request failed:", failure);
+          return new Response(JSON.stringify({ error: { message: "LLM request failed" } }), {
+            status: 504,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        // Drain the failed body so the connection can be reused, then back off
+        await response?.body?.cancel();
+        const retryAfter = Number(response?.headers.get("retry-after"));
+        await sleep(Number.isFinite(retryAfter) && retryAfter > 0
+          ? Math.min(retryAfter * 1000, 10_000)
+          : RETRY_BASE_DELAY_MS * 2 ** attempt);
+      }
+    },
+  };
+}
+
+// Deterministic replies for running the chat offline. A forced function call gets placeholder
+// arguments built from its schema. Otherwise, with tools on offer and no results yet for the latest
+// question, it calls search_referrals once so the tool loop gets exercised too.
+function stubProvider(): LlmProvider {
+  const delayMs = envNumber("LLM_STUB_DELAY_MS", 20);
+
+  const replyFor = (request: LlmRequest): string => {
+    const lastUser = [...request.messages].reverse().find(m => m.role === "user");
+    const toolResults = request.messages.filter(m => m.role === "tool");
+    const question = (lastUser?.content ?? "").replace(/\s+/g, " ").trim().slice(0, 80);
+    const lines = [`This is a stub reply in ${request.mode} mode.`, `You asked: "${question}".`];
+    if (toolResults.length > 0) {
+      lines.push(`I made ${toolResults.length} tool call${toolResults.length === 1 ? "" : "s"}.`);
+    }
+    return lines.join(" ");
+  };
+
+  const placeholderArguments = (tool: LlmTool | undefined): Record<string, unknown> =>
+    Object.fromEntries(Object.entries(tool?.function.parameters.properties ?? {}).map(([key, schema]) => [
+      key,
+      (schema as { type?: string }).type === "array" ? [] : `Stub ${key.replace(/_/g, " ")}`,
+    ]));
+
+  const toolCallResponse = (name: string, args: Record<string, unknown>) =>
+    Response.json({
+      model: "stub",
+      choices: [{
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [{
+            id: "stub-call-1",
+            type: "function",
+            function: { name, arguments: JSON.stringify(args) },
+          }],
+        },
+      }],
+    });
+
+  const needsToolCall = (request: LlmRequest): boolean => {
+    if (!request.tools?.length || request.tool_choice === "none") return false;
+    const lastUserIndex = request.messages.map(m => m.role).lastIndexOf("user");
+    return !request.messages.slice(lastUserIndex + 1).some(m => m.role === "tool");
+  };
+
+  return {
+    name: "stub",
+    model: () => "stub",
+    async chat(request) {
+      const forced = request.tool_choice;
+      if (typeof forced === "object") {
+        const tool = request.tools?.find(t => t.function.name === forced.function.name);
+        return toolCallResponse(forced.function.name, placeholderArguments(tool));
+      }
+      if (needsToolCall(request)) {
+        return toolCallResponse("search_referrals", { limit: 5 });
+      }
+
+      const reply = replyFor(request);
+      if (!request.stream) {
+        return Response.json({ model: "stub", choices: [{ message: { role: "assistant", content: reply } }] });
+      }
+
+      const encoder = new TextEncoder();
+      const chunks = reply.match(/\S+\s*/g) ?? [];
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: chunk } }] })}\n\n`));
+            if (delayMs) await sleep(delayMs);
+          }
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
+        },
+      });
+      return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+    },
+  };
+}
+
+export function createLlmProvider(): LlmProvider {
+  const name = Deno.env.get("LLM_PROVIDER") || "openai";
+  switch (name) {
+    case "openai":
+      return openAiCompatibleProvider();
+    case "stub":
+      return stubProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+}
@@ -0,0 +1,18 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Removes every authenticator the user has enrolled, and their recovery codes with them, so they
+// sign in with a password alone and can enrol again. Returns how many factors were removed.
+export async function removeMfaFactors(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await supabase.auth.admin.mfa.listFactors({ userId });
+  if (error) throw error;
+
+  for (const factor of data.factors) {
+    const { error: deleteError } = await supabase.auth.admin.mfa.deleteFactor({ id: factor.id, userId });
+    if (deleteError) throw deleteError;
+  }
+
+  const { error: codesError } = await supabase.from("mfa_recovery_codes").delete().eq("user_id", userId);
+  if (codesError) throw codesError;
+
+  return data.factors.length;
+}
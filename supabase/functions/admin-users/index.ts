@@ -0,0 +1,266 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { getClientIp, rejectIfBlocked } from "../_shared/ipGuard.ts";
+import { removeMfaFactors } from "../_shared/mfaFactors.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const roleSchema = z.enum(["admin", "hospital_admin", "doctor", "coordinator", "auditor"]);
+
+const requestSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("create"),
+    email: z.string().email().max(255),
+    full_name: z.string().trim().min(1).max(200),
+    hospital_id: z.string().uuid().nullable().optional(),
+    specialty: z.string().max(100).optional(),
+    role: roleSchema,
+    // Where the invite link lands; Supabase only honours URLs on the project's allow list
+    redirect_to: z.string().url().optional(),
+  }),
+  z.object({
+    action: z.enum(["deactivate", "reactivate", "reset_mfa"]),
+    user_id: z.string().uuid(),
+  }),
+  z.object({
+    action: z.literal("force_sign_out"),
+    user_id: z.string().uuid(),
+    // Where the password reset link lands
+    redirect_to: z.string().url().optional(),
+  }),
+]);
+
+// Long enough to be permanent until an admin reactivates the account
+const DEACTIVATED_BAN_DURATION = "876000h";
+
+interface RpcError {
+  message: string;
+  hint?: string | null;
+}
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// Typed RPC errors carry their code in the hint; anything else is our fault, not the caller's
+function rpcErrorResponse(error: RpcError) {
+  const status = error.hint === "forbidden" ? 403
+    : error.hint === "not_found" ? 404
+    : error.hint === "already_member" ? 409
+    : 500;
+  return jsonResponse({ error: status === 500 ? "Internal server error" : error.message }, status);
+}
+
+async function logUserEvent(
+  supabase: SupabaseClient,
+  req: Request,
+  eventType: string,
+  actor: { id: string; email?: string },
+  details: Record<string, unknown>,
+) {
+  const { error } = await supabase.from("security_logs").insert({
+    event_type: eventType,
+    ip_address: getClientIp(req),
+    user_agent: req.headers.get("user-agent") || "unknown",
+    user_id: actor.id,
+    email: actor.email ?? null,
+    details,
+  });
+  if (error) console.error(`Error logging ${eventType}:`, error);
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const blocked = await rejectIfBlocked(req, supabase, corsHeaders, "admin-users");
+    if (blocked) return blocked;
+
+    const token = req.headers.get("authorization")?.replace("Bearer ", "");
+    const { data: { user: actor } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!actor) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return jsonResponse({ error: "Invalid request body" }, 400);
+    }
+    const body = parsed.data;
+
+    if (body.action === "create") {
+      const hospitalId = body.hospital_id ?? null;
+
+      const { data: allowed, error: checkError } = await supabase.rpc("can_provision_role", {
+        _actor_id: actor.id,
+        _hospital_id: hospitalId,
+        _role: body.role,
+      });
+      if (checkError) throw checkError;
+      if (!allowed) {
+        return jsonResponse({ error: "You cannot create this account" }, 403);
+      }
+
+      // Creates the auth user and emails a link the new user follows to choose a password
+      const { data: invited, error: inviteError } = await supabase.auth.admin.inviteUserByEmail(body.email, {
+        data: { full_name: body.full_name },
+        redirectTo: body.redirect_to,
+      });
+
+      if (inviteError || !invited.user) {
+        console.warn("Invite failed:", inviteError);
+        const exists = inviteError?.message?.toLowerCase().includes("already");
+        return jsonResponse(
+          { error: exists ? "An account with this email already exists" : "Failed to create user" },
+          exists ? 409 : 502,
+        );
+      }
+
+      const { error: provisionError } = await supabase.rpc("provision_user", {
+        _actor_id: actor.id,
+        _user_id: invited.user.id,
+        _email: body.email,
+        _full_name: body.full_name,
+        _hospital_id: hospitalId,
+        _specialty: body.specialty ?? null,
+        _role: body.role,
+      });
+
+      // The profile and role are written together, so undoing the auth user undoes everything
+      if (provisionError) {
+        console.error("Error provisioning user, removing auth user:", provisionError);
+        const { error: deleteError } = await supabase.auth.admin.deleteUser(invited.user.id);
+        if (deleteError) console.error("Error removing auth user after failed provisioning:", deleteError);
+        return rpcErrorResponse(provisionError);
+      }
+
+      await logUserEvent(supabase, req, "user_provisioned", actor, {
+        target_user_id: invited.user.id,
+        target_email: body.email,
+        role: body.role,
+        hospital_id: hospitalId,
+      });
+
+      return jsonResponse({ user_id: invited.user.id }, 200);
+    }
+
+    const { data: allowed, error: checkError } = await supabase.rpc("can_manage_user", {
+      _actor_id: actor.id,
+      _user_id: body.user_id,
+    });
+    if (checkError) throw checkError;
+    if (!allowed) {
+      return jsonResponse({ error: "You cannot change this account" }, 403);
+    }
+
+    if (body.action === "force_sign_out") {
+      // Sessions first: ending the attacker's access matters more than anything that follows
+      const { data: revoked, error: revokeError } = await supabase.rpc("revoke_user_sessions", {
+        _actor_id: actor.id,
+        _user_id: body.user_id,
+      });
+      if (revokeError) return rpcErrorResponse(revokeError);
+
+      const { data: { user: target }, error: targetError } = await supabase.auth.admin.getUserById(body.user_id);
+      if (targetError || !target?.email) {
+        console.error("Error loading user for forced sign-out:", targetError);
+        return jsonResponse({ error: "Sessions were ended, but the password could not be reset" }, 502);
+      }
+
+      // A password nobody knows, so a stolen one stops working; the user picks a new one from the email
+      const { error: passwordError } = await supabase.auth.admin.updateUserById(body.user_id, {
+        password: `${crypto.randomUUID()}${crypto.randomUUID()}`,
+      });
+      const { error: resetError } = passwordError
+        ? { error: passwordError }
+        : await supabase.auth.resetPasswordForEmail(target.email, { redirectTo: body.redirect_to });
+
+      await logUserEvent(supabase, req, "forced_sign_out", actor, {
+        target_user_id: body.user_id,
+        sessions_revoked: revoked ?? 0,
+        password_reset: !resetError,
+      });
+
+      if (resetError) {
+        console.error("Error resetting password after forced sign-out:", resetError);
+        return jsonResponse({ error: "Sessions were ended, but the password reset email could not be sent" }, 502);
+      }
+
+      return jsonResponse({ sessions_revoked: revoked ?? 0 }, 200);
+    }
+
+    // For a user who lost their authenticator and recovery codes; they enrol again at next sign-in
+    if (body.action === "reset_mfa") {
+      const removed = await removeMfaFactors(supabase, body.user_id);
+
+      await logUserEvent(supabase, req, "mfa_reset", actor, {
+        target_user_id: body.user_id,
+        factors_removed: removed,
+      });
+
+      return jsonResponse({ factors_removed: removed }, 200);
+    }
+
+    const active = body.action === "reactivate";
+
+    // The ban stops sign-in and token refresh; the profile column is what the app reads
+    const { error: banError } = await supabase.auth.admin.updateUserById(body.user_id, {
+      ban_duration: active ? "none" : DEACTIVATED_BAN_DURATION,
+    });
+    if (banError) {
+      console.error(`Error updating auth user for ${body.action}:`, banError);
+      return jsonResponse({ error: `Failed to ${body.action} user` }, 502);
+    }
+
+    const { error: updateError } = await supabase.rpc("set_user_active", {
+      _actor_id: actor.id,
+      _user_id: body.user_id,
+      _active: active,
+    });
+
+    if (updateError) {
+      console.error(`Error recording ${body.action}, restoring auth user:`, updateError);
+      const { error: restoreError } = await supabase.auth.admin.updateUserById(body.user_id, {
+        ban_duration: active ? DEACTIVATED_BAN_DURATION : "none",
+      });
+      if (restoreError) console.error("Error restoring auth user:", restoreError);
+      return rpcErrorResponse(updateError);
+    }
+
+    // A deactivated user's open sessions end with the account
+    if (!active) {
+      const { error: revokeError } = await supabase.rpc("revoke_user_sessions", {
+        _actor_id: actor.id,
+        _user_id: body.user_id,
+      });
+      if (revokeError) console.error("Error ending sessions of deactivated user:", revokeError);
+    }
+
+    await logUserEvent(supabase, req, active ? "user_reactivated" : "user_deactivated", actor, {
+      target_user_id: body.user_id,
+    });
+
+    return jsonResponse({ success: true }, 200);
+  } catch (error) {
+    console.error("Admin users error:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,279 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { LlmTool } from "../_shared/llmProvider.ts";
+
+const statusSchema = z.enum(["pending", "accepted", "in_treatment", "completed", "rejected", "more_info_requested"]);
+
+// Something the assistant suggests but never does itself; the doctor confirms it in the chat first
+export type ProposedAction =
+  | {
+    id: string;
+    type: "status_change";
+    referral_id: string;
+    patient_name: string;
+    from_status: string;
+    to_status: string;
+    reason: string | null;
+  }
+  | {
+    id: string;
+    type: "message";
+    referral_id: string;
+    patient_name: string;
+    content: string;
+  };
+
+export interface ToolOutcome {
+  result: unknown;
+  action?: ProposedAction;
+}
+
+const MAX_SEARCH_RESULTS = 20;
+const MAX_TIMELINE_ENTRIES = 30;
+
+// OpenAI-style function definitions sent to the model
+export const DOCTOR_TOOLS: LlmTool[] = [
+  {
+    type: "function",
+    function: {
+      name: "search_referrals",
+      description: "Search the referrals the doctor can see. All filters are optional; results are newest first.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "Patient name or medical ID to match" },
+          statuses: { type: "array", items: { type: "string", enum: statusSchema.options } },
+          urgency: { type: "string", enum: ["emergency", "urgent", "routine"] },
+          direction: {
+            type: "string",
+            enum: ["sent", "incoming"],
+            description: "Referrals sent by the doctor's hospital, or received by it",
+          },
+          created_after: { type: "string", description: "ISO date; only referrals created on or after it" },
+          limit: { type: "integer", minimum: 1, maximum: MAX_SEARCH_RESULTS },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_referral_timeline",
+      description: "Open one referral: its details, the status changes allowed now, and its activity timeline.",
+      parameters: {
+        type: "object",
+        properties: { referral_id: { type: "string" } },
+        required: ["referral_id"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "draft_referral_message",
+      description: "Draft a message to the other hospital on a referral. The doctor reviews and sends it; nothing is sent by this call.",
+      parameters: {
+        type: "object",
+        properties: {
+          referral_id: { type: "string" },
+          content: { type: "string", description: "The full message text" },
+        },
+        required: ["referral_id", "content"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "propose_status_change",
+      description: "Propose moving a referral to a new status, e.g. more_info_requested with the questions as the reason. The doctor confirms it; nothing changes by this call.",
+      parameters: {
+        type: "object",
+        properties: {
+          referral_id: { type: "string" },
+          status: { type: "string", enum: statusSchema.options },
+          reason: { type: "string", description: "Required for rejected and more_info_requested" },
+        },
+        required: ["referral_id", "status"],
+      },
+    },
+  },
+];
+
+const searchSchema = z.object({
+  query: z.string().trim().max(100).optional(),
+  statuses: z.array(statusSchema).max(6).optional(),
+  urgency: z.enum(["emergency", "urgent", "routine"]).optional(),
+  direction: z.enum(["sent", "incoming"]).optional(),
+  created_after: z.string().max(40).refine(v => !Number.isNaN(Date.parse(v)), "must be a date").optional(),
+  limit: z.number().int().min(1).max(MAX_SEARCH_RESULTS).optional(),
+});
+
+const referralIdSchema = z.object({ referral_id: z.string().uuid() });
+
+const draftSchema = referralIdSchema.extend({
+  content: z.string().trim().min(1).max(2000),
+});
+
+const statusChangeSchema = referralIdSchema.extend({
+  status: statusSchema,
+  reason: z.string().trim().max(1000).optional(),
+});
+
+// The referral as the caller's RLS allows them to see it, or null
+async function findReferral(supabase: SupabaseClient, referralId: string) {
+  const { data, error } = await supabase
+    .from("referral_list_view")
+    .select("id, patient_name, status, urgency, from_hospital_name, to_hospital_name, specialty, reason, created_at, updated_at")
+    .eq("id", referralId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+async function searchReferrals(supabase: SupabaseClient, args: z.infer<typeof searchSchema>): Promise<ToolOutcome> {
+  const { data, error } = await supabase.rpc("list_referrals", {
+    _direction: args.direction ?? null,
+    _statuses: args.statuses?.length ? args.statuses : null,
+    _urgency: args.urgency ?? null,
+    _created_from: args.created_after ?? null,
+    _search: args.query || null,
+    _limit: args.limit ?? 10,
+  });
+  if (error) throw error;
+
+  return {
+    result: (data ?? []).map((r: Record<string, unknown>) => ({
+      id: r.id,
+      patient_name: r.patient_name,
+      status: r.status,
+      urgency: r.urgency,
+      from_hospital: r.from_hospital_name,
+      to_hospital: r.to_hospital_name,
+      specialty: r.specialty,
+      created_at: r.created_at,
+    })),
+  };
+}
+
+async function getReferralTimeline(supabase: SupabaseClient, referralId: string): Promise<ToolOutcome> {
+  const referral = await findReferral(supabase, referralId);
+  if (!referral) return { result: { error: "Referral not found" } };
+
+  const [{ data: logs, error: logsError }, { data: transitions, error: transitionsError }] = await Promise.all([
+    supabase
+      .from("referral_activity_logs")
+      .select("action, details, created_at")
+      .eq("referral_id", referralId)
+      .order("created_at", { ascending: false })
+      .limit(MAX_TIMELINE_ENTRIES),
+    supabase.rpc("get_allowed_referral_transitions", { _referral_id: referralId }),
+  ]);
+  if (logsError) throw logsError;
+  if (transitionsError) throw transitionsError;
+
+  // Reading a referral through the assistant counts as viewing it
+  const { error: phiError } = await supabase.rpc("log_phi_access", {
+    _referral_id: referralId,
+    _action: "view",
+    _details: { source: "ai-assistant" },
+  });
+  if (phiError) console.error("Error logging PHI access:", phiError);
+
+  return {
+    result: {
+      referral,
+      allowed_status_changes: transitions ?? [],
+      timeline: (logs ?? []).reverse(),
+    },
+  };
+}
+
+async function draftReferralMessage(supabase: SupabaseClient, args: z.infer<typeof draftSchema>): Promise<ToolOutcome> {
+  const referral = await findReferral(supabase, args.referral_id);
+  if (!referral) return { result: { error: "Referral not found" } };
+
+  return {
+    result: { drafted: true, note: "Shown to the doctor to review and send" },
+    action: {
+      id: crypto.randomUUID(),
+      type: "message",
+      referral_id: referral.id,
+      patient_name: referral.patient_name,
+      content: args.content,
+    },
+  };
+}
+
+async function proposeStatusChange(supabase: SupabaseClient, args: z.infer<typeof statusChangeSchema>): Promise<ToolOutcome> {
+  const referral = await findReferral(supabase, args.referral_id);
+  if (!referral) return { result: { error: "Referral not found" } };
+
+  // Checked again by transition_referral_status when the doctor confirms
+  const { data: transitions, error } = await supabase.rpc("get_allowed_referral_transitions", {
+    _referral_id: args.referral_id,
+  });
+  if (error) throw error;
+
+  const transition = (transitions ?? []).find((t: { to_status: string }) => t.to_status === args.status);
+  if (!transition) {
+    return {
+      result: {
+        error: `The doctor cannot move this referral from ${referral.status} to ${args.status}`,
+        allowed_status_changes: transitions ?? [],
+      },
+    };
+  }
+  if (transition.requires_reason && !args.reason) {
+    return { result: { error: `A reason is required to move this referral to ${args.status}` } };
+  }
+
+  return {
+    result: { proposed: true, note: "Shown to the doctor to confirm" },
+    action: {
+      id: crypto.randomUUID(),
+      type: "status_change",
+      referral_id: referral.id,
+      patient_name: referral.patient_name,
+      from_status: referral.status,
+      to_status: args.status,
+      reason: args.reason || null,
+    },
+  };
+}
+
+// Runs one tool call as the caller. Bad arguments and missing referrals go back to the model as
+// results so it can correct itself; database errors are thrown.
+export async function runDoctorTool(supabase: SupabaseClient, name: string, rawArgs: string): Promise<ToolOutcome> {
+  let args: unknown;
+  try {
+    args = JSON.parse(rawArgs || "{}");
+  } catch {
+    return { result: { error: "Arguments must be valid JSON" } };
+  }
+
+  const invalid = (issues: z.ZodIssue[]) => ({
+    result: { error: "Invalid arguments", issues: issues.map(i => `${i.path.join(".")}: ${i.message}`) },
+  });
+
+  switch (name) {
+    case "search_referrals": {
+      const parsed = searchSchema.safeParse(args);
+      return parsed.success ? searchReferrals(supabase, parsed.data) : invalid(parsed.error.issues);
+    }
+    case "get_referral_timeline": {
+      const parsed = referralIdSchema.safeParse(args);
+      return parsed.success ? getReferralTimeline(supabase, parsed.data.referral_id) : invalid(parsed.error.issues);
+    }
+    case "draft_referral_message": {
+      const parsed = draftSchema.safeParse(args);
+      return parsed.success ? draftReferralMessage(supabase, parsed.data) : invalid(parsed.error.issues);
+    }
+    case "propose_status_change": {
+      const parsed = statusChangeSchema.safeParse(args);
+      return parsed.success ? proposeStatusChange(supabase, parsed.data) : invalid(parsed.error.issues);
+    }
+    default:
+      return { result: { error: `Unknown tool: ${name}` } };
+  }
+}
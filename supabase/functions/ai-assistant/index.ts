@@ -1,9 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getClientIp, rejectIfBlocked } from "../_shared/ipGuard.ts";
+import { createLlmProvider, LlmMessage, LlmProvider } from "../_shared/llmProvider.ts";
+import { DOCTOR_TOOLS, ProposedAction, runDoctorTool } from "./doctorTools.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Expose-Headers": "x-conversation-id",
 };
 
 interface ChatMessage {
@@ -11,6 +15,28 @@ interface ChatMessage {
   content: string;
 }
 
+// As kept in chat_conversations.messages
+interface StoredMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  created_at: string;
+  // Proposals from the doctor-mode tools, with state set once the doctor confirms or dismisses them
+  actions?: (ProposedAction & { state?: "confirmed" | "dismissed" })[];
+}
+
+interface SavedConversation {
+  id: string;
+  messages: StoredMessage[];
+}
+
+// Earlier turns sent back to the model; older ones stay saved but drop out of its context
+const MAX_HISTORY_MESSAGES = 40;
+const MAX_MESSAGE_LENGTH = 4000;
+const TITLE_LENGTH = 60;
+// Rounds of tool calls before the model must answer with what it has
+const MAX_TOOL_ROUNDS = 5;
+
 // Simple in-memory rate limiting (per IP, resets on function cold start)
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
@@ -46,6 +72,91 @@ function cleanupRateLimits() {
   }
 }
 
+// The opening question, cut at a word boundary, names the conversation in the history list
+function titleFromMessage(message: string): string {
+  const text = message.replace(/\s+/g, " ").trim();
+  if (text.length <= TITLE_LENGTH) return text;
+  const cut = text.slice(0, TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+// Maps a failed model call to the response the client sees
+async function providerErrorResponse(response: Response): Promise<Response> {
+  if (response.status === 429) {
+    return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
+      status: 429,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+  if (response.status === 402) {
+    return new Response(JSON.stringify({ error: "Service temporarily unavailable. Please try again later." }), {
+      status: 402,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+  const errorText = await response.text();
+  console.error("AI provider error:", response.status, errorText);
+  return new Response(JSON.stringify({ error: "AI service error" }), {
+    status: 500,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Lets the model call the doctor tools until it answers. Tools run through the caller's own client,
+// so they see and propose only what RLS allows that user. The last round withholds tools.
+async function answerWithTools(
+  llm: LlmProvider,
+  userClient: SupabaseClient,
+  messages: LlmMessage[],
+): Promise<{ reply: string; actions: ProposedAction[] } | Response> {
+  const actions: ProposedAction[] = [];
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const response = await llm.chat({
+      mode: "doctor",
+      messages,
+      tools: DOCTOR_TOOLS,
+      tool_choice: round === MAX_TOOL_ROUNDS ? "none" : "auto",
+    });
+    if (!response.ok) return providerErrorResponse(response);
+
+    const reply = (await response.json()).choices?.[0]?.message;
+    const toolCalls = reply?.tool_calls ?? [];
+    if (toolCalls.length === 0) {
+      return { reply: reply?.content ?? "", actions };
+    }
+
+    messages.push({ role: "assistant", content: reply.content ?? null, tool_calls: toolCalls });
+    for (const call of toolCalls) {
+      const outcome = await runDoctorTool(userClient, call.function?.name, call.function?.arguments);
+      if (outcome.action) actions.push(outcome.action);
+      messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(outcome.result) });
+    }
+  }
+
+  return { reply: "", actions };
+}
+
+// The finished answer in the same SSE shape the provider streams, with each proposal as its own event
+function replyEvents(reply: string, actions: ProposedAction[]): string {
+  const events = [
+    { choices: [{ delta: { content: reply } }] },
+    ...actions.map(action => ({ action })),
+  ];
+  return events.map(event => `data: ${JSON.stringify(event)}\n\n`).join("") + "data: [DONE]\n\n";
+}
+
+// Repeated failures feed the lockout on security_logs
+async function logCodeLookupFailure(supabase: SupabaseClient, req: Request, clientIp: string, reason: string) {
+  await supabase.from("security_logs").insert({
+    event_type: "code_lookup_failure",
+    ip_address: clientIp,
+    user_agent: req.headers.get("user-agent") || "unknown",
+    details: { source: "ai-assistant", reason },
+  });
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -55,25 +166,25 @@ serve(async (req) => {
   cleanupRateLimits();
 
   // Get client IP for rate limiting
-  const clientIp = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || 
-                   req.headers.get("x-real-ip") || 
-                   "unknown";
+  const clientIp = getClientIp(req);
 
   try {
-    const { messages, patientCode, mode } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
+    const { messages, patientCode, mode, conversationId, message } = await req.json();
+    const llm = createLlmProvider();
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const blocked = await rejectIfBlocked(req, supabase, corsHeaders, "ai-assistant");
+    if (blocked) return blocked;
+
     let contextData = "";
     let systemPrompt = "";
     let isAuthenticated = false;
+    let chatMessages: ChatMessage[] = Array.isArray(messages) ? messages : [];
+    let conversation: SavedConversation | null = null;
+    let userClient: SupabaseClient | null = null;
 
     // Patient mode - lookup referral by code
     if (mode === "patient" && patientCode) {
@@ -90,6 +201,7 @@ serve(async (req) => {
       const patientCodeRegex = /^REF-[A-Z0-9]{4}-[A-Z0-9]{4}$/;
       if (!patientCodeRegex.test(patientCode)) {
         console.warn(`Invalid patient code format attempted: ${patientCode.substring(0, 20)} from IP: ${clientIp}`);
+        await logCodeLookupFailure(supabase, req, clientIp, "invalid_format");
         return new Response(JSON.stringify({ error: "Invalid referral code format" }), {
           status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -109,6 +221,7 @@ serve(async (req) => {
       if (error || !referral) {
         // Log failed lookup attempts for security monitoring
         console.warn(`Failed patient code lookup: ${patientCode} from IP: ${clientIp}`);
+        await logCodeLookupFailure(supabase, req, clientIp, "not_found");
         contextData = "No referral found with that code.";
       } else {
         const fromHospital = referral.from_hospital as unknown as { name: string } | null;
@@ -170,62 +283,89 @@ Respond helpfully to the patient's questions.`;
         });
       }
 
-      // Get doctor's profile and hospital
+      const content = typeof message === "string" ? message.trim() : "";
+      if (!content || content.length > MAX_MESSAGE_LENGTH) {
+        return new Response(JSON.stringify({ error: "Message is required" }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      // Earlier turns come from the saved conversation, never from the client
+      if (conversationId) {
+        const { data: existing } = await supabase
+          .from("chat_conversations")
+          .select("id, messages")
+          .eq("id", conversationId)
+          .eq("user_id", userId)
+          .maybeSingle();
+
+        if (!existing) {
+          return new Response(JSON.stringify({ error: "Conversation not found" }), {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        conversation = { id: existing.id, messages: (existing.messages as StoredMessage[]) || [] };
+      } else {
+        const { data: created, error: createError } = await supabase
+          .from("chat_conversations")
+          .insert({ user_id: userId, title: titleFromMessage(content), messages: [] })
+          .select("id")
+          .single();
+
+        if (createError || !created) throw createError ?? new Error("Failed to create conversation");
+        conversation = { id: created.id, messages: [] };
+      }
+
+      chatMessages = [
+        ...conversation.messages.slice(-MAX_HISTORY_MESSAGES).map(m => ({ role: m.role, content: m.content })),
+        { role: "user", content },
+      ];
+
+      // The question is saved straight away so it survives a failed reply
+      conversation.messages = [
+        ...conversation.messages,
+        { id: crypto.randomUUID(), role: "user", content, created_at: new Date().toISOString() },
+      ];
+      const { error: saveError } = await supabase
+        .from("chat_conversations")
+        .update({ messages: conversation.messages })
+        .eq("id", conversation.id);
+      if (saveError) throw saveError;
+
+      // Tool queries run as the doctor rather than the service role
+      userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+        global: { headers: { Authorization: authHeader } },
+      });
+
+      // Get doctor's profile
       const { data: profile } = await supabase
         .from("profiles")
-        .select("full_name, hospital_id, specialty")
+        .select("full_name, specialty")
         .eq("id", userId)
         .single();
 
-      // Get doctor's recent referrals
-      const { data: referrals } = await supabase
-        .from("referrals")
-        .select(`
-          id, patient_name, status, urgency, created_at,
-          from_hospital:hospitals!referrals_from_hospital_id_fkey(name),
-          to_hospital:hospitals!referrals_to_hospital_id_fkey(name)
-        `)
-        .or(`created_by.eq.${userId},assigned_doctor_id.eq.${userId}`)
-        .order("created_at", { ascending: false })
-        .limit(10);
-
-      // Get pending referral counts
-      const { count: pendingCount } = await supabase
-        .from("referrals")
-        .select("*", { count: "exact", head: true })
-        .eq("status", "pending");
-
-      const { count: urgentCount } = await supabase
-        .from("referrals")
-        .select("*", { count: "exact", head: true })
-        .eq("status", "pending")
-        .eq("urgency", "urgent");
-
       contextData = `
 Doctor: ${profile?.full_name || "Unknown"}
 Specialty: ${profile?.specialty || "Not specified"}
-Pending Referrals: ${pendingCount || 0}
-Urgent Pending: ${urgentCount || 0}
-
-Recent Referrals:
-${referrals?.map(r => {
-  const fromHospital = r.from_hospital as unknown as { name: string } | null;
-  const toHospital = r.to_hospital as unknown as { name: string } | null;
-  return `- ${r.patient_name}: ${r.status} (${r.urgency}) - From: ${fromHospital?.name || "Unknown"} To: ${toHospital?.name || "Unknown"}`;
-}).join("\n") || "No recent referrals"}
+Today: ${new Date().toISOString().slice(0, 10)}
 `;
 
       systemPrompt = `You are an AI assistant for MedRefer, a medical referral management system. You help doctors with:
-- Understanding their referral workflow
-- Providing summaries of pending referrals
+- Finding and summarising their referrals
+- Reading a referral's timeline
+- Drafting messages and requests for more information to the other hospital
+- Suggesting status changes
 - Answering questions about the referral process
-- Offering general medical workflow assistance
 
 IMPORTANT GUIDELINES:
 - Be professional and concise
 - Help with administrative tasks and workflow
 - Do NOT provide medical diagnoses or treatment advice
-- Reference the doctor's actual referral data when relevant
+- Use the tools to look up referral data; never guess at patients, statuses or ids
+- Drafts and status changes are only proposals: the doctor confirms each one in the chat before anything is sent or changed, so say what you proposed rather than claiming it is done
+- To request more information, propose a status change to more_info_requested with the questions as the reason
 - Suggest next steps when appropriate
 
 Current context:
@@ -259,41 +399,50 @@ IMPORTANT:
 Respond helpfully to the user's questions.`;
     }
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          ...messages,
-        ],
-        stream: true,
-      }),
+    // Doctor mode answers after its tool calls finish, then saves the reply with any proposals
+    if (conversation && userClient) {
+      const answer = await answerWithTools(llm, userClient, [
+        { role: "system", content: systemPrompt },
+        ...chatMessages,
+      ]);
+      if (answer instanceof Response) return answer;
+
+      const reply = answer.reply || (answer.actions.length ? "Here is what I suggest:" : "");
+      if (reply) {
+        const { error: replyError } = await supabase
+          .from("chat_conversations")
+          .update({
+            messages: [
+              ...conversation.messages,
+              {
+                id: crypto.randomUUID(),
+                role: "assistant",
+                content: reply,
+                created_at: new Date().toISOString(),
+                ...(answer.actions.length ? { actions: answer.actions } : {}),
+              },
+            ],
+          })
+          .eq("id", conversation.id);
+        if (replyError) console.error("Error saving assistant reply:", replyError);
+      }
+
+      return new Response(replyEvents(reply, answer.actions), {
+        headers: { ...corsHeaders, "Content-Type": "text/event-stream", "X-Conversation-Id": conversation.id },
+      });
+    }
+
+    const response = await llm.chat({
+      mode: mode === "patient" && patientCode ? "patient" : "general",
+      messages: [
+        { role: "system", content: systemPrompt },
+        ...chatMessages,
+      ],
+      stream: true,
     });
 
     if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "Service temporarily unavailable. Please try again later." }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      return new Response(JSON.stringify({ error: "AI service error" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return providerErrorResponse(response);
     }
 
     return new Response(response.body, {
@@ -0,0 +1,95 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { rejectIfBlocked } from "../_shared/ipGuard.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const requestSchema = z.object({
+  attachment_id: z.string().uuid(),
+});
+
+// Long enough to start the download, too short to pass the link around
+const SIGNED_URL_TTL_SECONDS = 60;
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// Attachment downloads. Staff cannot read the bucket directly; the attachment is looked up as the
+// caller, so RLS decides what can be downloaded, and the signed URL is only handed out once the
+// phi_access_logs row has been written.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const blocked = await rejectIfBlocked(req, supabase, corsHeaders, "attachment-download");
+    if (blocked) return blocked;
+
+    const authHeader = req.headers.get("authorization");
+    const token = authHeader?.replace("Bearer ", "");
+    const { data: { user } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return jsonResponse({ error: "Invalid request body" }, 400);
+    }
+
+    const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader! } },
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: attachment, error } = await userClient
+      .from("referral_attachments")
+      .select("id, referral_id, file_path, file_name")
+      .eq("id", parsed.data.attachment_id)
+      .maybeSingle();
+    if (error) throw error;
+
+    if (!attachment) {
+      return jsonResponse({ error: "Attachment not found" }, 404);
+    }
+
+    const { error: phiError } = await userClient.rpc("log_phi_access", {
+      _referral_id: attachment.referral_id,
+      _action: "attachment_download",
+      _attachment_id: attachment.id,
+      _details: { file_name: attachment.file_name },
+    });
+    if (phiError) {
+      console.error("Error logging PHI access:", phiError);
+      return jsonResponse({ error: "Access could not be recorded" }, 500);
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from("referral-documents")
+      .createSignedUrl(attachment.file_path, SIGNED_URL_TTL_SECONDS);
+    if (signError || !signed?.signedUrl) throw signError ?? new Error("No signed URL returned");
+
+    return jsonResponse({ url: signed.signedUrl }, 200);
+  } catch (error) {
+    console.error("Attachment download error:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
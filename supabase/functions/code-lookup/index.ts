@@ -0,0 +1,123 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { findActiveBlock, getClientIp, rejectIfBlocked } from "../_shared/ipGuard.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const requestSchema = z.object({
+  code: z.string().trim().min(1).max(32),
+});
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// Patient code lookup for the Code Lookup page. The referral is read as the caller, so RLS decides
+// what can be found; misses are logged here with the caller's IP for the lockout on security_logs.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const blocked = await rejectIfBlocked(req, supabase, corsHeaders, "code-lookup");
+    if (blocked) return blocked;
+
+    const authHeader = req.headers.get("authorization");
+    const token = authHeader?.replace("Bearer ", "");
+    const { data: { user } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return jsonResponse({ error: "Invalid request body" }, 400);
+    }
+    const code = parsed.data.code;
+
+    const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader! } },
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    // Case-insensitive but otherwise exact: wildcards in the code are matched literally
+    const { data: referral, error } = await userClient
+      .from("referrals")
+      .select("id, patient_code, status, specialty, from_hospital_id, to_hospital_id, created_at, updated_at")
+      .ilike("patient_code", code.replace(/[\\%_]/g, "\\$&"))
+      .maybeSingle();
+    if (error) throw error;
+
+    if (!referral) {
+      const clientIp = getClientIp(req);
+      const { error: logError } = await supabase.from("security_logs").insert({
+        event_type: "code_lookup_failure",
+        ip_address: clientIp,
+        user_agent: req.headers.get("user-agent") || "unknown",
+        user_id: user.id,
+        email: user.email ?? null,
+        details: { source: "code_lookup" },
+      });
+      if (logError) console.error("Error logging code lookup failure:", logError);
+
+      // This miss may be the one that tripped the lockout
+      const block = await findActiveBlock(supabase, clientIp);
+      if (block) {
+        return jsonResponse(
+          { error: "Access from your network has been blocked", blocked_until: block.expires_at },
+          403,
+        );
+      }
+      return jsonResponse({ referral: null }, 200);
+    }
+
+    const { error: phiError } = await userClient.rpc("log_phi_access", {
+      _referral_id: referral.id,
+      _action: "code_lookup",
+      _details: { code },
+    });
+    // Nothing is released unless the access was recorded
+    if (phiError) {
+      console.error("Error logging PHI access:", phiError);
+      return jsonResponse({ error: "Access could not be recorded" }, 500);
+    }
+
+    const { data: hospitals } = await userClient
+      .from("hospitals")
+      .select("id, name")
+      .in("id", [referral.from_hospital_id, referral.to_hospital_id]);
+    const hospitalMap = new Map((hospitals ?? []).map(h => [h.id, h.name]));
+
+    return jsonResponse({
+      referral: {
+        patient_code: referral.patient_code,
+        status: referral.status,
+        specialty: referral.specialty,
+        from_hospital_name: hospitalMap.get(referral.from_hospital_id) ?? null,
+        to_hospital_name: hospitalMap.get(referral.to_hospital_id) ?? null,
+        created_at: referral.created_at,
+        updated_at: referral.updated_at,
+      },
+    }, 200);
+  } catch (error) {
+    console.error("Code lookup error:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,117 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { rejectIfBlocked } from "../_shared/ipGuard.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const requestSchema = z.object({
+  referral_id: z.string().uuid(),
+});
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// Copies a forwarded referral's attachments from its parent. Staff cannot read the bucket
+// directly, so the files are copied here with the service role; the referrals are read as the
+// caller and each copy is recorded with attach_forwarded_file, which checks triage rights again.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const blocked = await rejectIfBlocked(req, supabase, corsHeaders, "forward-attachments");
+    if (blocked) return blocked;
+
+    const authHeader = req.headers.get("authorization");
+    const token = authHeader?.replace("Bearer ", "");
+    const { data: { user } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return jsonResponse({ error: "Invalid request body" }, 400);
+    }
+
+    const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader! } },
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: child, error: childError } = await userClient
+      .from("referrals")
+      .select("id, parent_referral_id, from_hospital_id")
+      .eq("id", parsed.data.referral_id)
+      .maybeSingle();
+    if (childError) throw childError;
+
+    if (!child?.parent_referral_id) {
+      return jsonResponse({ error: "Referral not found" }, 404);
+    }
+
+    // Checked before anything is copied, not only when the copy is recorded
+    const { data: canTriage, error: permissionError } = await supabase.rpc("has_hospital_permission", {
+      _user_id: user.id,
+      _permission: "referrals.triage",
+      _hospital_id: child.from_hospital_id,
+    });
+    if (permissionError) throw permissionError;
+
+    if (!canTriage) {
+      return jsonResponse({ error: "Only the forwarding hospital can copy attachments" }, 403);
+    }
+
+    const { data: attachments, error: attachmentsError } = await userClient
+      .from("referral_attachments")
+      .select("id, file_path")
+      .eq("referral_id", child.parent_referral_id);
+    if (attachmentsError) throw attachmentsError;
+
+    let copied = 0;
+    let failed = 0;
+    for (const attachment of attachments ?? []) {
+      const fileName = attachment.file_path.split("/").pop();
+      const { error: copyError } = await supabase.storage
+        .from("referral-documents")
+        .copy(attachment.file_path, `${child.id}/${fileName}`);
+
+      const { error: attachError } = copyError
+        ? { error: copyError }
+        : await userClient.rpc("attach_forwarded_file", {
+          _child_referral_id: child.id,
+          _source_attachment_id: attachment.id,
+        });
+
+      if (attachError) {
+        console.error("Error copying attachment:", attachError);
+        failed++;
+      } else {
+        copied++;
+      }
+    }
+
+    return jsonResponse({ copied, failed }, 200);
+  } catch (error) {
+    console.error("Forward attachments error:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
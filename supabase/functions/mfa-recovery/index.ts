@@ -0,0 +1,106 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { getClientIp, rejectIfBlocked } from "../_shared/ipGuard.ts";
+import { removeMfaFactors } from "../_shared/mfaFactors.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const requestSchema = z.object({
+  code: z.string().trim().min(1).max(40),
+});
+
+// Failed codes per user before recovery is refused for the rest of the window
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILED_ATTEMPT_WINDOW_MINUTES = 15;
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// Called from the sign-in MFA step: the password has been checked, the authenticator is lost. A valid
+// recovery code removes the user's factors so they can sign in and enrol a new device.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const blocked = await rejectIfBlocked(req, supabase, corsHeaders, "mfa-recovery");
+    if (blocked) return blocked;
+
+    const token = req.headers.get("authorization")?.replace("Bearer ", "");
+    const { data: { user } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return jsonResponse({ error: "Invalid request body" }, 400);
+    }
+
+    const logEvent = async (eventType: string, details: Record<string, unknown> = {}) => {
+      const { error } = await supabase.from("security_logs").insert({
+        event_type: eventType,
+        ip_address: getClientIp(req),
+        user_agent: req.headers.get("user-agent") || "unknown",
+        user_id: user.id,
+        email: user.email ?? null,
+        details,
+      });
+      if (error) console.error(`Error logging ${eventType}:`, error);
+    };
+
+    const since = new Date(Date.now() - FAILED_ATTEMPT_WINDOW_MINUTES * 60 * 1000).toISOString();
+    // consume_mfa_recovery_code records every attempt in a table only the service role can reach
+    const { count: failedAttempts, error: countError } = await supabase
+      .from("mfa_recovery_attempts")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .eq("succeeded", false)
+      .gte("created_at", since);
+    if (countError) throw countError;
+
+    if ((failedAttempts ?? 0) >= MAX_FAILED_ATTEMPTS) {
+      return jsonResponse(
+        { error: `Too many attempts. Try again in ${FAILED_ATTEMPT_WINDOW_MINUTES} minutes or contact your administrator.` },
+        429,
+      );
+    }
+
+    const { data: valid, error: consumeError } = await supabase.rpc("consume_mfa_recovery_code", {
+      _user_id: user.id,
+      _code: parsed.data.code,
+    });
+    if (consumeError) throw consumeError;
+
+    if (!valid) {
+      await logEvent("mfa_recovery_failed");
+      return jsonResponse({ error: "That recovery code is not valid or has already been used" }, 400);
+    }
+
+    const removed = await removeMfaFactors(supabase, user.id);
+    await logEvent("mfa_recovery_used", { factors_removed: removed });
+
+    return jsonResponse({ factors_removed: removed }, 200);
+  } catch (error) {
+    console.error("MFA recovery error:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,168 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.7";
+import {
+  describeReferralEvent,
+  ReferralEventRow,
+} from "../_shared/referralNotifications.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Payload posted by the notify_referral_push trigger, shaped like a database webhook
+interface ReferralWebhookPayload {
+  type: "INSERT" | "UPDATE";
+  record: ReferralEventRow;
+  old_record: Partial<ReferralEventRow> | null;
+}
+
+interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const vapidPublicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+  const vapidPrivateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+  const vapidSubject = Deno.env.get("VAPID_SUBJECT") || "mailto:admin@example.com";
+
+  // Browsers need the application server key before they can subscribe
+  if (req.method === "GET") {
+    return new Response(
+      JSON.stringify({ publicKey: vapidPublicKey || null }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // Only the database trigger holds the service role key
+  if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  if (!vapidPublicKey || !vapidPrivateKey) {
+    console.error("VAPID keys are not configured");
+    return new Response(
+      JSON.stringify({ error: "Push notifications are not configured" }),
+      { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const { type, record, old_record }: ReferralWebhookPayload = await req.json();
+    webpush.setVapidDetails(vapidSubject, vapidPublicKey, vapidPrivateKey);
+
+    // Candidates are everyone at either hospital plus the admins; the shared rules narrow them down
+    const [{ data: hospitalProfiles }, { data: adminRoles }, { data: fromHospital }] = await Promise.all([
+      supabase
+        .from("profiles")
+        .select("id, hospital_id")
+        .in("hospital_id", [record.from_hospital_id, record.to_hospital_id]),
+      supabase.from("user_roles").select("user_id").eq("role", "admin"),
+      supabase.from("hospitals").select("name").eq("id", record.from_hospital_id).maybeSingle(),
+    ]);
+
+    const adminIds = new Set((adminRoles || []).map((r) => r.user_id as string));
+    const hospitalByUser = new Map((hospitalProfiles || []).map((p) => [p.id as string, p.hospital_id as string | null]));
+    const candidateIds = [...new Set([...hospitalByUser.keys(), ...adminIds])];
+
+    const { data: subscriptions, error: subscriptionError } = await supabase
+      .from("push_subscriptions")
+      .select("id, user_id, endpoint, p256dh, auth")
+      .in("user_id", candidateIds);
+
+    if (subscriptionError) throw subscriptionError;
+    if (!subscriptions || subscriptions.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, sent: 0 }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const subscribedIds = [...new Set(subscriptions.map((s) => s.user_id as string))];
+    const [{ data: memberships }, { data: adminProfiles }] = await Promise.all([
+      supabase.from("department_members").select("user_id, department_id").in("user_id", subscribedIds),
+      supabase.from("profiles").select("id, hospital_id").in("id", subscribedIds.filter((id) => !hospitalByUser.has(id))),
+    ]);
+
+    (adminProfiles || []).forEach((p) => hospitalByUser.set(p.id as string, p.hospital_id as string | null));
+
+    const departmentsByUser = new Map<string, string[]>();
+    (memberships || []).forEach((m) => {
+      departmentsByUser.set(m.user_id, [...(departmentsByUser.get(m.user_id) || []), m.department_id]);
+    });
+
+    let sent = 0;
+    const expiredIds: string[] = [];
+
+    for (const subscription of subscriptions as PushSubscriptionRow[]) {
+      const contents = describeReferralEvent(
+        {
+          eventType: type,
+          row: record,
+          previousStatus: old_record?.status,
+          previousAssignedDoctorId: old_record?.assigned_doctor_id,
+          fromHospitalName: fromHospital?.name,
+        },
+        {
+          id: subscription.user_id,
+          isAdmin: adminIds.has(subscription.user_id),
+          hospitalId: hospitalByUser.get(subscription.user_id) ?? null,
+          departmentIds: departmentsByUser.get(subscription.user_id) || [],
+        },
+      );
+
+      for (const content of contents) {
+        try {
+          await webpush.sendNotification(
+            {
+              endpoint: subscription.endpoint,
+              keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+            },
+            JSON.stringify({ ...content, referralId: record.id, url: `/referral/${record.id}` }),
+            { urgency: content.type === "emergency" ? "high" : "normal" }
+          );
+          sent++;
+        } catch (error) {
+          const statusCode = (error as { statusCode?: number }).statusCode;
+          // The browser dropped the subscription; stop sending to it
+          if (statusCode === 404 || statusCode === 410) {
+            expiredIds.push(subscription.id);
+            break;
+          }
+          console.error("Error sending push notification:", error);
+        }
+      }
+    }
+
+    if (expiredIds.length > 0) {
+      await supabase.from("push_subscriptions").delete().in("id", expiredIds);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, sent, expired: expiredIds.length }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Push notification error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
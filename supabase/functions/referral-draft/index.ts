@@ -0,0 +1,206 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { rejectIfBlocked } from "../_shared/ipGuard.ts";
+import { createLlmProvider, LlmMessage, LlmTool } from "../_shared/llmProvider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const requestSchema = z.object({
+  notes: z.string().trim().min(1).max(4000),
+  // Whatever is already in the form's medical summary, worked into the draft rather than replaced
+  medical_summary: z.string().trim().max(4000).optional(),
+  template_id: z.string().uuid().nullable().optional(),
+  specialty: z.string().trim().max(100).optional(),
+  urgency: z.enum(["emergency", "urgent", "routine"]).optional(),
+});
+
+const draftSchema = z.object({
+  history: z.string().max(4000),
+  findings: z.string().max(4000),
+  medications: z.string().max(2000),
+  question: z.string().max(2000),
+});
+
+// Drafts per user per window, counted from ai_draft_logs
+const MAX_DRAFTS_PER_WINDOW = 10;
+const DRAFT_WINDOW_MINUTES = 5;
+
+const DRAFT_TOOL: LlmTool = {
+  type: "function",
+  function: {
+    name: "submit_referral_draft",
+    description: "Return the drafted referral letter, split into its sections.",
+    parameters: {
+      type: "object",
+      properties: {
+        history: { type: "string", description: "Presenting complaint and relevant history" },
+        findings: { type: "string", description: "Examination findings and investigation results" },
+        medications: { type: "string", description: "Current medications and allergies; empty if none were given" },
+        question: { type: "string", description: "The specific question or request for the specialist" },
+      },
+      required: ["history", "findings", "medications", "question"],
+    },
+  },
+};
+
+const SYSTEM_PROMPT = `You draft referral letters for doctors using MedRefer, a medical referral system.
+
+IMPORTANT GUIDELINES:
+- Use only facts present in the doctor's notes, existing summary and template; never invent results, doses or history
+- Leave a section empty rather than guessing
+- Write in concise clinical prose suitable for a specialist colleague
+- Do not add a diagnosis the notes do not state
+- The doctor reviews and edits the draft before anything is sent`;
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// Turns a doctor's brief notes into a structured referral draft for CreateReferral. Every request is
+// logged to ai_draft_logs with the prompt and the model that answered it.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const blocked = await rejectIfBlocked(req, supabase, corsHeaders, "referral-draft");
+    if (blocked) return blocked;
+
+    const token = req.headers.get("authorization")?.replace("Bearer ", "");
+    const { data: { user } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: canCreate, error: permissionError } = await supabase.rpc("has_permission", {
+      _user_id: user.id,
+      _permission: "referrals.create",
+    });
+    if (permissionError) throw permissionError;
+    if (!canCreate) {
+      return jsonResponse({ error: "You do not have permission to create referrals" }, 403);
+    }
+
+    const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return jsonResponse({ error: "Invalid request body" }, 400);
+    }
+    const input = parsed.data;
+
+    const since = new Date(Date.now() - DRAFT_WINDOW_MINUTES * 60 * 1000).toISOString();
+    const { count: recentDrafts, error: countError } = await supabase
+      .from("ai_draft_logs")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .gte("created_at", since);
+    if (countError) throw countError;
+
+    if ((recentDrafts ?? 0) >= MAX_DRAFTS_PER_WINDOW) {
+      return jsonResponse({ error: `Too many drafts. Try again in ${DRAFT_WINDOW_MINUTES} minutes.` }, 429);
+    }
+
+    // Same visibility as the referral_templates SELECT policy
+    let template: { id: string; name: string; medical_summary_template: string | null; reason_template: string | null } | null = null;
+    if (input.template_id) {
+      const { data } = await supabase
+        .from("referral_templates")
+        .select("id, name, medical_summary_template, reason_template, is_system, created_by")
+        .eq("id", input.template_id)
+        .maybeSingle();
+      if (!data || !(data.is_system || data.created_by === user.id)) {
+        return jsonResponse({ error: "Template not found" }, 404);
+      }
+      template = data;
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("hospital_id")
+      .eq("id", user.id)
+      .single();
+
+    const sections = [
+      `Target specialty: ${input.specialty || "Not specified"}`,
+      `Urgency: ${input.urgency || "Not specified"}`,
+      template
+        ? `Template "${template.name}":\nSummary: ${template.medical_summary_template || "(none)"}\nReason: ${template.reason_template || "(none)"}`
+        : "Template: none",
+      input.medical_summary ? `Existing summary:\n${input.medical_summary}` : null,
+      `Doctor's notes:\n${input.notes}`,
+    ];
+
+    const messages: LlmMessage[] = [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: sections.filter(Boolean).join("\n\n") },
+    ];
+
+    const llm = createLlmProvider();
+    const response = await llm.chat({
+      mode: "draft",
+      messages,
+      tools: [DRAFT_TOOL],
+      tool_choice: { type: "function", function: { name: DRAFT_TOOL.function.name } },
+    });
+
+    if (!response.ok) {
+      console.error("AI provider error:", response.status, await response.text());
+      return jsonResponse(
+        { error: response.status === 429 ? "Rate limit exceeded. Please try again later." : "AI service error" },
+        response.status === 429 ? 429 : 502,
+      );
+    }
+
+    const completion = await response.json();
+    const call = completion.choices?.[0]?.message?.tool_calls?.[0];
+    let draft: z.infer<typeof draftSchema> | null = null;
+    try {
+      const result = draftSchema.safeParse(JSON.parse(call?.function?.arguments ?? "null"));
+      if (result.success) draft = result.data;
+    } catch {
+      // Logged below with no draft
+    }
+
+    const { data: log, error: logError } = await supabase
+      .from("ai_draft_logs")
+      .insert({
+        user_id: user.id,
+        hospital_id: profile?.hospital_id ?? null,
+        template_id: template?.id ?? null,
+        specialty: input.specialty || null,
+        provider: llm.name,
+        model: completion.model || llm.model("draft"),
+        prompt: { messages, tool: DRAFT_TOOL },
+        draft,
+      })
+      .select("id")
+      .single();
+    // No audit row, no draft
+    if (logError) throw logError;
+
+    if (!draft) {
+      return jsonResponse({ error: "The AI returned an unusable draft. Please try again." }, 502);
+    }
+
+    return jsonResponse({ draft, log_id: log.id }, 200);
+  } catch (error) {
+    console.error("Referral draft error:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -1,18 +1,69 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { getClientIp, rejectIfBlocked } from "../_shared/ipGuard.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface SecurityLogEntry {
-  event_type: string;
-  ip_address?: string;
-  user_agent?: string;
-  user_id?: string;
-  email?: string;
-  details?: Record<string, unknown>;
+interface EventDefinition {
+  // "required" events are only accepted with a valid user JWT
+  auth: "optional" | "required";
+  // Pre-login events describe the account being tried, so the client names it
+  acceptsClientEmail: boolean;
+  details: z.ZodTypeAny;
+}
+
+const noDetails = z.object({}).strict();
+
+// Events browsers may report. Everything the lockout counts (login_failure, code_lookup_failure)
+// and the other server-side events (blocked_access, auto_block, rate_limit_exceeded) are written
+// directly by the functions and triggers that raise them, so a browser cannot skip them.
+const EVENT_CATALOGUE: Record<string, EventDefinition> = {
+  login_success: { auth: "required", acceptsClientEmail: false, details: noDetails },
+  logout: { auth: "required", acceptsClientEmail: false, details: noDetails },
+};
+
+// Client-supplied ip_address, user_agent and user_id are ignored rather than rejected,
+// so older clients keep working while no longer being trusted
+const requestSchema = z.object({
+  event_type: z.string().max(64),
+  email: z.string().email().max(255).optional(),
+  details: z.record(z.unknown()).optional(),
+});
+
+// Simple in-memory rate limiting (per IP, resets on function cold start)
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
+const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
+const MAX_EVENTS_PER_WINDOW = 30;
+
+function checkRateLimit(clientIp: string): { allowed: boolean; firstRejection: boolean } {
+  const now = Date.now();
+
+  for (const [ip, data] of rateLimitMap.entries()) {
+    if (now > data.resetTime) rateLimitMap.delete(ip);
+  }
+
+  const existing = rateLimitMap.get(clientIp);
+  if (!existing) {
+    rateLimitMap.set(clientIp, { count: 1, resetTime: now + RATE_LIMIT_WINDOW_MS });
+    return { allowed: true, firstRejection: false };
+  }
+
+  existing.count++;
+  return {
+    allowed: existing.count <= MAX_EVENTS_PER_WINDOW,
+    firstRejection: existing.count === MAX_EVENTS_PER_WINDOW + 1,
+  };
+}
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
 }
 
 serve(async (req) => {
@@ -24,25 +75,64 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    
+
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Get client IP
-    const forwarded = req.headers.get("x-forwarded-for");
-    const clientIp = forwarded ? forwarded.split(",")[0].trim() : "unknown";
+    // Blocked networks cannot write to the log either
+    const blocked = await rejectIfBlocked(req, supabase, corsHeaders, "security-logger");
+    if (blocked) return blocked;
+
+    const clientIp = getClientIp(req);
     const userAgent = req.headers.get("user-agent") || "unknown";
 
-    const body = await req.json() as SecurityLogEntry;
-    const { event_type, ip_address, user_agent: bodyUserAgent, user_id, email, details } = body;
+    const rateLimit = checkRateLimit(clientIp);
+    if (!rateLimit.allowed) {
+      if (rateLimit.firstRejection) {
+        await supabase.from("security_logs").insert({
+          event_type: "rate_limit_exceeded",
+          ip_address: clientIp,
+          user_agent: userAgent,
+          details: { function: "security-logger", limit_per_minute: MAX_EVENTS_PER_WINDOW },
+        });
+      }
+      return jsonResponse({ error: "Too many requests. Please try again later." }, 429);
+    }
+
+    const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return jsonResponse({ error: "Invalid request body" }, 400);
+    }
+
+    const { event_type, email: clientEmail, details = {} } = parsed.data;
+    const definition = EVENT_CATALOGUE[event_type];
+    if (!definition) {
+      return jsonResponse({ error: `Unknown event type: ${event_type}` }, 400);
+    }
+
+    const parsedDetails = definition.details.safeParse(details);
+    if (!parsedDetails.success) {
+      return jsonResponse({ error: `Invalid details for ${event_type}` }, 400);
+    }
+
+    // Identity comes from the caller's JWT; the publishable key resolves to no user
+    const token = req.headers.get("authorization")?.replace("Bearer ", "");
+    const { data: { user } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (definition.auth === "required" && !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const email = user?.email ?? (definition.acceptsClientEmail ? clientEmail : undefined);
 
-    // Insert security log
     const { error: insertError } = await supabase.from("security_logs").insert({
       event_type,
-      ip_address: ip_address || clientIp,
-      user_agent: bodyUserAgent || userAgent,
-      user_id,
-      email,
-      details,
+      ip_address: clientIp,
+      user_agent: userAgent,
+      user_id: user?.id ?? null,
+      email: email ?? null,
+      details: parsedDetails.data,
     });
 
     if (insertError) {
@@ -50,21 +140,9 @@ serve(async (req) => {
       throw insertError;
     }
 
-    return new Response(
-      JSON.stringify({ success: true }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return jsonResponse({ success: true }, 200);
   } catch (error) {
     console.error("Security logger error:", error);
-    return new Response(
-      JSON.stringify({ error: "Internal server error" }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return jsonResponse({ error: "Internal server error" }, 500);
   }
 });
@@ -0,0 +1,93 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { findActiveBlock, getClientIp, rejectIfBlocked } from "../_shared/ipGuard.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const requestSchema = z.object({
+  email: z.string().trim().email().max(255),
+  password: z.string().min(1).max(256),
+});
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// The login form's password check. Blocked networks are turned away before the password is tried,
+// and every failure is logged here with the caller's IP, which is what the lockout on security_logs
+// counts. The browser gets the session back and installs it itself.
+//
+// The lockout only covers sign-ins made through this function. GoTrue's own password grant
+// (/auth/v1/token?grant_type=password) stays reachable with the publishable key; attempts made there
+// are neither counted nor blocked, and are limited only by the project's auth rate limits.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const blocked = await rejectIfBlocked(req, supabase, corsHeaders, "sign-in");
+    if (blocked) return blocked;
+
+    const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return jsonResponse({ error: "Invalid request body" }, 400);
+    }
+    const { email, password } = parsed.data;
+
+    const clientIp = getClientIp(req);
+    const logEvent = async (eventType: string, details: Record<string, unknown> = {}) => {
+      const { error } = await supabase.from("security_logs").insert({
+        event_type: eventType,
+        ip_address: clientIp,
+        user_agent: req.headers.get("user-agent") || "unknown",
+        email,
+        details,
+      });
+      if (error) console.error("Error logging sign-in event:", error);
+    };
+
+    await logEvent("login_attempt");
+
+    // A separate client, so the service role client never carries a user session
+    const authClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+    const { data, error } = await authClient.auth.signInWithPassword({ email, password });
+
+    if (error || !data.session) {
+      await logEvent("login_failure", { reason: error?.message ?? "No session returned" });
+
+      // This failure may be the one that tripped the lockout
+      const block = await findActiveBlock(supabase, clientIp);
+      if (block) {
+        return jsonResponse(
+          { error: "Access from your network has been blocked", blocked_until: block.expires_at },
+          403,
+        );
+      }
+      return jsonResponse({ error: error?.message ?? "Sign in failed" }, 401);
+    }
+
+    return jsonResponse({
+      access_token: data.session.access_token,
+      refresh_token: data.session.refresh_token,
+    }, 200);
+  } catch (error) {
+    console.error("Sign in error:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,182 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ReferralSla {
+  urgency: string;
+  accept_within_minutes: number;
+  repeat_every_minutes: number;
+}
+
+interface OverdueReferral {
+  id: string;
+  to_hospital_id: string;
+  urgency: string;
+  created_at: string;
+}
+
+interface SlaBreach {
+  id: string;
+  referral_id: string;
+  escalation_count: number;
+  last_escalated_at: string;
+  resolved_at: string | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+function formatMinutes(minutes: number): string {
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? "" : "s"}`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? "" : "s"}`;
+  return `${minutes} minutes`;
+}
+
+// Admins working at the receiving hospital; when it has none, every admin is told
+async function createRecipientLookup(supabase: SupabaseClient) {
+  const { data: adminRoles, error } = await supabase
+    .from("user_roles")
+    .select("user_id")
+    .eq("role", "admin");
+
+  if (error) throw error;
+
+  const adminIds = (adminRoles || []).map((r) => r.user_id as string);
+  const { data: adminProfiles } = await supabase
+    .from("profiles")
+    .select("id, hospital_id")
+    .in("id", adminIds);
+
+  return (hospitalId: string): string[] => {
+    const hospitalAdmins = (adminProfiles || [])
+      .filter((p) => p.hospital_id === hospitalId)
+      .map((p) => p.id as string);
+    return hospitalAdmins.length > 0 ? hospitalAdmins : adminIds;
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Only the scheduler holds the service role key
+  if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const now = new Date();
+
+    const { data: slas, error: slaError } = await supabase
+      .from("referral_slas")
+      .select("urgency, accept_within_minutes, repeat_every_minutes")
+      .eq("is_active", true);
+
+    if (slaError) throw slaError;
+
+    const recipientsFor = await createRecipientLookup(supabase);
+    let breached = 0;
+    let escalated = 0;
+
+    for (const sla of (slas || []) as ReferralSla[]) {
+      const deadline = new Date(now.getTime() - sla.accept_within_minutes * MINUTE_MS);
+
+      const { data: overdue, error: overdueError } = await supabase
+        .from("referrals")
+        .select("id, to_hospital_id, urgency, created_at")
+        .eq("status", "pending")
+        .eq("urgency", sla.urgency)
+        .lte("created_at", deadline.toISOString());
+
+      if (overdueError) throw overdueError;
+      if (!overdue || overdue.length === 0) continue;
+
+      const { data: existing, error: existingError } = await supabase
+        .from("referral_sla_breaches")
+        .select("id, referral_id, escalation_count, last_escalated_at, resolved_at")
+        .in("referral_id", overdue.map((r) => r.id));
+
+      if (existingError) throw existingError;
+
+      const breachByReferral = new Map(((existing || []) as SlaBreach[]).map((b) => [b.referral_id, b]));
+      const repeatBefore = now.getTime() - sla.repeat_every_minutes * MINUTE_MS;
+
+      for (const referral of overdue as OverdueReferral[]) {
+        const breach = breachByReferral.get(referral.id);
+        const notifiedUserIds = recipientsFor(referral.to_hospital_id);
+        const waitingMinutes = Math.floor((now.getTime() - new Date(referral.created_at).getTime()) / MINUTE_MS);
+
+        if (!breach) {
+          const { error } = await supabase.from("referral_sla_breaches").insert({
+            referral_id: referral.id,
+            hospital_id: referral.to_hospital_id,
+            urgency: referral.urgency,
+            due_at: new Date(new Date(referral.created_at).getTime() + sla.accept_within_minutes * MINUTE_MS).toISOString(),
+            notified_user_ids: notifiedUserIds,
+          });
+
+          if (error) {
+            console.error("Error recording SLA breach:", error);
+            continue;
+          }
+
+          await supabase.from("referral_activity_logs").insert({
+            referral_id: referral.id,
+            action: "SLA breached",
+            details: `Not accepted within ${formatMinutes(sla.accept_within_minutes)}; hospital admins notified`,
+          });
+          breached++;
+          continue;
+        }
+
+        // Resolved breaches come back when a referral returns to pending
+        if (!breach.resolved_at && new Date(breach.last_escalated_at).getTime() > repeatBefore) continue;
+
+        const escalationCount = breach.escalation_count + 1;
+        const { error } = await supabase
+          .from("referral_sla_breaches")
+          .update({
+            escalation_count: escalationCount,
+            last_escalated_at: now.toISOString(),
+            notified_user_ids: notifiedUserIds,
+            resolved_at: null,
+          })
+          .eq("id", breach.id);
+
+        if (error) {
+          console.error("Error escalating SLA breach:", error);
+          continue;
+        }
+
+        await supabase.from("referral_activity_logs").insert({
+          referral_id: referral.id,
+          action: "SLA escalated",
+          details: `Still pending after ${formatMinutes(waitingMinutes)} (escalation #${escalationCount})`,
+        });
+        escalated++;
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, breached, escalated }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("SLA escalation error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,150 @@
+-- Allowed referral status transitions and which side of the referral may perform them
+CREATE TABLE public.referral_status_transitions (
+  from_status referral_status NOT NULL,
+  to_status referral_status NOT NULL,
+  actor_side TEXT NOT NULL CHECK (actor_side IN ('sending', 'receiving')),
+  requires_reason BOOLEAN NOT NULL DEFAULT false,
+  PRIMARY KEY (from_status, to_status)
+);
+
+ALTER TABLE public.referral_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view status transitions"
+ON public.referral_status_transitions
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.referral_status_transitions (from_status, to_status, actor_side, requires_reason) VALUES
+('pending', 'accepted', 'receiving', false),
+('pending', 'rejected', 'receiving', true),
+('pending', 'more_info_requested', 'receiving', true),
+('more_info_requested', 'pending', 'sending', true),
+('more_info_requested', 'rejected', 'receiving', true),
+('accepted', 'in_treatment', 'receiving', false),
+('in_treatment', 'completed', 'receiving', false);
+
+-- Status and patient code may only change through transition_referral_status
+CREATE OR REPLACE FUNCTION public.guard_referral_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.status IS DISTINCT FROM OLD.status OR NEW.patient_code IS DISTINCT FROM OLD.patient_code)
+     AND coalesce(current_setting('app.referral_transition', true), '') <> 'on' THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Referral status can only be changed through transition_referral_status',
+      HINT = 'direct_status_update';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_referrals_status_change
+BEFORE UPDATE ON public.referrals
+FOR EACH ROW EXECUTE FUNCTION public.guard_referral_status_change();
+
+-- Transitions the current user may perform on a referral right now
+CREATE OR REPLACE FUNCTION public.get_allowed_referral_transitions(_referral_id UUID)
+RETURNS TABLE (to_status referral_status, requires_reason BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.to_status, t.requires_reason
+  FROM public.referrals r
+  JOIN public.referral_status_transitions t ON t.from_status = r.status
+  WHERE r.id = _referral_id
+    AND (
+      public.has_role(auth.uid(), 'admin')
+      OR (t.actor_side = 'sending' AND r.from_hospital_id = public.get_user_hospital(auth.uid()))
+      OR (t.actor_side = 'receiving' AND r.to_hospital_id = public.get_user_hospital(auth.uid()))
+    )
+  ORDER BY t.to_status
+$$;
+
+-- Validate and apply a status transition, writing the activity log in the same transaction.
+-- Errors carry a machine-readable code in HINT: not_authenticated, not_found, forbidden,
+-- invalid_transition or reason_required.
+CREATE OR REPLACE FUNCTION public.transition_referral_status(
+  _referral_id UUID,
+  _to_status referral_status,
+  _details TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _user_hospital UUID;
+  _referral public.referrals%ROWTYPE;
+  _rule public.referral_status_transitions%ROWTYPE;
+  _details_clean TEXT := nullif(btrim(_details), '');
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to update referrals', HINT = 'not_authenticated';
+  END IF;
+
+  _user_hospital := public.get_user_hospital(_user_id);
+
+  SELECT * INTO _referral FROM public.referrals WHERE id = _referral_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.has_role(_user_id, 'admin')
+    OR _referral.from_hospital_id = _user_hospital
+    OR _referral.to_hospital_id = _user_hospital
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  SELECT * INTO _rule
+  FROM public.referral_status_transitions
+  WHERE from_status = _referral.status AND to_status = _to_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('A %s referral cannot be moved to %s',
+        replace(_referral.status::text, '_', ' '), replace(_to_status::text, '_', ' ')),
+      HINT = 'invalid_transition';
+  END IF;
+
+  IF NOT (
+    public.has_role(_user_id, 'admin')
+    OR (_rule.actor_side = 'sending' AND _referral.from_hospital_id = _user_hospital)
+    OR (_rule.actor_side = 'receiving' AND _referral.to_hospital_id = _user_hospital)
+  ) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('Only the %s hospital can perform this action', _rule.actor_side),
+      HINT = 'forbidden';
+  END IF;
+
+  IF _rule.requires_reason AND _details_clean IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'A reason is required for this action', HINT = 'reason_required';
+  END IF;
+
+  PERFORM set_config('app.referral_transition', 'on', true);
+
+  UPDATE public.referrals
+  SET
+    status = _to_status,
+    rejection_reason = CASE WHEN _to_status = 'rejected' THEN _details_clean ELSE rejection_reason END,
+    patient_code = CASE WHEN _to_status = 'completed' THEN public.generate_patient_code() ELSE patient_code END,
+    assigned_doctor_id = CASE WHEN _to_status IN ('accepted', 'in_treatment') THEN _user_id ELSE assigned_doctor_id END
+  WHERE id = _referral_id;
+
+  PERFORM set_config('app.referral_transition', 'off', true);
+
+  INSERT INTO public.referral_activity_logs (referral_id, action, performed_by, details)
+  VALUES (_referral_id, 'Status changed to ' || replace(_to_status::text, '_', ' '), _user_id, _details_clean);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transition_referral_status(UUID, referral_status, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.get_allowed_referral_transitions(UUID) FROM anon;
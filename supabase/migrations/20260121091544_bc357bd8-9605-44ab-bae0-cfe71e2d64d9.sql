@@ -0,0 +1,17 @@
+-- Store the required specialty on each referral
+ALTER TABLE public.referrals ADD COLUMN IF NOT EXISTS specialty TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_referrals_specialty ON public.referrals(specialty);
+
+-- Backfill from the assigned doctor's specialty where we have one.
+-- updated_at doubles as the completion date, so leave it untouched.
+ALTER TABLE public.referrals DISABLE TRIGGER update_referrals_updated_at;
+
+UPDATE public.referrals r
+SET specialty = p.specialty
+FROM public.profiles p
+WHERE r.specialty IS NULL
+  AND r.assigned_doctor_id = p.id
+  AND p.specialty IS NOT NULL;
+
+ALTER TABLE public.referrals ENABLE TRIGGER update_referrals_updated_at;
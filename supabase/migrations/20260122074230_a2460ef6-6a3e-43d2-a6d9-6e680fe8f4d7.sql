@@ -0,0 +1,126 @@
+-- Indexes backing the paginated referral list (newest first, keyset on created_at + id)
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS idx_referrals_created_at_id ON public.referrals(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_referrals_from_hospital_created ON public.referrals(from_hospital_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_referrals_to_hospital_created ON public.referrals(to_hospital_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_referrals_patient_name_trgm ON public.referrals USING gin (patient_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_referrals_patient_medical_id_trgm ON public.referrals USING gin (patient_medical_id extensions.gin_trgm_ops);
+
+-- Referrals with hospital and doctor names joined in. security_invoker keeps the referrals RLS in force.
+CREATE OR REPLACE VIEW public.referral_list_view
+WITH (security_invoker = true) AS
+SELECT
+  r.id,
+  r.patient_name,
+  r.patient_age,
+  r.patient_contact,
+  r.patient_medical_id,
+  r.patient_code,
+  r.medical_summary,
+  r.reason,
+  r.urgency,
+  r.status,
+  r.specialty,
+  r.rejection_reason,
+  r.from_hospital_id,
+  fh.name AS from_hospital_name,
+  r.to_hospital_id,
+  th.name AS to_hospital_name,
+  r.created_by,
+  creator.full_name AS creator_name,
+  r.assigned_doctor_id,
+  assignee.full_name AS assigned_doctor_name,
+  r.created_at,
+  r.updated_at
+FROM public.referrals r
+LEFT JOIN public.hospitals fh ON fh.id = r.from_hospital_id
+LEFT JOIN public.hospitals th ON th.id = r.to_hospital_id
+LEFT JOIN public.profiles creator ON creator.id = r.created_by
+LEFT JOIN public.profiles assignee ON assignee.id = r.assigned_doctor_id;
+
+-- Shared filter for the list and count functions.
+-- _direction: 'sent' or 'incoming' relative to the caller's hospital, NULL for everything visible.
+-- _hospital_id matches either end of the referral. Referrals without a specialty match 'General'.
+CREATE OR REPLACE FUNCTION public.filter_referral_list(
+  _direction TEXT DEFAULT NULL,
+  _urgency urgency_level DEFAULT NULL,
+  _hospital_id UUID DEFAULT NULL,
+  _specialty TEXT DEFAULT NULL,
+  _created_from TIMESTAMPTZ DEFAULT NULL,
+  _created_to TIMESTAMPTZ DEFAULT NULL,
+  _search TEXT DEFAULT NULL
+)
+RETURNS SETOF public.referral_list_view
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT v.*
+  FROM public.referral_list_view v
+  WHERE (
+      _direction IS NULL
+      OR (_direction = 'sent' AND v.from_hospital_id = public.get_user_hospital(auth.uid()))
+      OR (_direction = 'incoming' AND v.to_hospital_id = public.get_user_hospital(auth.uid()))
+    )
+    AND (_urgency IS NULL OR v.urgency = _urgency)
+    AND (_hospital_id IS NULL OR v.from_hospital_id = _hospital_id OR v.to_hospital_id = _hospital_id)
+    AND (_specialty IS NULL OR coalesce(v.specialty, 'General') = _specialty)
+    AND (_created_from IS NULL OR v.created_at >= _created_from)
+    AND (_created_to IS NULL OR v.created_at < _created_to)
+    AND (
+      nullif(btrim(_search), '') IS NULL
+      OR v.patient_name ILIKE '%' || replace(replace(replace(btrim(_search), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      OR v.patient_medical_id ILIKE '%' || replace(replace(replace(btrim(_search), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+$$;
+
+-- One page of referrals, newest first. Pass the created_at and id of the last row as the cursor.
+CREATE OR REPLACE FUNCTION public.list_referrals(
+  _direction TEXT DEFAULT NULL,
+  _statuses referral_status[] DEFAULT NULL,
+  _urgency urgency_level DEFAULT NULL,
+  _hospital_id UUID DEFAULT NULL,
+  _specialty TEXT DEFAULT NULL,
+  _created_from TIMESTAMPTZ DEFAULT NULL,
+  _created_to TIMESTAMPTZ DEFAULT NULL,
+  _search TEXT DEFAULT NULL,
+  _cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 20
+)
+RETURNS SETOF public.referral_list_view
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT f.*
+  FROM public.filter_referral_list(_direction, _urgency, _hospital_id, _specialty, _created_from, _created_to, _search) f
+  WHERE (_statuses IS NULL OR f.status = ANY(_statuses))
+    AND (_cursor_created_at IS NULL OR (f.created_at, f.id) < (_cursor_created_at, _cursor_id))
+  ORDER BY f.created_at DESC, f.id DESC
+  LIMIT least(greatest(coalesce(_limit, 20), 1), 100)
+$$;
+
+-- Per-status totals for the same filters, used for tab badges
+CREATE OR REPLACE FUNCTION public.count_referrals_by_status(
+  _direction TEXT DEFAULT NULL,
+  _urgency urgency_level DEFAULT NULL,
+  _hospital_id UUID DEFAULT NULL,
+  _specialty TEXT DEFAULT NULL,
+  _created_from TIMESTAMPTZ DEFAULT NULL,
+  _created_to TIMESTAMPTZ DEFAULT NULL,
+  _search TEXT DEFAULT NULL
+)
+RETURNS TABLE (status referral_status, total BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT f.status, count(*) AS total
+  FROM public.filter_referral_list(_direction, _urgency, _hospital_id, _specialty, _created_from, _created_to, _search) f
+  GROUP BY f.status
+$$;
@@ -0,0 +1,6 @@
+-- Realtime UPDATE payloads carry the previous row, so clients can tell what changed
+-- (e.g. the old status) without refetching
+ALTER TABLE public.referrals REPLICA IDENTITY FULL;
+
+-- Activity log entries are streamed so an open referral's timeline can be patched in place
+ALTER PUBLICATION supabase_realtime ADD TABLE public.referral_activity_logs;
@@ -0,0 +1,195 @@
+-- A forwarded referral points at the referral it was forwarded from
+ALTER TABLE public.referrals
+ADD COLUMN parent_referral_id UUID REFERENCES public.referrals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_referrals_parent_referral_id ON public.referrals(parent_referral_id);
+
+CREATE OR REPLACE VIEW public.referral_list_view
+WITH (security_invoker = true) AS
+SELECT
+  r.id,
+  r.patient_name,
+  r.patient_age,
+  r.patient_contact,
+  r.patient_medical_id,
+  r.patient_code,
+  r.medical_summary,
+  r.reason,
+  r.urgency,
+  r.status,
+  r.specialty,
+  r.rejection_reason,
+  r.from_hospital_id,
+  fh.name AS from_hospital_name,
+  r.to_hospital_id,
+  th.name AS to_hospital_name,
+  r.created_by,
+  creator.full_name AS creator_name,
+  r.assigned_doctor_id,
+  assignee.full_name AS assigned_doctor_name,
+  r.created_at,
+  r.updated_at,
+  r.parent_referral_id
+FROM public.referrals r
+LEFT JOIN public.hospitals fh ON fh.id = r.from_hospital_id
+LEFT JOIN public.hospitals th ON th.id = r.to_hospital_id
+LEFT JOIN public.profiles creator ON creator.id = r.created_by
+LEFT JOIN public.profiles assignee ON assignee.id = r.assigned_doctor_id;
+
+-- Forward a referral the caller's hospital received to another hospital. The child referral copies
+-- the patient, summary, messages and attachment records (storage objects are copied by the client
+-- to <child id>/<file name>), and the parent is closed as rejected with the forwarding reason.
+-- Errors use the same HINT codes as transition_referral_status.
+CREATE OR REPLACE FUNCTION public.forward_referral(
+  _referral_id UUID,
+  _to_hospital_id UUID,
+  _reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _user_hospital UUID;
+  _parent public.referrals%ROWTYPE;
+  _child_id UUID;
+  _reason_clean TEXT := nullif(btrim(_reason), '');
+  _target_name TEXT;
+  _source_name TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to forward referrals', HINT = 'not_authenticated';
+  END IF;
+
+  _user_hospital := public.get_user_hospital(_user_id);
+
+  SELECT * INTO _parent FROM public.referrals WHERE id = _referral_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.has_role(_user_id, 'admin')
+    OR _parent.from_hospital_id = _user_hospital
+    OR _parent.to_hospital_id = _user_hospital
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  IF NOT (public.has_role(_user_id, 'admin') OR _parent.to_hospital_id = _user_hospital) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Only the receiving hospital can forward a referral', HINT = 'forbidden';
+  END IF;
+
+  IF _parent.status NOT IN ('pending', 'more_info_requested', 'accepted') THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('A %s referral cannot be forwarded', replace(_parent.status::text, '_', ' ')),
+      HINT = 'invalid_transition';
+  END IF;
+
+  IF _to_hospital_id IS NULL OR _to_hospital_id IN (_parent.from_hospital_id, _parent.to_hospital_id) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Choose a hospital other than the referring and receiving hospitals',
+      HINT = 'invalid_transition';
+  END IF;
+
+  SELECT name INTO _target_name FROM public.hospitals WHERE id = _to_hospital_id;
+  IF _target_name IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Hospital not found', HINT = 'not_found';
+  END IF;
+
+  IF _reason_clean IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'A reason is required for this action', HINT = 'reason_required';
+  END IF;
+
+  SELECT name INTO _source_name FROM public.hospitals WHERE id = _parent.to_hospital_id;
+
+  INSERT INTO public.referrals (
+    patient_name, patient_age, patient_contact, patient_medical_id,
+    medical_summary, reason, urgency, specialty,
+    from_hospital_id, to_hospital_id, created_by, status, parent_referral_id
+  )
+  VALUES (
+    _parent.patient_name, _parent.patient_age, _parent.patient_contact, _parent.patient_medical_id,
+    _parent.medical_summary, _reason_clean, _parent.urgency, _parent.specialty,
+    _parent.to_hospital_id, _to_hospital_id, _user_id, 'pending', _parent.id
+  )
+  RETURNING id INTO _child_id;
+
+  INSERT INTO public.referral_attachments (referral_id, file_name, file_path, file_type, file_size, uploaded_by, created_at)
+  SELECT _child_id, a.file_name, _child_id || '/' || regexp_replace(a.file_path, '^.*/', ''),
+         a.file_type, a.file_size, a.uploaded_by, a.created_at
+  FROM public.referral_attachments a
+  WHERE a.referral_id = _parent.id;
+
+  INSERT INTO public.referral_messages (referral_id, sender_id, message, is_read, created_at)
+  SELECT _child_id, m.sender_id, m.message, false, m.created_at
+  FROM public.referral_messages m
+  WHERE m.referral_id = _parent.id;
+
+  PERFORM set_config('app.referral_transition', 'on', true);
+
+  UPDATE public.referrals
+  SET status = 'rejected',
+      rejection_reason = format('Forwarded to %s: %s', _target_name, _reason_clean)
+  WHERE id = _parent.id;
+
+  PERFORM set_config('app.referral_transition', 'off', true);
+
+  INSERT INTO public.referral_activity_logs (referral_id, action, performed_by, details) VALUES
+    (_parent.id, 'Forwarded to ' || _target_name, _user_id, _reason_clean),
+    (_child_id, 'Referral Created', _user_id, NULL),
+    (_child_id, 'Forwarded from ' || coalesce(_source_name, 'another hospital'), _user_id, _reason_clean);
+
+  RETURN _child_id;
+END;
+$$;
+
+-- The whole forwarding chain a referral belongs to, root first. Only routing details are exposed,
+-- so hospitals further down the chain can see where the patient came from.
+CREATE OR REPLACE FUNCTION public.get_referral_chain(_referral_id UUID)
+RETURNS TABLE (
+  id UUID,
+  parent_referral_id UUID,
+  from_hospital_name TEXT,
+  to_hospital_name TEXT,
+  status referral_status,
+  reason TEXT,
+  created_at TIMESTAMPTZ,
+  depth INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE visible AS (
+    SELECT r.id FROM public.referrals r
+    WHERE r.id = _referral_id
+      AND (
+        public.has_role(auth.uid(), 'admin')
+        OR r.from_hospital_id = public.get_user_hospital(auth.uid())
+        OR r.to_hospital_id = public.get_user_hospital(auth.uid())
+      )
+  ),
+  ancestors AS (
+    SELECT r.id, r.parent_referral_id FROM public.referrals r JOIN visible v ON v.id = r.id
+    UNION
+    SELECT p.id, p.parent_referral_id FROM public.referrals p JOIN ancestors a ON a.parent_referral_id = p.id
+  ),
+  chain AS (
+    SELECT r.id, 0 AS depth FROM public.referrals r
+    WHERE r.id IN (SELECT a.id FROM ancestors a WHERE a.parent_referral_id IS NULL)
+    UNION
+    SELECT c.id, chain.depth + 1 FROM public.referrals c JOIN chain ON c.parent_referral_id = chain.id
+  )
+  SELECT r.id, r.parent_referral_id, fh.name, th.name, r.status, r.reason, r.created_at, chain.depth
+  FROM chain
+  JOIN public.referrals r ON r.id = chain.id
+  LEFT JOIN public.hospitals fh ON fh.id = r.from_hospital_id
+  LEFT JOIN public.hospitals th ON th.id = r.to_hospital_id
+  ORDER BY chain.depth, r.created_at
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.forward_referral(UUID, UUID, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.get_referral_chain(UUID) FROM anon;
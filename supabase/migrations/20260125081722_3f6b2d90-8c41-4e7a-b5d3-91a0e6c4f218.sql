@@ -0,0 +1,148 @@
+-- Hospital-wide capacity: ICU beds and whether the hospital takes new referrals at all
+CREATE TABLE public.hospital_capacity (
+  hospital_id UUID PRIMARY KEY REFERENCES public.hospitals(id) ON DELETE CASCADE,
+  icu_beds_total INTEGER NOT NULL DEFAULT 0 CHECK (icu_beds_total >= 0),
+  icu_beds_available INTEGER NOT NULL DEFAULT 0 CHECK (icu_beds_available >= 0),
+  accepting_referrals BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (icu_beds_available <= icu_beds_total)
+);
+
+-- Departments inside a hospital with their own bed counts. specialty links a department to
+-- the specialty referrals are sent for.
+CREATE TABLE public.hospital_departments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hospital_id UUID NOT NULL REFERENCES public.hospitals(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  specialty TEXT,
+  beds_total INTEGER NOT NULL DEFAULT 0 CHECK (beds_total >= 0),
+  beds_available INTEGER NOT NULL DEFAULT 0 CHECK (beds_available >= 0),
+  accepting_referrals BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (hospital_id, name),
+  CHECK (beds_available <= beds_total)
+);
+
+CREATE INDEX idx_hospital_departments_hospital ON public.hospital_departments(hospital_id);
+
+-- Every change to hospital or department capacity, for trend reporting
+CREATE TABLE public.hospital_capacity_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hospital_id UUID NOT NULL REFERENCES public.hospitals(id) ON DELETE CASCADE,
+  department_id UUID REFERENCES public.hospital_departments(id) ON DELETE SET NULL,
+  department_name TEXT,
+  beds_total INTEGER NOT NULL,
+  beds_available INTEGER NOT NULL,
+  accepting_referrals BOOLEAN NOT NULL,
+  recorded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_capacity_snapshots_hospital_recorded ON public.hospital_capacity_snapshots(hospital_id, recorded_at DESC);
+
+ALTER TABLE public.hospital_capacity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.hospital_departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.hospital_capacity_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view hospital capacity" ON public.hospital_capacity FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins can insert hospital capacity" ON public.hospital_capacity FOR INSERT TO authenticated WITH CHECK (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can update hospital capacity" ON public.hospital_capacity FOR UPDATE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view departments" ON public.hospital_departments FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins can insert departments" ON public.hospital_departments FOR INSERT TO authenticated WITH CHECK (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can update departments" ON public.hospital_departments FOR UPDATE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can delete departments" ON public.hospital_departments FOR DELETE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view capacity history" ON public.hospital_capacity_snapshots FOR SELECT TO authenticated USING (true);
+
+CREATE TRIGGER update_hospital_capacity_updated_at
+BEFORE UPDATE ON public.hospital_capacity
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_hospital_departments_updated_at
+BEFORE UPDATE ON public.hospital_departments
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Snapshots are written by triggers only, so the history cannot be edited from the client.
+-- Hospital rows record ICU beds with no department; department rows record their ward beds.
+CREATE OR REPLACE FUNCTION public.record_capacity_snapshot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'hospital_capacity' THEN
+    INSERT INTO public.hospital_capacity_snapshots
+      (hospital_id, beds_total, beds_available, accepting_referrals, recorded_by)
+    VALUES
+      (NEW.hospital_id, NEW.icu_beds_total, NEW.icu_beds_available, NEW.accepting_referrals, auth.uid());
+  ELSE
+    INSERT INTO public.hospital_capacity_snapshots
+      (hospital_id, department_id, department_name, beds_total, beds_available, accepting_referrals, recorded_by)
+    VALUES
+      (NEW.hospital_id, NEW.id, NEW.name, NEW.beds_total, NEW.beds_available, NEW.accepting_referrals, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_hospital_capacity_snapshot
+AFTER INSERT OR UPDATE ON public.hospital_capacity
+FOR EACH ROW EXECUTE FUNCTION public.record_capacity_snapshot();
+
+CREATE TRIGGER record_hospital_department_snapshot
+AFTER INSERT OR UPDATE OF beds_total, beds_available, accepting_referrals ON public.hospital_departments
+FOR EACH ROW EXECUTE FUNCTION public.record_capacity_snapshot();
+
+-- Emergency referrals cannot be sent to a hospital that is not accepting referrals, or where no
+-- department for the referral's specialty is open with a free bed. Hospitals without departments
+-- for that specialty are not checked.
+CREATE OR REPLACE FUNCTION public.check_emergency_referral_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hospital public.hospital_capacity%ROWTYPE;
+BEGIN
+  IF NEW.urgency <> 'emergency' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _hospital FROM public.hospital_capacity WHERE hospital_id = NEW.to_hospital_id;
+  IF FOUND AND NOT _hospital.accepting_referrals THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'The receiving hospital is not accepting referrals',
+      HINT = 'capacity_full';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.hospital_departments
+    WHERE hospital_id = NEW.to_hospital_id AND specialty = coalesce(NEW.specialty, 'General')
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.hospital_departments
+    WHERE hospital_id = NEW.to_hospital_id AND specialty = coalesce(NEW.specialty, 'General')
+      AND accepting_referrals AND beds_available > 0
+  ) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('No %s beds are available at the receiving hospital', coalesce(NEW.specialty, 'General')),
+      HINT = 'capacity_full';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_referrals_emergency_capacity
+BEFORE INSERT ON public.referrals
+FOR EACH ROW EXECUTE FUNCTION public.check_emergency_referral_capacity();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.hospital_capacity;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.hospital_departments;
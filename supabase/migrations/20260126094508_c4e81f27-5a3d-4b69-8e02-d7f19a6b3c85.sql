@@ -0,0 +1,263 @@
+-- Doctors belonging to a hospital department. Department queues and notifications use this.
+CREATE TABLE public.department_members (
+  department_id UUID NOT NULL REFERENCES public.hospital_departments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (department_id, user_id)
+);
+
+CREATE INDEX idx_department_members_user ON public.department_members(user_id);
+
+-- Rules that route an incoming referral to a department. The lowest priority number that
+-- matches wins; NULL criteria match anything. start_time/end_time are local to time_zone and
+-- may wrap past midnight (e.g. 20:00-08:00 for a night service).
+CREATE TABLE public.referral_routing_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hospital_id UUID NOT NULL REFERENCES public.hospitals(id) ON DELETE CASCADE,
+  department_id UUID NOT NULL REFERENCES public.hospital_departments(id) ON DELETE CASCADE,
+  specialty TEXT,
+  urgency urgency_level,
+  start_time TIME,
+  end_time TIME,
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((start_time IS NULL) = (end_time IS NULL))
+);
+
+CREATE INDEX idx_referral_routing_rules_hospital ON public.referral_routing_rules(hospital_id, priority);
+
+ALTER TABLE public.department_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.referral_routing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view department members" ON public.department_members FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins can add department members" ON public.department_members FOR INSERT TO authenticated WITH CHECK (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can remove department members" ON public.department_members FOR DELETE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Hospital staff can view routing rules" ON public.referral_routing_rules FOR SELECT TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR hospital_id = public.get_user_hospital(auth.uid()));
+CREATE POLICY "Admins can insert routing rules" ON public.referral_routing_rules FOR INSERT TO authenticated WITH CHECK (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can update routing rules" ON public.referral_routing_rules FOR UPDATE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can delete routing rules" ON public.referral_routing_rules FOR DELETE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_referral_routing_rules_updated_at
+BEFORE UPDATE ON public.referral_routing_rules
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.referrals
+ADD COLUMN department_id UUID REFERENCES public.hospital_departments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_referrals_department_created ON public.referrals(department_id, created_at DESC, id DESC);
+
+-- Department that should receive a referral: the first matching active rule, otherwise the
+-- hospital's only department for the referral's specialty, otherwise none (hospital-wide queue).
+CREATE OR REPLACE FUNCTION public.resolve_referral_department(
+  _to_hospital_id UUID,
+  _specialty TEXT,
+  _urgency urgency_level,
+  _at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (
+      SELECT rr.department_id
+      FROM public.referral_routing_rules rr
+      WHERE rr.hospital_id = _to_hospital_id
+        AND rr.is_active
+        AND (rr.specialty IS NULL OR rr.specialty = coalesce(_specialty, 'General'))
+        AND (rr.urgency IS NULL OR rr.urgency = _urgency)
+        AND (
+          rr.start_time IS NULL
+          OR (rr.start_time <= rr.end_time
+              AND (_at AT TIME ZONE rr.time_zone)::time >= rr.start_time
+              AND (_at AT TIME ZONE rr.time_zone)::time < rr.end_time)
+          OR (rr.start_time > rr.end_time
+              AND ((_at AT TIME ZONE rr.time_zone)::time >= rr.start_time
+                   OR (_at AT TIME ZONE rr.time_zone)::time < rr.end_time))
+        )
+      ORDER BY rr.priority, rr.created_at
+      LIMIT 1
+    ),
+    (
+      SELECT min(d.id::text)::uuid
+      FROM public.hospital_departments d
+      WHERE d.hospital_id = _to_hospital_id AND d.specialty = coalesce(_specialty, 'General')
+      HAVING count(*) = 1
+    )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.route_referral_to_department()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.department_id IS NULL THEN
+    NEW.department_id := public.resolve_referral_department(NEW.to_hospital_id, NEW.specialty, NEW.urgency);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER route_referrals_to_department
+BEFORE INSERT ON public.referrals
+FOR EACH ROW EXECUTE FUNCTION public.route_referral_to_department();
+
+-- Routing happens on insert; a department has to belong to the receiving hospital
+CREATE OR REPLACE FUNCTION public.check_referral_department()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.department_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.hospital_departments
+    WHERE id = NEW.department_id AND hospital_id = NEW.to_hospital_id
+  ) THEN
+    RAISE EXCEPTION 'Department does not belong to the receiving hospital';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_referrals_department
+BEFORE INSERT OR UPDATE OF department_id, to_hospital_id ON public.referrals
+FOR EACH ROW EXECUTE FUNCTION public.check_referral_department();
+
+CREATE OR REPLACE VIEW public.referral_list_view
+WITH (security_invoker = true) AS
+SELECT
+  r.id,
+  r.patient_name,
+  r.patient_age,
+  r.patient_contact,
+  r.patient_medical_id,
+  r.patient_code,
+  r.medical_summary,
+  r.reason,
+  r.urgency,
+  r.status,
+  r.specialty,
+  r.rejection_reason,
+  r.from_hospital_id,
+  fh.name AS from_hospital_name,
+  r.to_hospital_id,
+  th.name AS to_hospital_name,
+  r.created_by,
+  creator.full_name AS creator_name,
+  r.assigned_doctor_id,
+  assignee.full_name AS assigned_doctor_name,
+  r.created_at,
+  r.updated_at,
+  r.parent_referral_id,
+  r.department_id,
+  dept.name AS department_name
+FROM public.referrals r
+LEFT JOIN public.hospitals fh ON fh.id = r.from_hospital_id
+LEFT JOIN public.hospitals th ON th.id = r.to_hospital_id
+LEFT JOIN public.profiles creator ON creator.id = r.created_by
+LEFT JOIN public.profiles assignee ON assignee.id = r.assigned_doctor_id
+LEFT JOIN public.hospital_departments dept ON dept.id = r.department_id;
+
+-- Department queues: the list functions gain a _department_ids filter
+DROP FUNCTION public.list_referrals(TEXT, referral_status[], urgency_level, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TIMESTAMPTZ, UUID, INTEGER);
+DROP FUNCTION public.count_referrals_by_status(TEXT, urgency_level, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT);
+DROP FUNCTION public.filter_referral_list(TEXT, urgency_level, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT);
+
+CREATE OR REPLACE FUNCTION public.filter_referral_list(
+  _direction TEXT DEFAULT NULL,
+  _urgency urgency_level DEFAULT NULL,
+  _hospital_id UUID DEFAULT NULL,
+  _specialty TEXT DEFAULT NULL,
+  _created_from TIMESTAMPTZ DEFAULT NULL,
+  _created_to TIMESTAMPTZ DEFAULT NULL,
+  _search TEXT DEFAULT NULL,
+  _department_ids UUID[] DEFAULT NULL
+)
+RETURNS SETOF public.referral_list_view
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT v.*
+  FROM public.referral_list_view v
+  WHERE (
+      _direction IS NULL
+      OR (_direction = 'sent' AND v.from_hospital_id = public.get_user_hospital(auth.uid()))
+      OR (_direction = 'incoming' AND v.to_hospital_id = public.get_user_hospital(auth.uid()))
+    )
+    AND (_urgency IS NULL OR v.urgency = _urgency)
+    AND (_hospital_id IS NULL OR v.from_hospital_id = _hospital_id OR v.to_hospital_id = _hospital_id)
+    AND (_specialty IS NULL OR coalesce(v.specialty, 'General') = _specialty)
+    AND (_created_from IS NULL OR v.created_at >= _created_from)
+    AND (_created_to IS NULL OR v.created_at < _created_to)
+    AND (_department_ids IS NULL OR v.department_id = ANY(_department_ids))
+    AND (
+      nullif(btrim(_search), '') IS NULL
+      OR v.patient_name ILIKE '%' || replace(replace(replace(btrim(_search), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      OR v.patient_medical_id ILIKE '%' || replace(replace(replace(btrim(_search), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_referrals(
+  _direction TEXT DEFAULT NULL,
+  _statuses referral_status[] DEFAULT NULL,
+  _urgency urgency_level DEFAULT NULL,
+  _hospital_id UUID DEFAULT NULL,
+  _specialty TEXT DEFAULT NULL,
+  _created_from TIMESTAMPTZ DEFAULT NULL,
+  _created_to TIMESTAMPTZ DEFAULT NULL,
+  _search TEXT DEFAULT NULL,
+  _cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _department_ids UUID[] DEFAULT NULL
+)
+RETURNS SETOF public.referral_list_view
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT f.*
+  FROM public.filter_referral_list(_direction, _urgency, _hospital_id, _specialty, _created_from, _created_to, _search, _department_ids) f
+  WHERE (_statuses IS NULL OR f.status = ANY(_statuses))
+    AND (_cursor_created_at IS NULL OR (f.created_at, f.id) < (_cursor_created_at, _cursor_id))
+  ORDER BY f.created_at DESC, f.id DESC
+  LIMIT least(greatest(coalesce(_limit, 20), 1), 100)
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_referrals_by_status(
+  _direction TEXT DEFAULT NULL,
+  _urgency urgency_level DEFAULT NULL,
+  _hospital_id UUID DEFAULT NULL,
+  _specialty TEXT DEFAULT NULL,
+  _created_from TIMESTAMPTZ DEFAULT NULL,
+  _created_to TIMESTAMPTZ DEFAULT NULL,
+  _search TEXT DEFAULT NULL,
+  _department_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (status referral_status, total BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT f.status, count(*) AS total
+  FROM public.filter_referral_list(_direction, _urgency, _hospital_id, _specialty, _created_from, _created_to, _search, _department_ids) f
+  GROUP BY f.status
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.department_members;
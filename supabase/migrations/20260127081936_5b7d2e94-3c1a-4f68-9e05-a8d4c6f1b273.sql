@@ -0,0 +1,230 @@
+-- Department leads may hand referrals to a specific colleague
+ALTER TABLE public.department_members
+ADD COLUMN is_lead BOOLEAN NOT NULL DEFAULT false;
+
+CREATE POLICY "Admins can update department members"
+ON public.department_members
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_referrals_assigned_doctor ON public.referrals(assigned_doctor_id);
+
+-- Whether a user may assign a referral: admins, and leads of the department it was routed to.
+-- Referrals outside any department queue may be assigned by any lead at the receiving hospital.
+CREATE OR REPLACE FUNCTION public.can_assign_referral(_user_id UUID, _referral_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR EXISTS (
+      SELECT 1
+      FROM public.referrals r
+      JOIN public.hospital_departments d ON d.hospital_id = r.to_hospital_id
+      JOIN public.department_members m ON m.department_id = d.id
+      WHERE r.id = _referral_id
+        AND m.user_id = _user_id
+        AND m.is_lead
+        AND (r.department_id IS NULL OR r.department_id = d.id)
+        AND public.get_user_hospital(_user_id) = r.to_hospital_id
+    )
+$$;
+
+-- The assignee may only change through assign_referral or a status transition
+CREATE OR REPLACE FUNCTION public.guard_referral_assignment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assigned_doctor_id IS DISTINCT FROM OLD.assigned_doctor_id
+     AND coalesce(current_setting('app.referral_transition', true), '') <> 'on' THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Referral assignee can only be changed through assign_referral',
+      HINT = 'direct_assignment_update';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_referrals_assignment_change
+BEFORE UPDATE ON public.referrals
+FOR EACH ROW EXECUTE FUNCTION public.guard_referral_assignment_change();
+
+-- Assign or reassign a referral to a doctor at the receiving hospital, logging who did it and why.
+-- A reason is required when someone else already holds the referral.
+CREATE OR REPLACE FUNCTION public.assign_referral(
+  _referral_id UUID,
+  _assignee_id UUID,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _referral public.referrals%ROWTYPE;
+  _reason_clean TEXT := nullif(btrim(_reason), '');
+  _assignee_name TEXT;
+  _previous_name TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to assign referrals', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _referral FROM public.referrals WHERE id = _referral_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.has_role(_user_id, 'admin')
+    OR _referral.from_hospital_id = public.get_user_hospital(_user_id)
+    OR _referral.to_hospital_id = public.get_user_hospital(_user_id)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  IF NOT public.can_assign_referral(_user_id, _referral_id) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Only department leads at the receiving hospital can assign referrals',
+      HINT = 'forbidden';
+  END IF;
+
+  IF _referral.status NOT IN ('pending', 'more_info_requested', 'accepted', 'in_treatment') THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('A %s referral cannot be reassigned', replace(_referral.status::text, '_', ' ')),
+      HINT = 'invalid_transition';
+  END IF;
+
+  SELECT full_name INTO _assignee_name
+  FROM public.profiles
+  WHERE id = _assignee_id AND hospital_id = _referral.to_hospital_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Referrals can only be assigned to doctors at the receiving hospital',
+      HINT = 'invalid_assignee';
+  END IF;
+
+  IF _referral.assigned_doctor_id = _assignee_id THEN
+    RETURN;
+  END IF;
+
+  IF _referral.assigned_doctor_id IS NOT NULL AND _reason_clean IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'A reason is required to reassign a referral', HINT = 'reason_required';
+  END IF;
+
+  SELECT full_name INTO _previous_name FROM public.profiles WHERE id = _referral.assigned_doctor_id;
+
+  PERFORM set_config('app.referral_transition', 'on', true);
+
+  UPDATE public.referrals
+  SET assigned_doctor_id = _assignee_id
+  WHERE id = _referral_id;
+
+  PERFORM set_config('app.referral_transition', 'off', true);
+
+  INSERT INTO public.referral_activity_logs (referral_id, action, performed_by, details)
+  VALUES (
+    _referral_id,
+    CASE
+      WHEN _referral.assigned_doctor_id IS NULL THEN 'Assigned to ' || _assignee_name
+      ELSE format('Reassigned from %s to %s', coalesce(_previous_name, 'another doctor'), _assignee_name)
+    END,
+    _user_id,
+    _reason_clean
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assign_referral(UUID, UUID, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.can_assign_referral(UUID, UUID) FROM anon;
+
+-- Accepting no longer takes over a referral a lead has already assigned to someone
+CREATE OR REPLACE FUNCTION public.transition_referral_status(
+  _referral_id UUID,
+  _to_status referral_status,
+  _details TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _user_hospital UUID;
+  _referral public.referrals%ROWTYPE;
+  _rule public.referral_status_transitions%ROWTYPE;
+  _details_clean TEXT := nullif(btrim(_details), '');
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to update referrals', HINT = 'not_authenticated';
+  END IF;
+
+  _user_hospital := public.get_user_hospital(_user_id);
+
+  SELECT * INTO _referral FROM public.referrals WHERE id = _referral_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.has_role(_user_id, 'admin')
+    OR _referral.from_hospital_id = _user_hospital
+    OR _referral.to_hospital_id = _user_hospital
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  SELECT * INTO _rule
+  FROM public.referral_status_transitions
+  WHERE from_status = _referral.status AND to_status = _to_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('A %s referral cannot be moved to %s',
+        replace(_referral.status::text, '_', ' '), replace(_to_status::text, '_', ' ')),
+      HINT = 'invalid_transition';
+  END IF;
+
+  IF NOT (
+    public.has_role(_user_id, 'admin')
+    OR (_rule.actor_side = 'sending' AND _referral.from_hospital_id = _user_hospital)
+    OR (_rule.actor_side = 'receiving' AND _referral.to_hospital_id = _user_hospital)
+  ) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('Only the %s hospital can perform this action', _rule.actor_side),
+      HINT = 'forbidden';
+  END IF;
+
+  IF _rule.requires_reason AND _details_clean IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'A reason is required for this action', HINT = 'reason_required';
+  END IF;
+
+  PERFORM set_config('app.referral_transition', 'on', true);
+
+  UPDATE public.referrals
+  SET
+    status = _to_status,
+    rejection_reason = CASE WHEN _to_status = 'rejected' THEN _details_clean ELSE rejection_reason END,
+    patient_code = CASE WHEN _to_status = 'completed' THEN public.generate_patient_code() ELSE patient_code END,
+    assigned_doctor_id = CASE
+      WHEN _to_status IN ('accepted', 'in_treatment') THEN coalesce(assigned_doctor_id, _user_id)
+      ELSE assigned_doctor_id
+    END
+  WHERE id = _referral_id;
+
+  PERFORM set_config('app.referral_transition', 'off', true);
+
+  INSERT INTO public.referral_activity_logs (referral_id, action, performed_by, details)
+  VALUES (_referral_id, 'Status changed to ' || replace(_to_status::text, '_', ' '), _user_id, _details_clean);
+END;
+$$;
@@ -0,0 +1,110 @@
+-- How long a referral of each urgency may sit pending before it is escalated
+CREATE TABLE public.referral_slas (
+  urgency urgency_level PRIMARY KEY,
+  accept_within_minutes INTEGER NOT NULL CHECK (accept_within_minutes > 0),
+  repeat_every_minutes INTEGER NOT NULL DEFAULT 15 CHECK (repeat_every_minutes > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.referral_slas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view referral SLAs"
+ON public.referral_slas
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update referral SLAs"
+ON public.referral_slas
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_referral_slas_updated_at
+BEFORE UPDATE ON public.referral_slas
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.referral_slas (urgency, accept_within_minutes, repeat_every_minutes) VALUES
+('emergency', 15, 10),
+('urgent', 120, 60),
+('routine', 1440, 720);
+
+-- One row per referral that missed its SLA, written by the sla-escalation edge function.
+-- notified_user_ids holds the admins who were told about the latest escalation.
+CREATE TABLE public.referral_sla_breaches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  referral_id UUID NOT NULL UNIQUE REFERENCES public.referrals(id) ON DELETE CASCADE,
+  hospital_id UUID NOT NULL REFERENCES public.hospitals(id) ON DELETE CASCADE,
+  urgency urgency_level NOT NULL,
+  due_at TIMESTAMPTZ NOT NULL,
+  breached_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  escalation_count INTEGER NOT NULL DEFAULT 1,
+  last_escalated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  notified_user_ids UUID[] NOT NULL DEFAULT '{}',
+  resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_referral_sla_breaches_open ON public.referral_sla_breaches(last_escalated_at) WHERE resolved_at IS NULL;
+CREATE INDEX idx_referral_sla_breaches_hospital ON public.referral_sla_breaches(hospital_id, breached_at DESC);
+
+ALTER TABLE public.referral_sla_breaches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view SLA breaches for their referrals"
+ON public.referral_sla_breaches
+FOR SELECT
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR
+  EXISTS (
+    SELECT 1 FROM public.referrals r
+    WHERE r.id = referral_id
+      AND (r.from_hospital_id = public.get_user_hospital(auth.uid())
+        OR r.to_hospital_id = public.get_user_hospital(auth.uid()))
+  )
+);
+
+-- A breach is over as soon as the referral leaves pending
+CREATE OR REPLACE FUNCTION public.resolve_referral_sla_breach()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'pending' THEN
+    UPDATE public.referral_sla_breaches
+    SET resolved_at = now()
+    WHERE referral_id = NEW.id AND resolved_at IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resolve_referral_sla_breach
+AFTER UPDATE OF status ON public.referrals
+FOR EACH ROW EXECUTE FUNCTION public.resolve_referral_sla_breach();
+
+ALTER TABLE public.referral_sla_breaches REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.referral_sla_breaches;
+
+-- Run the escalation check every minute. The service role key is read from Vault so it never
+-- lives in a migration; store it once with vault.create_secret(<key>, 'service_role_key').
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'referral-sla-escalation',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://otfvoqdkbaszcrysmnrn.supabase.co/functions/v1/sla-escalation',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
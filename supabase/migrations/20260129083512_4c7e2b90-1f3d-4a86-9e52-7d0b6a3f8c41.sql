@@ -0,0 +1,39 @@
+-- Web push delivery: every referral insert, status change or reassignment is posted to the
+-- push-notifications edge function, which applies the same recipient rules as the in-app
+-- notifications. Uses the service_role_key Vault secret stored for the SLA escalation job.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.notify_referral_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.status IS NOT DISTINCT FROM OLD.status
+     AND NEW.assigned_doctor_id IS NOT DISTINCT FROM OLD.assigned_doctor_id THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := 'https://otfvoqdkbaszcrysmnrn.supabase.co/functions/v1/push-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object(
+      'type', TG_OP,
+      'record', to_jsonb(NEW),
+      'old_record', CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE NULL END
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_referral_push
+AFTER INSERT OR UPDATE OF status, assigned_doctor_id ON public.referrals
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_referral_push();
@@ -0,0 +1,238 @@
+-- PHI read-access audit: who opened, exported, printed or downloaded a referral's patient data.
+-- Rows are append-only and hash-chained per referral, so a removed or edited entry breaks the chain.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.phi_access_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seq BIGINT GENERATED ALWAYS AS IDENTITY,
+  referral_id UUID NOT NULL REFERENCES public.referrals(id),
+  user_id UUID NOT NULL,
+  hospital_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('view', 'pdf_export', 'print', 'attachment_download', 'code_lookup')),
+  attachment_id UUID,
+  details JSONB NOT NULL DEFAULT '{}',
+  accessed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  prev_hash TEXT,
+  row_hash TEXT NOT NULL
+);
+
+CREATE INDEX idx_phi_access_logs_referral ON public.phi_access_logs(referral_id, seq);
+CREATE INDEX idx_phi_access_logs_user ON public.phi_access_logs(user_id, accessed_at DESC);
+CREATE INDEX idx_phi_access_logs_accessed_at ON public.phi_access_logs(accessed_at DESC);
+
+ALTER TABLE public.phi_access_logs ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see the referral can see who else looked at it; writes go through log_phi_access
+CREATE POLICY "Users can view access history of visible referrals"
+ON public.phi_access_logs
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.referrals r WHERE r.id = phi_access_logs.referral_id));
+
+CREATE OR REPLACE FUNCTION public.phi_access_row_hash(_log public.phi_access_logs)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT encode(extensions.digest(concat_ws('|',
+    coalesce(_log.prev_hash, ''),
+    _log.id,
+    _log.referral_id,
+    _log.user_id,
+    _log.action,
+    coalesce(_log.attachment_id::text, ''),
+    _log.details::text,
+    to_char(_log.accessed_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US')
+  ), 'sha256'), 'hex')
+$$;
+
+CREATE OR REPLACE FUNCTION public.chain_phi_access_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialise writers per referral so two entries never claim the same predecessor
+  PERFORM pg_advisory_xact_lock(hashtext('phi_access_logs:' || NEW.referral_id::text));
+
+  SELECT row_hash INTO NEW.prev_hash
+  FROM public.phi_access_logs
+  WHERE referral_id = NEW.referral_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  NEW.row_hash := public.phi_access_row_hash(NEW);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER chain_phi_access_log
+BEFORE INSERT ON public.phi_access_logs
+FOR EACH ROW EXECUTE FUNCTION public.chain_phi_access_log();
+
+CREATE OR REPLACE FUNCTION public.prevent_phi_access_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION USING
+    ERRCODE = 'P0001',
+    MESSAGE = 'PHI access records cannot be changed or removed',
+    HINT = 'append_only';
+END;
+$$;
+
+CREATE TRIGGER prevent_phi_access_log_changes
+BEFORE UPDATE OR DELETE ON public.phi_access_logs
+FOR EACH ROW EXECUTE FUNCTION public.prevent_phi_access_log_changes();
+
+-- Record an access by the signed-in user. Callers may only log referrals they can see.
+CREATE OR REPLACE FUNCTION public.log_phi_access(
+  _referral_id UUID,
+  _action TEXT,
+  _attachment_id UUID DEFAULT NULL,
+  _details JSONB DEFAULT '{}'
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _hospital_id UUID;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in', HINT = 'not_authenticated';
+  END IF;
+
+  _hospital_id := public.get_user_hospital(_user_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.referrals r
+    WHERE r.id = _referral_id
+      AND (public.has_role(_user_id, 'admin') OR r.from_hospital_id = _hospital_id OR r.to_hospital_id = _hospital_id)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  IF _attachment_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.referral_attachments a WHERE a.id = _attachment_id AND a.referral_id = _referral_id
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Attachment does not belong to this referral', HINT = 'not_found';
+  END IF;
+
+  INSERT INTO public.phi_access_logs (referral_id, user_id, hospital_id, action, attachment_id, details)
+  VALUES (_referral_id, _user_id, _hospital_id, _action, _attachment_id, coalesce(_details, '{}'));
+END;
+$$;
+
+-- Walk a referral's chain in order; returns the first entry whose hash or link does not match
+CREATE OR REPLACE FUNCTION public.verify_phi_access_chain(_referral_id UUID)
+RETURNS TABLE(is_valid BOOLEAN, checked_count INTEGER, first_invalid_id UUID)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _hospital_id UUID := public.get_user_hospital(auth.uid());
+  _log public.phi_access_logs%ROWTYPE;
+  _expected_prev TEXT := NULL;
+  _count INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.referrals r
+    WHERE r.id = _referral_id
+      AND (public.has_role(_user_id, 'admin') OR r.from_hospital_id = _hospital_id OR r.to_hospital_id = _hospital_id)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  FOR _log IN
+    SELECT * FROM public.phi_access_logs WHERE referral_id = _referral_id ORDER BY seq
+  LOOP
+    _count := _count + 1;
+    IF _log.prev_hash IS DISTINCT FROM _expected_prev OR _log.row_hash <> public.phi_access_row_hash(_log) THEN
+      RETURN QUERY SELECT false, _count, _log.id;
+      RETURN;
+    END IF;
+    _expected_prev := _log.row_hash;
+  END LOOP;
+
+  RETURN QUERY SELECT true, _count, NULL::UUID;
+END;
+$$;
+
+-- Admin report of access patterns worth a second look within the last _days days:
+--   high_volume      25+ distinct referrals opened by one user within an hour
+--   bulk_export      15+ downloads, exports or prints by one user within an hour
+--   code_lookups     20+ patient code lookups by one user within a day
+--   outside_hospital referrals accessed by non-admins whose hospital is on neither end
+CREATE OR REPLACE FUNCTION public.phi_access_anomalies(_days INTEGER DEFAULT 7)
+RETURNS TABLE(
+  user_id UUID,
+  user_name TEXT,
+  pattern TEXT,
+  access_count BIGINT,
+  referral_count BIGINT,
+  first_at TIMESTAMP WITH TIME ZONE,
+  last_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Only admins can review access patterns', HINT = 'forbidden';
+  END IF;
+
+  RETURN QUERY
+  WITH recent AS (
+    SELECT l.*
+    FROM public.phi_access_logs l
+    WHERE l.accessed_at > now() - make_interval(days => _days)
+  ),
+  flagged AS (
+    SELECT l.user_id, 'high_volume'::TEXT AS pattern, count(*) AS access_count,
+           count(DISTINCT l.referral_id) AS referral_count, min(l.accessed_at) AS first_at, max(l.accessed_at) AS last_at
+    FROM recent l
+    WHERE l.action = 'view'
+    GROUP BY l.user_id, date_trunc('hour', l.accessed_at)
+    HAVING count(DISTINCT l.referral_id) >= 25
+
+    UNION ALL
+    SELECT l.user_id, 'bulk_export', count(*), count(DISTINCT l.referral_id), min(l.accessed_at), max(l.accessed_at)
+    FROM recent l
+    WHERE l.action IN ('pdf_export', 'print', 'attachment_download')
+    GROUP BY l.user_id, date_trunc('hour', l.accessed_at)
+    HAVING count(*) >= 15
+
+    UNION ALL
+    SELECT l.user_id, 'code_lookups', count(*), count(DISTINCT l.referral_id), min(l.accessed_at), max(l.accessed_at)
+    FROM recent l
+    WHERE l.action = 'code_lookup'
+    GROUP BY l.user_id, date_trunc('day', l.accessed_at)
+    HAVING count(*) >= 20
+
+    UNION ALL
+    SELECT l.user_id, 'outside_hospital', count(*), count(DISTINCT l.referral_id), min(l.accessed_at), max(l.accessed_at)
+    FROM recent l
+    JOIN public.referrals r ON r.id = l.referral_id
+    WHERE NOT public.has_role(l.user_id, 'admin')
+      AND l.hospital_id IS DISTINCT FROM r.from_hospital_id
+      AND l.hospital_id IS DISTINCT FROM r.to_hospital_id
+    GROUP BY l.user_id
+  )
+  SELECT f.user_id, p.full_name, f.pattern, f.access_count, f.referral_count, f.first_at, f.last_at
+  FROM flagged f
+  LEFT JOIN public.profiles p ON p.id = f.user_id
+  ORDER BY f.last_at DESC;
+END;
+$$;
@@ -0,0 +1,465 @@
+-- Tamper-evident activity log. Entries are written by the database (a trigger on referrals and the
+-- referral RPCs), never by clients, and each row carries the hash of the previous row for its referral.
+
+ALTER TABLE public.referral_activity_logs
+  ADD COLUMN seq BIGINT,
+  ADD COLUMN prev_hash TEXT,
+  ADD COLUMN row_hash TEXT;
+
+-- Existing entries are chained in the order they were written
+UPDATE public.referral_activity_logs l
+SET seq = ordered.rn
+FROM (
+  SELECT id, row_number() OVER (ORDER BY created_at, id) AS rn
+  FROM public.referral_activity_logs
+) ordered
+WHERE ordered.id = l.id;
+
+ALTER TABLE public.referral_activity_logs ALTER COLUMN seq SET NOT NULL;
+ALTER TABLE public.referral_activity_logs ALTER COLUMN seq ADD GENERATED ALWAYS AS IDENTITY;
+SELECT setval(
+  pg_get_serial_sequence('public.referral_activity_logs', 'seq'),
+  coalesce(max(seq), 0) + 1,
+  false
+)
+FROM public.referral_activity_logs;
+
+CREATE INDEX idx_referral_activity_logs_referral_seq ON public.referral_activity_logs(referral_id, seq);
+
+CREATE OR REPLACE FUNCTION public.activity_log_row_hash(_log public.referral_activity_logs)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT encode(extensions.digest(concat_ws('|',
+    coalesce(_log.prev_hash, ''),
+    _log.id,
+    _log.referral_id,
+    _log.action,
+    coalesce(_log.performed_by::text, ''),
+    coalesce(_log.details, ''),
+    to_char(_log.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US')
+  ), 'sha256'), 'hex')
+$$;
+
+DO $$
+DECLARE
+  _log public.referral_activity_logs%ROWTYPE;
+  _current_referral UUID;
+  _prev TEXT;
+BEGIN
+  FOR _log IN SELECT * FROM public.referral_activity_logs ORDER BY referral_id, seq LOOP
+    IF _current_referral IS DISTINCT FROM _log.referral_id THEN
+      _current_referral := _log.referral_id;
+      _prev := NULL;
+    END IF;
+    _log.prev_hash := _prev;
+    _log.row_hash := public.activity_log_row_hash(_log);
+    UPDATE public.referral_activity_logs SET prev_hash = _log.prev_hash, row_hash = _log.row_hash WHERE id = _log.id;
+    _prev := _log.row_hash;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.referral_activity_logs ALTER COLUMN row_hash SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.chain_activity_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialise writers per referral so two entries never claim the same predecessor
+  PERFORM pg_advisory_xact_lock(hashtext('referral_activity_logs:' || NEW.referral_id::text));
+
+  SELECT row_hash INTO NEW.prev_hash
+  FROM public.referral_activity_logs
+  WHERE referral_id = NEW.referral_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  NEW.row_hash := public.activity_log_row_hash(NEW);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER chain_activity_log
+BEFORE INSERT ON public.referral_activity_logs
+FOR EACH ROW EXECUTE FUNCTION public.chain_activity_log();
+
+-- Entries only disappear together with their referral
+CREATE OR REPLACE FUNCTION public.prevent_activity_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.referrals WHERE id = OLD.referral_id) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION USING
+    ERRCODE = 'P0001',
+    MESSAGE = 'Activity log entries cannot be changed or removed',
+    HINT = 'append_only';
+END;
+$$;
+
+CREATE TRIGGER prevent_activity_log_changes
+BEFORE UPDATE OR DELETE ON public.referral_activity_logs
+FOR EACH ROW EXECUTE FUNCTION public.prevent_activity_log_changes();
+
+DROP POLICY "Authenticated users can insert logs" ON public.referral_activity_logs;
+
+-- Writes the entry for a created referral, a status change or a new assignee. The referral RPCs
+-- pass their wording and reason through app.activity_action / app.activity_details.
+CREATE OR REPLACE FUNCTION public.log_referral_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _action TEXT := nullif(current_setting('app.activity_action', true), '');
+  _details TEXT := nullif(current_setting('app.activity_details', true), '');
+  _assignee_name TEXT;
+  _previous_name TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.referral_activity_logs (referral_id, action, performed_by)
+    VALUES (NEW.id, 'Referral Created', coalesce(auth.uid(), NEW.created_by));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    _action := coalesce(_action, 'Status changed to ' || replace(NEW.status::text, '_', ' '));
+  ELSIF NEW.assigned_doctor_id IS DISTINCT FROM OLD.assigned_doctor_id THEN
+    SELECT full_name INTO _assignee_name FROM public.profiles WHERE id = NEW.assigned_doctor_id;
+    SELECT full_name INTO _previous_name FROM public.profiles WHERE id = OLD.assigned_doctor_id;
+    _action := coalesce(_action, CASE
+      WHEN NEW.assigned_doctor_id IS NULL THEN 'Unassigned from ' || coalesce(_previous_name, 'doctor')
+      WHEN OLD.assigned_doctor_id IS NULL THEN 'Assigned to ' || coalesce(_assignee_name, 'a doctor')
+      ELSE format('Reassigned from %s to %s', coalesce(_previous_name, 'another doctor'), coalesce(_assignee_name, 'a doctor'))
+    END);
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.referral_activity_logs (referral_id, action, performed_by, details)
+  VALUES (NEW.id, _action, auth.uid(), _details);
+
+  -- The wording applies to this change only
+  PERFORM set_config('app.activity_action', '', true);
+  PERFORM set_config('app.activity_details', '', true);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_referral_activity
+AFTER INSERT OR UPDATE OF status, assigned_doctor_id ON public.referrals
+FOR EACH ROW EXECUTE FUNCTION public.log_referral_activity();
+
+-- The referral RPCs now leave their activity entries to log_referral_activity and only pass on
+-- the wording and reason for the change they make
+
+CREATE OR REPLACE FUNCTION public.assign_referral(
+  _referral_id UUID,
+  _assignee_id UUID,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _referral public.referrals%ROWTYPE;
+  _reason_clean TEXT := nullif(btrim(_reason), '');
+  _assignee_name TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to assign referrals', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _referral FROM public.referrals WHERE id = _referral_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.has_role(_user_id, 'admin')
+    OR _referral.from_hospital_id = public.get_user_hospital(_user_id)
+    OR _referral.to_hospital_id = public.get_user_hospital(_user_id)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  IF NOT public.can_assign_referral(_user_id, _referral_id) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Only department leads at the receiving hospital can assign referrals',
+      HINT = 'forbidden';
+  END IF;
+
+  IF _referral.status NOT IN ('pending', 'more_info_requested', 'accepted', 'in_treatment') THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('A %s referral cannot be reassigned', replace(_referral.status::text, '_', ' ')),
+      HINT = 'invalid_transition';
+  END IF;
+
+  SELECT full_name INTO _assignee_name
+  FROM public.profiles
+  WHERE id = _assignee_id AND hospital_id = _referral.to_hospital_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Referrals can only be assigned to doctors at the receiving hospital',
+      HINT = 'invalid_assignee';
+  END IF;
+
+  IF _referral.assigned_doctor_id = _assignee_id THEN
+    RETURN;
+  END IF;
+
+  IF _referral.assigned_doctor_id IS NOT NULL AND _reason_clean IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'A reason is required to reassign a referral', HINT = 'reason_required';
+  END IF;
+
+  PERFORM set_config('app.referral_transition', 'on', true);
+  PERFORM set_config('app.activity_details', coalesce(_reason_clean, ''), true);
+
+  UPDATE public.referrals
+  SET assigned_doctor_id = _assignee_id
+  WHERE id = _referral_id;
+
+  PERFORM set_config('app.referral_transition', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.transition_referral_status(
+  _referral_id UUID,
+  _to_status referral_status,
+  _details TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _user_hospital UUID;
+  _referral public.referrals%ROWTYPE;
+  _rule public.referral_status_transitions%ROWTYPE;
+  _details_clean TEXT := nullif(btrim(_details), '');
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to update referrals', HINT = 'not_authenticated';
+  END IF;
+
+  _user_hospital := public.get_user_hospital(_user_id);
+
+  SELECT * INTO _referral FROM public.referrals WHERE id = _referral_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.has_role(_user_id, 'admin')
+    OR _referral.from_hospital_id = _user_hospital
+    OR _referral.to_hospital_id = _user_hospital
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  SELECT * INTO _rule
+  FROM public.referral_status_transitions
+  WHERE from_status = _referral.status AND to_status = _to_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('A %s referral cannot be moved to %s',
+        replace(_referral.status::text, '_', ' '), replace(_to_status::text, '_', ' ')),
+      HINT = 'invalid_transition';
+  END IF;
+
+  IF NOT (
+    public.has_role(_user_id, 'admin')
+    OR (_rule.actor_side = 'sending' AND _referral.from_hospital_id = _user_hospital)
+    OR (_rule.actor_side = 'receiving' AND _referral.to_hospital_id = _user_hospital)
+  ) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('Only the %s hospital can perform this action', _rule.actor_side),
+      HINT = 'forbidden';
+  END IF;
+
+  IF _rule.requires_reason AND _details_clean IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'A reason is required for this action', HINT = 'reason_required';
+  END IF;
+
+  PERFORM set_config('app.referral_transition', 'on', true);
+  PERFORM set_config('app.activity_details', coalesce(_details_clean, ''), true);
+
+  UPDATE public.referrals
+  SET
+    status = _to_status,
+    rejection_reason = CASE WHEN _to_status = 'rejected' THEN _details_clean ELSE rejection_reason END,
+    patient_code = CASE WHEN _to_status = 'completed' THEN public.generate_patient_code() ELSE patient_code END,
+    assigned_doctor_id = CASE
+      WHEN _to_status IN ('accepted', 'in_treatment') THEN coalesce(assigned_doctor_id, _user_id)
+      ELSE assigned_doctor_id
+    END
+  WHERE id = _referral_id;
+
+  PERFORM set_config('app.referral_transition', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.forward_referral(
+  _referral_id UUID,
+  _to_hospital_id UUID,
+  _reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _user_hospital UUID;
+  _parent public.referrals%ROWTYPE;
+  _child_id UUID;
+  _reason_clean TEXT := nullif(btrim(_reason), '');
+  _target_name TEXT;
+  _source_name TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to forward referrals', HINT = 'not_authenticated';
+  END IF;
+
+  _user_hospital := public.get_user_hospital(_user_id);
+
+  SELECT * INTO _parent FROM public.referrals WHERE id = _referral_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.has_role(_user_id, 'admin')
+    OR _parent.from_hospital_id = _user_hospital
+    OR _parent.to_hospital_id = _user_hospital
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  IF NOT (public.has_role(_user_id, 'admin') OR _parent.to_hospital_id = _user_hospital) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Only the receiving hospital can forward a referral', HINT = 'forbidden';
+  END IF;
+
+  IF _parent.status NOT IN ('pending', 'more_info_requested', 'accepted') THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('A %s referral cannot be forwarded', replace(_parent.status::text, '_', ' ')),
+      HINT = 'invalid_transition';
+  END IF;
+
+  IF _to_hospital_id IS NULL OR _to_hospital_id IN (_parent.from_hospital_id, _parent.to_hospital_id) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Choose a hospital other than the referring and receiving hospitals',
+      HINT = 'invalid_transition';
+  END IF;
+
+  SELECT name INTO _target_name FROM public.hospitals WHERE id = _to_hospital_id;
+  IF _target_name IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Hospital not found', HINT = 'not_found';
+  END IF;
+
+  IF _reason_clean IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'A reason is required for this action', HINT = 'reason_required';
+  END IF;
+
+  SELECT name INTO _source_name FROM public.hospitals WHERE id = _parent.to_hospital_id;
+
+  INSERT INTO public.referrals (
+    patient_name, patient_age, patient_contact, patient_medical_id,
+    medical_summary, reason, urgency, specialty,
+    from_hospital_id, to_hospital_id, created_by, status, parent_referral_id
+  )
+  VALUES (
+    _parent.patient_name, _parent.patient_age, _parent.patient_contact, _parent.patient_medical_id,
+    _parent.medical_summary, _reason_clean, _parent.urgency, _parent.specialty,
+    _parent.to_hospital_id, _to_hospital_id, _user_id, 'pending', _parent.id
+  )
+  RETURNING id INTO _child_id;
+
+  INSERT INTO public.referral_attachments (referral_id, file_name, file_path, file_type, file_size, uploaded_by, created_at)
+  SELECT _child_id, a.file_name, _child_id || '/' || regexp_replace(a.file_path, '^.*/', ''),
+         a.file_type, a.file_size, a.uploaded_by, a.created_at
+  FROM public.referral_attachments a
+  WHERE a.referral_id = _parent.id;
+
+  INSERT INTO public.referral_messages (referral_id, sender_id, message, is_read, created_at)
+  SELECT _child_id, m.sender_id, m.message, false, m.created_at
+  FROM public.referral_messages m
+  WHERE m.referral_id = _parent.id;
+
+  PERFORM set_config('app.referral_transition', 'on', true);
+  PERFORM set_config('app.activity_action', 'Forwarded to ' || _target_name, true);
+  PERFORM set_config('app.activity_details', _reason_clean, true);
+
+  UPDATE public.referrals
+  SET status = 'rejected',
+      rejection_reason = format('Forwarded to %s: %s', _target_name, _reason_clean)
+  WHERE id = _parent.id;
+
+  PERFORM set_config('app.referral_transition', 'off', true);
+
+  INSERT INTO public.referral_activity_logs (referral_id, action, performed_by, details)
+  VALUES (_child_id, 'Forwarded from ' || coalesce(_source_name, 'another hospital'), _user_id, _reason_clean);
+
+  RETURN _child_id;
+END;
+$$;
+
+-- Walk a referral's activity chain in order and report every entry that does not fit:
+--   gap       the stored link does not point at the previous entry (one was removed or reordered)
+--   mismatch  the entry's contents no longer hash to its stored hash (it was edited)
+CREATE OR REPLACE FUNCTION public.verify_activity_log_chain(_referral_id UUID)
+RETURNS TABLE(log_id UUID, issue TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _hospital_id UUID := public.get_user_hospital(auth.uid());
+  _log public.referral_activity_logs%ROWTYPE;
+  _expected_prev TEXT := NULL;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.referrals r
+    WHERE r.id = _referral_id
+      AND (public.has_role(_user_id, 'admin') OR r.from_hospital_id = _hospital_id OR r.to_hospital_id = _hospital_id)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  FOR _log IN
+    SELECT * FROM public.referral_activity_logs WHERE referral_id = _referral_id ORDER BY seq
+  LOOP
+    IF _log.prev_hash IS DISTINCT FROM _expected_prev THEN
+      log_id := _log.id;
+      issue := 'gap';
+      RETURN NEXT;
+    END IF;
+    IF _log.row_hash IS DISTINCT FROM public.activity_log_row_hash(_log) THEN
+      log_id := _log.id;
+      issue := 'mismatch';
+      RETURN NEXT;
+    END IF;
+    _expected_prev := _log.row_hash;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,302 @@
+-- Hospital membership is granted, not chosen. A self-registered profile has no hospital (and so no
+-- referral access through get_user_hospital) until it redeems an invite code or an admin approves
+-- its membership request.
+ALTER TABLE public.profiles
+ADD COLUMN verification_status TEXT NOT NULL DEFAULT 'verified'
+  CHECK (verification_status IN ('pending', 'verified', 'rejected'));
+
+ALTER TABLE public.profiles ALTER COLUMN verification_status SET DEFAULT 'pending';
+
+-- Existing accounts keep their access; those that never picked a hospital now need to join one
+UPDATE public.profiles p
+SET verification_status = 'pending'
+WHERE p.hospital_id IS NULL
+  AND NOT public.has_role(p.id, 'admin');
+
+CREATE TABLE public.hospital_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hospital_id UUID NOT NULL REFERENCES public.hospitals(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  max_uses INTEGER NOT NULL DEFAULT 1 CHECK (max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_hospital_invites_hospital ON public.hospital_invites(hospital_id, created_at DESC);
+
+-- One row per attempt to join a hospital. Invite redemptions are recorded as already approved.
+CREATE TABLE public.hospital_membership_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  hospital_id UUID NOT NULL REFERENCES public.hospitals(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  message TEXT,
+  invite_id UUID REFERENCES public.hospital_invites(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_membership_requests_one_pending
+ON public.hospital_membership_requests(user_id)
+WHERE status = 'pending';
+
+CREATE INDEX idx_membership_requests_hospital_status
+ON public.hospital_membership_requests(hospital_id, status, created_at);
+
+-- Who may invite and approve members of a hospital
+CREATE OR REPLACE FUNCTION public.can_manage_hospital_members(_user_id UUID, _hospital_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+$$;
+
+ALTER TABLE public.hospital_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.hospital_membership_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Membership managers can view invites" ON public.hospital_invites FOR SELECT TO authenticated
+USING (public.can_manage_hospital_members(auth.uid(), hospital_id));
+CREATE POLICY "Membership managers can create invites" ON public.hospital_invites FOR INSERT TO authenticated
+WITH CHECK (public.can_manage_hospital_members(auth.uid(), hospital_id) AND created_by = auth.uid());
+CREATE POLICY "Membership managers can revoke invites" ON public.hospital_invites FOR UPDATE TO authenticated
+USING (public.can_manage_hospital_members(auth.uid(), hospital_id));
+
+CREATE POLICY "Users can view own membership requests" ON public.hospital_membership_requests FOR SELECT TO authenticated
+USING (user_id = auth.uid() OR public.can_manage_hospital_members(auth.uid(), hospital_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.hospital_membership_requests;
+
+CREATE OR REPLACE FUNCTION public.generate_invite_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  chars TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  result TEXT := 'INV-';
+  i INTEGER;
+BEGIN
+  FOR i IN 1..4 LOOP
+    result := result || substr(chars, floor(random() * length(chars) + 1)::int, 1);
+  END LOOP;
+  result := result || '-';
+  FOR i IN 1..4 LOOP
+    result := result || substr(chars, floor(random() * length(chars) + 1)::int, 1);
+  END LOOP;
+  RETURN result;
+END;
+$$;
+
+ALTER TABLE public.hospital_invites ALTER COLUMN code SET DEFAULT public.generate_invite_code();
+
+-- A profile's hospital and verification state only change through the membership functions below.
+-- Admins may still set them directly, and new self-registered profiles always start out pending.
+CREATE OR REPLACE FUNCTION public.guard_profile_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(current_setting('app.membership_change', true), '') = 'on'
+     OR auth.uid() IS NULL
+     OR public.has_role(auth.uid(), 'admin') THEN
+    IF TG_OP = 'INSERT' AND auth.uid() IS NOT NULL AND public.has_role(auth.uid(), 'admin') THEN
+      NEW.verification_status := 'verified';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.hospital_id := NULL;
+    NEW.verification_status := 'pending';
+    RETURN NEW;
+  END IF;
+
+  IF NEW.hospital_id IS DISTINCT FROM OLD.hospital_id
+     OR NEW.verification_status IS DISTINCT FROM OLD.verification_status THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Hospital membership can only be changed by an administrator',
+      HINT = 'forbidden';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_membership
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.guard_profile_membership();
+
+-- Ask to join a hospital. Replaces any request still waiting for review.
+CREATE OR REPLACE FUNCTION public.request_hospital_membership(_hospital_id UUID, _message TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _profile public.profiles%ROWTYPE;
+  _request_id UUID;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to join a hospital', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _profile FROM public.profiles WHERE id = _user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Profile not found', HINT = 'not_found';
+  END IF;
+
+  IF _profile.verification_status = 'verified' AND _profile.hospital_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You already belong to a hospital', HINT = 'already_member';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.hospitals WHERE id = _hospital_id) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Hospital not found', HINT = 'not_found';
+  END IF;
+
+  UPDATE public.hospital_membership_requests
+  SET status = 'cancelled'
+  WHERE user_id = _user_id AND status = 'pending';
+
+  INSERT INTO public.hospital_membership_requests (user_id, hospital_id, message)
+  VALUES (_user_id, _hospital_id, nullif(btrim(_message), ''))
+  RETURNING id INTO _request_id;
+
+  PERFORM set_config('app.membership_change', 'on', true);
+  UPDATE public.profiles SET verification_status = 'pending' WHERE id = _user_id;
+  PERFORM set_config('app.membership_change', 'off', true);
+
+  RETURN _request_id;
+END;
+$$;
+
+-- Join the hospital an invite code was issued for. Returns that hospital's id.
+CREATE OR REPLACE FUNCTION public.redeem_hospital_invite(_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _profile public.profiles%ROWTYPE;
+  _invite public.hospital_invites%ROWTYPE;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to join a hospital', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _profile FROM public.profiles WHERE id = _user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Profile not found', HINT = 'not_found';
+  END IF;
+
+  IF _profile.verification_status = 'verified' AND _profile.hospital_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You already belong to a hospital', HINT = 'already_member';
+  END IF;
+
+  SELECT * INTO _invite
+  FROM public.hospital_invites
+  WHERE code = upper(btrim(_code))
+  FOR UPDATE;
+
+  IF NOT FOUND
+     OR _invite.revoked_at IS NOT NULL
+     OR _invite.expires_at <= now()
+     OR _invite.use_count >= _invite.max_uses THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'This invite code is invalid or has expired',
+      HINT = 'invalid_invite';
+  END IF;
+
+  UPDATE public.hospital_invites SET use_count = use_count + 1 WHERE id = _invite.id;
+
+  UPDATE public.hospital_membership_requests
+  SET status = 'cancelled'
+  WHERE user_id = _user_id AND status = 'pending';
+
+  INSERT INTO public.hospital_membership_requests (user_id, hospital_id, status, invite_id, reviewed_by, reviewed_at)
+  VALUES (_user_id, _invite.hospital_id, 'approved', _invite.id, _invite.created_by, now());
+
+  PERFORM set_config('app.membership_change', 'on', true);
+  UPDATE public.profiles
+  SET hospital_id = _invite.hospital_id, verification_status = 'verified'
+  WHERE id = _user_id;
+  PERFORM set_config('app.membership_change', 'off', true);
+
+  RETURN _invite.hospital_id;
+END;
+$$;
+
+-- Approve or reject a pending membership request
+CREATE OR REPLACE FUNCTION public.review_membership_request(
+  _request_id UUID,
+  _approve BOOLEAN,
+  _note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _request public.hospital_membership_requests%ROWTYPE;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to review requests', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _request FROM public.hospital_membership_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_manage_hospital_members(_user_id, _request.hospital_id) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Request not found', HINT = 'not_found';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('This request has already been %s', _request.status),
+      HINT = 'invalid_transition';
+  END IF;
+
+  UPDATE public.hospital_membership_requests
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = _user_id,
+      reviewed_at = now(),
+      review_note = nullif(btrim(_note), '')
+  WHERE id = _request_id;
+
+  PERFORM set_config('app.membership_change', 'on', true);
+  IF _approve THEN
+    UPDATE public.profiles
+    SET hospital_id = _request.hospital_id, verification_status = 'verified'
+    WHERE id = _request.user_id;
+  ELSE
+    UPDATE public.profiles
+    SET verification_status = 'rejected'
+    WHERE id = _request.user_id AND verification_status = 'pending';
+  END IF;
+  PERFORM set_config('app.membership_change', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_hospital_membership(UUID, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.redeem_hospital_invite(TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.review_membership_request(UUID, BOOLEAN, TEXT) FROM anon;
@@ -0,0 +1,5 @@
+-- Roles beyond the global admin and doctor. Added on their own because new enum values
+-- cannot be used in the transaction that creates them.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'hospital_admin';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'coordinator';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'auditor';
@@ -0,0 +1,615 @@
+-- Permissions matrix. Policies and RPCs ask for a permission instead of a role, so what each
+-- role may do lives in one table. Global admins hold every permission everywhere; everyone
+-- else only holds theirs at their own hospital.
+CREATE TABLE public.role_permissions (
+  role app_role NOT NULL,
+  permission TEXT NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view role permissions"
+ON public.role_permissions
+FOR SELECT
+TO authenticated
+USING (true);
+
+--   referrals.create       send referrals, use templates
+--   referrals.triage       request more information, forward to another hospital
+--   referrals.assign       hand incoming referrals to a clinician (department leads may too)
+--   referrals.clinical     accept, reject, treat and complete; be assigned a referral
+--   referrals.collaborate  messages, attachments and follow-ups
+--   hospital.configure     capacity, departments and routing for the hospital
+--   members.manage         invite and approve staff, grant non-admin roles
+--   audit.view             PHI access reports
+--   system.manage          hospitals, SLAs, blocked IPs and security logs (global admins only)
+INSERT INTO public.role_permissions (role, permission) VALUES
+('admin', 'referrals.create'),
+('admin', 'referrals.triage'),
+('admin', 'referrals.assign'),
+('admin', 'referrals.clinical'),
+('admin', 'referrals.collaborate'),
+('admin', 'hospital.configure'),
+('admin', 'members.manage'),
+('admin', 'audit.view'),
+('admin', 'system.manage'),
+('doctor', 'referrals.create'),
+('doctor', 'referrals.triage'),
+('doctor', 'referrals.clinical'),
+('doctor', 'referrals.collaborate'),
+('coordinator', 'referrals.create'),
+('coordinator', 'referrals.triage'),
+('coordinator', 'referrals.assign'),
+('coordinator', 'referrals.collaborate'),
+('hospital_admin', 'hospital.configure'),
+('hospital_admin', 'members.manage'),
+('hospital_admin', 'audit.view'),
+('auditor', 'audit.view');
+
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON rp.role = ur.role
+    WHERE ur.user_id = _user_id
+      AND rp.permission = _permission
+  )
+$$;
+
+-- A permission exercised on one hospital's data: global admins anywhere, others at their own hospital
+CREATE OR REPLACE FUNCTION public.has_hospital_permission(_user_id UUID, _permission TEXT, _hospital_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR (
+      _hospital_id IS NOT NULL
+      AND public.get_user_hospital(_user_id) = _hospital_id
+      AND public.has_permission(_user_id, _permission)
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_hospital_members(_user_id UUID, _hospital_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_hospital_permission(_user_id, 'members.manage', _hospital_id)
+$$;
+
+-- Hospital admins grant the non-admin roles to their own staff
+DROP POLICY "Users can view own roles" ON public.user_roles;
+DROP POLICY "Admins can manage roles" ON public.user_roles;
+DROP POLICY "Admins can delete roles" ON public.user_roles;
+
+CREATE POLICY "Users can view own roles" ON public.user_roles FOR SELECT TO authenticated
+USING (user_id = auth.uid() OR public.can_manage_hospital_members(auth.uid(), public.get_user_hospital(user_id)));
+CREATE POLICY "Member managers can grant roles" ON public.user_roles FOR INSERT TO authenticated
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin')
+  OR (role IN ('doctor', 'coordinator', 'auditor')
+      AND public.can_manage_hospital_members(auth.uid(), public.get_user_hospital(user_id)))
+);
+CREATE POLICY "Member managers can revoke roles" ON public.user_roles FOR DELETE TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin')
+  OR (role IN ('doctor', 'coordinator', 'auditor')
+      AND user_id <> auth.uid()
+      AND public.can_manage_hospital_members(auth.uid(), public.get_user_hospital(user_id)))
+);
+
+-- Hospital configuration belongs to that hospital's admins
+DROP POLICY "Admins can insert hospital capacity" ON public.hospital_capacity;
+DROP POLICY "Admins can update hospital capacity" ON public.hospital_capacity;
+CREATE POLICY "Hospital admins can insert hospital capacity" ON public.hospital_capacity FOR INSERT TO authenticated
+WITH CHECK (public.has_hospital_permission(auth.uid(), 'hospital.configure', hospital_id));
+CREATE POLICY "Hospital admins can update hospital capacity" ON public.hospital_capacity FOR UPDATE TO authenticated
+USING (public.has_hospital_permission(auth.uid(), 'hospital.configure', hospital_id));
+
+DROP POLICY "Admins can insert departments" ON public.hospital_departments;
+DROP POLICY "Admins can update departments" ON public.hospital_departments;
+DROP POLICY "Admins can delete departments" ON public.hospital_departments;
+CREATE POLICY "Hospital admins can insert departments" ON public.hospital_departments FOR INSERT TO authenticated
+WITH CHECK (public.has_hospital_permission(auth.uid(), 'hospital.configure', hospital_id));
+CREATE POLICY "Hospital admins can update departments" ON public.hospital_departments FOR UPDATE TO authenticated
+USING (public.has_hospital_permission(auth.uid(), 'hospital.configure', hospital_id));
+CREATE POLICY "Hospital admins can delete departments" ON public.hospital_departments FOR DELETE TO authenticated
+USING (public.has_hospital_permission(auth.uid(), 'hospital.configure', hospital_id));
+
+DROP POLICY "Admins can add department members" ON public.department_members;
+DROP POLICY "Admins can update department members" ON public.department_members;
+DROP POLICY "Admins can remove department members" ON public.department_members;
+CREATE POLICY "Hospital admins can add department members" ON public.department_members FOR INSERT TO authenticated
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.hospital_departments d
+  WHERE d.id = department_id AND public.has_hospital_permission(auth.uid(), 'hospital.configure', d.hospital_id)
+));
+CREATE POLICY "Hospital admins can update department members" ON public.department_members FOR UPDATE TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.hospital_departments d
+  WHERE d.id = department_id AND public.has_hospital_permission(auth.uid(), 'hospital.configure', d.hospital_id)
+));
+CREATE POLICY "Hospital admins can remove department members" ON public.department_members FOR DELETE TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.hospital_departments d
+  WHERE d.id = department_id AND public.has_hospital_permission(auth.uid(), 'hospital.configure', d.hospital_id)
+));
+
+DROP POLICY "Admins can insert routing rules" ON public.referral_routing_rules;
+DROP POLICY "Admins can update routing rules" ON public.referral_routing_rules;
+DROP POLICY "Admins can delete routing rules" ON public.referral_routing_rules;
+CREATE POLICY "Hospital admins can insert routing rules" ON public.referral_routing_rules FOR INSERT TO authenticated
+WITH CHECK (public.has_hospital_permission(auth.uid(), 'hospital.configure', hospital_id));
+CREATE POLICY "Hospital admins can update routing rules" ON public.referral_routing_rules FOR UPDATE TO authenticated
+USING (public.has_hospital_permission(auth.uid(), 'hospital.configure', hospital_id));
+CREATE POLICY "Hospital admins can delete routing rules" ON public.referral_routing_rules FOR DELETE TO authenticated
+USING (public.has_hospital_permission(auth.uid(), 'hospital.configure', hospital_id));
+
+-- Only staff who work on referrals may create them or add to them; auditors and hospital admins read
+DROP POLICY "Doctors can create referrals from their hospital" ON public.referrals;
+CREATE POLICY "Staff can create referrals from their hospital" ON public.referrals FOR INSERT TO authenticated
+WITH CHECK (
+  from_hospital_id = public.get_user_hospital(auth.uid())
+  AND created_by = auth.uid()
+  AND public.has_permission(auth.uid(), 'referrals.create')
+);
+
+DROP POLICY "Users can send messages to their referrals" ON public.referral_messages;
+CREATE POLICY "Users can send messages to their referrals"
+ON public.referral_messages
+FOR INSERT
+WITH CHECK (
+  sender_id = auth.uid() AND
+  has_permission(auth.uid(), 'referrals.collaborate') AND
+  EXISTS (
+    SELECT 1 FROM referrals r
+    WHERE r.id = referral_messages.referral_id
+    AND (r.from_hospital_id = get_user_hospital(auth.uid()) OR r.to_hospital_id = get_user_hospital(auth.uid()))
+  )
+);
+
+DROP POLICY "Users can upload attachments to their referrals" ON public.referral_attachments;
+CREATE POLICY "Users can upload attachments to their referrals"
+ON public.referral_attachments
+FOR INSERT
+WITH CHECK (
+  uploaded_by = auth.uid() AND
+  has_permission(auth.uid(), 'referrals.collaborate') AND
+  EXISTS (
+    SELECT 1 FROM referrals r
+    WHERE r.id = referral_attachments.referral_id
+    AND (r.from_hospital_id = get_user_hospital(auth.uid()) OR r.to_hospital_id = get_user_hospital(auth.uid()))
+  )
+);
+
+DROP POLICY "Users can create followups for their referrals" ON public.patient_followups;
+CREATE POLICY "Users can create followups for their referrals"
+ON public.patient_followups
+FOR INSERT
+WITH CHECK (
+  created_by = auth.uid() AND
+  has_permission(auth.uid(), 'referrals.collaborate') AND
+  EXISTS (
+    SELECT 1 FROM referrals r
+    WHERE r.id = patient_followups.referral_id
+    AND (r.from_hospital_id = get_user_hospital(auth.uid()) OR r.to_hospital_id = get_user_hospital(auth.uid()))
+  )
+);
+
+-- Each transition names the permission it needs: clinical decisions stay with clinicians,
+-- while coordinators can still ask for more information
+ALTER TABLE public.referral_status_transitions
+ADD COLUMN required_permission TEXT NOT NULL DEFAULT 'referrals.clinical';
+
+UPDATE public.referral_status_transitions
+SET required_permission = 'referrals.triage'
+WHERE to_status = 'more_info_requested';
+
+UPDATE public.referral_status_transitions
+SET required_permission = 'referrals.create'
+WHERE from_status = 'more_info_requested' AND to_status = 'pending';
+
+-- The referral RPCs below check the permission matrix rather than the global admin role
+CREATE OR REPLACE FUNCTION public.get_allowed_referral_transitions(_referral_id UUID)
+RETURNS TABLE (to_status referral_status, requires_reason BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.to_status, t.requires_reason
+  FROM public.referrals r
+  JOIN public.referral_status_transitions t ON t.from_status = r.status
+  WHERE r.id = _referral_id
+    AND public.has_hospital_permission(
+      auth.uid(),
+      t.required_permission,
+      CASE t.actor_side WHEN 'sending' THEN r.from_hospital_id ELSE r.to_hospital_id END
+    )
+  ORDER BY t.to_status
+$$;
+
+CREATE OR REPLACE FUNCTION public.transition_referral_status(
+  _referral_id UUID,
+  _to_status referral_status,
+  _details TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _user_hospital UUID;
+  _referral public.referrals%ROWTYPE;
+  _rule public.referral_status_transitions%ROWTYPE;
+  _details_clean TEXT := nullif(btrim(_details), '');
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to update referrals', HINT = 'not_authenticated';
+  END IF;
+
+  _user_hospital := public.get_user_hospital(_user_id);
+
+  SELECT * INTO _referral FROM public.referrals WHERE id = _referral_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.has_role(_user_id, 'admin')
+    OR _referral.from_hospital_id = _user_hospital
+    OR _referral.to_hospital_id = _user_hospital
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  SELECT * INTO _rule
+  FROM public.referral_status_transitions
+  WHERE from_status = _referral.status AND to_status = _to_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('A %s referral cannot be moved to %s',
+        replace(_referral.status::text, '_', ' '), replace(_to_status::text, '_', ' ')),
+      HINT = 'invalid_transition';
+  END IF;
+
+  IF NOT (
+    public.has_role(_user_id, 'admin')
+    OR (_rule.actor_side = 'sending' AND _referral.from_hospital_id = _user_hospital)
+    OR (_rule.actor_side = 'receiving' AND _referral.to_hospital_id = _user_hospital)
+  ) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('Only the %s hospital can perform this action', _rule.actor_side),
+      HINT = 'forbidden';
+  END IF;
+
+  IF NOT public.has_hospital_permission(
+    _user_id,
+    _rule.required_permission,
+    CASE _rule.actor_side WHEN 'sending' THEN _referral.from_hospital_id ELSE _referral.to_hospital_id END
+  ) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Your role does not allow this action',
+      HINT = 'forbidden';
+  END IF;
+
+  IF _rule.requires_reason AND _details_clean IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'A reason is required for this action', HINT = 'reason_required';
+  END IF;
+
+  PERFORM set_config('app.referral_transition', 'on', true);
+  PERFORM set_config('app.activity_details', coalesce(_details_clean, ''), true);
+
+  UPDATE public.referrals
+  SET
+    status = _to_status,
+    rejection_reason = CASE WHEN _to_status = 'rejected' THEN _details_clean ELSE rejection_reason END,
+    patient_code = CASE WHEN _to_status = 'completed' THEN public.generate_patient_code() ELSE patient_code END,
+    assigned_doctor_id = CASE
+      WHEN _to_status IN ('accepted', 'in_treatment') THEN coalesce(assigned_doctor_id, _user_id)
+      ELSE assigned_doctor_id
+    END
+  WHERE id = _referral_id;
+
+  PERFORM set_config('app.referral_transition', 'off', true);
+END;
+$$;
+
+-- Coordinators at the receiving hospital may assign any of its referrals, leads their department's
+CREATE OR REPLACE FUNCTION public.can_assign_referral(_user_id UUID, _referral_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+      SELECT 1
+      FROM public.referrals r
+      WHERE r.id = _referral_id
+        AND public.has_hospital_permission(_user_id, 'referrals.assign', r.to_hospital_id)
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.referrals r
+      JOIN public.hospital_departments d ON d.hospital_id = r.to_hospital_id
+      JOIN public.department_members m ON m.department_id = d.id
+      WHERE r.id = _referral_id
+        AND m.user_id = _user_id
+        AND m.is_lead
+        AND (r.department_id IS NULL OR r.department_id = d.id)
+        AND public.get_user_hospital(_user_id) = r.to_hospital_id
+    )
+$$;
+
+-- Assignees must be able to take clinical responsibility
+CREATE OR REPLACE FUNCTION public.assign_referral(
+  _referral_id UUID,
+  _assignee_id UUID,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _referral public.referrals%ROWTYPE;
+  _reason_clean TEXT := nullif(btrim(_reason), '');
+  _assignee_name TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to assign referrals', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _referral FROM public.referrals WHERE id = _referral_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.has_role(_user_id, 'admin')
+    OR _referral.from_hospital_id = public.get_user_hospital(_user_id)
+    OR _referral.to_hospital_id = public.get_user_hospital(_user_id)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  IF NOT public.can_assign_referral(_user_id, _referral_id) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Only coordinators and department leads at the receiving hospital can assign referrals',
+      HINT = 'forbidden';
+  END IF;
+
+  IF _referral.status NOT IN ('pending', 'more_info_requested', 'accepted', 'in_treatment') THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('A %s referral cannot be reassigned', replace(_referral.status::text, '_', ' ')),
+      HINT = 'invalid_transition';
+  END IF;
+
+  SELECT full_name INTO _assignee_name
+  FROM public.profiles
+  WHERE id = _assignee_id AND hospital_id = _referral.to_hospital_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Referrals can only be assigned to doctors at the receiving hospital',
+      HINT = 'invalid_assignee';
+  END IF;
+
+  IF NOT public.has_permission(_assignee_id, 'referrals.clinical') THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('%s cannot take clinical responsibility for referrals', _assignee_name),
+      HINT = 'invalid_assignee';
+  END IF;
+
+  IF _referral.assigned_doctor_id = _assignee_id THEN
+    RETURN;
+  END IF;
+
+  IF _referral.assigned_doctor_id IS NOT NULL AND _reason_clean IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'A reason is required to reassign a referral', HINT = 'reason_required';
+  END IF;
+
+  PERFORM set_config('app.referral_transition', 'on', true);
+  PERFORM set_config('app.activity_details', coalesce(_reason_clean, ''), true);
+
+  UPDATE public.referrals
+  SET assigned_doctor_id = _assignee_id
+  WHERE id = _referral_id;
+
+  PERFORM set_config('app.referral_transition', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.forward_referral(
+  _referral_id UUID,
+  _to_hospital_id UUID,
+  _reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _user_hospital UUID;
+  _parent public.referrals%ROWTYPE;
+  _child_id UUID;
+  _reason_clean TEXT := nullif(btrim(_reason), '');
+  _target_name TEXT;
+  _source_name TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to forward referrals', HINT = 'not_authenticated';
+  END IF;
+
+  _user_hospital := public.get_user_hospital(_user_id);
+
+  SELECT * INTO _parent FROM public.referrals WHERE id = _referral_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.has_role(_user_id, 'admin')
+    OR _parent.from_hospital_id = _user_hospital
+    OR _parent.to_hospital_id = _user_hospital
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  IF NOT public.has_hospital_permission(_user_id, 'referrals.triage', _parent.to_hospital_id) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Only the receiving hospital can forward a referral', HINT = 'forbidden';
+  END IF;
+
+  IF _parent.status NOT IN ('pending', 'more_info_requested', 'accepted') THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('A %s referral cannot be forwarded', replace(_parent.status::text, '_', ' ')),
+      HINT = 'invalid_transition';
+  END IF;
+
+  IF _to_hospital_id IS NULL OR _to_hospital_id IN (_parent.from_hospital_id, _parent.to_hospital_id) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Choose a hospital other than the referring and receiving hospitals',
+      HINT = 'invalid_transition';
+  END IF;
+
+  SELECT name INTO _target_name FROM public.hospitals WHERE id = _to_hospital_id;
+  IF _target_name IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Hospital not found', HINT = 'not_found';
+  END IF;
+
+  IF _reason_clean IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'A reason is required for this action', HINT = 'reason_required';
+  END IF;
+
+  SELECT name INTO _source_name FROM public.hospitals WHERE id = _parent.to_hospital_id;
+
+  INSERT INTO public.referrals (
+    patient_name, patient_age, patient_contact, patient_medical_id,
+    medical_summary, reason, urgency, specialty,
+    from_hospital_id, to_hospital_id, created_by, status, parent_referral_id
+  )
+  VALUES (
+    _parent.patient_name, _parent.patient_age, _parent.patient_contact, _parent.patient_medical_id,
+    _parent.medical_summary, _reason_clean, _parent.urgency, _parent.specialty,
+    _parent.to_hospital_id, _to_hospital_id, _user_id, 'pending', _parent.id
+  )
+  RETURNING id INTO _child_id;
+
+  INSERT INTO public.referral_attachments (referral_id, file_name, file_path, file_type, file_size, uploaded_by, created_at)
+  SELECT _child_id, a.file_name, _child_id || '/' || regexp_replace(a.file_path, '^.*/', ''),
+         a.file_type, a.file_size, a.uploaded_by, a.created_at
+  FROM public.referral_attachments a
+  WHERE a.referral_id = _parent.id;
+
+  INSERT INTO public.referral_messages (referral_id, sender_id, message, is_read, created_at)
+  SELECT _child_id, m.sender_id, m.message, false, m.created_at
+  FROM public.referral_messages m
+  WHERE m.referral_id = _parent.id;
+
+  PERFORM set_config('app.referral_transition', 'on', true);
+  PERFORM set_config('app.activity_action', 'Forwarded to ' || _target_name, true);
+  PERFORM set_config('app.activity_details', _reason_clean, true);
+
+  UPDATE public.referrals
+  SET status = 'rejected',
+      rejection_reason = format('Forwarded to %s: %s', _target_name, _reason_clean)
+  WHERE id = _parent.id;
+
+  PERFORM set_config('app.referral_transition', 'off', true);
+
+  INSERT INTO public.referral_activity_logs (referral_id, action, performed_by, details)
+  VALUES (_child_id, 'Forwarded from ' || coalesce(_source_name, 'another hospital'), _user_id, _reason_clean);
+
+  RETURN _child_id;
+END;
+$$;
+
+-- Hospital admins and auditors see the access patterns of their own hospital's staff
+CREATE OR REPLACE FUNCTION public.phi_access_anomalies(_days INTEGER DEFAULT 7)
+RETURNS TABLE(
+  user_id UUID,
+  user_name TEXT,
+  pattern TEXT,
+  access_count BIGINT,
+  referral_count BIGINT,
+  first_at TIMESTAMP WITH TIME ZONE,
+  last_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+  _hospital_id UUID := public.get_user_hospital(auth.uid());
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'audit.view') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Only admins and auditors can review access patterns', HINT = 'forbidden';
+  END IF;
+
+  RETURN QUERY
+  WITH recent AS (
+    SELECT l.*
+    FROM public.phi_access_logs l
+    WHERE l.accessed_at > now() - make_interval(days => _days)
+      -- Hospital admins and auditors review their own staff
+      AND (_is_admin OR l.hospital_id = _hospital_id)
+  ),
+  flagged AS (
+    SELECT l.user_id, 'high_volume'::TEXT AS pattern, count(*) AS access_count,
+           count(DISTINCT l.referral_id) AS referral_count, min(l.accessed_at) AS first_at, max(l.accessed_at) AS last_at
+    FROM recent l
+    WHERE l.action = 'view'
+    GROUP BY l.user_id, date_trunc('hour', l.accessed_at)
+    HAVING count(DISTINCT l.referral_id) >= 25
+
+    UNION ALL
+    SELECT l.user_id, 'bulk_export', count(*), count(DISTINCT l.referral_id), min(l.accessed_at), max(l.accessed_at)
+    FROM recent l
+    WHERE l.action IN ('pdf_export', 'print', 'attachment_download')
+    GROUP BY l.user_id, date_trunc('hour', l.accessed_at)
+    HAVING count(*) >= 15
+
+    UNION ALL
+    SELECT l.user_id, 'code_lookups', count(*), count(DISTINCT l.referral_id), min(l.accessed_at), max(l.accessed_at)
+    FROM recent l
+    WHERE l.action = 'code_lookup'
+    GROUP BY l.user_id, date_trunc('day', l.accessed_at)
+    HAVING count(*) >= 20
+
+    UNION ALL
+    SELECT l.user_id, 'outside_hospital', count(*), count(DISTINCT l.referral_id), min(l.accessed_at), max(l.accessed_at)
+    FROM recent l
+    JOIN public.referrals r ON r.id = l.referral_id
+    WHERE NOT public.has_role(l.user_id, 'admin')
+      AND l.hospital_id IS DISTINCT FROM r.from_hospital_id
+      AND l.hospital_id IS DISTINCT FROM r.to_hospital_id
+    GROUP BY l.user_id
+  )
+  SELECT f.user_id, p.full_name, f.pattern, f.access_count, f.referral_count, f.first_at, f.last_at
+  FROM flagged f
+  LEFT JOIN public.profiles p ON p.id = f.user_id
+  ORDER BY f.last_at DESC;
+END;
+$$;
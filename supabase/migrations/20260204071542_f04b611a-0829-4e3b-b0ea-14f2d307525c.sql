@@ -0,0 +1,167 @@
+-- Accounts are created and switched off by the admin-users edge function, which holds the
+-- service role key. The functions below carry the permission checks and the database half
+-- of each change so a failure leaves nothing behind.
+
+ALTER TABLE public.profiles
+  ADD COLUMN deactivated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deactivated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Users cannot reactivate themselves by editing their own profile
+CREATE OR REPLACE FUNCTION public.guard_profile_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(current_setting('app.membership_change', true), '') = 'on'
+     OR auth.uid() IS NULL
+     OR public.has_role(auth.uid(), 'admin') THEN
+    IF TG_OP = 'INSERT' AND auth.uid() IS NOT NULL AND public.has_role(auth.uid(), 'admin') THEN
+      NEW.verification_status := 'verified';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.hospital_id := NULL;
+    NEW.verification_status := 'pending';
+    NEW.deactivated_at := NULL;
+    NEW.deactivated_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.hospital_id IS DISTINCT FROM OLD.hospital_id
+     OR NEW.verification_status IS DISTINCT FROM OLD.verification_status THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Hospital membership can only be changed by an administrator',
+      HINT = 'forbidden';
+  END IF;
+
+  IF NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at
+     OR NEW.deactivated_by IS DISTINCT FROM OLD.deactivated_by THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Accounts can only be deactivated by an administrator',
+      HINT = 'forbidden';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Global admins may create any account; hospital admins create staff for their own hospital
+CREATE OR REPLACE FUNCTION public.can_provision_role(_actor_id UUID, _hospital_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_actor_id, 'admin')
+    OR (
+      _role IN ('doctor', 'coordinator', 'auditor')
+      AND public.can_manage_hospital_members(_actor_id, _hospital_id)
+    )
+$$;
+
+-- Whether the actor may deactivate or reactivate this user. Nobody switches off their own
+-- account, and hospital admins only reach staff holding roles they could have granted.
+CREATE OR REPLACE FUNCTION public.can_manage_user(_actor_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _actor_id <> _user_id
+    AND (
+      public.has_role(_actor_id, 'admin')
+      OR (
+        public.can_manage_hospital_members(_actor_id, public.get_user_hospital(_user_id))
+        AND NOT EXISTS (
+          SELECT 1 FROM public.user_roles
+          WHERE user_id = _user_id
+            AND role NOT IN ('doctor', 'coordinator', 'auditor')
+        )
+      )
+    )
+$$;
+
+-- Profile and role for an auth user the edge function has just created. The signup trigger
+-- already gave the user the default role, which is replaced by the one chosen here.
+CREATE OR REPLACE FUNCTION public.provision_user(
+  _actor_id UUID,
+  _user_id UUID,
+  _email TEXT,
+  _full_name TEXT,
+  _hospital_id UUID,
+  _specialty TEXT,
+  _role app_role
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_provision_role(_actor_id, _hospital_id, _role) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'You cannot create this account',
+      HINT = 'forbidden';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.profiles WHERE id = _user_id) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'This user already has a profile',
+      HINT = 'already_member';
+  END IF;
+
+  INSERT INTO public.profiles (id, email, full_name, hospital_id, specialty, verification_status)
+  VALUES (
+    _user_id,
+    _email,
+    _full_name,
+    _hospital_id,
+    nullif(btrim(_specialty), ''),
+    CASE WHEN _hospital_id IS NOT NULL OR _role = 'admin' THEN 'verified' ELSE 'pending' END
+  );
+
+  DELETE FROM public.user_roles WHERE user_id = _user_id;
+  INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, _role);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_active(_actor_id UUID, _user_id UUID, _active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = _user_id) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'User not found', HINT = 'not_found';
+  END IF;
+
+  IF NOT public.can_manage_user(_actor_id, _user_id) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'You cannot change this account',
+      HINT = 'forbidden';
+  END IF;
+
+  UPDATE public.profiles
+  SET deactivated_at = CASE WHEN _active THEN NULL ELSE now() END,
+      deactivated_by = CASE WHEN _active THEN NULL ELSE _actor_id END
+  WHERE id = _user_id;
+END;
+$$;
+
+-- Only the edge function may create or switch off accounts
+REVOKE EXECUTE ON FUNCTION public.provision_user(UUID, UUID, TEXT, TEXT, UUID, TEXT, app_role) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_user_active(UUID, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.provision_user(UUID, UUID, TEXT, TEXT, UUID, TEXT, app_role) TO service_role;
+GRANT EXECUTE ON FUNCTION public.set_user_active(UUID, UUID, BOOLEAN) TO service_role;
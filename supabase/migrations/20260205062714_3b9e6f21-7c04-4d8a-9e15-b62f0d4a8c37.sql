@@ -0,0 +1,137 @@
+-- Sign-in sessions live in auth.sessions, which clients cannot read. These functions expose a
+-- user's own sessions and let them, or an administrator, end them. Deleting a session stops
+-- its refresh token at once; an access token already issued stays usable until it expires.
+
+-- The caller's live sessions. Where auth.sessions did not record the network details, they are
+-- taken from the login_success event logged closest to the session's start.
+CREATE OR REPLACE FUNCTION public.list_my_sessions()
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_active_at TIMESTAMP WITH TIME ZONE,
+  ip_address TEXT,
+  user_agent TEXT,
+  aal TEXT,
+  is_current BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    coalesce(s.refreshed_at AT TIME ZONE 'UTC', s.updated_at, s.created_at) AS last_active_at,
+    coalesce(host(s.ip), l.ip_address) AS ip_address,
+    coalesce(s.user_agent, l.user_agent) AS user_agent,
+    s.aal::TEXT,
+    s.id::TEXT = (auth.jwt() ->> 'session_id') AS is_current
+  FROM auth.sessions s
+  LEFT JOIN LATERAL (
+    SELECT sl.ip_address, sl.user_agent
+    FROM public.security_logs sl
+    WHERE sl.user_id = s.user_id
+      AND sl.event_type = 'login_success'
+      AND sl.created_at BETWEEN s.created_at - interval '5 minutes' AND s.created_at + interval '5 minutes'
+    ORDER BY abs(extract(epoch FROM sl.created_at - s.created_at))
+    LIMIT 1
+  ) l ON true
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY last_active_at DESC
+$$;
+
+-- End one of the caller's other sessions; the current one is ended by signing out
+CREATE OR REPLACE FUNCTION public.revoke_my_session(_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to manage sessions', HINT = 'not_authenticated';
+  END IF;
+
+  IF _session_id::TEXT = (auth.jwt() ->> 'session_id') THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Sign out to end the session you are using',
+      HINT = 'forbidden';
+  END IF;
+
+  DELETE FROM auth.sessions WHERE id = _session_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Session not found', HINT = 'not_found';
+  END IF;
+
+  INSERT INTO public.security_logs (event_type, user_id, email, details)
+  SELECT 'session_revoked', _user_id, p.email, jsonb_build_object('session_id', _session_id)
+  FROM public.profiles p
+  WHERE p.id = _user_id;
+END;
+$$;
+
+-- Every session of the caller except, when asked, the one making the call. Returns how many ended.
+CREATE OR REPLACE FUNCTION public.revoke_my_sessions(_keep_current BOOLEAN DEFAULT true)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _count INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to manage sessions', HINT = 'not_authenticated';
+  END IF;
+
+  DELETE FROM auth.sessions
+  WHERE user_id = _user_id
+    AND (NOT _keep_current OR id::TEXT IS DISTINCT FROM (auth.jwt() ->> 'session_id'));
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  INSERT INTO public.security_logs (event_type, user_id, email, details)
+  SELECT 'sessions_revoked', _user_id, p.email,
+    jsonb_build_object('count', _count, 'kept_current', _keep_current)
+  FROM public.profiles p
+  WHERE p.id = _user_id;
+
+  RETURN _count;
+END;
+$$;
+
+-- Administrator side, used by the admin-users edge function when forcing a sign-out or deactivating
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(_actor_id UUID, _user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  IF NOT public.can_manage_user(_actor_id, _user_id) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'You cannot change this account',
+      HINT = 'forbidden';
+  END IF;
+
+  DELETE FROM auth.sessions WHERE user_id = _user_id;
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_my_sessions() FROM anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_my_session(UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_my_sessions(BOOLEAN) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_user_sessions(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_user_sessions(UUID, UUID) TO service_role;
@@ -0,0 +1,242 @@
+-- Two-factor sign-in policies. A policy applies to everyone, one role, one hospital, or one role
+-- at one hospital. Once a policy applies, a user has its grace period to enrol a TOTP factor;
+-- after that, or as soon as they have enrolled, referral data needs an aal2 session.
+
+CREATE TABLE public.mfa_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  role app_role, -- NULL applies to every role
+  hospital_id UUID REFERENCES public.hospitals(id) ON DELETE CASCADE, -- NULL applies to every hospital
+  grace_period_days INTEGER NOT NULL DEFAULT 7 CHECK (grace_period_days BETWEEN 0 AND 90),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_mfa_policies_scope
+  ON public.mfa_policies (coalesce(role::TEXT, ''), coalesce(hospital_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+ALTER TABLE public.mfa_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view policies that may apply to them"
+ON public.mfa_policies
+FOR SELECT
+TO authenticated
+USING (
+  hospital_id IS NULL
+  OR hospital_id = public.get_user_hospital(auth.uid())
+  OR public.has_role(auth.uid(), 'admin')
+);
+
+-- Hospital admins can tighten sign-in for their own hospital; network-wide policies are for global admins
+CREATE POLICY "Admins can create MFA policies"
+ON public.mfa_policies
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin')
+  OR (hospital_id IS NOT NULL AND public.has_hospital_permission(auth.uid(), 'hospital.configure', hospital_id))
+);
+
+CREATE POLICY "Admins can update MFA policies"
+ON public.mfa_policies
+FOR UPDATE
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin')
+  OR (hospital_id IS NOT NULL AND public.has_hospital_permission(auth.uid(), 'hospital.configure', hospital_id))
+)
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin')
+  OR (hospital_id IS NOT NULL AND public.has_hospital_permission(auth.uid(), 'hospital.configure', hospital_id))
+);
+
+CREATE POLICY "Admins can delete MFA policies"
+ON public.mfa_policies
+FOR DELETE
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin')
+  OR (hospital_id IS NOT NULL AND public.has_hospital_permission(auth.uid(), 'hospital.configure', hospital_id))
+);
+
+-- When the user must have two-factor sign-in by, or NULL when no policy applies. The grace period
+-- runs from the later of the policy's creation and the user joining.
+CREATE OR REPLACE FUNCTION public.mfa_deadline(_user_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT min(greatest(mp.created_at, p.created_at) + make_interval(days => mp.grace_period_days))
+  FROM public.mfa_policies mp
+  JOIN public.profiles p ON p.id = _user_id
+  WHERE (mp.hospital_id IS NULL OR mp.hospital_id = p.hospital_id)
+    AND (
+      mp.role IS NULL
+      OR EXISTS (SELECT 1 FROM public.user_roles ur WHERE ur.user_id = _user_id AND ur.role = mp.role)
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_mfa_factor(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM auth.mfa_factors
+    WHERE user_id = _user_id
+      AND status = 'verified'
+  )
+$$;
+
+-- Whether the caller's session satisfies the policies that apply to them. Service calls have no
+-- user and are not subject to policy.
+CREATE OR REPLACE FUNCTION public.meets_mfa_policy()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    OR (
+      SELECT deadline IS NULL OR (now() < deadline AND NOT public.has_mfa_factor(auth.uid()))
+      FROM (SELECT public.mfa_deadline(auth.uid()) AS deadline) d
+    )
+$$;
+
+-- Restrictive policies are ANDed with the existing ones, so they only ever narrow access
+CREATE POLICY "Referral data requires MFA where policy applies"
+ON public.referrals
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.meets_mfa_policy())
+WITH CHECK (public.meets_mfa_policy());
+
+CREATE POLICY "Referral data requires MFA where policy applies"
+ON public.referral_activity_logs
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.meets_mfa_policy())
+WITH CHECK (public.meets_mfa_policy());
+
+CREATE POLICY "Referral data requires MFA where policy applies"
+ON public.referral_messages
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.meets_mfa_policy())
+WITH CHECK (public.meets_mfa_policy());
+
+CREATE POLICY "Referral data requires MFA where policy applies"
+ON public.referral_attachments
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.meets_mfa_policy())
+WITH CHECK (public.meets_mfa_policy());
+
+CREATE POLICY "Referral data requires MFA where policy applies"
+ON public.patient_followups
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.meets_mfa_policy())
+WITH CHECK (public.meets_mfa_policy());
+
+-- The status, assignment and forwarding RPCs write through SECURITY DEFINER and skip RLS, so
+-- referral changes are also checked here
+CREATE OR REPLACE FUNCTION public.enforce_mfa_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.meets_mfa_policy() THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Two-factor authentication is required to change referrals',
+      HINT = 'mfa_required';
+  END IF;
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER enforce_mfa_policy
+BEFORE INSERT OR UPDATE OR DELETE ON public.referrals
+FOR EACH ROW EXECUTE FUNCTION public.enforce_mfa_policy();
+
+-- Who has and has not enrolled, for admins and auditors. Non-admins see their own hospital.
+-- status: enrolled, pending (inside the grace period), overdue, or optional (no policy applies)
+CREATE OR REPLACE FUNCTION public.mfa_compliance_report()
+RETURNS TABLE(
+  user_id UUID,
+  full_name TEXT,
+  email TEXT,
+  hospital_id UUID,
+  hospital_name TEXT,
+  role app_role,
+  mfa_enrolled BOOLEAN,
+  deadline TIMESTAMP WITH TIME ZONE,
+  status TEXT,
+  last_sign_in_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+  _hospital_id UUID := public.get_user_hospital(auth.uid());
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'audit.view') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Only admins and auditors can review MFA compliance', HINT = 'forbidden';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.full_name,
+    p.email,
+    p.hospital_id,
+    h.name,
+    (
+      SELECT ur.role FROM public.user_roles ur
+      WHERE ur.user_id = p.id
+      ORDER BY array_position(ARRAY['admin', 'hospital_admin', 'doctor', 'coordinator', 'auditor']::app_role[], ur.role)
+      LIMIT 1
+    ),
+    x.enrolled,
+    x.deadline,
+    CASE
+      WHEN x.enrolled THEN 'enrolled'
+      WHEN x.deadline IS NULL THEN 'optional'
+      WHEN x.deadline > now() THEN 'pending'
+      ELSE 'overdue'
+    END,
+    u.last_sign_in_at
+  FROM public.profiles p
+  LEFT JOIN public.hospitals h ON h.id = p.hospital_id
+  LEFT JOIN auth.users u ON u.id = p.id
+  CROSS JOIN LATERAL (
+    SELECT public.has_mfa_factor(p.id) AS enrolled, public.mfa_deadline(p.id) AS deadline
+  ) x
+  WHERE p.deactivated_at IS NULL
+    AND (_is_admin OR p.hospital_id = _hospital_id)
+  ORDER BY
+    CASE WHEN x.enrolled THEN 3 WHEN x.deadline IS NULL THEN 2 WHEN x.deadline > now() THEN 1 ELSE 0 END,
+    x.deadline NULLS LAST,
+    p.full_name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mfa_compliance_report() FROM anon;
+REVOKE EXECUTE ON FUNCTION public.mfa_deadline(UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.has_mfa_factor(UUID) FROM anon;
@@ -0,0 +1,111 @@
+-- One-time recovery codes for two-factor sign-in. Only hashes are stored; the codes are shown once,
+-- when generated, and a code that has been used cannot be used again.
+
+CREATE TABLE public.mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_mfa_recovery_codes_user ON public.mfa_recovery_codes (user_id);
+
+-- No policies: the hashes are only reachable through the functions below
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Codes are typed by hand, so case, spaces and dashes do not matter
+CREATE OR REPLACE FUNCTION public.hash_mfa_recovery_code(_code TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(extensions.digest(upper(regexp_replace(_code, '[^A-Za-z0-9]', '', 'g')), 'sha256'), 'hex')
+$$;
+
+-- Replaces the caller's codes with ten new ones and returns them. Needs a two-factor session, so a
+-- stolen password alone cannot mint codes.
+CREATE OR REPLACE FUNCTION public.generate_mfa_recovery_codes()
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _codes TEXT[] := '{}';
+  _code TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to create recovery codes', HINT = 'not_authenticated';
+  END IF;
+
+  IF coalesce(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Verify with your authenticator app before creating recovery codes',
+      HINT = 'mfa_required';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = _user_id;
+
+  FOR i IN 1..10 LOOP
+    _code := upper(encode(extensions.gen_random_bytes(5), 'hex'));
+    _code := substr(_code, 1, 5) || '-' || substr(_code, 6, 5);
+    _codes := _codes || _code;
+
+    INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+    VALUES (_user_id, public.hash_mfa_recovery_code(_code));
+  END LOOP;
+
+  INSERT INTO public.security_logs (event_type, user_id, email, details)
+  SELECT 'mfa_recovery_codes_generated', _user_id, p.email, jsonb_build_object('count', 10)
+  FROM public.profiles p
+  WHERE p.id = _user_id;
+
+  RETURN _codes;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mfa_recovery_codes_remaining()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM public.mfa_recovery_codes
+  WHERE user_id = auth.uid()
+    AND used_at IS NULL
+$$;
+
+-- Marks the code used and reports whether it was valid. Service only: the mfa-recovery edge function
+-- throttles attempts and removes the lost factors once a code checks out.
+CREATE OR REPLACE FUNCTION public.consume_mfa_recovery_code(_user_id UUID, _code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.mfa_recovery_codes
+  SET used_at = now()
+  WHERE id = (
+    SELECT id FROM public.mfa_recovery_codes
+    WHERE user_id = _user_id
+      AND used_at IS NULL
+      AND code_hash = public.hash_mfa_recovery_code(_code)
+    LIMIT 1
+    FOR UPDATE
+  );
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_mfa_recovery_codes() FROM anon;
+REVOKE EXECUTE ON FUNCTION public.mfa_recovery_codes_remaining() FROM anon;
+REVOKE EXECUTE ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT) TO service_role;
@@ -0,0 +1,40 @@
+-- Saved AI assistant conversations: the ai-assistant edge function now writes each doctor-mode turn
+-- here and reads earlier turns back, so the history list needs an index and a search.
+
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_user_updated
+  ON public.chat_conversations (user_id, updated_at DESC);
+
+-- The caller's conversations whose title or any message contains the text, newest first, with the
+-- first matching message as a snippet. Runs as the caller, so RLS keeps it to their own.
+CREATE OR REPLACE FUNCTION public.search_chat_conversations(_query TEXT)
+RETURNS TABLE(
+  id UUID,
+  title TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH pattern AS (
+    SELECT '%' || replace(replace(replace(trim(_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value
+  )
+  SELECT c.id, c.title, c.updated_at, m.content
+  FROM public.chat_conversations c
+  CROSS JOIN pattern p
+  LEFT JOIN LATERAL (
+    SELECT msg ->> 'content' AS content
+    FROM jsonb_array_elements(c.messages) msg
+    WHERE msg ->> 'content' ILIKE p.value
+    LIMIT 1
+  ) m ON true
+  WHERE c.user_id = auth.uid()
+    AND length(trim(_query)) > 0
+    AND (c.title ILIKE p.value OR m.content IS NOT NULL)
+  ORDER BY c.updated_at DESC
+  LIMIT 50
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_chat_conversations(TEXT) FROM anon;
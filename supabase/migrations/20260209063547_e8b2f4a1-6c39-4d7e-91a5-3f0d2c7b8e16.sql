@@ -0,0 +1,50 @@
+-- Doctor-mode assistant replies can carry proposed actions (a status change or a drafted message) in
+-- chat_conversations.messages. Once the doctor confirms or dismisses one, its state is stored so a
+-- reopened conversation does not offer it again.
+CREATE OR REPLACE FUNCTION public.resolve_chat_action(
+  _conversation_id UUID,
+  _action_id TEXT,
+  _state TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in', HINT = 'not_authenticated';
+  END IF;
+
+  IF _state NOT IN ('confirmed', 'dismissed') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'State must be confirmed or dismissed', HINT = 'invalid_state';
+  END IF;
+
+  UPDATE public.chat_conversations c
+  SET messages = (
+    SELECT coalesce(jsonb_agg(
+      CASE WHEN jsonb_typeof(m.msg -> 'actions') = 'array' THEN
+        jsonb_set(m.msg, '{actions}', (
+          SELECT jsonb_agg(
+            CASE WHEN a.action ->> 'id' = _action_id
+              THEN a.action || jsonb_build_object('state', _state)
+              ELSE a.action
+            END ORDER BY a.ord
+          )
+          FROM jsonb_array_elements(m.msg -> 'actions') WITH ORDINALITY AS a(action, ord)
+        ))
+      ELSE m.msg END
+      ORDER BY m.idx
+    ), '[]'::jsonb)
+    FROM jsonb_array_elements(c.messages) WITH ORDINALITY AS m(msg, idx)
+  )
+  WHERE c.id = _conversation_id
+    AND c.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Conversation not found', HINT = 'not_found';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_chat_action(UUID, TEXT, TEXT) FROM anon;
@@ -0,0 +1,32 @@
+-- Audit trail for AI-drafted referral letters. The referral-draft edge function writes one row per
+-- request with the exact prompt sent and the model that answered, so a letter's wording can be traced
+-- back to what produced it. Rows are written with the service role and never changed.
+
+CREATE TABLE public.ai_draft_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  hospital_id UUID REFERENCES public.hospitals(id) ON DELETE SET NULL,
+  template_id UUID REFERENCES public.referral_templates(id) ON DELETE SET NULL,
+  specialty TEXT,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt JSONB NOT NULL,
+  draft JSONB, -- NULL when the model's answer could not be used
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_draft_logs_user ON public.ai_draft_logs (user_id, created_at DESC);
+CREATE INDEX idx_ai_draft_logs_hospital ON public.ai_draft_logs (hospital_id, created_at DESC);
+
+ALTER TABLE public.ai_draft_logs ENABLE ROW LEVEL SECURITY;
+
+-- Doctors see their own drafts; auditors see their hospital's, admins everyone's
+CREATE POLICY "Users can view AI draft logs they may audit"
+ON public.ai_draft_logs
+FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR public.has_role(auth.uid(), 'admin')
+  OR (hospital_id IS NOT NULL AND public.has_hospital_permission(auth.uid(), 'audit.view', hospital_id))
+);
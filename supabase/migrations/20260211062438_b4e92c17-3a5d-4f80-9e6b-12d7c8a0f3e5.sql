@@ -0,0 +1,154 @@
+-- Forwarding used to insert the child's attachment rows before the browser copied the files, so a
+-- failed copy left rows pointing at files that don't exist. forward_referral no longer copies them;
+-- the client copies each file and then records it with attach_forwarded_file.
+
+CREATE OR REPLACE FUNCTION public.forward_referral(
+  _referral_id UUID,
+  _to_hospital_id UUID,
+  _reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _user_hospital UUID;
+  _parent public.referrals%ROWTYPE;
+  _child_id UUID;
+  _reason_clean TEXT := nullif(btrim(_reason), '');
+  _target_name TEXT;
+  _source_name TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to forward referrals', HINT = 'not_authenticated';
+  END IF;
+
+  _user_hospital := public.get_user_hospital(_user_id);
+
+  SELECT * INTO _parent FROM public.referrals WHERE id = _referral_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.has_role(_user_id, 'admin')
+    OR _parent.from_hospital_id = _user_hospital
+    OR _parent.to_hospital_id = _user_hospital
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Referral not found', HINT = 'not_found';
+  END IF;
+
+  IF NOT public.has_hospital_permission(_user_id, 'referrals.triage', _parent.to_hospital_id) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Only the receiving hospital can forward a referral', HINT = 'forbidden';
+  END IF;
+
+  IF _parent.status NOT IN ('pending', 'more_info_requested', 'accepted') THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = format('A %s referral cannot be forwarded', replace(_parent.status::text, '_', ' ')),
+      HINT = 'invalid_transition';
+  END IF;
+
+  IF _to_hospital_id IS NULL OR _to_hospital_id IN (_parent.from_hospital_id, _parent.to_hospital_id) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Choose a hospital other than the referring and receiving hospitals',
+      HINT = 'invalid_transition';
+  END IF;
+
+  SELECT name INTO _target_name FROM public.hospitals WHERE id = _to_hospital_id;
+  IF _target_name IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Hospital not found', HINT = 'not_found';
+  END IF;
+
+  IF _reason_clean IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'A reason is required for this action', HINT = 'reason_required';
+  END IF;
+
+  SELECT name INTO _source_name FROM public.hospitals WHERE id = _parent.to_hospital_id;
+
+  INSERT INTO public.referrals (
+    patient_name, patient_age, patient_contact, patient_medical_id,
+    medical_summary, reason, urgency, specialty,
+    from_hospital_id, to_hospital_id, created_by, status, parent_referral_id
+  )
+  VALUES (
+    _parent.patient_name, _parent.patient_age, _parent.patient_contact, _parent.patient_medical_id,
+    _parent.medical_summary, _reason_clean, _parent.urgency, _parent.specialty,
+    _parent.to_hospital_id, _to_hospital_id, _user_id, 'pending', _parent.id
+  )
+  RETURNING id INTO _child_id;
+
+  INSERT INTO public.referral_messages (referral_id, sender_id, message, is_read, created_at)
+  SELECT _child_id, m.sender_id, m.message, false, m.created_at
+  FROM public.referral_messages m
+  WHERE m.referral_id = _parent.id;
+
+  PERFORM set_config('app.referral_transition', 'on', true);
+  PERFORM set_config('app.activity_action', 'Forwarded to ' || _target_name, true);
+  PERFORM set_config('app.activity_details', _reason_clean, true);
+
+  UPDATE public.referrals
+  SET status = 'rejected',
+      rejection_reason = format('Forwarded to %s: %s', _target_name, _reason_clean)
+  WHERE id = _parent.id;
+
+  PERFORM set_config('app.referral_transition', 'off', true);
+
+  INSERT INTO public.referral_activity_logs (referral_id, action, performed_by, details)
+  VALUES (_child_id, 'Forwarded from ' || coalesce(_source_name, 'another hospital'), _user_id, _reason_clean);
+
+  RETURN _child_id;
+END;
+$$;
+
+-- Records one parent attachment on a forwarded child once its file has been copied to
+-- <child id>/<file name>. Only staff who could forward the parent may call it, and each file once.
+CREATE OR REPLACE FUNCTION public.attach_forwarded_file(
+  _child_referral_id UUID,
+  _source_attachment_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _child public.referrals%ROWTYPE;
+  _source public.referral_attachments%ROWTYPE;
+  _path TEXT;
+  _attachment_id UUID;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _child FROM public.referrals WHERE id = _child_referral_id;
+  SELECT * INTO _source FROM public.referral_attachments WHERE id = _source_attachment_id;
+
+  IF _child.id IS NULL OR _source.id IS NULL OR _child.parent_referral_id IS DISTINCT FROM _source.referral_id THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Attachment not found', HINT = 'not_found';
+  END IF;
+
+  -- The child is sent from the hospital that received the parent
+  IF NOT public.has_hospital_permission(_user_id, 'referrals.triage', _child.from_hospital_id) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Only the forwarding hospital can attach files', HINT = 'forbidden';
+  END IF;
+
+  _path := _child.id || '/' || regexp_replace(_source.file_path, '^.*/', '');
+
+  SELECT id INTO _attachment_id
+  FROM public.referral_attachments
+  WHERE referral_id = _child.id AND file_path = _path;
+
+  IF _attachment_id IS NULL THEN
+    INSERT INTO public.referral_attachments (referral_id, file_name, file_path, file_type, file_size, uploaded_by, created_at)
+    VALUES (_child.id, _source.file_name, _path, _source.file_type, _source.file_size, _source.uploaded_by, _source.created_at)
+    RETURNING id INTO _attachment_id;
+  END IF;
+
+  RETURN _attachment_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.attach_forwarded_file(UUID, UUID) FROM anon;
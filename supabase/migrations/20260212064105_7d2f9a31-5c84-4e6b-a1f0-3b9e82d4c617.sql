@@ -0,0 +1,50 @@
+-- Routing rules must point at a department of the rule's own hospital
+ALTER TABLE public.hospital_departments
+  ADD CONSTRAINT hospital_departments_id_hospital_key UNIQUE (id, hospital_id);
+
+-- Rules that already point across hospitals could never have routed a referral without failing
+DELETE FROM public.referral_routing_rules rr
+USING public.hospital_departments d
+WHERE d.id = rr.department_id
+  AND d.hospital_id <> rr.hospital_id;
+
+ALTER TABLE public.referral_routing_rules
+  ADD CONSTRAINT referral_routing_rules_department_hospital_fkey
+  FOREIGN KEY (department_id, hospital_id)
+  REFERENCES public.hospital_departments(id, hospital_id) ON DELETE CASCADE;
+
+-- The check ran before routing (triggers fire in name order), so a routed department was never
+-- validated. Route and check in one trigger instead.
+DROP TRIGGER IF EXISTS check_referrals_department ON public.referrals;
+DROP FUNCTION IF EXISTS public.check_referral_department();
+
+CREATE OR REPLACE FUNCTION public.route_referral_to_department()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Routing happens on insert only
+  IF TG_OP = 'INSERT' AND NEW.department_id IS NULL THEN
+    NEW.department_id := public.resolve_referral_department(NEW.to_hospital_id, NEW.specialty, NEW.urgency);
+  END IF;
+
+  IF NEW.department_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.hospital_departments
+    WHERE id = NEW.department_id AND hospital_id = NEW.to_hospital_id
+  ) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Department does not belong to the receiving hospital',
+      HINT = 'invalid_department';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS route_referrals_to_department ON public.referrals;
+CREATE TRIGGER route_referrals_to_department
+BEFORE INSERT OR UPDATE OF department_id, to_hospital_id ON public.referrals
+FOR EACH ROW EXECUTE FUNCTION public.route_referral_to_department();
@@ -0,0 +1,61 @@
+-- outside_hospital could never match: log_phi_access only records reads the caller's RLS already
+-- allowed, and a referral is only readable from the hospitals on either end of it
+CREATE OR REPLACE FUNCTION public.phi_access_anomalies(_days INTEGER DEFAULT 7)
+RETURNS TABLE(
+  user_id UUID,
+  user_name TEXT,
+  pattern TEXT,
+  access_count BIGINT,
+  referral_count BIGINT,
+  first_at TIMESTAMP WITH TIME ZONE,
+  last_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+  _hospital_id UUID := public.get_user_hospital(auth.uid());
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'audit.view') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'Only admins and auditors can review access patterns', HINT = 'forbidden';
+  END IF;
+
+  RETURN QUERY
+  WITH recent AS (
+    SELECT l.*
+    FROM public.phi_access_logs l
+    WHERE l.accessed_at > now() - make_interval(days => _days)
+      -- Hospital admins and auditors review their own staff
+      AND (_is_admin OR l.hospital_id = _hospital_id)
+  ),
+  flagged AS (
+    SELECT l.user_id, 'high_volume'::TEXT AS pattern, count(*) AS access_count,
+           count(DISTINCT l.referral_id) AS referral_count, min(l.accessed_at) AS first_at, max(l.accessed_at) AS last_at
+    FROM recent l
+    WHERE l.action = 'view'
+    GROUP BY l.user_id, date_trunc('hour', l.accessed_at)
+    HAVING count(DISTINCT l.referral_id) >= 25
+
+    UNION ALL
+    SELECT l.user_id, 'bulk_export', count(*), count(DISTINCT l.referral_id), min(l.accessed_at), max(l.accessed_at)
+    FROM recent l
+    WHERE l.action IN ('pdf_export', 'print', 'attachment_download')
+    GROUP BY l.user_id, date_trunc('hour', l.accessed_at)
+    HAVING count(*) >= 15
+
+    UNION ALL
+    SELECT l.user_id, 'code_lookups', count(*), count(DISTINCT l.referral_id), min(l.accessed_at), max(l.accessed_at)
+    FROM recent l
+    WHERE l.action = 'code_lookup'
+    GROUP BY l.user_id, date_trunc('day', l.accessed_at)
+    HAVING count(*) >= 20
+  )
+  SELECT f.user_id, p.full_name, f.pattern, f.access_count, f.referral_count, f.first_at, f.last_at
+  FROM flagged f
+  LEFT JOIN public.profiles p ON p.id = f.user_id
+  ORDER BY f.last_at DESC;
+END;
+$$;
@@ -0,0 +1,15 @@
+-- Direct updates were still open to anyone involved in a referral, whatever their role; auditors
+-- and hospital admins only read
+DROP POLICY "Doctors can update referrals they're involved in" ON public.referrals;
+CREATE POLICY "Staff can update referrals they're involved in" ON public.referrals FOR UPDATE TO authenticated
+USING (
+  (
+    public.has_role(auth.uid(), 'admin') OR
+    created_by = auth.uid() OR
+    to_hospital_id = public.get_user_hospital(auth.uid())
+  )
+  AND (
+    public.has_permission(auth.uid(), 'referrals.triage')
+    OR public.has_permission(auth.uid(), 'referrals.clinical')
+  )
+);
@@ -0,0 +1,86 @@
+-- Revoking a session deletes it from auth.sessions, but its access token stays valid until it
+-- expires. Whether the session behind the caller's token still exists; calls without a session
+-- (the service role) are not affected.
+CREATE OR REPLACE FUNCTION public.has_live_session()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.jwt() ->> 'session_id' IS NULL
+    OR EXISTS (
+      SELECT 1 FROM auth.sessions s
+      WHERE s.id = (auth.jwt() ->> 'session_id')::UUID
+        AND (s.not_after IS NULL OR s.not_after > now())
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.has_live_session() FROM anon;
+
+CREATE POLICY "Referral data requires a live session"
+ON public.referrals
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.has_live_session()))
+WITH CHECK ((SELECT public.has_live_session()));
+
+CREATE POLICY "Referral data requires a live session"
+ON public.referral_activity_logs
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.has_live_session()))
+WITH CHECK ((SELECT public.has_live_session()));
+
+CREATE POLICY "Referral data requires a live session"
+ON public.referral_messages
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.has_live_session()))
+WITH CHECK ((SELECT public.has_live_session()));
+
+CREATE POLICY "Referral data requires a live session"
+ON public.referral_attachments
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.has_live_session()))
+WITH CHECK ((SELECT public.has_live_session()));
+
+CREATE POLICY "Referral data requires a live session"
+ON public.patient_followups
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.has_live_session()))
+WITH CHECK ((SELECT public.has_live_session()));
+
+-- The SECURITY DEFINER referral RPCs skip RLS, so their writes are checked by the same trigger
+-- that enforces the MFA policy
+CREATE OR REPLACE FUNCTION public.enforce_mfa_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_live_session() THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Your session has ended. Sign in again.',
+      HINT = 'not_authenticated';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT public.meets_mfa_policy() THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Two-factor authentication is required to change referrals',
+      HINT = 'mfa_required';
+  END IF;
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$;
@@ -0,0 +1,45 @@
+-- Wrapped in a subquery so the planner evaluates the check once per statement, not once per row
+DROP POLICY "Referral data requires MFA where policy applies" ON public.referrals;
+CREATE POLICY "Referral data requires MFA where policy applies"
+ON public.referrals
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.meets_mfa_policy()))
+WITH CHECK ((SELECT public.meets_mfa_policy()));
+
+DROP POLICY "Referral data requires MFA where policy applies" ON public.referral_activity_logs;
+CREATE POLICY "Referral data requires MFA where policy applies"
+ON public.referral_activity_logs
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.meets_mfa_policy()))
+WITH CHECK ((SELECT public.meets_mfa_policy()));
+
+DROP POLICY "Referral data requires MFA where policy applies" ON public.referral_messages;
+CREATE POLICY "Referral data requires MFA where policy applies"
+ON public.referral_messages
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.meets_mfa_policy()))
+WITH CHECK ((SELECT public.meets_mfa_policy()));
+
+DROP POLICY "Referral data requires MFA where policy applies" ON public.referral_attachments;
+CREATE POLICY "Referral data requires MFA where policy applies"
+ON public.referral_attachments
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.meets_mfa_policy()))
+WITH CHECK ((SELECT public.meets_mfa_policy()));
+
+DROP POLICY "Referral data requires MFA where policy applies" ON public.patient_followups;
+CREATE POLICY "Referral data requires MFA where policy applies"
+ON public.patient_followups
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.meets_mfa_policy()))
+WITH CHECK ((SELECT public.meets_mfa_policy()));
@@ -0,0 +1,31 @@
+-- The AI draft a referral letter started from, so its wording can be traced to the logged prompt
+ALTER TABLE public.referrals
+  ADD COLUMN ai_draft_log_id UUID REFERENCES public.ai_draft_logs(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_referrals_ai_draft_log ON public.referrals (ai_draft_log_id)
+  WHERE ai_draft_log_id IS NOT NULL;
+
+-- A referral can only point at a draft its creator asked for
+CREATE OR REPLACE FUNCTION public.check_referral_ai_draft()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.ai_draft_log_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.ai_draft_logs
+    WHERE id = NEW.ai_draft_log_id AND user_id = NEW.created_by
+  ) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'The AI draft was not requested by the referral''s creator',
+      HINT = 'invalid_draft';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_referrals_ai_draft
+BEFORE INSERT OR UPDATE OF ai_draft_log_id ON public.referrals
+FOR EACH ROW EXECUTE FUNCTION public.check_referral_ai_draft();
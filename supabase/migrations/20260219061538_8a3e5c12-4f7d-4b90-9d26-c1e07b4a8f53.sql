@@ -0,0 +1,5 @@
+-- security_logs was open to inserts from any client, so events could be written around the
+-- security-logger catalogue with any event_type, ip_address or user_id. Edge functions write with
+-- the service role and SECURITY DEFINER functions as the table owner, neither of which needs this.
+DROP POLICY "Service can insert security logs" ON public.security_logs;
+REVOKE INSERT, UPDATE, DELETE ON public.security_logs FROM anon, authenticated;
@@ -0,0 +1,101 @@
+-- The lockout must only count failures the edge functions logged. Rows written before inserts
+-- were closed to clients, or by SECURITY DEFINER functions on a user's behalf, are not counted.
+ALTER TABLE public.security_logs
+  ADD COLUMN from_service_role BOOLEAN NOT NULL DEFAULT false;
+
+-- Set from the request's JWT, whatever the insert asked for
+CREATE OR REPLACE FUNCTION public.mark_security_log_source()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.from_service_role := coalesce(auth.role() = 'service_role', false);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_security_log_source
+BEFORE INSERT ON public.security_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.mark_security_log_source();
+
+CREATE OR REPLACE FUNCTION public.detect_brute_force()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _threshold INTEGER;
+  _window INTERVAL := interval '15 minutes';
+  _duration INTERVAL;
+  _label TEXT;
+  _existing public.blocked_ips%ROWTYPE;
+  _since TIMESTAMP WITH TIME ZONE;
+  _failures INTEGER;
+  _expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT NEW.from_service_role OR NEW.ip_address IS NULL OR NEW.ip_address = 'unknown' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.event_type = 'login_failure' THEN
+    _threshold := 5;
+    _duration := interval '30 minutes';
+    _label := 'failed logins';
+  ELSIF NEW.event_type = 'code_lookup_failure' THEN
+    _threshold := 10;
+    _duration := interval '1 hour';
+    _label := 'failed patient code lookups';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _existing FROM public.blocked_ips WHERE ip_address = NEW.ip_address;
+
+  -- Already locked out, by an admin or by an earlier run
+  IF FOUND AND _existing.is_active AND (_existing.expires_at IS NULL OR _existing.expires_at > now()) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Failures from before the previous block ended were already punished
+  _since := greatest(now() - _window, _existing.lifted_at, least(_existing.expires_at, now()));
+
+  SELECT count(*) INTO _failures
+  FROM public.security_logs
+  WHERE ip_address = NEW.ip_address
+    AND event_type = NEW.event_type
+    AND from_service_role
+    AND created_at > _since;
+
+  IF _failures < _threshold THEN
+    RETURN NEW;
+  END IF;
+
+  _expires_at := now() + _duration * power(2, least(coalesce(_existing.block_count, 0), 5));
+
+  INSERT INTO public.blocked_ips (ip_address, reason, expires_at, is_active, auto_blocked)
+  VALUES (NEW.ip_address, format('%s %s within 15 minutes', _failures, _label), _expires_at, true, true)
+  ON CONFLICT (ip_address) DO UPDATE SET
+    reason = EXCLUDED.reason,
+    blocked_by = NULL,
+    blocked_at = now(),
+    expires_at = EXCLUDED.expires_at,
+    is_active = true,
+    auto_blocked = true,
+    block_count = public.blocked_ips.block_count + 1,
+    lifted_at = NULL,
+    lifted_by = NULL;
+
+  INSERT INTO public.security_logs (event_type, ip_address, email, details)
+  VALUES (
+    'auto_block',
+    NEW.ip_address,
+    NEW.email,
+    jsonb_build_object('trigger', NEW.event_type, 'failures', _failures, 'expires_at', _expires_at)
+  );
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,107 @@
+-- Recovery codes were 40 random bits behind an unsalted SHA-256, which anyone able to read the table
+-- could reverse offline. Codes now carry 80 bits and are stored as bcrypt hashes with their own salt.
+-- The old codes cannot be upgraded in place, so they are dropped and users create new ones.
+
+-- Codes are typed by hand, so case, spaces and dashes do not matter
+CREATE OR REPLACE FUNCTION public.normalize_mfa_recovery_code(_code TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT upper(regexp_replace(_code, '[^A-Za-z0-9]', '', 'g'))
+$$;
+
+DROP FUNCTION public.hash_mfa_recovery_code(TEXT);
+
+DELETE FROM public.mfa_recovery_codes;
+
+-- Every redemption attempt, written only by consume_mfa_recovery_code. The mfa-recovery edge function
+-- throttles on the failures here; clients cannot read or write the table.
+CREATE TABLE public.mfa_recovery_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  succeeded BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_mfa_recovery_attempts_user ON public.mfa_recovery_attempts (user_id, created_at DESC);
+
+ALTER TABLE public.mfa_recovery_attempts ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mfa_recovery_attempts FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.generate_mfa_recovery_codes()
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _codes TEXT[] := '{}';
+  _code TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'You must be signed in to create recovery codes', HINT = 'not_authenticated';
+  END IF;
+
+  IF coalesce(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'P0001',
+      MESSAGE = 'Verify with your authenticator app before creating recovery codes',
+      HINT = 'mfa_required';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = _user_id;
+
+  FOR i IN 1..10 LOOP
+    _code := upper(encode(extensions.gen_random_bytes(10), 'hex'));
+    _code := substr(_code, 1, 5) || '-' || substr(_code, 6, 5) || '-' || substr(_code, 11, 5) || '-' || substr(_code, 16, 5);
+    _codes := _codes || _code;
+
+    INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+    VALUES (_user_id, extensions.crypt(public.normalize_mfa_recovery_code(_code), extensions.gen_salt('bf')));
+  END LOOP;
+
+  INSERT INTO public.security_logs (event_type, user_id, email, details)
+  SELECT 'mfa_recovery_codes_generated', _user_id, p.email, jsonb_build_object('count', 10)
+  FROM public.profiles p
+  WHERE p.id = _user_id;
+
+  RETURN _codes;
+END;
+$$;
+
+-- Marks the code used, records the attempt and reports whether the code was valid. Each stored hash
+-- has its own salt, so the code is checked against the user's unused codes one by one.
+CREATE OR REPLACE FUNCTION public.consume_mfa_recovery_code(_user_id UUID, _code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _normalized TEXT := public.normalize_mfa_recovery_code(_code);
+  _match_id UUID;
+BEGIN
+  SELECT id INTO _match_id
+  FROM public.mfa_recovery_codes
+  WHERE user_id = _user_id
+    AND used_at IS NULL
+    AND code_hash = extensions.crypt(_normalized, code_hash)
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _match_id IS NOT NULL THEN
+    UPDATE public.mfa_recovery_codes SET used_at = now() WHERE id = _match_id;
+  END IF;
+
+  INSERT INTO public.mfa_recovery_attempts (user_id, succeeded)
+  VALUES (_user_id, _match_id IS NOT NULL);
+
+  RETURN _match_id IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT) TO service_role;
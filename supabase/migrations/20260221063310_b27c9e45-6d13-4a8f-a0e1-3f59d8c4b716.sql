@@ -0,0 +1,43 @@
+-- Deactivated staff keep their profile row, but no longer belong to a hospital for access checks
+CREATE OR REPLACE FUNCTION public.get_user_hospital(_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT hospital_id FROM public.profiles WHERE id = _user_id AND deactivated_at IS NULL
+$$;
+
+-- Reactivating someone has to reach them while they are deactivated, so this reads the profile
+-- directly rather than through get_user_hospital
+CREATE OR REPLACE FUNCTION public.can_manage_user(_actor_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _actor_id <> _user_id
+    AND (
+      public.has_role(_actor_id, 'admin')
+      OR (
+        public.can_manage_hospital_members(
+          _actor_id,
+          (SELECT hospital_id FROM public.profiles WHERE id = _user_id)
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM public.user_roles
+          WHERE user_id = _user_id
+            AND role NOT IN ('doctor', 'coordinator', 'auditor')
+        )
+      )
+    )
+$$;
+
+-- Only the admin-users edge function and the provisioning functions need these answers; clients
+-- could otherwise probe other users' roles and who may manage them
+REVOKE EXECUTE ON FUNCTION public.can_provision_role(UUID, UUID, app_role) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.can_manage_user(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.can_provision_role(UUID, UUID, app_role) TO service_role;
+GRANT EXECUTE ON FUNCTION public.can_manage_user(UUID, UUID) TO service_role;
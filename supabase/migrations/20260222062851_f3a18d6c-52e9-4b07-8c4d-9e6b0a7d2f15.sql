@@ -0,0 +1,6 @@
+-- Every referral change goes through a SECURITY DEFINER RPC (transition_referral_status,
+-- assign_referral, forward_referral), which checks the caller and the fields it touches. A direct
+-- UPDATE left patient details, urgency, specialty and the receiving hospital writable by anyone the
+-- policy let in, so clients lose UPDATE on the table altogether.
+DROP POLICY "Staff can update referrals they're involved in" ON public.referrals;
+REVOKE UPDATE ON public.referrals FROM anon, authenticated;
@@ -0,0 +1,15 @@
+-- Attachment files are no longer readable straight from storage by hospital staff. Downloads go
+-- through the attachment-download edge function, which writes the phi_access_logs row before it
+-- hands out a short-lived signed URL, and forwarding copies files in forward-attachments.
+-- The uploader keeps read access to their own objects, which storage needs to finish uploads and
+-- deletes; nobody else can fetch a file without the access being recorded.
+DROP POLICY "Users can view attachments for their referrals" ON storage.objects;
+
+CREATE POLICY "Uploaders can read their own attachments"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'referral-documents'
+  AND owner_id = auth.uid()::text
+);